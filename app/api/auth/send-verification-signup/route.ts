@@ -6,6 +6,7 @@ import { getEmailVerificationTemplate } from "@/lib/email-templates"
 import { validateEmailFormat, canReceiveEmails, getEmailErrorMessage } from "@/lib/email-validation"
 import { badRequestResponse, notFoundResponse, successResponse, handleApiError } from "@/lib/api-response"
 import { isEmailServiceEnabled } from "@/lib/email-config"
+import { surfacePendingInvitations } from "@/lib/invitations"
 
 export async function POST(request: Request) {
   try {
@@ -53,6 +54,11 @@ export async function POST(request: Request) {
         data: { emailVerified: true },
       })
       console.log("📧 Email service disabled - auto-verifying email for user:", data.userId)
+      try {
+        await surfacePendingInvitations(data.userId)
+      } catch (error) {
+        console.error("Failed to surface pending invitations:", error)
+      }
       return successResponse(
         undefined,
         "Email automatically verified (email service is disabled)."
@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/prisma"
+import { surfacePendingInvitations } from "@/lib/invitations"
 import { verifyEmailSchema } from "@/lib/validation"
 import { badRequestResponse, successResponse, handleApiError } from "@/lib/api-response"
 
@@ -44,6 +45,14 @@ export async function POST(request: Request) {
       where: { id: verification.id },
     })
 
+    // Invitations sent to this email before the account existed can now be answered.
+    // The email is verified either way; a failure here is retried on the next sign-in.
+    try {
+      await surfacePendingInvitations(verification.userId)
+    } catch (error) {
+      console.error("Failed to surface pending invitations:", error)
+    }
+
     return successResponse(undefined, "Email verified successfully")
   } catch (error) {
     return handleApiError(error)
@@ -0,0 +1,48 @@
+import { timingSafeEqual } from "crypto"
+import { runOutlineReminders } from "@/lib/outline-reminders"
+import { unauthorizedResponse, successResponse, handleApiError } from "@/lib/api-response"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Schedulers send `Authorization: Bearer <CRON_SECRET>`; without a configured secret the route stays closed
+function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get("authorization") ?? "")
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+async function handleReminders(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get("dryRun") === "true"
+
+    const result = await runOutlineReminders({ dryRun })
+
+    return successResponse(
+      result,
+      `${dryRun ? "Would send" : "Sent"} ${result.dueSoon} due-soon and ${result.overdue} overdue reminder(s)`
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// GET /api/cron/outline-reminders?dryRun=true - Send due-soon and overdue reminders (scheduled daily)
+export async function GET(request: Request) {
+  return handleReminders(request)
+}
+
+// POST /api/cron/outline-reminders?dryRun=true - Same as GET, for schedulers that only POST
+export async function POST(request: Request) {
+  return handleReminders(request)
+}
@@ -0,0 +1,193 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission, verifyOrgMembership } from "@/lib/auth-utils"
+import { diffFields, documentAuditFields, getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { documentOwnerInclude, findOrgDocument, getDocumentProgress } from "@/lib/documents"
+import { publishOrgEvent } from "@/lib/realtime"
+import { orgIdSchema, updateDocumentSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+type DocumentRouteParams = { params: Promise<{ id: string }> }
+
+// GET /api/documents/[id]?orgId=...
+export async function GET(request: Request, { params }: DocumentRouteParams) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const { orgId } = orgIdSchema.parse({ orgId: searchParams.get("orgId") ?? "" })
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    const document = await findOrgDocument(orgId, id)
+    if (!document) {
+      return notFoundResponse("Document")
+    }
+
+    const progress = await getDocumentProgress(orgId, [id])
+
+    return successResponse({ document: { ...document, ...progress.get(id) } })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH /api/documents/[id]
+export async function PATCH(request: Request, { params }: DocumentRouteParams) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = updateDocumentSchema.parse(body)
+
+    await requirePermission(user.id, data.orgId, "document:update", "You do not have permission to update documents")
+
+    const existingDocument = await findOrgDocument(data.orgId, id)
+    if (!existingDocument) {
+      return notFoundResponse("Document")
+    }
+
+    const updateData: {
+      title?: string
+      status?: string
+      dueDate?: Date | null
+      ownerId?: string | null
+    } = {}
+
+    if (data.title !== undefined) updateData.title = data.title
+    if (data.status !== undefined) updateData.status = data.status
+    if (data.dueDate !== undefined) updateData.dueDate = data.dueDate
+    if (data.ownerId !== undefined) updateData.ownerId = data.ownerId
+
+    if (Object.keys(updateData).length === 0) {
+      return badRequestResponse("No fields to update", "NO_UPDATE_FIELDS")
+    }
+
+    if (data.ownerId && !(await verifyOrgMembership(data.ownerId, data.orgId))) {
+      return badRequestResponse("Owner must be a member of this organization", "INVALID_OWNER")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const document = await prisma.$transaction(async (tx) => {
+      const updated = await tx.document.update({
+        where: { id },
+        data: updateData,
+        include: documentOwnerInclude,
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: data.orgId,
+        action: "document.updated",
+        targetType: "document",
+        targetId: id,
+        changes: diffFields(existingDocument, updated, documentAuditFields),
+      })
+
+      return updated
+    })
+
+    await publishOrgEvent({
+      type: "document.changed",
+      organizationId: data.orgId,
+      documentId: id,
+      change: "updated",
+      actorId: user.id,
+    })
+
+    const progress = await getDocumentProgress(data.orgId, [id])
+
+    return successResponse({ document: { ...document, ...progress.get(id) } }, "Document updated successfully")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/documents/[id]?orgId=... - Delete a document with no outlines, trashed ones included
+export async function DELETE(request: Request, { params }: DocumentRouteParams) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get("orgId")
+
+    if (!orgId) {
+      return badRequestResponse("orgId is required", "MISSING_ORG_ID")
+    }
+
+    await requirePermission(user.id, orgId, "document:delete", "You do not have permission to delete documents")
+
+    const existingDocument = await findOrgDocument(orgId, id)
+    if (!existingDocument) {
+      return notFoundResponse("Document")
+    }
+
+    // Outlines go through the trash one by one, so a document is only removed once it is empty
+    const liveOutlines = await prisma.outline.count({
+      where: { documentId: id, deletedAt: null },
+    })
+    if (liveOutlines > 0) {
+      return badRequestResponse(
+        "Move this document's outlines to the trash before deleting it",
+        "DOCUMENT_NOT_EMPTY"
+      )
+    }
+
+    // Deleting the document would remove its trashed outlines before their retention window ends
+    const trashedOutlines = await prisma.outline.count({
+      where: { documentId: id, deletedAt: { not: null } },
+    })
+    if (trashedOutlines > 0) {
+      return badRequestResponse(
+        "This document still has outlines in the trash. Restore them, or wait until they are permanently deleted, before deleting it",
+        "DOCUMENT_HAS_TRASHED_OUTLINES"
+      )
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    await prisma.$transaction(async (tx) => {
+      await tx.document.delete({
+        where: { id },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: orgId,
+        action: "document.deleted",
+        targetType: "document",
+        targetId: id,
+        changes: diffFields(existingDocument, null, documentAuditFields),
+      })
+    })
+
+    await publishOrgEvent({
+      type: "document.changed",
+      organizationId: orgId,
+      documentId: id,
+      change: "deleted",
+      actorId: user.id,
+    })
+
+    return successResponse(undefined, "Document deleted")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,162 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission, verifyOrgMembership } from "@/lib/auth-utils"
+import { diffFields, documentAuditFields, getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { documentOwnerInclude, getDocumentProgress } from "@/lib/documents"
+import { getOutlineConfig } from "@/lib/outline-config"
+import {
+  findMissingSectionTypes,
+  findOutlineTemplate,
+  instantiateOutlineTemplate,
+  type OutlineTemplate,
+} from "@/lib/outline-templates"
+import { publishOrgEvent } from "@/lib/realtime"
+import { createDocumentSchema, orgIdSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/documents?orgId=... - An organization's documents, newest first, with outline progress
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { orgId } = orgIdSchema.parse({ orgId: searchParams.get("orgId") ?? "" })
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    const documents = await prisma.document.findMany({
+      where: { organizationId: orgId },
+      include: documentOwnerInclude,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    })
+
+    const progress = await getDocumentProgress(
+      orgId,
+      documents.map((document) => document.id)
+    )
+
+    return successResponse({
+      documents: documents.map((document) => ({
+        ...document,
+        ...progress.get(document.id),
+      })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/documents - Create a document, optionally filled from an outline template
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = createDocumentSchema.parse(body)
+
+    await requirePermission(user.id, data.orgId, "document:create", "You do not have permission to create documents")
+
+    const ownerId = data.ownerId === undefined ? user.id : data.ownerId
+    if (ownerId && ownerId !== user.id && !(await verifyOrgMembership(ownerId, data.orgId))) {
+      return badRequestResponse("Owner must be a member of this organization", "INVALID_OWNER")
+    }
+
+    let templateScope: { template: OutlineTemplate; status: string } | null = null
+    if (data.templateId) {
+      await requirePermission(user.id, data.orgId, "outline:create", "You do not have permission to create outlines")
+
+      const [template, config] = await Promise.all([
+        findOutlineTemplate(data.orgId, data.templateId),
+        getOutlineConfig(data.orgId),
+      ])
+      if (!template) {
+        return notFoundResponse("Template")
+      }
+
+      const missingSectionTypes = findMissingSectionTypes(template, config)
+      if (missingSectionTypes.length > 0) {
+        return badRequestResponse(
+          `Add these section types in the outline settings first: ${missingSectionTypes.join(", ")}`,
+          "TEMPLATE_SECTION_TYPES_MISSING",
+          { sectionTypes: missingSectionTypes }
+        )
+      }
+
+      templateScope = { template, status: config.statuses[0] }
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const { document, outlines } = await prisma.$transaction(
+      async (tx) => {
+        const created = await tx.document.create({
+          data: {
+            organizationId: data.orgId,
+            title: data.title,
+            status: data.status,
+            dueDate: data.dueDate,
+            ownerId,
+          },
+          include: documentOwnerInclude,
+        })
+
+        await recordAuditEvent(tx, auditContext, {
+          organizationId: data.orgId,
+          action: "document.created",
+          targetType: "document",
+          targetId: created.id,
+          changes: diffFields(null, created, documentAuditFields),
+          metadata: templateScope ? { templateId: templateScope.template.id } : undefined,
+        })
+
+        // The document and its template sections are created together, or not at all
+        const outlines = templateScope
+          ? await instantiateOutlineTemplate(tx, auditContext, {
+              organizationId: data.orgId,
+              documentId: created.id,
+              ...templateScope,
+            })
+          : []
+
+        return { document: created, outlines }
+      },
+      // Templates can have a few hundred sections
+      { timeout: 60_000 }
+    )
+
+    await publishOrgEvent({
+      type: "document.changed",
+      organizationId: data.orgId,
+      documentId: document.id,
+      change: "created",
+      actorId: user.id,
+    })
+    if (outlines.length > 0) {
+      await publishOrgEvent({
+        type: "outline.created",
+        organizationId: data.orgId,
+        outlineIds: outlines.map((outline) => outline.id),
+        actorId: user.id,
+      })
+    }
+
+    return successResponse(
+      { document: { ...document, outlineCount: outlines.length, doneCount: 0 } },
+      "Document created successfully"
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
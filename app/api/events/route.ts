@@ -0,0 +1,101 @@
+import { getSessionUser } from "@/lib/auth"
+import { requirePermission } from "@/lib/auth-utils"
+import { getEventBroker, orgChannel, userChannel, type RealtimeEvent } from "@/lib/realtime"
+import { orgIdSchema } from "@/lib/validation"
+import { unauthorizedResponse, handleApiError } from "@/lib/api-response"
+
+// Streams stay open for as long as the page does
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Proxies close connections that stay silent for too long
+const HEARTBEAT_INTERVAL_MS = 25_000
+// How long the browser waits before reconnecting after a dropped stream
+const RECONNECT_DELAY_MS = 5_000
+
+// GET /api/events?orgId=... - Server-Sent Events for the current user and, optionally, one organization
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const rawOrgId = searchParams.get("orgId")
+    const orgId = rawOrgId ? orgIdSchema.parse({ orgId: rawOrgId }).orgId : null
+
+    if (orgId) {
+      await requirePermission(user.id, orgId, "outline:read")
+    }
+
+    const broker = getEventBroker()
+    const encoder = new TextEncoder()
+    const unsubscribers: (() => void)[] = []
+    let heartbeat: ReturnType<typeof setInterval> | undefined
+    let closed = false
+    let close = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribers.forEach((unsubscribe) => unsubscribe())
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            close()
+          }
+        }
+
+        const send = (event: RealtimeEvent) => {
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+
+          // A member who leaves or is removed stops receiving the organization's events
+          if (
+            event.type === "member.changed" &&
+            event.userId === user.id &&
+            (event.change === "left" || event.change === "removed")
+          ) {
+            close()
+          }
+        }
+
+        unsubscribers.push(broker.subscribe(userChannel(user.id), send))
+        if (orgId) {
+          unsubscribers.push(broker.subscribe(orgChannel(orgId), send))
+        }
+
+        write(`retry: ${RECONNECT_DELAY_MS}\n: connected\n\n`)
+        heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS)
+        request.signal.addEventListener("abort", close)
+      },
+      cancel() {
+        close()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stop nginx from buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
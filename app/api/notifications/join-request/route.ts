@@ -1,5 +1,9 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { DEFAULT_MEMBER_ROLE } from "@/lib/permissions"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent, publishOrgEvent } from "@/lib/realtime"
 import { joinRequestSchema } from "@/lib/validation"
 import { sendEmail } from "@/lib/email"
 import { getJoinRequestAcceptedTemplate, getJoinRequestRejectedTemplate } from "@/lib/email-templates"
@@ -83,18 +87,21 @@ export async function POST(request: Request) {
       }
     }
 
-    // Verify user is the owner of the organization
+    // Approving a join request adds a member, so it takes the same permission as inviting one
     const org = await prisma.organization.findUnique({
       where: { id: organizationId },
     })
 
-    if (!org) {
+    if (!org || org.deletedAt) {
       return notFoundResponse("Organization")
     }
 
-    if (org.ownerId !== user.id) {
-      return forbiddenResponse("Only organization owner can accept/reject requests")
-    }
+    await requirePermission(
+      user.id,
+      org.id,
+      "member:invite",
+      "You do not have permission to accept or reject join requests"
+    )
 
     if (data.action === "accept") {
       // Check if user is already a member
@@ -119,13 +126,33 @@ export async function POST(request: Request) {
         )
       }
 
+      const auditContext = await getAuditContext(request, user.id)
+
       // Add user as member
-      await prisma.organizationMember.create({
-        data: {
+      await prisma.$transaction(async (tx) => {
+        await tx.organizationMember.create({
+          data: {
+            organizationId,
+            userId: requestingUserId,
+            role: DEFAULT_MEMBER_ROLE,
+          },
+        })
+
+        await recordAuditEvent(tx, auditContext, {
           organizationId,
-          userId: requestingUserId,
-          role: "member",
-        },
+          action: "member.joined",
+          targetType: "member",
+          targetId: requestingUserId,
+          metadata: { source: "join_request", role: DEFAULT_MEMBER_ROLE },
+        })
+      })
+
+      await publishOrgEvent({
+        type: "member.changed",
+        organizationId,
+        userId: requestingUserId,
+        change: "joined",
+        actorId: user.id,
       })
 
       // Create notification for the requesting user
@@ -141,6 +168,7 @@ export async function POST(request: Request) {
           }),
         },
       })
+      await publishNotificationEvent(requestingUserId)
 
       // Send email notification
       try {
@@ -197,6 +225,7 @@ export async function POST(request: Request) {
           }),
         },
       })
+      await publishNotificationEvent(requestingUserId)
 
       // Send email notification
       try {
@@ -0,0 +1,79 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { auditQuerySchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+/**
+ * Parse a JSON column, tolerating rows written by hand or truncated
+ */
+function parseJson(value: string | null): unknown {
+  if (!value) {
+    return null
+  }
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+// GET /api/org/audit?orgId=...&action=...&targetType=...&actorId=...&from=...&to=...&cursor=...&limit=...
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = auditQuerySchema.parse(Object.fromEntries(searchParams))
+
+    await requirePermission(user.id, query.orgId, "audit:read", "Only the organization owner can view the audit log")
+
+    // Fetch one extra row to know whether another page exists
+    const events = await prisma.auditEvent.findMany({
+      where: {
+        organizationId: query.orgId,
+        action: query.action,
+        targetType: query.targetType,
+        targetId: query.targetId,
+        actorId: query.actorId,
+        createdAt: {
+          gte: query.from,
+          lte: query.to,
+        },
+      },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    })
+
+    const hasMore = events.length > query.limit
+    const page = hasMore ? events.slice(0, query.limit) : events
+
+    return successResponse({
+      events: page.map((event) => ({
+        ...event,
+        changes: parseJson(event.changes),
+        metadata: parseJson(event.metadata),
+      })),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
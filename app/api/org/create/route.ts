@@ -1,11 +1,10 @@
 import { getSessionUser } from "@/lib/auth"
-import { prisma } from "@/lib/prisma"
+import { prisma, type PrismaTransactionClient } from "@/lib/prisma"
 import { createOrgSchema, generateSlug } from "@/lib/validation"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { seedOutlineOptions } from "@/lib/outline-config"
 import { unauthorizedResponse, badRequestResponse, successResponse, handleApiError } from "@/lib/api-response"
 
-// Type helper for Prisma transaction client
-type PrismaTransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
-
 // POST /api/org/create
 export async function POST(request: Request) {
   try {
@@ -69,6 +68,8 @@ export async function POST(request: Request) {
       )
     }
 
+    const auditContext = await getAuditContext(request, user.id)
+
     // Create organization and add owner as member in a transaction
     const result = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
       // Create organization
@@ -89,6 +90,16 @@ export async function POST(request: Request) {
         },
       })
 
+      await seedOutlineOptions(tx, org.id)
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: org.id,
+        action: "organization.created",
+        targetType: "organization",
+        targetId: org.id,
+        metadata: { name: org.name, slug: org.slug },
+      })
+
       return org
     })
 
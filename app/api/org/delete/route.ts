@@ -1,11 +1,13 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { compare } from "bcryptjs"
+import { requirePermission, verifyUserPassword } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { getPurgeDate, getTrashRetentionDays } from "@/lib/trash"
+import { publishNotificationEvent } from "@/lib/realtime"
 import { z } from "zod"
 import {
   unauthorizedResponse,
   badRequestResponse,
-  forbiddenResponse,
   notFoundResponse,
   successResponse,
   handleApiError,
@@ -32,14 +34,17 @@ export async function DELETE(request: Request) {
       where: { id: data.orgId },
     })
 
-    if (!org) {
+    if (!org || org.deletedAt) {
       return notFoundResponse("Organization")
     }
 
-    // Verify user is the owner
-    if (org.ownerId !== user.id) {
-      return forbiddenResponse("Only the organization owner can delete the organization")
-    }
+    // Verify user is allowed to delete the organization
+    await requirePermission(
+      user.id,
+      data.orgId,
+      "org:delete",
+      "Only the organization owner can delete the organization"
+    )
 
     // Get owner's email and account for password verification
     const owner = await prisma.user.findUnique({
@@ -54,31 +59,21 @@ export async function DELETE(request: Request) {
       return notFoundResponse("User")
     }
 
-    // Get account with password (better-auth stores password in Account table)
-    const account = await prisma.account.findFirst({
-      where: {
-        userId: user.id,
-        providerId: "credential",
-      },
-      select: {
-        password: true,
-      },
-    })
+    const passwordCheck = await verifyUserPassword(user.id, data.password)
 
-    if (!account || !account.password) {
+    if (passwordCheck === "no_password") {
       return badRequestResponse(
         "Password verification failed. Please ensure your account has a password set.",
         "NO_PASSWORD"
       )
     }
 
-    // Verify password using bcryptjs compare (same method used by better-auth)
-    const isPasswordValid = await compare(data.password, account.password)
-    
-    if (!isPasswordValid) {
+    if (passwordCheck === "invalid") {
       return badRequestResponse("Incorrect password. Please try again.", "INVALID_PASSWORD")
     }
 
+    const retentionDays = getTrashRetentionDays()
+
     // Get all organization members (including owner) before deletion
     const allMembers = await prisma.organizationMember.findMany({
       where: { organizationId: data.orgId },
@@ -135,6 +130,7 @@ export async function DELETE(request: Request) {
     )
 
     await Promise.all(notificationPromises)
+    await publishNotificationEvent(...userIdsToNotify)
 
     // Send email notifications to all members and owner
     const { sendEmail } = await import("@/lib/email")
@@ -146,12 +142,12 @@ export async function DELETE(request: Request) {
         sendEmail({
           to: ownerUser.email,
           subject: `Organization "${org.name}" Deleted`,
-          text: `The organization "${org.name}" has been deleted successfully.`,
+          text: `The organization "${org.name}" has been deleted successfully. You can restore it from the trash within ${retentionDays} days.`,
           html: `
             <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
               <h2>Organization Deleted</h2>
               <p>The organization <strong>"${org.name}"</strong> has been deleted successfully.</p>
-              <p>All associated data, members, and content have been removed.</p>
+              <p>It stays in your trash for ${retentionDays} days and can be restored with all of its members and outlines. After that it is removed permanently.</p>
             </div>
           `,
         }).catch((error) => {
@@ -187,14 +183,29 @@ export async function DELETE(request: Request) {
       console.error("Error sending deletion emails:", error)
     })
 
-    // Delete the organization (cascade will handle related records)
-    await prisma.organization.delete({
-      where: { id: data.orgId },
+    const auditContext = await getAuditContext(request, user.id)
+
+    // Move the organization to the trash; members and outlines are kept until it is purged
+    const deletedAt = new Date()
+
+    await prisma.$transaction(async (tx) => {
+      await tx.organization.update({
+        where: { id: data.orgId },
+        data: { deletedAt },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: org.id,
+        action: "organization.deleted",
+        targetType: "organization",
+        targetId: org.id,
+        metadata: { name: org.name, slug: org.slug, memberCount: allMembers.length },
+      })
     })
 
     return successResponse(
-      undefined,
-      `Organization "${org.name}" has been deleted successfully`
+      { purgeAt: getPurgeDate(deletedAt) },
+      `Organization "${org.name}" has been moved to the trash`
     )
   } catch (error) {
     return handleApiError(error)
@@ -0,0 +1,47 @@
+import { prisma } from "@/lib/prisma"
+import { notFoundResponse, successResponse, handleApiError } from "@/lib/api-response"
+
+// GET /api/org/invitations/[id] - Public summary of a pending invitation for the signup page.
+// The ID only reaches the invitee through their invitation email, so no session is needed.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const invitation = await prisma.invitation.findUnique({
+      where: { id },
+      select: {
+        email: true,
+        role: true,
+        status: true,
+        expiresAt: true,
+        organization: {
+          select: { name: true, deletedAt: true },
+        },
+        user: {
+          select: { name: true, email: true },
+        },
+      },
+    })
+
+    if (
+      !invitation ||
+      invitation.status !== "pending" ||
+      invitation.expiresAt <= new Date() ||
+      invitation.organization.deletedAt
+    ) {
+      return notFoundResponse("Invitation")
+    }
+
+    return successResponse({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        organizationName: invitation.organization.name,
+        inviterName: invitation.user.name || invitation.user.email,
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
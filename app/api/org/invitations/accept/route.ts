@@ -1,7 +1,11 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { DEFAULT_MEMBER_ROLE } from "@/lib/permissions"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent, publishOrgEvent } from "@/lib/realtime"
 import {
   unauthorizedResponse,
+  forbiddenResponse,
   badRequestResponse,
   notFoundResponse,
   successResponse,
@@ -33,6 +37,7 @@ export async function POST(request: Request) {
             id: true,
             name: true,
             ownerId: true,
+            deletedAt: true,
           },
         },
         user: {
@@ -49,6 +54,10 @@ export async function POST(request: Request) {
       return notFoundResponse("Invitation")
     }
 
+    if (invitation.organization.deletedAt) {
+      return notFoundResponse("Organization")
+    }
+
     // Check if invitation is expired
     if (new Date() > invitation.expiresAt) {
       // Update invitation status to expired
@@ -75,6 +84,19 @@ export async function POST(request: Request) {
       )
     }
 
+    // An invitation belongs to whoever owns the address, so it must be verified.
+    // Read it from the database: the session's cached user may predate verification.
+    const dbUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { emailVerified: true },
+    })
+    if (!dbUser?.emailVerified) {
+      return forbiddenResponse(
+        "Verify your email address before accepting this invitation",
+        "EMAIL_NOT_VERIFIED"
+      )
+    }
+
     // Check if user is already a member
     const existingMember = await prisma.organizationMember.findUnique({
       where: {
@@ -97,19 +119,39 @@ export async function POST(request: Request) {
       )
     }
 
-    // Add user as member
-    await prisma.organizationMember.create({
-      data: {
+    const auditContext = await getAuditContext(request, user.id)
+
+    // Add user as member and mark the invitation accepted together
+    await prisma.$transaction(async (tx) => {
+      await tx.organizationMember.create({
+        data: {
+          organizationId: invitation.organizationId,
+          userId: user.id,
+          role: invitation.role || DEFAULT_MEMBER_ROLE,
+        },
+      })
+
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { status: "accepted" },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
         organizationId: invitation.organizationId,
-        userId: user.id,
-        role: invitation.role || "member",
-      },
+        action: "invitation.accepted",
+        targetType: "invitation",
+        targetId: invitation.id,
+        changes: { status: { before: invitation.status, after: "accepted" } },
+        metadata: { email: invitation.email, role: invitation.role || DEFAULT_MEMBER_ROLE },
+      })
     })
 
-    // Update invitation status to accepted
-    await prisma.invitation.update({
-      where: { id: invitation.id },
-      data: { status: "accepted" },
+    await publishOrgEvent({
+      type: "member.changed",
+      organizationId: invitation.organizationId,
+      userId: user.id,
+      change: "joined",
+      actorId: user.id,
     })
 
     // Mark the original invitation notification as read
@@ -143,6 +185,7 @@ export async function POST(request: Request) {
         }),
       },
     })
+    await publishNotificationEvent(user.id)
 
     // Create notification for the organization owner
     await prisma.notification.create({
@@ -160,6 +203,7 @@ export async function POST(request: Request) {
         }),
       },
     })
+    await publishNotificationEvent(invitation.organization.ownerId)
 
     // Send email notification to owner
     try {
@@ -195,7 +239,7 @@ export async function POST(request: Request) {
         member: {
           userId: user.id,
           organizationId: invitation.organizationId,
-          role: invitation.role || "member",
+          role: invitation.role || DEFAULT_MEMBER_ROLE,
         },
       },
       `Successfully joined "${invitation.organization.name}"`
@@ -1,5 +1,7 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent } from "@/lib/realtime"
 import {
   unauthorizedResponse,
   badRequestResponse,
@@ -58,10 +60,23 @@ export async function POST(request: Request) {
       )
     }
 
+    const auditContext = await getAuditContext(request, user.id)
+
     // Update invitation status to rejected
-    await prisma.invitation.update({
-      where: { id: invitation.id },
-      data: { status: "rejected" },
+    await prisma.$transaction(async (tx) => {
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { status: "rejected" },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: invitation.organizationId,
+        action: "invitation.rejected",
+        targetType: "invitation",
+        targetId: invitation.id,
+        changes: { status: { before: invitation.status, after: "rejected" } },
+        metadata: { email: invitation.email },
+      })
     })
 
     // Mark the notification as read
@@ -99,6 +114,7 @@ export async function POST(request: Request) {
         }),
       },
     })
+    await publishNotificationEvent(invitation.organization.ownerId)
 
     return successResponse(
       undefined,
@@ -1,5 +1,9 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { DEFAULT_MEMBER_ROLE, PermissionError } from "@/lib/permissions"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent, publishOrgEvent } from "@/lib/realtime"
 import {
   unauthorizedResponse,
   badRequestResponse,
@@ -88,13 +92,13 @@ export async function GET(request: Request) {
       }
     }
 
-    // Get the organization owner (notification recipient)
-    const owner = await prisma.user.findUnique({
+    // The notification recipient is the one approving or rejecting
+    const approver = await prisma.user.findUnique({
       where: { id: notification.userId },
     })
 
-    if (!owner) {
-      return NextResponse.redirect(new URL(`${workspaceUrl}?error=Organization owner not found`, request.url))
+    if (!approver) {
+      return NextResponse.redirect(new URL(`${workspaceUrl}?error=Join request recipient not found`, request.url))
     }
 
     // Verify organization exists
@@ -102,13 +106,18 @@ export async function GET(request: Request) {
       where: { id: organizationId },
     })
 
-    if (!org) {
+    if (!org || org.deletedAt) {
       return NextResponse.redirect(new URL(`${workspaceUrl}?error=Organization not found`, request.url))
     }
 
-    // Verify the notification belongs to the organization owner
-    if (org.ownerId !== notification.userId) {
-      return NextResponse.redirect(new URL(`${workspaceUrl}?error=You do not have permission to process this request`, request.url))
+    // Approving a join request adds a member, so it takes the same permission as inviting one
+    try {
+      await requirePermission(approver.id, org.id, "member:invite")
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return NextResponse.redirect(new URL(`${workspaceUrl}?error=You do not have permission to process this request`, request.url))
+      }
+      throw error
     }
 
     if (action === "accept") {
@@ -131,13 +140,33 @@ export async function GET(request: Request) {
         return NextResponse.redirect(new URL(`${workspaceUrl}?message=User is already a member`, request.url))
       }
 
+      const auditContext = await getAuditContext(request, approver.id)
+
       // Add user as member
-      await prisma.organizationMember.create({
-        data: {
+      await prisma.$transaction(async (tx) => {
+        await tx.organizationMember.create({
+          data: {
+            organizationId,
+            userId: requestingUserId,
+            role: DEFAULT_MEMBER_ROLE,
+          },
+        })
+
+        await recordAuditEvent(tx, auditContext, {
           organizationId,
-          userId: requestingUserId,
-          role: "member",
-        },
+          action: "member.joined",
+          targetType: "member",
+          targetId: requestingUserId,
+          metadata: { source: "join_request", role: DEFAULT_MEMBER_ROLE },
+        })
+      })
+
+      await publishOrgEvent({
+        type: "member.changed",
+        organizationId,
+        userId: requestingUserId,
+        change: "joined",
+        actorId: approver.id,
       })
 
       // Create notification for the requesting user
@@ -153,6 +182,7 @@ export async function GET(request: Request) {
           }),
         },
       })
+      await publishNotificationEvent(requestingUserId)
 
       // Send email notification to requester (only if email service is enabled)
       if (requestingUserEmail) {
@@ -195,6 +225,7 @@ export async function GET(request: Request) {
           }),
         },
       })
+      await publishNotificationEvent(requestingUserId)
 
       // Send email notification to requester (only if email service is enabled)
       if (requestingUserEmail) {
@@ -1,6 +1,7 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { joinOrgSchema, generateSlug } from "@/lib/validation"
+import { publishNotificationEvent } from "@/lib/realtime"
 import {
   unauthorizedResponse,
   badRequestResponse,
@@ -32,7 +33,7 @@ export async function POST(request: Request) {
       where: { slug: normalizedSlug },
     })
 
-    if (!org) {
+    if (!org || org.deletedAt) {
       return notFoundResponse(`Organization with slug "${normalizedSlug}"`)
     }
 
@@ -84,6 +85,7 @@ export async function POST(request: Request) {
           }),
         },
       })
+      await publishNotificationEvent(org.ownerId)
       notificationId = notification.id
       console.log(`✅ Join request notification created for owner:`, {
         notificationId: notification.id,
@@ -0,0 +1,101 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { checkOrgAccess } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { unassignReviewerOutlines } from "@/lib/outline-reviewers"
+import { unassignDocumentOwner } from "@/lib/documents"
+import { publishNotificationEvent, publishOrgEvent } from "@/lib/realtime"
+import { leaveOrgSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/org/leave
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = leaveOrgSchema.parse(body)
+
+    const access = await checkOrgAccess(user.id, data.orgId)
+    if (!access.hasAccess || !access.member || !access.organization) {
+      return forbiddenResponse("You are not a member of this organization")
+    }
+
+    // The owner has to hand the organization over before leaving
+    if (access.isOwner) {
+      return badRequestResponse(
+        "The organization owner cannot leave. Transfer ownership or delete the organization instead.",
+        "OWNER_CANNOT_LEAVE"
+      )
+    }
+
+    const organization = access.organization
+    const member = access.member
+    const auditContext = await getAuditContext(request, user.id)
+
+    await prisma.$transaction(async (tx) => {
+      await tx.organizationMember.delete({
+        where: { id: member.id },
+      })
+
+      // Drop the org from any session that still has it selected
+      await tx.session.updateMany({
+        where: {
+          userId: user.id,
+          activeOrganizationId: organization.id,
+        },
+        data: { activeOrganizationId: null },
+      })
+
+      const unassignedOutlines = await unassignReviewerOutlines(tx, organization.id, user.id)
+      await unassignDocumentOwner(tx, organization.id, user.id)
+
+      await tx.notification.create({
+        data: {
+          type: "member_left",
+          title: "Member Left",
+          message: `${user.name || user.email} has left "${organization.name}"`,
+          userId: organization.ownerId,
+          metadata: JSON.stringify({
+            organizationId: organization.id,
+            organizationName: organization.name,
+            userId: user.id,
+            userName: user.name || user.email,
+            userEmail: user.email,
+          }),
+        },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: organization.id,
+        action: "member.left",
+        targetType: "member",
+        targetId: user.id,
+        changes: { role: { before: member.role, after: null } },
+        metadata: { unassignedOutlines },
+      })
+    })
+
+    await publishNotificationEvent(organization.ownerId)
+    await publishOrgEvent({
+      type: "member.changed",
+      organizationId: organization.id,
+      userId: user.id,
+      change: "left",
+      actorId: user.id,
+    })
+
+    return successResponse(undefined, `You have left "${organization.name}"`)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
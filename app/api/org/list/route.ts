@@ -12,7 +12,10 @@ export async function GET(request: Request) {
 
     // Get all organizations where user is a member
     const organizations = await prisma.organizationMember.findMany({
-      where: { userId: user.id },
+      where: {
+        userId: user.id,
+        organization: { deletedAt: null },
+      },
       include: {
         organization: {
           select: {
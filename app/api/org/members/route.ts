@@ -1,7 +1,12 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { checkOrgAccess, checkOrgOwner } from "@/lib/auth-utils"
-import { inviteMemberSchema } from "@/lib/validation"
+import { requirePermission } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { unassignReviewerOutlines } from "@/lib/outline-reviewers"
+import { unassignDocumentOwner } from "@/lib/documents"
+import { DEFAULT_MEMBER_ROLE, getRolePermissions } from "@/lib/permissions"
+import { inviteMemberSchema, updateMemberRoleSchema } from "@/lib/validation"
+import { publishNotificationEvent, publishOrgEvent } from "@/lib/realtime"
 import {
   unauthorizedResponse,
   badRequestResponse,
@@ -11,6 +16,12 @@ import {
   handleApiError,
 } from "@/lib/api-response"
 import { isEmailServiceEnabled } from "@/lib/email-config"
+import {
+  buildInvitationNotification,
+  getDaysUntilExpiration,
+  getInvitationAcceptLink,
+  getInvitationSignupLink,
+} from "@/lib/invitations"
 
 // GET /api/org/members?orgId=...
 export async function GET(request: Request) {
@@ -27,10 +38,7 @@ export async function GET(request: Request) {
       return badRequestResponse("orgId is required", "MISSING_ORG_ID")
     }
 
-    const access = await checkOrgAccess(user.id, orgId)
-    if (!access.hasAccess) {
-      return forbiddenResponse("You do not have access to this organization")
-    }
+    const access = await requirePermission(user.id, orgId, "member:read")
 
     const members = await prisma.organizationMember.findMany({
       where: { organizationId: orgId },
@@ -52,6 +60,8 @@ export async function GET(request: Request) {
     return successResponse({
       members,
       organization: access.organization,
+      role: access.role,
+      permissions: getRolePermissions(access.role),
     })
   } catch (error) {
     return handleApiError(error)
@@ -69,9 +79,16 @@ export async function POST(request: Request) {
     const body = await request.json()
     const data = inviteMemberSchema.parse(body)
 
-    const isOwner = await checkOrgOwner(user.id, data.orgId)
-    if (!isOwner) {
-      return forbiddenResponse("Only organization owner can invite members")
+    const access = await requirePermission(
+      user.id,
+      data.orgId,
+      "member:invite",
+      "You do not have permission to invite members"
+    )
+
+    // Only the owner can hand out admin rights
+    if (data.role === "admin" && !access.isOwner) {
+      return forbiddenResponse("Only the organization owner can invite admins")
     }
 
     // Check if organization exists
@@ -83,30 +100,27 @@ export async function POST(request: Request) {
       return notFoundResponse("Organization")
     }
 
-    // Check if user exists in database
+    // People without an account yet are invited too; they get a signup link instead
     const invitedUser = await prisma.user.findUnique({
       where: { email: data.email },
     })
 
-    // User must exist before sending invitation
-    if (!invitedUser) {
-      return notFoundResponse("User with this email address")
-    }
-
     // Prevent inviting yourself
-    if (invitedUser.id === user.id) {
+    if (invitedUser?.id === user.id) {
       return badRequestResponse("You cannot invite yourself", "CANNOT_INVITE_SELF")
     }
 
     // Check if already a member
-    const existingMember = await prisma.organizationMember.findUnique({
-      where: {
-        organizationId_userId: {
-          organizationId: data.orgId,
-          userId: invitedUser.id,
-        },
-      },
-    })
+    const existingMember = invitedUser
+      ? await prisma.organizationMember.findUnique({
+          where: {
+            organizationId_userId: {
+              organizationId: data.orgId,
+              userId: invitedUser.id,
+            },
+          },
+        })
+      : null
 
     if (existingMember) {
       return badRequestResponse("User is already a member of this organization", "ALREADY_MEMBER")
@@ -166,118 +180,123 @@ export async function POST(request: Request) {
     const expiresAt = new Date()
     expiresAt.setDate(expiresAt.getDate() + 7)
 
-    const invitation = await prisma.invitation.create({
-      data: {
+    const auditContext = await getAuditContext(request, user.id)
+
+    const invitation = await prisma.$transaction(async (tx) => {
+      const created = await tx.invitation.create({
+        data: {
+          organizationId: data.orgId,
+          email: data.email,
+          role: data.role || DEFAULT_MEMBER_ROLE,
+          inviterId: user.id,
+          expiresAt,
+        },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
         organizationId: data.orgId,
-        email: data.email,
-        role: data.role || "member",
-        inviterId: user.id,
-        expiresAt,
-      },
+        action: "member.invited",
+        targetType: "invitation",
+        targetId: created.id,
+        metadata: { email: created.email, role: created.role },
+      })
+
+      return created
     })
 
-    // Calculate days until expiration for display
-    const daysUntilExpiration = Math.ceil(
-      (invitation.expiresAt.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
-    )
+    const daysUntilExpiration = getDaysUntilExpiration(invitation.expiresAt)
 
     // Create notification for the invited user
     // This is critical - user must receive notification
-    try {
-      // Check if there's already an unread invitation notification for this user and organization
-      const existingNotification = await prisma.notification.findFirst({
-        where: {
-          userId: invitedUser.id,
-          type: "invitation",
-          read: false,
-          metadata: {
-            contains: `"organizationId":"${organization.id}"`,
-          },
-        },
-      })
+    // Someone without an account is notified once they sign up and verify this email
+    if (invitedUser) {
+      try {
+        const notification = buildInvitationNotification(invitation, organization, user)
 
-      // If notification exists, update it with new invitation ID, otherwise create new
-      if (existingNotification) {
-        await prisma.notification.update({
-          where: { id: existingNotification.id },
-          data: {
-            title: "Organization Invitation",
-            message: `You have been invited to join "${organization.name}" (expires in ${daysUntilExpiration} day${daysUntilExpiration !== 1 ? 's' : ''})`,
-            metadata: JSON.stringify({
-              organizationId: organization.id,
-              organizationName: organization.name,
-              invitationId: invitation.id,
-              inviterId: user.id,
-              inviterName: user.name || user.email,
-              expiresAt: invitation.expiresAt.toISOString(),
-              daysUntilExpiration,
-            }),
-            read: false, // Mark as unread
-            updatedAt: new Date(),
-          },
-        })
-        console.log(`✅ Notification updated successfully:`, {
-          notificationId: existingNotification.id,
-          userId: invitedUser.id,
-          userEmail: invitedUser.email,
-          invitationId: invitation.id,
-        })
-      } else {
-        const notification = await prisma.notification.create({
-          data: {
-            type: "invitation",
-            title: "Organization Invitation",
-            message: `You have been invited to join "${organization.name}" (expires in ${daysUntilExpiration} day${daysUntilExpiration !== 1 ? 's' : ''})`,
+        // Check if there's already an unread invitation notification for this user and organization
+        const existingNotification = await prisma.notification.findFirst({
+          where: {
             userId: invitedUser.id,
-            metadata: JSON.stringify({
-              organizationId: organization.id,
-              organizationName: organization.name,
-              invitationId: invitation.id,
-              inviterId: user.id,
-              inviterName: user.name || user.email,
-              expiresAt: invitation.expiresAt.toISOString(),
-              daysUntilExpiration,
-            }),
+            type: "invitation",
+            read: false,
+            metadata: {
+              contains: `"organizationId":"${organization.id}"`,
+            },
           },
         })
-        console.log(`✅ Notification created successfully:`, {
-          notificationId: notification.id,
+
+        // If notification exists, update it with new invitation ID, otherwise create new
+        if (existingNotification) {
+          await prisma.notification.update({
+            where: { id: existingNotification.id },
+            data: {
+              title: notification.title,
+              message: notification.message,
+              metadata: notification.metadata,
+              read: false, // Mark as unread
+              updatedAt: new Date(),
+            },
+          })
+          console.log(`✅ Notification updated successfully:`, {
+            notificationId: existingNotification.id,
+            userId: invitedUser.id,
+            userEmail: invitedUser.email,
+            invitationId: invitation.id,
+          })
+        } else {
+          const created = await prisma.notification.create({
+            data: {
+              ...notification,
+              userId: invitedUser.id,
+            },
+          })
+          await publishNotificationEvent(invitedUser.id)
+          console.log(`✅ Notification created successfully:`, {
+            notificationId: created.id,
+            userId: invitedUser.id,
+            userEmail: invitedUser.email,
+            type: created.type,
+            invitationId: invitation.id,
+          })
+        }
+      } catch (notificationError: any) {
+        // Log detailed error but don't fail the request
+        // Email will still be sent, but notification is important
+        console.error("❌ CRITICAL: Failed to create/update notification for invitation:", {
+          error: notificationError.message,
+          errorCode: notificationError.code,
           userId: invitedUser.id,
           userEmail: invitedUser.email,
-          type: notification.type,
           invitationId: invitation.id,
+          organizationId: organization.id,
+          stack: notificationError.stack,
         })
+        // Continue - invitation and email will still be sent
+        // But this should be investigated
       }
-    } catch (notificationError: any) {
-      // Log detailed error but don't fail the request
-      // Email will still be sent, but notification is important
-      console.error("❌ CRITICAL: Failed to create/update notification for invitation:", {
-        error: notificationError.message,
-        errorCode: notificationError.code,
-        userId: invitedUser.id,
-        userEmail: invitedUser.email,
-        invitationId: invitation.id,
-        organizationId: organization.id,
-        stack: notificationError.stack,
-      })
-      // Continue - invitation and email will still be sent
-      // But this should be investigated
     }
 
+    // Registered users accept from the workspace; anyone else signs up through the link first
+    const invitationLink = invitedUser
+      ? getInvitationAcceptLink(invitation.id)
+      : getInvitationSignupLink(invitation.id)
+
     // Send invitation email (only if email service is enabled)
     if (isEmailServiceEnabled()) {
       try {
         const { sendEmail } = await import("@/lib/email")
         const { getOrganizationInvitationTemplate } = await import("@/lib/email-templates")
         
-        const invitationLink = `${process.env.BETTER_AUTH_URL || "http://localhost:3000"}/workspace?invitation=${invitation.id}`
         const expiresIn = `${daysUntilExpiration} day${daysUntilExpiration !== 1 ? 's' : ''}`
+        const action = invitedUser
+          ? "Click the link below to accept the invitation"
+          : `Click the link below to create your account with this email address (${data.email}) and join`
         
         await sendEmail({
           to: data.email,
           subject: `You've been invited to join ${organization.name}`,
-          text: `Hi,\n\nYou have been invited to join the organization "${organization.name}".\n\nClick the link below to accept the invitation:\n${invitationLink}\n\nThis invitation will expire in ${expiresIn}. Please accept it before it expires.\n\nIf you did not expect this invitation, you can safely ignore it.\n\nThanks.`,
-          html: getOrganizationInvitationTemplate(organization.name, invitationLink, expiresIn),
+          text: `Hi,\n\nYou have been invited to join the organization "${organization.name}".\n\n${action}:\n${invitationLink}\n\nThis invitation will expire in ${expiresIn}. Please accept it before it expires.\n\nIf you did not expect this invitation, you can safely ignore it.\n\nThanks.`,
+          html: getOrganizationInvitationTemplate(organization.name, invitationLink, expiresIn, !invitedUser),
         })
         console.log(`✅ Invitation email sent to ${data.email}`)
       } catch (emailError: any) {
@@ -288,8 +307,25 @@ export async function POST(request: Request) {
       console.log("📧 Email service disabled - invitation email skipped. User will be notified via in-app notification.")
     }
 
+    if (!invitedUser) {
+      return successResponse(
+        {
+          invitation: { id: invitation.id, email: invitation.email, status: invitation.status },
+          registered: false,
+          // For sharing by hand, e.g. when the email service is disabled
+          signupLink: invitationLink,
+        },
+        isEmailServiceEnabled()
+          ? "Invitation sent. They can join after signing up with this email address."
+          : "Invitation created. Share the signup link with them; they can join after signing up with this email address."
+      )
+    }
+
     return successResponse(
-      { invitation: { id: invitation.id, email: invitation.email, status: invitation.status } },
+      {
+        invitation: { id: invitation.id, email: invitation.email, status: invitation.status },
+        registered: true,
+      },
       "Invitation sent successfully. The user will be notified."
     )
   } catch (error) {
@@ -313,10 +349,7 @@ export async function DELETE(request: Request) {
       return badRequestResponse("orgId and userId are required", "MISSING_PARAMS")
     }
 
-    const isOwner = await checkOrgOwner(user.id, orgId)
-    if (!isOwner) {
-      return forbiddenResponse("Only organization owner can remove members")
-    }
+    const access = await requirePermission(user.id, orgId, "member:remove", "You do not have permission to remove members")
 
     // Check if organization exists
     const org = await prisma.organization.findUnique({
@@ -346,16 +379,119 @@ export async function DELETE(request: Request) {
       return notFoundResponse("Member")
     }
 
-    await prisma.organizationMember.delete({
+    // Admins can only be removed by the owner
+    if (member.role === "admin" && !access.isOwner) {
+      return forbiddenResponse("Only the organization owner can remove admins")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const unassignedOutlines = await prisma.$transaction(async (tx) => {
+      await tx.organizationMember.delete({
+        where: {
+          organizationId_userId: {
+            organizationId: orgId,
+            userId,
+          },
+        },
+      })
+
+      // Their outlines and documents go back to unassigned so nobody works from outside the org
+      const count = await unassignReviewerOutlines(tx, orgId, userId)
+      await unassignDocumentOwner(tx, orgId, userId)
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: orgId,
+        action: "member.removed",
+        targetType: "member",
+        targetId: userId,
+        changes: diffFields(member, null, ["role"]),
+        metadata: { unassignedOutlines: count },
+      })
+
+      return count
+    })
+
+    await publishOrgEvent({ type: "member.changed", organizationId: orgId, userId, change: "removed", actorId: user.id })
+
+    return successResponse({ unassignedOutlines }, "Member removed successfully")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH /api/org/members (change role)
+export async function PATCH(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = updateMemberRoleSchema.parse(body)
+
+    const access = await requirePermission(
+      user.id,
+      data.orgId,
+      "member:update-role",
+      "You do not have permission to change member roles"
+    )
+
+    if (access.organization?.ownerId === data.userId) {
+      return badRequestResponse("The owner's role cannot be changed", "CANNOT_CHANGE_OWNER_ROLE")
+    }
+
+    if (data.userId === user.id) {
+      return badRequestResponse("You cannot change your own role", "CANNOT_CHANGE_OWN_ROLE")
+    }
+
+    const member = await prisma.organizationMember.findUnique({
       where: {
         organizationId_userId: {
-          organizationId: orgId,
-          userId,
+          organizationId: data.orgId,
+          userId: data.userId,
         },
       },
     })
 
-    return successResponse(undefined, "Member removed successfully")
+    if (!member) {
+      return notFoundResponse("Member")
+    }
+
+    // Only the owner can grant or revoke admin rights
+    if ((member.role === "admin" || data.role === "admin") && !access.isOwner) {
+      return forbiddenResponse("Only the organization owner can grant or revoke admin rights")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const updatedMember = await prisma.$transaction(async (tx) => {
+      const updated = await tx.organizationMember.update({
+        where: { id: member.id },
+        data: { role: data.role },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: data.orgId,
+        action: "member.role_changed",
+        targetType: "member",
+        targetId: data.userId,
+        changes: diffFields(member, updated, ["role"]),
+      })
+
+      return updated
+    })
+
+    await publishOrgEvent({
+      type: "member.changed",
+      organizationId: data.orgId,
+      userId: data.userId,
+      change: "role_changed",
+      actorId: user.id,
+    })
+
+    return successResponse({ member: updatedMember }, "Member role updated successfully")
   } catch (error) {
     return handleApiError(error)
   }
@@ -0,0 +1,65 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { restoreOrgSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/org/restore - Restore an organization from the trash
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = restoreOrgSchema.parse(body)
+
+    const org = await prisma.organization.findUnique({
+      where: { id: data.orgId },
+    })
+
+    if (!org) {
+      return notFoundResponse("Organization")
+    }
+
+    // requirePermission ignores trashed organizations, so check ownership directly
+    if (org.ownerId !== user.id) {
+      return forbiddenResponse("Only the organization owner can restore the organization")
+    }
+
+    if (!org.deletedAt) {
+      return badRequestResponse("Organization is not in the trash", "NOT_DELETED")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const organization = await prisma.$transaction(async (tx) => {
+      const restored = await tx.organization.update({
+        where: { id: org.id },
+        data: { deletedAt: null },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: org.id,
+        action: "organization.restored",
+        targetType: "organization",
+        targetId: org.id,
+        changes: { deletedAt: { before: org.deletedAt, after: null } },
+      })
+
+      return restored
+    })
+
+    return successResponse({ organization }, `Organization "${org.name}" has been restored`)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,97 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent, type AuditChanges } from "@/lib/audit"
+import { findOptionsInUse, getOutlineConfig, replaceOutlineOptions } from "@/lib/outline-config"
+import { updateOutlineSettingsSchema, type OutlineConfig } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/org/settings/outlines?orgId=...
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get("orgId")
+
+    if (!orgId) {
+      return badRequestResponse("orgId is required")
+    }
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    const config = await getOutlineConfig(orgId)
+
+    return successResponse({ config })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PUT /api/org/settings/outlines - Replace the organization's section types, statuses and workflow
+export async function PUT(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const { orgId, ...next } = updateOutlineSettingsSchema.parse(body)
+
+    await requirePermission(user.id, orgId, "org:update", "You do not have permission to change organization settings")
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await getOutlineConfig(orgId, tx)
+
+      const inUse = await findOptionsInUse(tx, orgId, current, next)
+      if (Object.keys(inUse).length > 0) {
+        return { inUse, config: null }
+      }
+
+      await replaceOutlineOptions(tx, orgId, next)
+
+      const changes: AuditChanges = {}
+      for (const key of Object.keys(next) as (keyof OutlineConfig)[]) {
+        if (JSON.stringify(current[key]) !== JSON.stringify(next[key])) {
+          changes[key] = { before: current[key], after: next[key] }
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await recordAuditEvent(tx, auditContext, {
+          organizationId: orgId,
+          action: "organization.settings_updated",
+          targetType: "organization",
+          targetId: orgId,
+          changes,
+        })
+      }
+
+      return { inUse: null, config: next }
+    })
+
+    if (result.inUse) {
+      const values = Object.values(result.inUse).flat()
+      return badRequestResponse(
+        `These values are still used by outlines and cannot be removed: ${values.join(", ")}`,
+        "VALUE_IN_USE",
+        result.inUse
+      )
+    }
+
+    return successResponse({ config: result.config }, "Outline settings updated successfully")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
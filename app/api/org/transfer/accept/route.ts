@@ -0,0 +1,176 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { ownershipTransferActionSchema } from "@/lib/validation"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent, publishOrgEvent } from "@/lib/realtime"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/org/transfer/accept
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = ownershipTransferActionSchema.parse(body)
+
+    const transfer = await prisma.ownershipTransfer.findUnique({
+      where: { id: data.transferId },
+      include: {
+        organization: {
+          select: {
+            id: true,
+            name: true,
+            ownerId: true,
+            deletedAt: true,
+          },
+        },
+      },
+    })
+
+    if (!transfer) {
+      return notFoundResponse("Ownership transfer")
+    }
+
+    if (transfer.toUserId !== user.id) {
+      return forbiddenResponse("This ownership transfer was not sent to you")
+    }
+
+    if (transfer.status !== "pending") {
+      return badRequestResponse(
+        `This ownership transfer has already been ${transfer.status}`,
+        "TRANSFER_NOT_PENDING"
+      )
+    }
+
+    // Check if transfer is expired
+    if (new Date() > transfer.expiresAt) {
+      await prisma.ownershipTransfer.update({
+        where: { id: transfer.id },
+        data: { status: "expired" },
+      })
+      return badRequestResponse("This ownership transfer has expired", "TRANSFER_EXPIRED")
+    }
+
+    // The organization may have changed hands or been deleted since the request was made
+    if (transfer.organization.ownerId !== transfer.fromUserId || transfer.organization.deletedAt) {
+      await prisma.ownershipTransfer.update({
+        where: { id: transfer.id },
+        data: { status: "cancelled" },
+      })
+      return badRequestResponse("This ownership transfer is no longer valid", "TRANSFER_INVALID")
+    }
+
+    const newOwnerMember = await prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: transfer.organizationId,
+          userId: user.id,
+        },
+      },
+    })
+
+    if (!newOwnerMember) {
+      return forbiddenResponse("You are no longer a member of this organization")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    // Swap ownership and member roles atomically; the previous owner stays on as an admin
+    await prisma.$transaction(async (tx) => {
+      await tx.organization.update({
+        where: { id: transfer.organizationId },
+        data: { ownerId: user.id },
+      })
+
+      await tx.organizationMember.update({
+        where: { id: newOwnerMember.id },
+        data: { role: "owner" },
+      })
+
+      await tx.organizationMember.upsert({
+        where: {
+          organizationId_userId: {
+            organizationId: transfer.organizationId,
+            userId: transfer.fromUserId,
+          },
+        },
+        update: { role: "admin" },
+        create: {
+          organizationId: transfer.organizationId,
+          userId: transfer.fromUserId,
+          role: "admin",
+        },
+      })
+
+      await tx.ownershipTransfer.update({
+        where: { id: transfer.id },
+        data: { status: "accepted" },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: transfer.organizationId,
+        action: "ownership.transferred",
+        targetType: "ownership_transfer",
+        targetId: transfer.id,
+        changes: { ownerId: { before: transfer.fromUserId, after: user.id } },
+      })
+    })
+
+    for (const memberId of [user.id, transfer.fromUserId]) {
+      await publishOrgEvent({
+        type: "member.changed",
+        organizationId: transfer.organizationId,
+        userId: memberId,
+        change: "role_changed",
+        actorId: user.id,
+      })
+    }
+
+    // Mark the transfer request notification as read
+    await prisma.notification.updateMany({
+      where: {
+        userId: user.id,
+        type: "ownership_transfer",
+        metadata: {
+          contains: `"transferId":"${transfer.id}"`,
+        },
+      },
+      data: { read: true },
+    })
+
+    // Notify the previous owner
+    await prisma.notification.create({
+      data: {
+        type: "ownership_transfer_accepted",
+        title: "Ownership Transferred",
+        message: `${user.name || user.email} is now the owner of "${transfer.organization.name}". You remain an admin.`,
+        userId: transfer.fromUserId,
+        metadata: JSON.stringify({
+          organizationId: transfer.organization.id,
+          organizationName: transfer.organization.name,
+          transferId: transfer.id,
+          userId: user.id,
+          userName: user.name || user.email,
+        }),
+      },
+    })
+    await publishNotificationEvent(transfer.fromUserId)
+
+    return successResponse(
+      { organization: { ...transfer.organization, ownerId: user.id } },
+      `You are now the owner of "${transfer.organization.name}"`
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,104 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { ownershipTransferActionSchema } from "@/lib/validation"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent } from "@/lib/realtime"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/org/transfer/reject
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = ownershipTransferActionSchema.parse(body)
+
+    const transfer = await prisma.ownershipTransfer.findUnique({
+      where: { id: data.transferId },
+      include: {
+        organization: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    })
+
+    if (!transfer) {
+      return notFoundResponse("Ownership transfer")
+    }
+
+    if (transfer.toUserId !== user.id) {
+      return forbiddenResponse("This ownership transfer was not sent to you")
+    }
+
+    if (transfer.status !== "pending") {
+      return badRequestResponse(
+        `This ownership transfer has already been ${transfer.status}`,
+        "TRANSFER_NOT_PENDING"
+      )
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    await prisma.$transaction(async (tx) => {
+      await tx.ownershipTransfer.update({
+        where: { id: transfer.id },
+        data: { status: "rejected" },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: transfer.organizationId,
+        action: "ownership.transfer_rejected",
+        targetType: "ownership_transfer",
+        targetId: transfer.id,
+        changes: { status: { before: transfer.status, after: "rejected" } },
+      })
+    })
+
+    // Mark the transfer request notification as read
+    await prisma.notification.updateMany({
+      where: {
+        userId: user.id,
+        type: "ownership_transfer",
+        metadata: {
+          contains: `"transferId":"${transfer.id}"`,
+        },
+      },
+      data: { read: true },
+    })
+
+    // Notify the owner who started the transfer
+    await prisma.notification.create({
+      data: {
+        type: "ownership_transfer_rejected",
+        title: "Ownership Transfer Declined",
+        message: `${user.name || user.email} has declined ownership of "${transfer.organization.name}"`,
+        userId: transfer.fromUserId,
+        metadata: JSON.stringify({
+          organizationId: transfer.organization.id,
+          organizationName: transfer.organization.name,
+          transferId: transfer.id,
+          userId: user.id,
+          userName: user.name || user.email,
+        }),
+      },
+    })
+    await publishNotificationEvent(transfer.fromUserId)
+
+    return successResponse(undefined, "Ownership transfer declined")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
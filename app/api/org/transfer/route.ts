@@ -0,0 +1,156 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission, verifyOrgMembership, verifyUserPassword } from "@/lib/auth-utils"
+import { transferOwnershipSchema } from "@/lib/validation"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { publishNotificationEvent } from "@/lib/realtime"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+import { isEmailServiceEnabled } from "@/lib/email-config"
+
+// POST /api/org/transfer (start an ownership transfer)
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = transferOwnershipSchema.parse(body)
+
+    const access = await requirePermission(
+      user.id,
+      data.orgId,
+      "org:transfer",
+      "Only the organization owner can transfer ownership"
+    )
+
+    if (data.userId === user.id) {
+      return badRequestResponse("You already own this organization", "CANNOT_TRANSFER_TO_SELF")
+    }
+
+    // The new owner must already be a member
+    const targetMember = await verifyOrgMembership(data.userId, data.orgId)
+    if (!targetMember) {
+      return notFoundResponse("Member")
+    }
+
+    const passwordCheck = await verifyUserPassword(user.id, data.password)
+
+    if (passwordCheck === "no_password") {
+      return badRequestResponse(
+        "Password verification failed. Please ensure your account has a password set.",
+        "NO_PASSWORD"
+      )
+    }
+
+    if (passwordCheck === "invalid") {
+      return badRequestResponse("Incorrect password. Please try again.", "INVALID_PASSWORD")
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: data.userId },
+      select: { id: true, name: true, email: true },
+    })
+
+    if (!targetUser) {
+      return notFoundResponse("User")
+    }
+
+    const organizationName = access.organization?.name || "the organization"
+
+    // Transfer request expires in 7 days
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + 7)
+    const daysUntilExpiration = 7
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    // Only one pending transfer per organization: a new request replaces older ones
+    const transfer = await prisma.$transaction(async (tx) => {
+      await tx.ownershipTransfer.updateMany({
+        where: {
+          organizationId: data.orgId,
+          status: "pending",
+        },
+        data: { status: "cancelled" },
+      })
+
+      const created = await tx.ownershipTransfer.create({
+        data: {
+          organizationId: data.orgId,
+          fromUserId: user.id,
+          toUserId: targetUser.id,
+          expiresAt,
+        },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: data.orgId,
+        action: "ownership.transfer_requested",
+        targetType: "ownership_transfer",
+        targetId: created.id,
+        metadata: { toUserId: targetUser.id, toUserEmail: targetUser.email },
+      })
+
+      return created
+    })
+
+    await prisma.notification.create({
+      data: {
+        type: "ownership_transfer",
+        title: "Ownership Transfer Request",
+        message: `${user.name || user.email} wants to transfer ownership of "${organizationName}" to you (expires in ${daysUntilExpiration} days)`,
+        userId: targetUser.id,
+        metadata: JSON.stringify({
+          organizationId: data.orgId,
+          organizationName,
+          transferId: transfer.id,
+          fromUserId: user.id,
+          fromUserName: user.name || user.email,
+          expiresAt: expiresAt.toISOString(),
+          daysUntilExpiration,
+        }),
+      },
+    })
+    await publishNotificationEvent(targetUser.id)
+
+    // Send email to the new owner (only if email service is enabled)
+    if (isEmailServiceEnabled()) {
+      try {
+        const { sendEmail } = await import("@/lib/email")
+        const { getOwnershipTransferTemplate } = await import("@/lib/email-templates")
+
+        const workspaceUrl = `${process.env.BETTER_AUTH_URL || "http://localhost:3000"}/workspace`
+
+        await sendEmail({
+          to: targetUser.email,
+          subject: `Ownership transfer request for ${organizationName}`,
+          text: `Hi ${targetUser.name || "there"},\n\n${user.name || user.email} wants to transfer ownership of "${organizationName}" to you.\n\nOpen your notifications to accept or decline:\n${workspaceUrl}\n\nThis request will expire in ${daysUntilExpiration} days.`,
+          html: getOwnershipTransferTemplate(
+            organizationName,
+            user.name || user.email,
+            workspaceUrl,
+            `${daysUntilExpiration} days`
+          ),
+        })
+      } catch (emailError: any) {
+        console.error("Failed to send ownership transfer email:", emailError)
+        // Don't fail the request if email fails
+      }
+    }
+
+    return successResponse(
+      { transfer: { id: transfer.id, status: transfer.status, expiresAt: transfer.expiresAt } },
+      `Ownership transfer requested. ${targetUser.name || targetUser.email} must accept it before it takes effect.`
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,48 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getPurgeDate, getTrashRetentionDays } from "@/lib/trash"
+import { unauthorizedResponse, successResponse, handleApiError } from "@/lib/api-response"
+
+// GET /api/org/trash - Deleted organizations owned by the current user
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const organizations = await prisma.organization.findMany({
+      where: {
+        ownerId: user.id,
+        deletedAt: { not: null },
+      },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        logo: true,
+        createdAt: true,
+        deletedAt: true,
+        _count: {
+          select: {
+            members: true,
+            outlines: true,
+          },
+        },
+      },
+      orderBy: { deletedAt: "desc" },
+    })
+
+    return successResponse({
+      organizations: organizations.map(({ _count, ...org }) => ({
+        ...org,
+        memberCount: _count.members,
+        outlineCount: _count.outlines,
+        purgeAt: org.deletedAt ? getPurgeDate(org.deletedAt) : null,
+      })),
+      retentionDays: getTrashRetentionDays(),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,150 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { checkOrgAccess, requirePermission } from "@/lib/auth-utils"
+import { commentThreadInclude, getNewMentions } from "@/lib/outline-comments"
+import { notifyCommentMentions } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import { updateCommentSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+type CommentRouteParams = { params: Promise<{ id: string; commentId: string }> }
+
+async function findComment(outlineId: string, commentId: string) {
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: { outline: { select: { id: true, header: true, organizationId: true, documentId: true, deletedAt: true } } },
+  })
+
+  return comment && comment.outlineId === outlineId && !comment.outline.deletedAt ? comment : null
+}
+
+// PATCH /api/outlines/[id]/comments/[commentId] - Edit a comment or resolve its thread
+export async function PATCH(request: Request, { params }: CommentRouteParams) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id, commentId } = await params
+    const body = await request.json()
+    const data = updateCommentSchema.parse(body)
+
+    const comment = await findComment(id, commentId)
+    if (!comment) {
+      return notFoundResponse("Comment")
+    }
+
+    if (data.orgId !== comment.outline.organizationId) {
+      return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
+    }
+
+    if (!(await checkOrgAccess(user.id, data.orgId)).hasAccess) {
+      return forbiddenResponse("You must be a member of this organization to comment")
+    }
+
+    const isAuthor = comment.authorId === user.id
+
+    if (data.body !== undefined && !isAuthor) {
+      return forbiddenResponse("Only the author can edit a comment")
+    }
+
+    if (data.resolved !== undefined) {
+      if (comment.parentId) {
+        return badRequestResponse("Only a thread's first comment can be resolved", "NOT_A_THREAD")
+      }
+      // Whoever started the thread, or anyone who reviews outlines
+      if (!isAuthor) {
+        await requirePermission(user.id, data.orgId, "outline:review", "Only the author or a reviewer can resolve this thread")
+      }
+    }
+
+    const bodyChanged = data.body !== undefined && data.body !== comment.body
+    const resolvedChanged = data.resolved !== undefined && data.resolved !== (comment.resolvedAt !== null)
+
+    const updated = await prisma.comment.update({
+      where: { id: commentId },
+      data: {
+        ...(bodyChanged && { body: data.body, editedAt: new Date() }),
+        ...(resolvedChanged &&
+          (data.resolved
+            ? { resolvedAt: new Date(), resolvedById: user.id }
+            : { resolvedAt: null, resolvedById: null })),
+      },
+      include: commentThreadInclude,
+    })
+
+    if (bodyChanged) {
+      await notifyCommentMentions(
+        comment.outline,
+        updated,
+        user,
+        await getNewMentions(data.orgId, updated.body, comment.body)
+      )
+    }
+
+    if (bodyChanged || resolvedChanged) {
+      await publishOrgEvent({ type: "comment.changed", organizationId: data.orgId, outlineId: id, actorId: user.id })
+    }
+
+    return successResponse(
+      { comment: updated },
+      resolvedChanged ? (data.resolved ? "Thread resolved" : "Thread reopened") : "Comment updated"
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/outlines/[id]/comments/[commentId]?orgId=... - Delete a comment and, for a thread, its replies
+export async function DELETE(request: Request, { params }: CommentRouteParams) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id, commentId } = await params
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get("orgId")
+
+    if (!orgId) {
+      return badRequestResponse("orgId is required", "MISSING_ORG_ID")
+    }
+
+    const comment = await findComment(id, commentId)
+    if (!comment) {
+      return notFoundResponse("Comment")
+    }
+
+    if (orgId !== comment.outline.organizationId) {
+      return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
+    }
+
+    // Authors remove their own comments; anyone who can delete outlines can moderate
+    if (comment.authorId === user.id) {
+      if (!(await checkOrgAccess(user.id, orgId)).hasAccess) {
+        return forbiddenResponse("You must be a member of this organization to comment")
+      }
+    } else {
+      await requirePermission(user.id, orgId, "outline:delete", "Only the author can delete this comment")
+    }
+
+    await prisma.comment.delete({
+      where: { id: commentId },
+    })
+
+    await publishOrgEvent({ type: "comment.changed", organizationId: orgId, outlineId: id, actorId: user.id })
+
+    return successResponse(undefined, "Comment deleted")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,110 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { checkOrgAccess, requirePermission } from "@/lib/auth-utils"
+import { commentThreadInclude, getNewMentions } from "@/lib/outline-comments"
+import { notifyCommentMentions } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import { createCommentSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/[id]/comments - Comment threads, oldest first
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+
+    const outline = await prisma.outline.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, deletedAt: true },
+    })
+
+    if (!outline || outline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    await requirePermission(user.id, outline.organizationId, "outline:read")
+
+    const comments = await prisma.comment.findMany({
+      where: { outlineId: id, parentId: null },
+      include: commentThreadInclude,
+      orderBy: { createdAt: "asc" },
+    })
+
+    return successResponse({ comments })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/outlines/[id]/comments - Start a thread or reply to one
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = createCommentSchema.parse(body)
+
+    const outline = await prisma.outline.findUnique({
+      where: { id },
+      select: { id: true, header: true, organizationId: true, documentId: true, deletedAt: true },
+    })
+
+    if (!outline || outline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    if (data.orgId !== outline.organizationId) {
+      return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
+    }
+
+    // Every member may comment, whatever their role, unless the organization is in the trash
+    if (!(await checkOrgAccess(user.id, data.orgId)).hasAccess) {
+      return forbiddenResponse("You must be a member of this organization to comment")
+    }
+
+    let parentId: string | null = null
+    if (data.parentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: data.parentId },
+        select: { id: true, outlineId: true, parentId: true },
+      })
+      if (!parent || parent.outlineId !== id) {
+        return notFoundResponse("Comment")
+      }
+      // Threads are one level deep
+      parentId = parent.parentId ?? parent.id
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        body: data.body,
+        outlineId: id,
+        parentId,
+        authorId: user.id,
+      },
+      include: commentThreadInclude,
+    })
+
+    await notifyCommentMentions(outline, comment, user, await getNewMentions(data.orgId, data.body))
+    await publishOrgEvent({ type: "comment.changed", organizationId: data.orgId, outlineId: id, actorId: user.id })
+
+    return successResponse({ comment }, "Comment added")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,134 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { countWords, getContentText, getWordCountStatus, sanitizeOutlineContent } from "@/lib/outline-content"
+import { publishOrgEvent } from "@/lib/realtime"
+import { updateOutlineContentSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+const contentInclude = {
+  updatedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+}
+
+// GET /api/outlines/[id]/content
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+
+    const outline = await prisma.outline.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, deletedAt: true, target: true, limit: true, wordCount: true },
+    })
+
+    if (!outline || outline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    await requirePermission(user.id, outline.organizationId, "outline:read")
+
+    const content = await prisma.outlineContent.findUnique({
+      where: { outlineId: id },
+      include: contentInclude,
+    })
+
+    return successResponse({
+      content: content ?? { body: "", updatedAt: null, updatedBy: null },
+      wordCount: outline.wordCount,
+      wordCountStatus: getWordCountStatus(outline.wordCount, outline.target, outline.limit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PUT /api/outlines/[id]/content
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = updateOutlineContentSchema.parse(body)
+
+    const existingOutline = await prisma.outline.findUnique({
+      where: { id },
+    })
+
+    if (!existingOutline || existingOutline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    if (data.orgId !== existingOutline.organizationId) {
+      return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
+    }
+
+    await requirePermission(user.id, data.orgId, "outline:update", "You do not have permission to edit outline content")
+
+    // Never trust the editor's markup; only the allowlisted subset is stored
+    const sanitized = sanitizeOutlineContent(data.body)
+    const wordCount = countWords(getContentText(sanitized))
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const content = await prisma.$transaction(async (tx) => {
+      const saved = await tx.outlineContent.upsert({
+        where: { outlineId: id },
+        create: { outlineId: id, body: sanitized, updatedById: user.id },
+        update: { body: sanitized, updatedById: user.id },
+        include: contentInclude,
+      })
+
+      await tx.outline.update({
+        where: { id },
+        data: { wordCount },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: data.orgId,
+        action: "outline.content_updated",
+        targetType: "outline",
+        targetId: id,
+        changes:
+          existingOutline.wordCount !== wordCount
+            ? { wordCount: { before: existingOutline.wordCount, after: wordCount } }
+            : null,
+      })
+
+      return saved
+    })
+
+    await publishOrgEvent({ type: "outline.updated", organizationId: data.orgId, outlineIds: [id], actorId: user.id })
+
+    return successResponse(
+      {
+        content,
+        wordCount,
+        wordCountStatus: getWordCountStatus(wordCount, existingOutline.target, existingOutline.limit),
+      },
+      "Content saved successfully"
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,78 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { findParentError, moveOutline } from "@/lib/outline-ordering"
+import { publishOrgEvent } from "@/lib/realtime"
+import { moveOutlineSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/outlines/[id]/move - Nest an outline under a new parent and/or reorder it among its siblings
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = moveOutlineSchema.parse(body)
+
+    const existingOutline = await prisma.outline.findUnique({
+      where: { id },
+    })
+
+    if (!existingOutline || existingOutline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    if (data.orgId !== existingOutline.organizationId) {
+      return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
+    }
+
+    await requirePermission(user.id, data.orgId, "outline:update", "You do not have permission to reorder outlines")
+
+    const parentError = await findParentError(existingOutline.documentId, id, data.parentId)
+    if (parentError) {
+      return badRequestResponse(parentError.message, parentError.code)
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    // All sibling positions are rewritten together so the order never has gaps or duplicates
+    const outline = await prisma.$transaction(async (tx) => {
+      await moveOutline(tx, existingOutline, data.parentId, data.index)
+
+      const moved = await tx.outline.findUniqueOrThrow({
+        where: { id },
+        select: { id: true, parentId: true, position: true },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: data.orgId,
+        action: "outline.moved",
+        targetType: "outline",
+        targetId: id,
+        changes: {
+          parentId: { before: existingOutline.parentId, after: moved.parentId },
+          position: { before: existingOutline.position, after: moved.position },
+        },
+      })
+
+      return moved
+    })
+
+    await publishOrgEvent({ type: "outline.updated", organizationId: data.orgId, outlineIds: [id], actorId: user.id })
+
+    return successResponse({ outline }, "Outline moved successfully")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,78 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { clearOutlinePresence, PRESENCE_TTL_MS, touchOutlinePresence } from "@/lib/outline-presence"
+import { outlinePresenceSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/outlines/[id]/presence - Heartbeat while the user has the outline open
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = outlinePresenceSchema.parse(body)
+
+    const outline = await prisma.outline.findUnique({
+      where: { id },
+      select: { organizationId: true, deletedAt: true },
+    })
+
+    if (!outline || outline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    if (data.orgId !== outline.organizationId) {
+      return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
+    }
+
+    await requirePermission(user.id, data.orgId, "outline:read")
+
+    await touchOutlinePresence(
+      data.orgId,
+      id,
+      { id: user.id, name: user.name ?? null, email: user.email, image: user.image ?? null },
+      data.mode
+    )
+
+    // Clients send the next heartbeat well before this runs out
+    return successResponse({ expiresInMs: PRESENCE_TTL_MS })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/outlines/[id]/presence?orgId=... - The user closed the outline
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get("orgId")
+
+    if (!orgId) {
+      return badRequestResponse("orgId is required", "MISSING_ORG_ID")
+    }
+
+    // Only ever removes the caller's own entry, so membership is not rechecked
+    await clearOutlinePresence(orgId, id, user.id)
+
+    return successResponse(undefined)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,78 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext, recordAuditEvent } from "@/lib/audit"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { getRestorePlacement } from "@/lib/outline-ordering"
+import { publishOrgEvent } from "@/lib/realtime"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/outlines/[id]/restore - Restore an outline from the trash
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+
+    const existingOutline = await prisma.outline.findUnique({
+      where: { id },
+    })
+
+    if (!existingOutline) {
+      return notFoundResponse("Outline")
+    }
+
+    await requirePermission(
+      user.id,
+      existingOutline.organizationId,
+      "outline:delete",
+      "You do not have permission to restore outlines"
+    )
+
+    if (!existingOutline.deletedAt) {
+      return badRequestResponse("Outline is not in the trash", "NOT_DELETED")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const outline = await prisma.$transaction(async (tx) => {
+      // Its sub-sections were lifted out when it was deleted, so it comes back on its own
+      const restored = await tx.outline.update({
+        where: { id },
+        data: { deletedAt: null, ...(await getRestorePlacement(tx, existingOutline)) },
+        include: outlineReviewerInclude,
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: restored.organizationId,
+        action: "outline.restored",
+        targetType: "outline",
+        targetId: restored.id,
+        changes: { deletedAt: { before: existingOutline.deletedAt, after: null } },
+      })
+
+      return restored
+    })
+
+    // Back in the list, so to everyone else it is a new outline
+    await publishOrgEvent({
+      type: "outline.created",
+      organizationId: outline.organizationId,
+      outlineIds: [outline.id],
+      actorId: user.id,
+    })
+
+    return successResponse({ outline }, "Outline restored successfully")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,110 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission, verifyOrgMembership } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, outlineAuditFields, recordAuditEvent } from "@/lib/audit"
+import { getOutlineConfig } from "@/lib/outline-config"
+import { recordOutlineRevision } from "@/lib/outline-revisions"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { getOutlineReviewEvent, notifyOutlineReviewer } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import {
+  unauthorizedResponse,
+  notFoundResponse,
+  badRequestResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/outlines/[id]/revisions/[revId]/restore
+export async function POST(request: Request, { params }: { params: Promise<{ id: string; revId: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id, revId } = await params
+
+    const existingOutline = await prisma.outline.findUnique({
+      where: { id },
+    })
+
+    if (!existingOutline || existingOutline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    await requirePermission(
+      user.id,
+      existingOutline.organizationId,
+      "outline:update",
+      "You do not have permission to restore outlines"
+    )
+
+    const revision = await prisma.outlineRevision.findUnique({
+      where: { id: revId },
+    })
+
+    if (!revision || revision.outlineId !== id) {
+      return notFoundResponse("Revision")
+    }
+
+    // Revisions are not counted as uses of a section type, so it may since have been removed
+    const config = await getOutlineConfig(existingOutline.organizationId)
+    if (!config.sectionTypes.includes(revision.sectionType)) {
+      return badRequestResponse(
+        `Section type "${revision.sectionType}" is no longer configured for this organization`,
+        "INVALID_SECTION_TYPE"
+      )
+    }
+
+    // A reviewer who has since left the organization is not reassigned
+    const reviewerId =
+      revision.reviewerId && (await verifyOrgMembership(revision.reviewerId, existingOutline.organizationId))
+        ? revision.reviewerId
+        : null
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    // Restoring writes a new revision rather than rewinding history. The status
+    // is left alone so a restore cannot skip the organization's workflow.
+    const outline = await prisma.$transaction(async (tx) => {
+      const updated = await tx.outline.update({
+        where: { id },
+        data: {
+          header: revision.header,
+          sectionType: revision.sectionType,
+          target: revision.target,
+          limit: revision.limit,
+          reviewerId,
+          version: { increment: 1 },
+        },
+        include: outlineReviewerInclude,
+      })
+
+      await recordOutlineRevision(tx, updated, user.id, revision.id)
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: updated.organizationId,
+        action: "outline.revision_restored",
+        targetType: "outline",
+        targetId: updated.id,
+        changes: diffFields(existingOutline, updated, outlineAuditFields),
+        metadata: { revisionId: revision.id, version: revision.version },
+      })
+
+      return updated
+    })
+
+    await notifyOutlineReviewer(outline, user, getOutlineReviewEvent(existingOutline, outline))
+    await publishOrgEvent({
+      type: "outline.updated",
+      organizationId: outline.organizationId,
+      outlineIds: [outline.id],
+      actorId: user.id,
+    })
+
+    return successResponse({ outline }, `Outline restored to version ${revision.version}`)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,74 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { diffFields } from "@/lib/audit"
+import { outlineRevisionFields } from "@/lib/outline-revisions"
+import {
+  unauthorizedResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/[id]/revisions
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+
+    const outline = await prisma.outline.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, deletedAt: true },
+    })
+
+    if (!outline || outline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    await requirePermission(user.id, outline.organizationId, "outline:read")
+
+    const revisions = await prisma.outlineRevision.findMany({
+      where: { outlineId: id },
+      include: {
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { version: "asc" },
+    })
+
+    const versionsById = new Map(revisions.map((revision) => [revision.id, revision.version]))
+
+    // Each revision is diffed against the one before it; newest first in the response
+    const history = revisions
+      .map((revision, index) => ({
+        ...revision,
+        restoredFromVersion: revision.restoredFromId ? versionsById.get(revision.restoredFromId) ?? null : null,
+        changes: diffFields(index > 0 ? revisions[index - 1] : null, revision, outlineRevisionFields),
+      }))
+      .reverse()
+
+    // Revisions keep reviewer IDs only; resolve names for display
+    const reviewerIds = [...new Set(revisions.map((revision) => revision.reviewerId).filter((id): id is string => !!id))]
+    const reviewers = await prisma.user.findMany({
+      where: { id: { in: reviewerIds } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    })
+
+    return successResponse({ revisions: history, reviewers })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -1,16 +1,49 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { checkOrgAccess, checkOrgOwner } from "@/lib/auth-utils"
-import { updateOutlineSchema } from "@/lib/validation"
+import { requirePermission, verifyOrgMembership } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, outlineAuditFields, recordAuditEvent } from "@/lib/audit"
+import { recordOutlineRevision, recordOutlineStatusChange } from "@/lib/outline-revisions"
+import { getOutlineConfig } from "@/lib/outline-config"
+import { checkStatusTransition } from "@/lib/outline-workflow"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { getOutlineReviewEvent, notifyOutlineReviewer } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import { getPurgeDate } from "@/lib/trash"
+import { promoteOutlineChildren } from "@/lib/outline-ordering"
+import { orgIdSchema, updateOutlineSchema } from "@/lib/validation"
 import {
   unauthorizedResponse,
   badRequestResponse,
   forbiddenResponse,
   notFoundResponse,
+  conflictResponse,
   successResponse,
   handleApiError,
 } from "@/lib/api-response"
 
+// Thrown inside the update transaction when another edit got there first
+class OutlineVersionConflict extends Error {
+  constructor() {
+    super("Outline was changed by someone else")
+    this.name = "OutlineVersionConflict"
+  }
+}
+
+async function outlineConflictResponse(id: string) {
+  const current = await prisma.outline.findUnique({
+    where: { id },
+    include: outlineReviewerInclude,
+  })
+  if (!current || current.deletedAt) {
+    return notFoundResponse("Outline")
+  }
+  return conflictResponse(
+    "This outline was changed by someone else since you opened it",
+    "OUTLINE_VERSION_CONFLICT",
+    { outline: current }
+  )
+}
+
 // PATCH /api/outlines/[id]
 export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -21,32 +54,27 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
 
     const { id } = await params
     const body = await request.json()
-    const data = updateOutlineSchema.parse(body)
+    const { orgId } = orgIdSchema.parse(body)
 
-    // Verify outline exists and get its organization
+    // Verify outline exists and keep a snapshot for the audit diff
     const existingOutline = await prisma.outline.findUnique({
       where: { id },
-      select: { organizationId: true },
     })
 
-    if (!existingOutline) {
+    if (!existingOutline || existingOutline.deletedAt) {
       return notFoundResponse("Outline")
     }
 
     // Verify the orgId in request matches the outline's organization
-    if (data.orgId !== existingOutline.organizationId) {
+    if (orgId !== existingOutline.organizationId) {
       return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
     }
 
-    const access = await checkOrgAccess(user.id, data.orgId)
-    if (!access.hasAccess) {
-      return forbiddenResponse("You do not have access to this organization")
-    }
+    // Only members may see the organization's configured values in validation errors
+    await requirePermission(user.id, orgId, "outline:read")
 
-    // Only organization owners can update outlines
-    if (!access.isOwner) {
-      return forbiddenResponse("Only organization owners can update outlines")
-    }
+    const config = await getOutlineConfig(orgId)
+    const data = updateOutlineSchema(config).parse(body)
 
     // Build update data object
     const updateData: {
@@ -55,27 +83,111 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       status?: string
       target?: number
       limit?: number
-      reviewer?: string
+      reviewerId?: string | null
+      dueDate?: Date | null
     } = {}
 
     if (data.header !== undefined) updateData.header = data.header
     if (data.sectionType !== undefined) updateData.sectionType = data.sectionType
-    if (data.status !== undefined) updateData.status = data.status
+    if (data.status !== undefined && data.status !== existingOutline.status) updateData.status = data.status
     if (data.target !== undefined) updateData.target = data.target
     if (data.limit !== undefined) updateData.limit = data.limit
-    if (data.reviewer !== undefined) updateData.reviewer = data.reviewer
+    if (data.reviewerId !== undefined) updateData.reviewerId = data.reviewerId
+    if (data.dueDate !== undefined) updateData.dueDate = data.dueDate
 
     if (Object.keys(updateData).length === 0) {
       return badRequestResponse("No fields to update", "NO_UPDATE_FIELDS")
     }
 
-    const outline = await prisma.outline.update({
-      where: { id },
-      data: updateData,
+    // A new due date gets its own reminders
+    const dueDateChanged =
+      updateData.dueDate !== undefined && updateData.dueDate?.getTime() !== existingOutline.dueDate?.getTime()
+
+    // Reviewers may change the status only; any other field needs full update rights
+    const isStatusOnlyUpdate = Object.keys(updateData).every((key) => key === "status")
+    await requirePermission(
+      user.id,
+      data.orgId,
+      isStatusOnlyUpdate ? "outline:review" : "outline:update",
+      "You do not have permission to update outlines"
+    )
+
+    if (data.reviewerId && !(await verifyOrgMembership(data.reviewerId, orgId))) {
+      return badRequestResponse("Reviewer must be a member of this organization", "INVALID_REVIEWER")
+    }
+
+    // Status changes follow the organization's workflow. Approvals are checked
+    // against the reviewer assigned before this update, not one set alongside it.
+    if (updateData.status !== undefined) {
+      const transitionError = checkStatusTransition(config.transitions, existingOutline, updateData.status, user.id)
+      if (transitionError?.code === "NOT_REVIEWER") {
+        return forbiddenResponse(transitionError.message)
+      }
+      if (transitionError) {
+        return badRequestResponse(transitionError.message, transitionError.code)
+      }
+    }
+
+    // Optimistic concurrency: an edit based on an older version must be merged first
+    if (data.version !== undefined && data.version !== existingOutline.version) {
+      return outlineConflictResponse(id)
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const outline = await prisma.$transaction(async (tx) => {
+      // Guarded on the version read above, so an edit landing in between is not overwritten
+      const { count } = await tx.outline.updateMany({
+        where: { id, version: existingOutline.version },
+        data: {
+          ...updateData,
+          ...(dueDateChanged && { dueReminderSentAt: null, overdueReminderSentAt: null }),
+          version: { increment: 1 },
+        },
+      })
+      if (count === 0) {
+        throw new OutlineVersionConflict()
+      }
+
+      const updated = await tx.outline.findUniqueOrThrow({
+        where: { id },
+        include: outlineReviewerInclude,
+      })
+
+      await recordOutlineRevision(tx, updated, user.id)
+
+      if (updateData.status !== undefined) {
+        await recordOutlineStatusChange(
+          tx,
+          updated.id,
+          existingOutline.status,
+          updated.status,
+          user.id,
+          data.statusComment
+        )
+      }
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: updated.organizationId,
+        action: "outline.updated",
+        targetType: "outline",
+        targetId: updated.id,
+        changes: diffFields(existingOutline, updated, outlineAuditFields),
+        metadata: data.statusComment && updateData.status !== undefined ? { statusComment: data.statusComment } : undefined,
+      })
+
+      return updated
     })
 
+    await notifyOutlineReviewer(outline, user, getOutlineReviewEvent(existingOutline, outline))
+    await publishOrgEvent({ type: "outline.updated", organizationId: orgId, outlineIds: [id], actorId: user.id })
+
     return successResponse({ outline }, "Outline updated successfully")
   } catch (error) {
+    if (error instanceof OutlineVersionConflict) {
+      const { id } = await params
+      return outlineConflictResponse(id)
+    }
     return handleApiError(error)
   }
 }
@@ -97,13 +209,12 @@ export async function DELETE(request: Request, { params }: { params: Promise<{ i
 
     const { id } = await params
 
-    // Verify outline exists and get its organization
+    // Verify outline exists and keep a snapshot for the audit log
     const existingOutline = await prisma.outline.findUnique({
       where: { id },
-      select: { organizationId: true },
     })
 
-    if (!existingOutline) {
+    if (!existingOutline || existingOutline.deletedAt) {
       return notFoundResponse("Outline")
     }
 
@@ -112,21 +223,35 @@ export async function DELETE(request: Request, { params }: { params: Promise<{ i
       return badRequestResponse("Organization ID mismatch", "ORG_ID_MISMATCH")
     }
 
-    const access = await checkOrgAccess(user.id, orgId)
-    if (!access.hasAccess) {
-      return forbiddenResponse("You do not have access to this organization")
-    }
+    await requirePermission(user.id, orgId, "outline:delete", "You do not have permission to delete outlines")
 
-    // Only organization owners can delete outlines
-    if (!access.isOwner) {
-      return forbiddenResponse("Only organization owners can delete outlines")
-    }
+    const auditContext = await getAuditContext(request, user.id)
 
-    await prisma.outline.delete({
-      where: { id },
+    // Move to the trash; scripts/purge-trash.js removes it after the retention window
+    const deletedAt = new Date()
+
+    await prisma.$transaction(async (tx) => {
+      // Sub-sections stay in the tree, taking the deleted outline's place
+      const promotedChildren = await promoteOutlineChildren(tx, existingOutline)
+
+      await tx.outline.update({
+        where: { id },
+        data: { deletedAt },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: orgId,
+        action: "outline.deleted",
+        targetType: "outline",
+        targetId: id,
+        changes: diffFields(existingOutline, null, outlineAuditFields),
+        metadata: promotedChildren > 0 ? { promotedChildren } : undefined,
+      })
     })
 
-    return successResponse(undefined, "Outline deleted successfully")
+    await publishOrgEvent({ type: "outline.deleted", organizationId: orgId, outlineIds: [id], actorId: user.id })
+
+    return successResponse({ purgeAt: getPurgeDate(deletedAt) }, "Outline moved to trash")
   } catch (error) {
     return handleApiError(error)
   }
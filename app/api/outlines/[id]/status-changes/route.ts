@@ -0,0 +1,50 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import {
+  unauthorizedResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/[id]/status-changes
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+
+    const outline = await prisma.outline.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, deletedAt: true },
+    })
+
+    if (!outline || outline.deletedAt) {
+      return notFoundResponse("Outline")
+    }
+
+    await requirePermission(user.id, outline.organizationId, "outline:read")
+
+    const statusChanges = await prisma.outlineStatusChange.findMany({
+      where: { outlineId: id },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return successResponse({ statusChanges })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,59 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getFinalStatuses } from "@/lib/outline-config"
+import { assignedOutlinesQuerySchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/assigned?includeDone=... - Outlines the current user reviews, across organizations
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = assignedOutlinesQuerySchema.parse(Object.fromEntries(searchParams))
+
+    // Reviewers are unassigned when they leave an organization, so no membership check is needed
+    const outlines = await prisma.outline.findMany({
+      where: {
+        reviewerId: user.id,
+        deletedAt: null,
+        organization: { deletedAt: null },
+      },
+      include: {
+        organization: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        document: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+      orderBy: { updatedAt: "desc" },
+    })
+
+    const finalStatuses = await getFinalStatuses([...new Set(outlines.map((outline) => outline.organizationId))])
+
+    const assigned = outlines.map((outline) => ({
+      ...outline,
+      isDone: finalStatuses.get(outline.organizationId) === outline.status,
+    }))
+
+    return successResponse({
+      outlines: query.includeDone ? assigned : assigned.filter((outline) => !outline.isDone),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,229 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission, verifyOrgMembership } from "@/lib/auth-utils"
+import { hasPermission } from "@/lib/permissions"
+import { diffFields, getAuditContext, outlineAuditFields, recordAuditEvent } from "@/lib/audit"
+import { recordOutlineRevision, recordOutlineStatusChange } from "@/lib/outline-revisions"
+import { getOutlineConfig } from "@/lib/outline-config"
+import { checkStatusTransition } from "@/lib/outline-workflow"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { getOutlineReviewEvent, notifyOutlineReviewer } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import { promoteOutlineChildren } from "@/lib/outline-ordering"
+import { getPurgeDate } from "@/lib/trash"
+import { bulkOutlineSchema, orgIdSchema } from "@/lib/validation"
+import type { Outline } from "@prisma/client"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  forbiddenResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+type BulkOutlineResult =
+  | { id: string; result: "updated" | "deleted" | "unchanged" }
+  | { id: string; result: "failed"; error: { code: string; message: string } }
+
+type OutlineUpdate = Partial<Pick<Outline, "status" | "sectionType" | "reviewerId">>
+
+// PATCH /api/outlines/bulk - Change or delete many outlines at once, with a result per outline
+export async function PATCH(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const { orgId } = orgIdSchema.parse(body)
+
+    // Access is checked once; the role decides what this request may do
+    const access = await requirePermission(user.id, orgId, "outline:read")
+
+    const config = await getOutlineConfig(orgId)
+    const data = bulkOutlineSchema(config).parse(body)
+
+    const changes: OutlineUpdate = {}
+    if (data.action === "update") {
+      if (data.status !== undefined) changes.status = data.status
+      if (data.sectionType !== undefined) changes.sectionType = data.sectionType
+      if (data.reviewerId !== undefined) changes.reviewerId = data.reviewerId
+
+      if (Object.keys(changes).length === 0) {
+        return badRequestResponse("No fields to update", "NO_UPDATE_FIELDS")
+      }
+    }
+
+    // Same rules as single-outline changes: reviewers may only change status
+    const isStatusOnlyUpdate = Object.keys(changes).every((key) => key === "status")
+    const requiredAction =
+      data.action === "delete" ? "outline:delete" : isStatusOnlyUpdate ? "outline:review" : "outline:update"
+    if (!hasPermission(access.role, requiredAction)) {
+      return forbiddenResponse(
+        data.action === "delete" ? "You do not have permission to delete outlines" : "You do not have permission to update outlines"
+      )
+    }
+
+    if (changes.reviewerId && !(await verifyOrgMembership(changes.reviewerId, orgId))) {
+      return badRequestResponse("Reviewer must be a member of this organization", "INVALID_REVIEWER")
+    }
+
+    const existing = await prisma.outline.findMany({
+      where: { id: { in: data.ids }, organizationId: orgId, deletedAt: null },
+    })
+    const existingById = new Map(existing.map((outline) => [outline.id, outline]))
+
+    // Work out each outline's change up front; only the ones that pass are written
+    const results = new Map<string, BulkOutlineResult>()
+    const updates: { outline: Outline; data: OutlineUpdate }[] = []
+    const deletions: Outline[] = []
+
+    for (const id of data.ids) {
+      const outline = existingById.get(id)
+      if (!outline) {
+        results.set(id, { id, result: "failed", error: { code: "NOT_FOUND", message: "Outline not found" } })
+        continue
+      }
+
+      if (data.action === "delete") {
+        deletions.push(outline)
+        continue
+      }
+
+      const update: OutlineUpdate = {}
+      if (changes.sectionType !== undefined && changes.sectionType !== outline.sectionType) {
+        update.sectionType = changes.sectionType
+      }
+      if (changes.reviewerId !== undefined && changes.reviewerId !== outline.reviewerId) {
+        update.reviewerId = changes.reviewerId
+      }
+      if (changes.status !== undefined && changes.status !== outline.status) {
+        // Checked against the reviewer assigned before this change, as for single updates
+        const transitionError = checkStatusTransition(config.transitions, outline, changes.status, user.id)
+        if (transitionError) {
+          results.set(id, { id, result: "failed", error: transitionError })
+          continue
+        }
+        update.status = changes.status
+      }
+
+      if (Object.keys(update).length === 0) {
+        results.set(id, { id, result: "unchanged" })
+      } else {
+        updates.push({ outline, data: update })
+      }
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+    const deletedAt = new Date()
+
+    const updated = await prisma.$transaction(
+      async (tx) => {
+        const saved = []
+
+        for (const { outline, data: update } of updates) {
+          // Guarded on the version read above, so an edit landing in between is not overwritten
+          const { count } = await tx.outline.updateMany({
+            where: { id: outline.id, version: outline.version },
+            data: { ...update, version: { increment: 1 } },
+          })
+          if (count === 0) {
+            results.set(outline.id, {
+              id: outline.id,
+              result: "failed",
+              error: {
+                code: "OUTLINE_VERSION_CONFLICT",
+                message: "This outline was changed by someone else during the update",
+              },
+            })
+            continue
+          }
+
+          const after = await tx.outline.findUniqueOrThrow({
+            where: { id: outline.id },
+            include: outlineReviewerInclude,
+          })
+
+          await recordOutlineRevision(tx, after, user.id)
+
+          if (update.status !== undefined) {
+            await recordOutlineStatusChange(tx, after.id, outline.status, after.status, user.id, data.statusComment)
+          }
+
+          await recordAuditEvent(tx, auditContext, {
+            organizationId: orgId,
+            action: "outline.updated",
+            targetType: "outline",
+            targetId: after.id,
+            changes: diffFields(outline, after, outlineAuditFields),
+            metadata: {
+              bulk: true,
+              ...(!!data.statusComment && update.status !== undefined && { statusComment: data.statusComment }),
+            },
+          })
+
+          results.set(outline.id, { id: outline.id, result: "updated" })
+          saved.push({ before: outline, after })
+        }
+
+        for (const outline of deletions) {
+          // Earlier deletions in this batch may have moved it, so read its current place
+          const current = await tx.outline.findUniqueOrThrow({ where: { id: outline.id } })
+          const promotedChildren = await promoteOutlineChildren(tx, current)
+
+          await tx.outline.update({
+            where: { id: outline.id },
+            data: { deletedAt },
+          })
+
+          await recordAuditEvent(tx, auditContext, {
+            organizationId: orgId,
+            action: "outline.deleted",
+            targetType: "outline",
+            targetId: outline.id,
+            changes: diffFields(outline, null, outlineAuditFields),
+            metadata: { bulk: true, ...(promotedChildren > 0 && { promotedChildren }) },
+          })
+
+          results.set(outline.id, { id: outline.id, result: "deleted" })
+        }
+
+        return saved
+      },
+      // Up to a few hundred outlines are written in one go
+      { timeout: 60_000 }
+    )
+
+    for (const { before, after } of updated) {
+      await notifyOutlineReviewer(after, user, getOutlineReviewEvent(before, after))
+    }
+
+    // One event for the whole batch so watchers refetch once
+    const changedIds = data.action === "delete" ? deletions.map((outline) => outline.id) : updated.map(({ after }) => after.id)
+    if (changedIds.length > 0) {
+      await publishOrgEvent({
+        type: data.action === "delete" ? "outline.deleted" : "outline.updated",
+        organizationId: orgId,
+        outlineIds: changedIds,
+        actorId: user.id,
+      })
+    }
+
+    const ordered = data.ids.map((id) => results.get(id)!)
+    const failed = ordered.filter((item) => item.result === "failed").length
+    const applied = data.action === "delete" ? deletions.length : updated.length
+    const verb = data.action === "delete" ? "Moved" : "Updated"
+
+    return successResponse(
+      {
+        results: ordered,
+        ...(data.action === "delete" && deletions.length > 0 && { purgeAt: getPurgeDate(deletedAt) }),
+      },
+      `${verb} ${applied} outline${applied === 1 ? "" : "s"}${data.action === "delete" ? " to trash" : ""}` +
+        (failed > 0 ? `; ${failed} failed` : "")
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,81 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getOutlineConfig } from "@/lib/outline-config"
+import {
+  blocksToMarkdown,
+  buildOutlineExport,
+  exportContentTypes,
+  getExportFileName,
+  outlinesToCsv,
+} from "@/lib/outline-export"
+import { renderDocx } from "@/lib/docx-writer"
+import { renderPdf } from "@/lib/pdf-writer"
+import { findOrgDocument } from "@/lib/documents"
+import { exportOutlinesQuerySchema } from "@/lib/validation"
+import { unauthorizedResponse, notFoundResponse, handleApiError } from "@/lib/api-response"
+
+// GET /api/outlines/export?orgId=...&documentId=...&format=md|docx|pdf|csv&appendix=true
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = exportOutlinesQuerySchema.parse({
+      orgId: searchParams.get("orgId") ?? "",
+      documentId: searchParams.get("documentId") ?? "",
+      format: searchParams.get("format") ?? undefined,
+      appendix: searchParams.get("appendix") ?? undefined,
+    })
+
+    await requirePermission(user.id, query.orgId, "outline:read")
+
+    const sourceDocument = await findOrgDocument(query.orgId, query.documentId)
+    if (!sourceDocument) {
+      return notFoundResponse("Document")
+    }
+
+    const [outlines, config] = await Promise.all([
+      prisma.outline.findMany({
+        where: { documentId: query.documentId, deletedAt: null },
+        include: {
+          reviewer: { select: { name: true, email: true } },
+          content: { select: { body: true } },
+        },
+      }),
+      getOutlineConfig(query.orgId),
+    ])
+
+    const generatedAt = new Date()
+    let body: string | Buffer
+    if (query.format === "csv") {
+      body = outlinesToCsv(outlines, config.sectionTypes)
+    } else {
+      const document = buildOutlineExport(sourceDocument.title, outlines, config.sectionTypes, {
+        appendix: query.appendix,
+        generatedAt,
+      })
+      body =
+        query.format === "docx"
+          ? renderDocx(document.title, document.blocks, generatedAt)
+          : query.format === "pdf"
+            ? renderPdf(document.title, document.blocks, generatedAt)
+            : blocksToMarkdown(document.blocks)
+    }
+
+    const fileName = getExportFileName(sourceDocument.title, query.format, generatedAt)
+    return new Response(typeof body === "string" ? body : new Uint8Array(body), {
+      status: 200,
+      headers: {
+        "Content-Type": exportContentTypes[query.format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,220 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, outlineAuditFields, recordAuditEvent } from "@/lib/audit"
+import { recordOutlineRevision, recordOutlineStatusChange } from "@/lib/outline-revisions"
+import { getOutlineConfig } from "@/lib/outline-config"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { getNextOutlinePosition, getOutlineTreeItems } from "@/lib/outline-ordering"
+import { getOutlineReviewEvent, notifyOutlineReviewer } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import { findOrgDocument } from "@/lib/documents"
+import {
+  guessImportMapping,
+  ImportFileError,
+  mapImportRecord,
+  parseImportFile,
+  type MappedImportRow,
+  type ParsedImportFile,
+} from "@/lib/outline-import"
+import { createOutlineSchema, importOutlinesSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+interface ImportRowReport {
+  row: number
+  values: MappedImportRow
+  errors: { field: string; message: string }[]
+}
+
+// Cells arrive as text; numbers are converted so the schema can check them
+function toNumber(value: string | undefined): number | string | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  const number = Number(value.replace(/,/g, ""))
+  return Number.isFinite(number) ? number : value
+}
+
+// POST /api/outlines/import - Validate a CSV/JSON file of outlines and create them all in a document, or none
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = importOutlinesSchema.parse(body)
+
+    await requirePermission(user.id, data.orgId, "outline:create", "You do not have permission to create outlines")
+
+    if (!(await findOrgDocument(data.orgId, data.documentId))) {
+      return notFoundResponse("Document")
+    }
+
+    let file: ParsedImportFile
+    try {
+      file = parseImportFile(data.content, data.format)
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return badRequestResponse(error.message, "INVALID_IMPORT_FILE")
+      }
+      throw error
+    }
+
+    const mapping = data.mapping ?? guessImportMapping(file.columns)
+    const unknownColumns = Object.values(mapping).filter((column) => !file.columns.includes(column))
+    if (unknownColumns.length > 0) {
+      return badRequestResponse(`Column "${unknownColumns[0]}" is not in the file`, "INVALID_IMPORT_MAPPING")
+    }
+    if (!mapping.header || !mapping.sectionType) {
+      return badRequestResponse("Header and section type columns must be mapped", "INVALID_IMPORT_MAPPING")
+    }
+
+    const [config, members, treeItems] = await Promise.all([
+      getOutlineConfig(data.orgId),
+      prisma.organizationMember.findMany({
+        where: { organizationId: data.orgId },
+        select: { userId: true, user: { select: { email: true } } },
+      }),
+      getOutlineTreeItems(data.documentId),
+    ])
+    const schema = createOutlineSchema(config)
+    const memberIds = new Map<string, string>()
+    for (const member of members) {
+      memberIds.set(member.userId, member.userId)
+      memberIds.set(member.user.email.toLowerCase(), member.userId)
+    }
+    const outlineIds = new Set(treeItems.map((item) => item.id))
+
+    const rows: ImportRowReport[] = []
+    const valid: ReturnType<typeof schema.parse>[] = []
+
+    file.records.forEach((record, index) => {
+      const values = mapImportRecord(record, mapping)
+      const errors: ImportRowReport["errors"] = []
+
+      // Reviewers can be given by email or user ID; either way they must be members
+      let reviewerId: string | null = null
+      if (values.reviewer) {
+        reviewerId = memberIds.get(values.reviewer.toLowerCase()) ?? memberIds.get(values.reviewer) ?? null
+        if (!reviewerId) {
+          errors.push({ field: "reviewer", message: "Reviewer must be a member of this organization" })
+        }
+      }
+      if (values.parentId && !outlineIds.has(values.parentId)) {
+        errors.push({ field: "parentId", message: "Parent outline not found in this document" })
+      }
+
+      const result = schema.safeParse({
+        orgId: data.orgId,
+        documentId: data.documentId,
+        header: values.header ?? "",
+        sectionType: values.sectionType ?? "",
+        target: toNumber(values.target),
+        limit: toNumber(values.limit),
+        reviewerId,
+        parentId: values.parentId ?? null,
+      })
+      if (result.success) {
+        valid.push(result.data)
+      } else {
+        errors.push(
+          ...result.error.errors.map((issue) => ({ field: String(issue.path[0] ?? "row"), message: issue.message }))
+        )
+      }
+
+      // Rows are numbered from 1 in file order, not counting the CSV header line
+      rows.push({ row: index + 1, values, errors })
+    })
+
+    const invalidCount = rows.filter((row) => row.errors.length > 0).length
+    const report = { total: rows.length, validCount: rows.length - invalidCount, invalidCount, mapping, rows }
+
+    if (data.dryRun) {
+      return successResponse({ dryRun: true, report })
+    }
+
+    if (invalidCount > 0) {
+      return badRequestResponse(
+        `${invalidCount} of ${rows.length} rows have errors. Nothing was imported.`,
+        "IMPORT_VALIDATION_FAILED",
+        report
+      )
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    // Every row goes in together, or none do
+    const outlines = await prisma.$transaction(
+      async (tx) => {
+        const nextPositions = new Map<string | null, number>()
+        const created = []
+
+        for (const row of valid) {
+          const position =
+            nextPositions.get(row.parentId) ?? (await getNextOutlinePosition(tx, data.documentId, row.parentId))
+          nextPositions.set(row.parentId, position + 1)
+
+          const outline = await tx.outline.create({
+            data: {
+              organizationId: data.orgId,
+              documentId: data.documentId,
+              header: row.header,
+              sectionType: row.sectionType,
+              status: row.status,
+              target: row.target,
+              limit: row.limit,
+              reviewerId: row.reviewerId,
+              parentId: row.parentId,
+              position,
+            },
+            include: outlineReviewerInclude,
+          })
+
+          await recordOutlineRevision(tx, outline, user.id)
+          await recordOutlineStatusChange(tx, outline.id, null, outline.status, user.id)
+
+          await recordAuditEvent(tx, auditContext, {
+            organizationId: data.orgId,
+            action: "outline.created",
+            targetType: "outline",
+            targetId: outline.id,
+            changes: diffFields(null, outline, outlineAuditFields),
+            metadata: { source: "import" },
+          })
+
+          created.push(outline)
+        }
+
+        return created
+      },
+      // Up to MAX_IMPORT_ROWS outlines, each with a revision and an audit event
+      { timeout: 60_000 }
+    )
+
+    for (const outline of outlines) {
+      await notifyOutlineReviewer(outline, user, getOutlineReviewEvent(null, outline))
+    }
+
+    await publishOrgEvent({
+      type: "outline.created",
+      organizationId: data.orgId,
+      outlineIds: outlines.map((outline) => outline.id),
+      actorId: user.id,
+    })
+
+    return successResponse(
+      { dryRun: false, report, created: outlines.length },
+      `Imported ${outlines.length} outline${outlines.length === 1 ? "" : "s"}`
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { getSessionUser } from "@/lib/auth"
+import { requirePermission } from "@/lib/auth-utils"
+import { getOrgPresence } from "@/lib/outline-presence"
+import { orgIdSchema } from "@/lib/validation"
+import { unauthorizedResponse, successResponse, handleApiError } from "@/lib/api-response"
+
+// GET /api/outlines/presence?orgId=... - Who has which outlines open right now
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { orgId } = orgIdSchema.parse({ orgId: searchParams.get("orgId") ?? "" })
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    return successResponse({ presence: getOrgPresence(orgId) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -1,16 +1,39 @@
 import { getSessionUser } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { checkOrgAccess, checkOrgOwner } from "@/lib/auth-utils"
-import { createOutlineSchema } from "@/lib/validation"
+import { requirePermission, verifyOrgMembership } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, outlineAuditFields, recordAuditEvent } from "@/lib/audit"
+import { recordOutlineRevision, recordOutlineStatusChange } from "@/lib/outline-revisions"
+import { getOutlineConfig } from "@/lib/outline-config"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { findParentError, getNextOutlinePosition, getOutlineSectionNumbers } from "@/lib/outline-ordering"
+import { getOutlineReviewEvent, notifyOutlineReviewer } from "@/lib/outline-notifications"
+import { publishOrgEvent } from "@/lib/realtime"
+import { findOrgDocument } from "@/lib/documents"
+import { createOutlineSchema, listOutlinesQuerySchema, orgIdSchema } from "@/lib/validation"
+import type { Prisma } from "@prisma/client"
 import {
   unauthorizedResponse,
   badRequestResponse,
-  forbiddenResponse,
+  notFoundResponse,
   successResponse,
   handleApiError,
 } from "@/lib/api-response"
 
-// GET /api/outlines?orgId=...
+/**
+ * Build the header search filter: every word must appear in the header
+ */
+function buildHeaderSearch(q: string | undefined): Prisma.OutlineWhereInput[] {
+  if (!q) {
+    return []
+  }
+  return q
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 10)
+    .map((term) => ({ header: { contains: term, mode: "insensitive" } }))
+}
+
+// GET /api/outlines?orgId=...&documentId=...&cursor=...&limit=...&sortBy=...&sortOrder=...&status=...&sectionType=...&reviewerId=...&q=...
 export async function GET(request: Request) {
   try {
     const user = await getSessionUser(request)
@@ -25,17 +48,54 @@ export async function GET(request: Request) {
       return badRequestResponse("orgId is required", "MISSING_ORG_ID")
     }
 
-    const access = await checkOrgAccess(user.id, orgId)
-    if (!access.hasAccess) {
-      return forbiddenResponse("You do not have access to this organization")
+    const query = listOutlinesQuerySchema.parse(Object.fromEntries(searchParams))
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    if (!(await findOrgDocument(orgId, query.documentId))) {
+      return notFoundResponse("Document")
+    }
+
+    const where: Prisma.OutlineWhereInput = {
+      documentId: query.documentId,
+      deletedAt: null,
+      status: query.status,
+      sectionType: query.sectionType,
+      reviewerId: query.reviewerId === "unassigned" ? null : query.reviewerId,
+      AND: buildHeaderSearch(query.q),
     }
 
-    const outlines = await prisma.outline.findMany({
-      where: { organizationId: orgId },
-      orderBy: { createdAt: "desc" },
-    })
+    const sortOrder: Prisma.OutlineOrderByWithRelationInput =
+      query.sortBy === "reviewer"
+        ? { reviewer: { name: { sort: query.sortOrder, nulls: "last" } } }
+        : query.sortBy === "dueDate"
+          ? { dueDate: { sort: query.sortOrder, nulls: "last" } }
+          : { [query.sortBy]: query.sortOrder }
+
+    // id breaks ties so the cursor position is stable for non-unique sort columns
+    const [outlines, total, sectionNumbers] = await Promise.all([
+      prisma.outline.findMany({
+        where,
+        include: outlineReviewerInclude,
+        orderBy: [sortOrder, { id: query.sortOrder }],
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+      }),
+      prisma.outline.count({ where }),
+      getOutlineSectionNumbers(query.documentId),
+    ])
+
+    const hasMore = outlines.length > query.limit
+    const page = (hasMore ? outlines.slice(0, query.limit) : outlines).map((outline) => ({
+      ...outline,
+      number: sectionNumbers.get(outline.id) ?? null,
+    }))
 
-    return successResponse({ outlines })
+    return successResponse({
+      outlines: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      total,
+    })
   } catch (error) {
     return handleApiError(error)
   }
@@ -50,30 +110,64 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const data = createOutlineSchema.parse(body)
+    const { orgId } = orgIdSchema.parse(body)
+
+    await requirePermission(user.id, orgId, "outline:create", "You do not have permission to create outlines")
+
+    // Section type and status are checked against the organization's own lists
+    const config = await getOutlineConfig(orgId)
+    const data = createOutlineSchema(config).parse(body)
+
+    if (!(await findOrgDocument(orgId, data.documentId))) {
+      return notFoundResponse("Document")
+    }
 
-    const access = await checkOrgAccess(user.id, data.orgId)
-    if (!access.hasAccess) {
-      return forbiddenResponse("You do not have access to this organization")
+    if (data.reviewerId && !(await verifyOrgMembership(data.reviewerId, orgId))) {
+      return badRequestResponse("Reviewer must be a member of this organization", "INVALID_REVIEWER")
     }
 
-    // Only organization owners can create outlines
-    if (!access.isOwner) {
-      return forbiddenResponse("Only organization owners can create outlines")
+    const parentError = await findParentError(data.documentId, null, data.parentId)
+    if (parentError) {
+      return badRequestResponse(parentError.message, parentError.code)
     }
 
-    const outline = await prisma.outline.create({
-      data: {
-        organizationId: data.orgId,
-        header: data.header,
-        sectionType: data.sectionType,
-        status: data.status,
-        target: data.target,
-        limit: data.limit,
-        reviewer: data.reviewer,
-      },
+    const auditContext = await getAuditContext(request, user.id)
+
+    const outline = await prisma.$transaction(async (tx) => {
+      const created = await tx.outline.create({
+        data: {
+          organizationId: data.orgId,
+          documentId: data.documentId,
+          header: data.header,
+          sectionType: data.sectionType,
+          status: data.status,
+          target: data.target,
+          limit: data.limit,
+          reviewerId: data.reviewerId,
+          dueDate: data.dueDate,
+          parentId: data.parentId,
+          position: await getNextOutlinePosition(tx, data.documentId, data.parentId),
+        },
+        include: outlineReviewerInclude,
+      })
+
+      await recordOutlineRevision(tx, created, user.id)
+      await recordOutlineStatusChange(tx, created.id, null, created.status, user.id)
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: created.organizationId,
+        action: "outline.created",
+        targetType: "outline",
+        targetId: created.id,
+        changes: diffFields(null, created, outlineAuditFields),
+      })
+
+      return created
     })
 
+    await notifyOutlineReviewer(outline, user, getOutlineReviewEvent(null, outline))
+    await publishOrgEvent({ type: "outline.created", organizationId: orgId, outlineIds: [outline.id], actorId: user.id })
+
     return successResponse({ outline }, "Outline created successfully")
   } catch (error) {
     return handleApiError(error)
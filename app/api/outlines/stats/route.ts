@@ -0,0 +1,40 @@
+import { getSessionUser } from "@/lib/auth"
+import { requirePermission } from "@/lib/auth-utils"
+import { findOrgDocument } from "@/lib/documents"
+import { getOutlineStats } from "@/lib/outline-stats"
+import { outlineStatsQuerySchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/stats?orgId=...&documentId=...&days=... - Outline counts, totals and completion trend for the dashboard
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { orgId, documentId, days } = outlineStatsQuerySchema.parse({
+      orgId: searchParams.get("orgId") ?? "",
+      documentId: searchParams.get("documentId") || undefined,
+      days: searchParams.get("days") ?? undefined,
+    })
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    if (documentId && !(await findOrgDocument(orgId, documentId))) {
+      return notFoundResponse("Document")
+    }
+
+    const stats = await getOutlineStats(orgId, { documentId, days })
+
+    return successResponse({ stats })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
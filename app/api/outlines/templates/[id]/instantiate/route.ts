@@ -0,0 +1,81 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getAuditContext } from "@/lib/audit"
+import { getOutlineConfig } from "@/lib/outline-config"
+import { findOrgDocument } from "@/lib/documents"
+import { findMissingSectionTypes, findOutlineTemplate, instantiateOutlineTemplate } from "@/lib/outline-templates"
+import { publishOrgEvent } from "@/lib/realtime"
+import { documentScopeSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// POST /api/outlines/templates/[id]/instantiate - Create every section of a template as outlines in a document
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = documentScopeSchema.parse(body)
+
+    await requirePermission(user.id, data.orgId, "outline:create", "You do not have permission to create outlines")
+
+    const [document, template, config] = await Promise.all([
+      findOrgDocument(data.orgId, data.documentId),
+      findOutlineTemplate(data.orgId, id),
+      getOutlineConfig(data.orgId),
+    ])
+    if (!document) {
+      return notFoundResponse("Document")
+    }
+    if (!template) {
+      return notFoundResponse("Template")
+    }
+
+    const missingSectionTypes = findMissingSectionTypes(template, config)
+    if (missingSectionTypes.length > 0) {
+      return badRequestResponse(
+        `Add these section types in the outline settings first: ${missingSectionTypes.join(", ")}`,
+        "TEMPLATE_SECTION_TYPES_MISSING",
+        { sectionTypes: missingSectionTypes }
+      )
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    // The whole template goes in, or nothing does
+    const outlines = await prisma.$transaction(
+      (tx) =>
+        instantiateOutlineTemplate(tx, auditContext, {
+          organizationId: data.orgId,
+          documentId: data.documentId,
+          template,
+          status: config.statuses[0],
+        }),
+      { timeout: 60_000 }
+    )
+
+    await publishOrgEvent({
+      type: "outline.created",
+      organizationId: data.orgId,
+      outlineIds: outlines.map((outline) => outline.id),
+      actorId: user.id,
+    })
+
+    return successResponse(
+      { created: outlines.length },
+      `Added ${outlines.length} outline${outlines.length === 1 ? "" : "s"} from "${template.name}"`
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,62 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, recordAuditEvent, templateAuditFields } from "@/lib/audit"
+import { findOutlineTemplate, isBuiltInTemplateId } from "@/lib/outline-templates"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// DELETE /api/outlines/templates/[id]?orgId=... - Delete one of the organization's templates
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get("orgId")
+
+    if (!orgId) {
+      return badRequestResponse("orgId is required", "MISSING_ORG_ID")
+    }
+
+    await requirePermission(user.id, orgId, "template:delete", "You do not have permission to delete templates")
+
+    if (isBuiltInTemplateId(id)) {
+      return badRequestResponse("Built-in templates cannot be deleted", "BUILT_IN_TEMPLATE")
+    }
+
+    const template = await findOutlineTemplate(orgId, id)
+    if (!template) {
+      return notFoundResponse("Template")
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    await prisma.$transaction(async (tx) => {
+      await tx.outlineTemplate.delete({
+        where: { id },
+      })
+
+      await recordAuditEvent(tx, auditContext, {
+        organizationId: orgId,
+        action: "template.deleted",
+        targetType: "template",
+        targetId: id,
+        changes: diffFields({ name: template.name, description: template.description }, null, templateAuditFields),
+        metadata: { sectionCount: template.sections.length },
+      })
+    })
+
+    return successResponse(undefined, "Template deleted")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,103 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { diffFields, getAuditContext, recordAuditEvent, templateAuditFields } from "@/lib/audit"
+import { findOrgDocument } from "@/lib/documents"
+import { findOutlineTemplate, listOutlineTemplates, saveOutlineTemplateSections } from "@/lib/outline-templates"
+import { createOutlineTemplateSchema, MAX_TEMPLATE_SECTIONS, orgIdSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/templates?orgId=... - Built-in templates and the organization's own
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { orgId } = orgIdSchema.parse({ orgId: searchParams.get("orgId") ?? "" })
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    const templates = await listOutlineTemplates(orgId)
+
+    return successResponse({ templates })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/outlines/templates - Save a document's outlines as a template
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = createOutlineTemplateSchema.parse(body)
+
+    await requirePermission(user.id, data.orgId, "template:create", "You do not have permission to create templates")
+
+    if (!(await findOrgDocument(data.orgId, data.documentId))) {
+      return notFoundResponse("Document")
+    }
+
+    const outlineCount = await prisma.outline.count({
+      where: { documentId: data.documentId, deletedAt: null },
+    })
+    if (outlineCount === 0) {
+      return badRequestResponse("This document has no outlines to save", "EMPTY_TEMPLATE")
+    }
+    if (outlineCount > MAX_TEMPLATE_SECTIONS) {
+      return badRequestResponse(
+        `Templates can have at most ${MAX_TEMPLATE_SECTIONS} sections`,
+        "TEMPLATE_TOO_LARGE"
+      )
+    }
+
+    const auditContext = await getAuditContext(request, user.id)
+
+    const templateId = await prisma.$transaction(
+      async (tx) => {
+        const created = await tx.outlineTemplate.create({
+          data: {
+            organizationId: data.orgId,
+            name: data.name,
+            description: data.description,
+            createdById: user.id,
+          },
+        })
+
+        const sectionCount = await saveOutlineTemplateSections(tx, created.id, data.documentId)
+
+        await recordAuditEvent(tx, auditContext, {
+          organizationId: data.orgId,
+          action: "template.created",
+          targetType: "template",
+          targetId: created.id,
+          changes: diffFields(null, created, templateAuditFields),
+          metadata: { documentId: data.documentId, sectionCount },
+        })
+
+        return created.id
+      },
+      // Each section is its own insert
+      { timeout: 60_000 }
+    )
+
+    const template = await findOutlineTemplate(data.orgId, templateId)
+
+    return successResponse({ template }, "Template saved successfully")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,49 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { getPurgeDate, getTrashRetentionDays } from "@/lib/trash"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import {
+  unauthorizedResponse,
+  badRequestResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/trash?orgId=...
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get("orgId")
+
+    if (!orgId || orgId === "undefined" || orgId === "null") {
+      return badRequestResponse("orgId is required", "MISSING_ORG_ID")
+    }
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    const outlines = await prisma.outline.findMany({
+      where: {
+        organizationId: orgId,
+        deletedAt: { not: null },
+      },
+      include: { ...outlineReviewerInclude, document: { select: { id: true, title: true } } },
+      orderBy: { deletedAt: "desc" },
+    })
+
+    return successResponse({
+      outlines: outlines.map((outline) => ({
+        ...outline,
+        purgeAt: outline.deletedAt ? getPurgeDate(outline.deletedAt) : null,
+      })),
+      retentionDays: getTrashRetentionDays(),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
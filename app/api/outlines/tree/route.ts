@@ -0,0 +1,50 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { requirePermission } from "@/lib/auth-utils"
+import { outlineReviewerInclude } from "@/lib/outline-reviewers"
+import { buildOutlineTree, flattenOutlineTree } from "@/lib/outline-tree"
+import { findOrgDocument } from "@/lib/documents"
+import { documentScopeSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+// GET /api/outlines/tree?orgId=...&documentId=... - Every outline of a document in section order, with its number and depth
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { orgId, documentId } = documentScopeSchema.parse({
+      orgId: searchParams.get("orgId") ?? "",
+      documentId: searchParams.get("documentId") ?? "",
+    })
+
+    await requirePermission(user.id, orgId, "outline:read")
+
+    if (!(await findOrgDocument(orgId, documentId))) {
+      return notFoundResponse("Document")
+    }
+
+    const outlines = await prisma.outline.findMany({
+      where: { documentId, deletedAt: null },
+      include: outlineReviewerInclude,
+    })
+
+    // Children are returned flat, right after their parent
+    const ordered = flattenOutlineTree(buildOutlineTree(outlines)).map(({ children, ...outline }) => ({
+      ...outline,
+      childCount: children.length,
+    }))
+
+    return successResponse({ outlines: ordered })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,59 @@
+import { getSessionUser } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { updateUserPreferencesSchema } from "@/lib/validation"
+import {
+  unauthorizedResponse,
+  notFoundResponse,
+  successResponse,
+  handleApiError,
+} from "@/lib/api-response"
+
+const preferencesSelect = {
+  outlineView: true,
+} as const
+
+// GET /api/user/preferences
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const preferences = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: preferencesSelect,
+    })
+
+    if (!preferences) {
+      return notFoundResponse("User")
+    }
+
+    return successResponse({ preferences })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH /api/user/preferences
+export async function PATCH(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const data = updateUserPreferencesSchema.parse(body)
+
+    const preferences = await prisma.user.update({
+      where: { id: user.id },
+      data: { outlineView: data.outlineView },
+      select: preferencesSelect,
+    })
+
+    return successResponse({ preferences }, "Preferences saved")
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
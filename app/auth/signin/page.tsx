@@ -2,8 +2,8 @@
 
 import type React from "react"
 
-import { useState } from "react"
-import { useRouter } from "next/navigation"
+import { useState, Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -17,9 +17,13 @@ import { isEmailServiceEnabledClient } from "@/lib/email-config"
 // Force dynamic rendering to prevent build-time prerendering issues
 export const dynamic = 'force-dynamic'
 
-export default function SignInPage() {
+function SignInForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { toast } = useToast()
+  // Carried over from an invitation's signup link by invitees who already have an account
+  const invitationId = searchParams?.get("invitation") || null
+  const nextPath = invitationId ? `/workspace?invitation=${invitationId}` : "/workspace"
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isLoading, setIsLoading] = useState(false)
@@ -51,7 +55,7 @@ export default function SignInPage() {
       const result = await signIn.email({
         email,
         password,
-        callbackURL: "/workspace",
+        callbackURL: nextPath,
       })
 
       if (result?.error) {
@@ -61,7 +65,7 @@ export default function SignInPage() {
           variant: "destructive",
         })
       } else {
-        router.push("/workspace")
+        router.push(nextPath)
       }
     } catch (error) {
       toast({
@@ -152,7 +156,10 @@ export default function SignInPage() {
           )}
           <p className="text-sm text-muted-foreground text-center mt-6">
             Don't have an account?{" "}
-            <Link href="/auth/signup" className="text-primary hover:underline font-semibold transition-colors">
+            <Link
+              href={invitationId ? `/auth/signup?invitation=${invitationId}` : "/auth/signup"}
+              className="text-primary hover:underline font-semibold transition-colors"
+            >
               Sign up
             </Link>
           </p>
@@ -161,3 +168,11 @@ export default function SignInPage() {
     </div>
   )
 }
+
+export default function SignInPage() {
+  return (
+    <Suspense fallback={null}>
+      <SignInForm />
+    </Suspense>
+  )
+}
@@ -2,8 +2,8 @@
 
 import type React from "react"
 
-import { useState } from "react"
-import { useRouter } from "next/navigation"
+import { useEffect, useState, Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -27,9 +27,20 @@ import { isEmailServiceEnabledClient } from "@/lib/email-config"
 // Force dynamic rendering to prevent build-time prerendering issues
 export const dynamic = 'force-dynamic'
 
-export default function SignUpPage() {
+interface InvitationSummary {
+  email: string
+  organizationName: string
+  inviterName: string
+}
+
+function SignUpForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { toast } = useToast()
+  // Set when arriving from an invitation email. The invitation is not accepted
+  // here: it appears in the notifications once the email address is verified.
+  const invitationId = searchParams?.get("invitation") || null
+  const [invitation, setInvitation] = useState<InvitationSummary | null>(null)
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [name, setName] = useState("")
@@ -38,6 +49,36 @@ export default function SignUpPage() {
   const [shouldProceedWithInvalidEmail, setShouldProceedWithInvalidEmail] = useState(false)
   const emailEnabled = isEmailServiceEnabledClient()
 
+  // Show who sent the invitation and fill in the address it was sent to
+  useEffect(() => {
+    if (!invitationId) return
+
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/org/invitations/${invitationId}`)
+        const data = await response.json()
+        if (!response.ok) {
+          toast({
+            title: "Invitation Unavailable",
+            description: "This invitation has expired or was already answered. You can still create an account.",
+            variant: "destructive",
+          })
+          return
+        }
+        const responseData = data.success && data.data ? data.data : data
+        if (responseData.invitation) {
+          setInvitation(responseData.invitation)
+          setEmail((current) => current || responseData.invitation.email)
+        }
+      } catch (error) {
+        console.error("Error loading invitation:", error)
+      }
+    }
+
+    loadInvitation()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invitationId])
+
   // Email validation function - basic format check
   const isValidEmailFormat = (email: string): boolean => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -259,7 +300,9 @@ export default function SignUpPage() {
             Create Account
           </CardTitle>
           <CardDescription className="text-sm sm:text-base">
-            Sign up to get started with your workspace
+            {invitation
+              ? `${invitation.inviterName} invited you to join "${invitation.organizationName}". Create your account and verify your email to accept.`
+              : "Sign up to get started with your workspace"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -293,6 +336,11 @@ export default function SignUpPage() {
                 disabled={isLoading}
                 className="h-11 transition-all focus:ring-2 focus:ring-primary/20"
               />
+              {invitation && email.trim().toLowerCase() !== invitation.email && (
+                <p className="text-xs text-muted-foreground">
+                  The invitation was sent to {invitation.email}. Sign up with that address to receive it.
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <label htmlFor="password" className="text-sm font-semibold">
@@ -319,7 +367,10 @@ export default function SignUpPage() {
           </form>
           <p className="text-sm text-muted-foreground text-center mt-6">
             Already have an account?{" "}
-            <Link href="/auth/signin" className="text-primary hover:underline font-semibold transition-colors">
+            <Link
+              href={invitationId ? `/auth/signin?invitation=${invitationId}` : "/auth/signin"}
+              className="text-primary hover:underline font-semibold transition-colors"
+            >
               Sign in
             </Link>
           </p>
@@ -359,3 +410,11 @@ export default function SignUpPage() {
     </div>
   )
 }
+
+export default function SignUpPage() {
+  return (
+    <Suspense fallback={null}>
+      <SignUpForm />
+    </Suspense>
+  )
+}
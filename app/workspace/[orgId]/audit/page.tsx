@@ -0,0 +1,325 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { auditActions, auditTargetTypes } from "@/lib/validation"
+import { format } from "date-fns"
+import { Loader2, ScrollText, ShieldAlert } from "lucide-react"
+
+interface AuditEvent {
+  id: string
+  action: string
+  targetType: string
+  targetId: string | null
+  changes: Record<string, { before: unknown; after: unknown }> | null
+  metadata: Record<string, unknown> | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+  actor: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+}
+
+const ALL = "all"
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") {
+    return "—"
+  }
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+export default function AuditLogPage() {
+  const params = useParams()
+  const router = useRouter()
+  const orgIdParam = params.orgId as string | undefined
+  // Validate orgId - ensure it's not undefined, null, or the string "undefined"
+  const orgId = orgIdParam && orgIdParam !== "undefined" ? orgIdParam : undefined
+  const { toast } = useToast()
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [isForbidden, setIsForbidden] = useState(false)
+  const [actionFilter, setActionFilter] = useState<string>(ALL)
+  const [targetTypeFilter, setTargetTypeFilter] = useState<string>(ALL)
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+
+  useEffect(() => {
+    if (!orgId) {
+      router.push("/workspace")
+      return
+    }
+    fetchEvents()
+  }, [orgId, router, actionFilter, targetTypeFilter, fromDate, toDate])
+
+  const buildQuery = (cursor?: string) => {
+    const query = new URLSearchParams({ orgId: orgId as string })
+    if (actionFilter !== ALL) query.set("action", actionFilter)
+    if (targetTypeFilter !== ALL) query.set("targetType", targetTypeFilter)
+    if (fromDate) query.set("from", new Date(`${fromDate}T00:00:00`).toISOString())
+    if (toDate) query.set("to", new Date(`${toDate}T23:59:59.999`).toISOString())
+    if (cursor) query.set("cursor", cursor)
+    return query.toString()
+  }
+
+  const fetchEvents = async (cursor?: string) => {
+    if (!orgId) {
+      return
+    }
+    if (cursor) {
+      setIsLoadingMore(true)
+    } else {
+      setIsLoading(true)
+    }
+    try {
+      const response = await fetch(`/api/org/audit?${buildQuery(cursor)}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        const page: AuditEvent[] = responseData.events || []
+        setEvents((prev) => (cursor ? [...prev, ...page] : page))
+        setNextCursor(responseData.nextCursor || null)
+        setIsForbidden(false)
+      } else if (response.status === 403) {
+        setIsForbidden(true)
+      } else if (response.status === 404) {
+        router.push(`/workspace/${orgId}/not-found`)
+      } else {
+        toast({
+          title: "Error",
+          description: data.error || data.message || "Failed to load audit log",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Error fetching audit log:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load audit log",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+      setIsLoadingMore(false)
+    }
+  }
+
+  const renderActor = (event: AuditEvent) =>
+    event.actor ? event.actor.name || event.actor.email : "Deleted user"
+
+  const renderChanges = (event: AuditEvent) => {
+    const entries = Object.entries(event.changes || {})
+    if (entries.length === 0) {
+      return <span className="text-muted-foreground">—</span>
+    }
+    return (
+      <ul className="space-y-1 text-xs">
+        {entries.map(([field, change]) => (
+          <li key={field} className="break-words">
+            <span className="font-medium">{field}:</span>{" "}
+            <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>{" "}
+            → <span>{formatValue(change.after)}</span>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  const hasFilters = actionFilter !== ALL || targetTypeFilter !== ALL || !!fromDate || !!toDate
+
+  const clearFilters = () => {
+    setActionFilter(ALL)
+    setTargetTypeFilter(ALL)
+    setFromDate("")
+    setToDate("")
+  }
+
+  if (isForbidden) {
+    return (
+      <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
+        <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+          <div className="max-w-md mx-auto space-y-4">
+            <div className="inline-block p-4 rounded-full bg-destructive/10">
+              <ShieldAlert className="h-8 w-8 text-destructive" />
+            </div>
+            <h3 className="text-xl font-semibold">Access restricted</h3>
+            <p className="text-muted-foreground">Only the organization owner can view the audit log</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
+      <div className="space-y-1 mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Audit Log
+        </h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Who changed what in this organization
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6 items-end">
+        <div className="space-y-2">
+          <Label>Action</Label>
+          <Select value={actionFilter} onValueChange={setActionFilter}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {auditActions.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {action}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Target</Label>
+          <Select value={targetTypeFilter} onValueChange={setTargetTypeFilter}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All targets</SelectItem>
+              {auditTargetTypes.map((targetType) => (
+                <SelectItem key={targetType} value={targetType}>
+                  {targetType}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={clearFilters} disabled={!hasFilters}>
+          Clear filters
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center space-y-3">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="text-muted-foreground">Loading audit log...</p>
+          </div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+          <div className="max-w-md mx-auto space-y-4">
+            <div className="inline-block p-4 rounded-full bg-primary/10">
+              <ScrollText className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="text-xl font-semibold">No events found</h3>
+            <p className="text-muted-foreground">
+              {hasFilters ? "Try adjusting your filters" : "Changes to this organization will appear here"}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Desktop Table View */}
+          <div className="hidden lg:block rounded-xl border-2 shadow-lg overflow-hidden bg-card w-full">
+            <div className="overflow-x-auto w-full">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead className="min-w-[160px]">Time</TableHead>
+                    <TableHead className="min-w-[150px]">Actor</TableHead>
+                    <TableHead className="min-w-[160px]">Action</TableHead>
+                    <TableHead className="min-w-[160px]">Target</TableHead>
+                    <TableHead className="min-w-[240px]">Changes</TableHead>
+                    <TableHead className="min-w-[120px]">IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(event.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={event.actor?.email}>
+                        {renderActor(event)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{event.action}</TableCell>
+                      <TableCell className="text-sm">
+                        <div>{event.targetType}</div>
+                        {event.targetId && (
+                          <div className="font-mono text-xs text-muted-foreground truncate max-w-[180px]" title={event.targetId}>
+                            {event.targetId}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[320px]">{renderChanges(event)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground" title={event.userAgent || undefined}>
+                        {event.ipAddress || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Mobile Card View */}
+          <div className="lg:hidden space-y-4 w-full">
+            {events.map((event) => (
+              <Card key={event.id} className="border-2 shadow-lg w-full overflow-hidden">
+                <CardHeader className="min-w-0">
+                  <CardTitle className="text-base font-mono break-words">{event.action}</CardTitle>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {renderActor(event)} · {format(new Date(event.createdAt), "MMM d, yyyy HH:mm")}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Target:</span> {event.targetType}
+                  </p>
+                  {renderChanges(event)}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {nextCursor && (
+            <div className="flex justify-center mt-6">
+              <Button variant="outline" onClick={() => fetchEvents(nextCursor)} disabled={isLoadingMore}>
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
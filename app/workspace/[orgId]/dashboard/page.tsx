@@ -0,0 +1,434 @@
+"use client"
+
+import { useEffect, useRef, useState, Suspense } from "react"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
+import { useSession } from "@/lib/auth-client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { useToast } from "@/hooks/use-toast"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import { MemberAvatar } from "@/components/member-avatar"
+import type { OutlineStats } from "@/lib/outline-stats"
+import { parseDateKey } from "@/lib/outline-due-dates"
+import { format } from "date-fns"
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { BarChart3 } from "lucide-react"
+
+interface OutlineDocument {
+  id: string
+  title: string
+}
+
+// Bursts of real-time events (e.g. a bulk edit) cause one refetch
+const REALTIME_REFRESH_DELAY_MS = 300
+const ALL = "all"
+const RANGES = [7, 30, 90, 365]
+const DEFAULT_RANGE = 30
+
+const statusChartConfig = {
+  count: { label: "Outlines", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+const sectionTypeChartConfig = {
+  count: { label: "Outlines", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+const wordsChartConfig = {
+  target: { label: "Target", color: "var(--chart-1)" },
+  limit: { label: "Limit", color: "var(--chart-4)" },
+  wordCount: { label: "Written", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+const trendChartConfig = {
+  done: { label: "Done", color: "var(--chart-2)" },
+  completed: { label: "Completed", color: "var(--chart-1)" },
+  reopened: { label: "Reopened", color: "var(--chart-5)" },
+} satisfies ChartConfig
+
+const percentOf = (value: number, total: number) => (total > 0 ? Math.round((value / total) * 100) : 0)
+
+function DashboardContent() {
+  const params = useParams()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const orgId = params.orgId as string
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const [stats, setStats] = useState<OutlineStats | null>(null)
+  const [documents, setDocuments] = useState<OutlineDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const realtimeRefreshTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // The document and range live in the URL so a dashboard can be shared
+  const documentFilter = searchParams?.get("documentId") || ALL
+  const daysParam = Number(searchParams?.get("days"))
+  const days = RANGES.includes(daysParam) ? daysParam : DEFAULT_RANGE
+
+  const updateQuery = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams?.toString() || "")
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null || value === ALL) {
+        next.delete(key)
+      } else {
+        next.set(key, value)
+      }
+    })
+    const nextString = next.toString()
+    const dashboardPath = `/workspace/${orgId}/dashboard`
+    router.replace(nextString ? `${dashboardPath}?${nextString}` : dashboardPath, { scroll: false })
+  }
+
+  // Validate organization access
+  useEffect(() => {
+    const validateOrg = async () => {
+      try {
+        const response = await fetch(`/api/org/members?orgId=${orgId}`)
+        if (response.status === 403 || response.status === 404) {
+          router.push(`/workspace/${orgId}/not-found`)
+        }
+      } catch (error) {
+        console.error("Error validating organization:", error)
+      }
+    }
+
+    if (orgId && session) {
+      validateOrg()
+    }
+  }, [orgId, session, router])
+
+  // Load the documents to pick from
+  useEffect(() => {
+    const loadDocuments = async () => {
+      try {
+        const response = await fetch(`/api/documents?orgId=${orgId}`)
+        if (response.ok) {
+          const data = await response.json()
+          const responseData = data.success && data.data ? data.data : data
+          setDocuments(responseData.documents || [])
+        }
+      } catch (error) {
+        console.error("Error loading documents:", error)
+      }
+    }
+
+    if (orgId && session) {
+      loadDocuments()
+    }
+  }, [orgId, session])
+
+  useEffect(() => {
+    if (orgId) {
+      fetchStats()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, documentFilter, days])
+
+  // A silent fetch reloads the figures already on screen without the loading state
+  const fetchStats = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) {
+      setIsLoading(true)
+    }
+    try {
+      const query = new URLSearchParams({ orgId, days: String(days) })
+      if (documentFilter !== ALL) query.set("documentId", documentFilter)
+      const response = await fetch(`/api/outlines/stats?${query.toString()}`)
+      const data = await response.json()
+
+      if (response.status === 404 && documentFilter !== ALL) {
+        // The document was deleted; fall back to the whole organization
+        updateQuery({ documentId: null })
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to load dashboard")
+      }
+
+      const responseData = data.success && data.data ? data.data : data
+      setStats(responseData.stats || null)
+    } catch (error) {
+      console.error("Error fetching outline stats:", error)
+      if (!silent) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load dashboard",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const scheduleRealtimeRefresh = () => {
+    if (realtimeRefreshTimeout.current) clearTimeout(realtimeRefreshTimeout.current)
+    realtimeRefreshTimeout.current = setTimeout(() => {
+      realtimeRefreshTimeout.current = null
+      fetchStats({ silent: true })
+    }, REALTIME_REFRESH_DELAY_MS)
+  }
+
+  useEffect(() => {
+    return () => {
+      if (realtimeRefreshTimeout.current) clearTimeout(realtimeRefreshTimeout.current)
+    }
+  }, [])
+
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      if (
+        event.type === "outline.created" ||
+        event.type === "outline.updated" ||
+        event.type === "outline.deleted" ||
+        event.type === "document.changed"
+      ) {
+        scheduleRealtimeRefresh()
+      } else if (event.type === "member.changed" && (event.change === "left" || event.change === "removed")) {
+        // Outlines reviewed by a departing member are unassigned
+        scheduleRealtimeRefresh()
+      }
+    },
+    { enabled: !!session, onReconnect: scheduleRealtimeRefresh }
+  )
+
+  const totals = stats?.totals
+  const trend = (stats?.trend ?? []).map((day) => ({ ...day, label: format(parseDateKey(day.date), "MMM d") }))
+
+  return (
+    <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4 mb-6 sm:mb-8">
+        <div className="space-y-1">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Dashboard
+          </h1>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            Outline progress across {documentFilter === ALL ? "all documents" : "one document"}
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={documentFilter} onValueChange={(value) => updateQuery({ documentId: value })}>
+            <SelectTrigger className="w-full sm:w-[240px]">
+              <SelectValue placeholder="Document" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All documents</SelectItem>
+              {documents.map((document) => (
+                <SelectItem key={document.id} value={document.id}>
+                  {document.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(days)}
+            onValueChange={(value) => updateQuery({ days: Number(value) === DEFAULT_RANGE ? null : value })}
+          >
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <SelectValue placeholder="Range" />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((range) => (
+                <SelectItem key={range} value={String(range)}>
+                  Last {range} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading && !stats ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center space-y-3">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="text-muted-foreground">Loading dashboard...</p>
+          </div>
+        </div>
+      ) : !stats || !totals || totals.outlineCount === 0 ? (
+        <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+          <div className="max-w-md mx-auto space-y-4">
+            <div className="inline-block p-4 rounded-full bg-primary/10">
+              <BarChart3 className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="text-xl font-semibold">Nothing to chart yet</h3>
+            <p className="text-muted-foreground">Figures appear here once outlines are added</p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 sm:space-y-6">
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Outlines</CardDescription>
+                <CardTitle className="text-2xl sm:text-3xl">{totals.outlineCount.toLocaleString()}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>{stats.doneStatus ?? "Done"}</CardDescription>
+                <CardTitle className="text-2xl sm:text-3xl">
+                  {totals.doneCount.toLocaleString()}
+                  <span className="text-base font-normal text-muted-foreground ml-2">
+                    {percentOf(totals.doneCount, totals.outlineCount)}%
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Progress value={percentOf(totals.doneCount, totals.outlineCount)} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Target / limit words</CardDescription>
+                <CardTitle className="text-2xl sm:text-3xl">{totals.target.toLocaleString()}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">Limit {totals.limit.toLocaleString()} words</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Words written</CardDescription>
+                <CardTitle className="text-2xl sm:text-3xl">{totals.wordCount.toLocaleString()}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">
+                  {percentOf(totals.wordCount, totals.target)}% of the target
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Completion</CardTitle>
+              <CardDescription>
+                Outlines in {stats.doneStatus ?? "the last status"} at the end of each day, with how many were
+                completed or reopened that day (UTC)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trendChartConfig} className="aspect-auto h-[260px] w-full">
+                <ComposedChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="completed" fill="var(--color-completed)" radius={2} />
+                  <Bar dataKey="reopened" fill="var(--color-reopened)" radius={2} />
+                  <Line dataKey="done" type="monotone" stroke="var(--color-done)" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>By Status</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={statusChartConfig} className="aspect-auto h-[260px] w-full">
+                  <BarChart data={stats.byStatus}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="status" tickLine={false} axisLine={false} interval={0} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Section Type</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={sectionTypeChartConfig} className="aspect-auto h-[260px] w-full">
+                  <BarChart data={stats.bySectionType} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis dataKey="sectionType" type="category" tickLine={false} axisLine={false} width={120} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Target vs Limit</CardTitle>
+                <CardDescription>Total words per section type</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={wordsChartConfig} className="aspect-auto h-[260px] w-full">
+                  <BarChart data={stats.bySectionType.filter((group) => group.count > 0)}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="sectionType" tickLine={false} axisLine={false} interval={0} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="target" fill="var(--color-target)" radius={4} />
+                    <Bar dataKey="limit" fill="var(--color-limit)" radius={4} />
+                    <Bar dataKey="wordCount" fill="var(--color-wordCount)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Reviewer</CardTitle>
+                <CardDescription>Outlines each member reviews, and how many are done</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {stats.byReviewer.map(({ reviewer, count, doneCount }) => (
+                  <div key={reviewer?.id ?? "unassigned"} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm min-w-0">
+                      {reviewer ? (
+                        <div className="flex items-center gap-2 min-w-0" title={reviewer.email}>
+                          <MemberAvatar user={reviewer} />
+                          <span className="truncate">{reviewer.name || reviewer.email}</span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Unassigned</span>
+                      )}
+                      <span className="text-muted-foreground whitespace-nowrap">
+                        {doneCount} / {count} done
+                      </span>
+                    </div>
+                    <Progress value={percentOf(doneCount, count)} aria-label={`${doneCount} of ${count} done`} />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function DashboardPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-20">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <DashboardContent />
+    </Suspense>
+  )
+}
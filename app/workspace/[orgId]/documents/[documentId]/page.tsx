@@ -0,0 +1,1987 @@
+"use client"
+
+import { useEffect, useRef, useState, Suspense } from "react"
+import Link from "next/link"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
+import { useSession } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import { useOutlinePresence, useOutlinePresenceHeartbeat } from "@/hooks/use-outline-presence"
+import { OutlineHistorySheet } from "@/components/outline-history-sheet"
+import { MemberAvatar } from "@/components/member-avatar"
+import { OutlineStatusMenu } from "@/components/outline-status-menu"
+import { OutlineTreeView } from "@/components/outline-tree-view"
+import { OutlineCalendarView } from "@/components/outline-calendar-view"
+import { OutlineBoardView } from "@/components/outline-board-view"
+import { OutlineDueDate, OutlineDueDatePicker } from "@/components/outline-due-date"
+import { OutlineContentSheet } from "@/components/outline-content-sheet"
+import { OutlineComments } from "@/components/outline-comments"
+import { OutlineWordProgress } from "@/components/outline-word-progress"
+import { OutlineExportMenu } from "@/components/outline-export-menu"
+import { OutlineImportDialog } from "@/components/outline-import-dialog"
+import { OutlineTemplateDialog, SaveOutlineTemplateDialog } from "@/components/outline-template-dialog"
+import { OutlineBulkActions, type BulkOutlineChange } from "@/components/outline-bulk-actions"
+import { OutlinePresenceAvatars, OutlinePresenceNotice } from "@/components/outline-presence"
+import { DocumentStatusBadge, isDocumentOpen } from "@/components/document-status-badge"
+import {
+  OutlineConflictDialog,
+  outlineMergeFields,
+  type OutlineFieldValues,
+} from "@/components/outline-conflict-dialog"
+import type { PermissionAction } from "@/lib/permissions"
+import { outlineViews, type OutlineConfig, type OutlineView } from "@/lib/validation"
+import { getNextTransitions } from "@/lib/outline-workflow"
+import { toDueDateKey } from "@/lib/outline-due-dates"
+import {
+  ArrowLeft,
+  Trash2,
+  Edit2,
+  Plus,
+  Loader2,
+  History,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Search,
+  X,
+  List,
+  ListTree,
+  CalendarDays,
+  Kanban,
+  FileText,
+  Upload,
+  LayoutTemplate,
+  Save,
+} from "lucide-react"
+
+interface Outline {
+  id: string
+  header: string
+  sectionType: string
+  status: string
+  target: number
+  limit: number
+  wordCount: number
+  reviewerId: string | null
+  reviewer: MemberUser | null
+  parentId: string | null
+  position: number
+  number: string | null
+  dueDate: string | null
+  version: number
+}
+
+// Outline as returned by the tree API, in section order
+interface TreeOutline extends Outline {
+  number: string
+  depth: number
+  childCount: number
+}
+
+interface MemberUser {
+  id: string
+  name: string | null
+  email: string
+  image: string | null
+}
+
+interface OrgMember {
+  id: string
+  role: string
+  user: MemberUser
+}
+
+interface OutlineDocument {
+  id: string
+  title: string
+  status: string
+  dueDate: string | null
+  owner: MemberUser | null
+}
+
+const PAGE_SIZE = 50
+// Largest page the list API returns
+const MAX_PAGE_SIZE = 100
+// Bursts of real-time events (e.g. a bulk edit) cause one refetch
+const REALTIME_REFRESH_DELAY_MS = 300
+const ALL = "all"
+// Select items cannot have an empty value, so "no reviewer" gets a placeholder.
+// The list API accepts the same value as a reviewer filter.
+const UNASSIGNED = "unassigned"
+const TOP_LEVEL = "top-level"
+
+type SortField =
+  | "header"
+  | "sectionType"
+  | "status"
+  | "target"
+  | "limit"
+  | "wordCount"
+  | "reviewer"
+  | "dueDate"
+  | "createdAt"
+type SortOrder = "asc" | "desc"
+
+const SORT_OPTIONS: { value: SortField; label: string }[] = [
+  { value: "createdAt", label: "Created" },
+  { value: "header", label: "Header" },
+  { value: "sectionType", label: "Section Type" },
+  { value: "status", label: "Status" },
+  { value: "target", label: "Target" },
+  { value: "limit", label: "Limit" },
+  { value: "wordCount", label: "Words" },
+  { value: "reviewer", label: "Reviewer" },
+  { value: "dueDate", label: "Due Date" },
+]
+
+function getFieldValues(outline: Outline): OutlineFieldValues {
+  return {
+    header: outline.header,
+    sectionType: outline.sectionType,
+    status: outline.status,
+    target: Math.max(1, outline.target || 1),
+    limit: Math.max(1, outline.limit || 1),
+    reviewerId: outline.reviewerId,
+    dueDate: outline.dueDate ? toDueDateKey(outline.dueDate) : null,
+  }
+}
+
+function OutlineTableContent() {
+  const params = useParams()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const orgId = params.orgId as string
+  const documentId = params.documentId as string
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const [outlines, setOutlines] = useState<Outline[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [permissions, setPermissions] = useState<PermissionAction[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [historyOutline, setHistoryOutline] = useState<Outline | null>(null)
+  const [contentOutline, setContentOutline] = useState<Outline | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false)
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isBulkSaving, setIsBulkSaving] = useState(false)
+  const [config, setConfig] = useState<OutlineConfig>({ sectionTypes: [], statuses: [], transitions: [] })
+  const [members, setMembers] = useState<OrgMember[]>([])
+  const [treeOutlines, setTreeOutlines] = useState<TreeOutline[]>([])
+  const [isTreeLoading, setIsTreeLoading] = useState(false)
+  const [parentId, setParentId] = useState<string | null>(null)
+  const [membersVersion, setMembersVersion] = useState(0)
+  const [currentDocument, setCurrentDocument] = useState<OutlineDocument | null>(null)
+  const [documentVersion, setDocumentVersion] = useState(0)
+  const [preferredView, setPreferredView] = useState<OutlineView | null>(null)
+  const realtimeRefreshTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [formData, setFormData] = useState<{
+    header: string
+    sectionType: string
+    status: string
+    target: number
+    limit: number
+    reviewerId: string | null
+    dueDate: string | null
+  }>({
+    header: "",
+    sectionType: "",
+    status: "",
+    target: 1, // Minimum value is 1, not 0
+    limit: 1, // Minimum value is 1, not 0
+    reviewerId: null,
+    dueDate: null,
+  })
+  const [statusComment, setStatusComment] = useState("")
+  // The outline as it was when the edit form opened, to detect and merge conflicting edits
+  const [editingBase, setEditingBase] = useState<{ values: OutlineFieldValues; version: number } | null>(null)
+  const [conflict, setConflict] = useState<{
+    base: OutlineFieldValues
+    mine: OutlineFieldValues
+    theirs: Outline
+  } | null>(null)
+  const [targetError, setTargetError] = useState<string>("")
+  const [limitError, setLimitError] = useState<string>("")
+
+  const can = (action: PermissionAction) => permissions.includes(action)
+  const canCreate = can("outline:create")
+  const canUpdate = can("outline:update")
+  const canEdit = canUpdate || can("outline:review")
+  const canDelete = can("outline:delete")
+  const canViewHistory = can("outline:read")
+  const canSaveTemplate = can("template:create")
+  const hasRowActions = canEdit || canDelete || canViewHistory
+  const canSelect = canEdit || canDelete
+  const editingOutline = editingId
+    ? outlines.find((o) => o.id === editingId) ?? treeOutlines.find((o) => o.id === editingId) ?? null
+    : null
+
+  // Whoever else has an outline open is shown on its row and in the open sheet
+  const presence = useOutlinePresence(orgId, !!session)
+  const presenceOutlineId = (isOpen && editingId) || contentOutline?.id || historyOutline?.id || null
+  useOutlinePresenceHeartbeat(
+    orgId,
+    presenceOutlineId,
+    (isOpen && editingId) || (contentOutline && canUpdate) ? "editing" : "viewing"
+  )
+
+  // Statuses an outline can move to next; approvals are only offered to its reviewer
+  const getNextStatuses = (outline: Outline) =>
+    canEdit
+      ? getNextTransitions(config.transitions, outline.status, outline.reviewerId === session?.user.id).map((t) => t.to)
+      : []
+
+  // Query state lives in the URL so filtered views can be shared and survive reloads
+  const queryString = searchParams?.toString() || ""
+  const searchQuery = searchParams?.get("q") || ""
+  const statusFilter = searchParams?.get("status") || ALL
+  const sectionTypeFilter = searchParams?.get("sectionType") || ALL
+  const reviewerFilter = searchParams?.get("reviewerId") || ALL
+  const sortBy = (searchParams?.get("sortBy") as SortField | null) || "createdAt"
+  const sortOrder: SortOrder = searchParams?.get("sortOrder") === "asc" ? "asc" : "desc"
+  const hasFilters = !!searchQuery || statusFilter !== ALL || sectionTypeFilter !== ALL || reviewerFilter !== ALL
+  const viewParam = searchParams?.get("view")
+  // A view in the URL wins so shared links open as sent; otherwise the one this user last picked
+  const view: OutlineView = outlineViews.find((v) => v === viewParam) ?? preferredView ?? "list"
+  // The tree, calendar and board views show every outline, so they load the full tree
+  const needsTree = view !== "list"
+  const [searchInput, setSearchInput] = useState(searchQuery)
+
+  useEffect(() => {
+    if (orgId && documentId) {
+      fetchOutlines()
+    }
+  }, [orgId, documentId, queryString])
+
+  // A selection only makes sense for the rows it was made on
+  useEffect(() => {
+    setSelectedIds(new Set())
+  }, [orgId, documentId, queryString, view])
+
+  useEffect(() => {
+    if (orgId && documentId && needsTree) {
+      fetchTree()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, documentId, view])
+
+  // Keep the search box in sync when the URL changes (e.g. back/forward)
+  useEffect(() => {
+    setSearchInput(searchQuery)
+  }, [searchQuery])
+
+  // Debounce search input before writing it to the URL
+  useEffect(() => {
+    if (searchInput.trim() === searchQuery) return
+    const timeoutId = setTimeout(() => {
+      updateQuery({ q: searchInput.trim() || null })
+    }, 300)
+    return () => clearTimeout(timeoutId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchInput])
+
+  const updateQuery = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(queryString)
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null || value === "" || value === ALL) {
+        next.delete(key)
+      } else {
+        next.set(key, value)
+      }
+    })
+    const nextString = next.toString()
+    const documentPath = `/workspace/${orgId}/documents/${documentId}`
+    router.replace(nextString ? `${documentPath}?${nextString}` : documentPath, { scroll: false })
+  }
+
+  const handleSort = (field: SortField) => {
+    if (sortBy === field) {
+      updateQuery({ sortBy: field, sortOrder: sortOrder === "asc" ? "desc" : "asc" })
+    } else {
+      updateQuery({ sortBy: field, sortOrder: field === "createdAt" ? "desc" : "asc" })
+    }
+  }
+
+  // Saving the choice is best effort; if it fails the view just is not remembered
+  const handleViewChange = (value: OutlineView) => {
+    setPreferredView(value)
+    updateQuery({ view: value === "list" ? null : value })
+    fetch("/api/user/preferences", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ outlineView: value }),
+    }).catch((error) => console.error("Error saving view preference:", error))
+  }
+
+  const clearFilters = () => {
+    setSearchInput("")
+    updateQuery({ q: null, status: null, sectionType: null, reviewerId: null })
+  }
+
+  // Validate organization access and load the current user's permissions
+  useEffect(() => {
+    const validateOrg = async () => {
+      if (!orgId || !session) return
+      
+      try {
+        const response = await fetch(`/api/org/members?orgId=${orgId}`)
+        if (response.status === 403 || response.status === 404) {
+          // Organization doesn't exist or user doesn't have access
+          router.push(`/workspace/${orgId}/not-found`)
+          return
+        }
+        
+        if (response.ok) {
+          const data = await response.json()
+          // Handle new API response format: { success: true, data: { members: [...], permissions: [...] } }
+          const responseData = data.success && data.data ? data.data : data
+          setPermissions(Array.isArray(responseData.permissions) ? responseData.permissions : [])
+          setMembers(Array.isArray(responseData.members) ? responseData.members : [])
+        }
+      } catch (error) {
+        console.error("Error validating organization:", error)
+      }
+    }
+    
+    if (orgId && session) {
+      validateOrg()
+    }
+  }, [orgId, session, router, membersVersion])
+
+  // Load the document's title, status and due date; a missing document goes back to the list
+  useEffect(() => {
+    const loadDocument = async () => {
+      try {
+        const response = await fetch(`/api/documents/${documentId}?orgId=${orgId}`)
+        if (response.status === 404) {
+          router.push(`/workspace/${orgId}`)
+          return
+        }
+        if (response.ok) {
+          const data = await response.json()
+          const responseData = data.success && data.data ? data.data : data
+          setCurrentDocument(responseData.document || null)
+        }
+      } catch (error) {
+        console.error("Error loading document:", error)
+      }
+    }
+
+    if (orgId && documentId && session) {
+      loadDocument()
+    }
+  }, [orgId, documentId, session, router, documentVersion])
+
+  // Load the view this user last picked
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch("/api/user/preferences")
+        if (response.ok) {
+          const data = await response.json()
+          const responseData = data.success && data.data ? data.data : data
+          const outlineView = outlineViews.find((v) => v === responseData.preferences?.outlineView)
+          if (outlineView) {
+            setPreferredView(outlineView)
+          }
+        }
+      } catch (error) {
+        console.error("Error loading preferences:", error)
+      }
+    }
+
+    if (session) {
+      loadPreferences()
+    }
+  }, [session])
+
+  // Load the organization's section types and statuses
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const response = await fetch(`/api/org/settings/outlines?orgId=${orgId}`)
+        if (response.ok) {
+          const data = await response.json()
+          const responseData = data.success && data.data ? data.data : data
+          if (responseData.config) {
+            setConfig(responseData.config)
+          }
+        }
+      } catch (error) {
+        console.error("Error loading outline settings:", error)
+      }
+    }
+
+    if (orgId && session) {
+      loadConfig()
+    }
+  }, [orgId, session])
+
+  // A silent fetch reloads the rows already on screen without the loading state,
+  // for changes pushed by the server
+  const fetchOutlines = async (cursor?: string, { silent = false }: { silent?: boolean } = {}) => {
+    if (!orgId || !documentId) {
+      return
+    }
+    if (cursor) {
+      setIsLoadingMore(true)
+    } else if (!silent) {
+      setIsLoading(true)
+    }
+    try {
+      const query = new URLSearchParams(queryString)
+      query.set("orgId", orgId)
+      query.set("documentId", documentId)
+      query.set("limit", String(silent ? Math.min(Math.max(outlines.length, PAGE_SIZE), MAX_PAGE_SIZE) : PAGE_SIZE))
+      if (cursor) query.set("cursor", cursor)
+
+      const response = await fetch(`/api/outlines?${query.toString()}`)
+      if (response.ok) {
+        const data = await response.json()
+        // Handle new API response format: { success: true, data: { outlines: [...], nextCursor, total } }
+        const responseData = data.success && data.data ? data.data : data
+        const page: Outline[] = responseData.outlines || []
+        setOutlines((prev) => (cursor ? [...prev, ...page] : page))
+        setNextCursor(responseData.nextCursor || null)
+        setTotal(typeof responseData.total === "number" ? responseData.total : page.length)
+      } else if (!silent) {
+        const errorData = await response.json()
+        toast({
+          title: "Error",
+          description: errorData.message || errorData.error || "Failed to fetch outlines",
+          variant: "destructive",
+        })
+        if (!cursor) setOutlines([]) // Set empty array on error
+      }
+    } catch (error) {
+      console.error("Error fetching outlines:", error)
+      toast({
+        title: "Error",
+        description: "An error occurred while fetching outlines",
+        variant: "destructive",
+      })
+      if (!cursor) setOutlines([]) // Set empty array on error
+    } finally {
+      setIsLoading(false)
+      setIsLoadingMore(false)
+    }
+  }
+
+  // The tree holds every outline, unfiltered; it also feeds the parent picker
+  const fetchTree = async () => {
+    if (!orgId || !documentId) {
+      return
+    }
+    setIsTreeLoading(true)
+    try {
+      const response = await fetch(`/api/outlines/tree?orgId=${orgId}&documentId=${documentId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setTreeOutlines(responseData.outlines || [])
+      } else {
+        throw new Error(data.message || data.error || "Failed to load sections")
+      }
+    } catch (error) {
+      console.error("Error fetching outline tree:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load sections",
+        variant: "destructive",
+      })
+    } finally {
+      setIsTreeLoading(false)
+    }
+  }
+
+  // Section numbers shift when outlines are added, moved or removed
+  const refreshAfterStructureChange = () => {
+    fetchOutlines()
+    if (needsTree) {
+      fetchTree()
+    }
+  }
+
+  // Other people's changes, and this user's in other tabs, arrive as events
+  const scheduleRealtimeRefresh = () => {
+    if (realtimeRefreshTimeout.current) clearTimeout(realtimeRefreshTimeout.current)
+    realtimeRefreshTimeout.current = setTimeout(() => {
+      realtimeRefreshTimeout.current = null
+      fetchOutlines(undefined, { silent: true })
+      if (needsTree) {
+        fetchTree()
+      }
+    }, REALTIME_REFRESH_DELAY_MS)
+  }
+
+  useEffect(() => {
+    return () => {
+      if (realtimeRefreshTimeout.current) clearTimeout(realtimeRefreshTimeout.current)
+    }
+  }, [])
+
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      if (event.type === "outline.created" || event.type === "outline.updated" || event.type === "outline.deleted") {
+        scheduleRealtimeRefresh()
+      } else if (event.type === "document.changed" && event.documentId === documentId) {
+        if (event.change === "deleted") {
+          router.push(`/workspace/${orgId}`)
+        } else {
+          setDocumentVersion((version) => version + 1)
+        }
+      } else if (event.type === "member.changed") {
+        // Reloads the reviewer list and this user's permissions, and leaves the
+        // page if they no longer have access
+        setMembersVersion((version) => version + 1)
+        // Outlines reviewed by a departing member are unassigned
+        if (event.change === "left" || event.change === "removed") {
+          scheduleRealtimeRefresh()
+        }
+      }
+    },
+    { enabled: !!session, onReconnect: scheduleRealtimeRefresh }
+  )
+
+  // Update responses carry no section number, so merge them into the loaded rows
+  const replaceOutline = (updated: Pick<Outline, "id"> & Partial<Outline>) => {
+    setOutlines((prev) => prev.map((o) => (o.id === updated.id ? { ...o, ...updated, number: o.number } : o)))
+    setTreeOutlines((prev) => prev.map((o) => (o.id === updated.id ? { ...o, ...updated, number: o.number } : o)))
+  }
+
+  const handleMoveOutline = async (outline: Outline, newParentId: string | null, index: number) => {
+    try {
+      const response = await fetch(`/api/outlines/${outline.id}/move`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, parentId: newParentId, index }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to move outline")
+      }
+    } catch (error) {
+      console.error("Error moving outline:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to move outline",
+        variant: "destructive",
+      })
+    }
+    // Reload either way so the tree matches the server
+    await fetchTree()
+    fetchOutlines()
+  }
+
+  const handleOpenSheet = (outline?: Outline, newParentId: string | null = null) => {
+    // Clear errors when opening sheet
+    setTargetError("")
+    setLimitError("")
+    setStatusComment("")
+    setParentId(newParentId)
+    
+    if (outline) {
+      setEditingId(outline.id)
+      setFormData({
+        header: outline.header,
+        sectionType: outline.sectionType,
+        status: outline.status,
+        // Ensure minimum value of 1 for target and limit
+        target: Math.max(1, outline.target || 1),
+        limit: Math.max(1, outline.limit || 1),
+        reviewerId: outline.reviewerId,
+        dueDate: outline.dueDate ? toDueDateKey(outline.dueDate) : null,
+      })
+      setEditingBase({ values: getFieldValues(outline), version: outline.version })
+    } else {
+      setEditingId(null)
+      setEditingBase(null)
+      setFormData({
+        header: "",
+        sectionType: config.sectionTypes[0] ?? "",
+        status: config.statuses[0] ?? "",
+        target: 1, // Minimum value is 1, not 0
+        limit: 1, // Minimum value is 1, not 0
+        reviewerId: null,
+        dueDate: null,
+      })
+      fetchTree()
+    }
+    setIsOpen(true)
+  }
+
+  const handleSaveOutline = async () => {
+    if (!orgId) {
+      toast({
+        title: "Error",
+        description: "Organization ID is missing",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!formData.header.trim()) {
+      toast({
+        title: "Error",
+        description: "Header is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Reviewers can only change the status, so there is nothing to save without one
+    if (editingOutline && !canUpdate && formData.status === editingOutline.status) {
+      setIsOpen(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      if (editingId) {
+        // Update (reviewers may only change the status)
+        const response = await fetch(`/api/outlines/${editingId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            canUpdate
+              ? { orgId, ...formData, statusComment, version: editingBase?.version }
+              : { orgId, status: formData.status, statusComment, version: editingBase?.version }
+          ),
+        })
+
+        // Someone else saved first; keep the sheet open and let the user merge
+        if (response.status === 409) {
+          const errorData = await response.json()
+          const current: Outline | undefined = errorData.details?.outline
+          if (current && editingBase) {
+            setConflict({ base: editingBase.values, mine: { ...formData }, theirs: current })
+            return
+          }
+          throw new Error(errorData.message || "Outline was changed by someone else")
+        }
+
+        if (response.ok) {
+          const data = await response.json()
+          // Handle new API response format: { success: true, data: { outline: {...} } }
+          const outline = data.success && data.data?.outline 
+            ? data.data.outline 
+            : data.outline
+          
+          if (outline) {
+            replaceOutline(outline)
+            toast({
+              title: "Success",
+              description: data.message || "Outline updated successfully",
+            })
+          } else {
+            throw new Error("Outline data not found in response")
+          }
+        } else {
+          const errorData = await response.json()
+          throw new Error(errorData.message || errorData.error || "Failed to update outline")
+        }
+      } else {
+        // Create
+        const response = await fetch("/api/outlines", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            orgId,
+            documentId,
+            ...formData,
+            parentId,
+          }),
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          // Handle new API response format: { success: true, data: { outline: {...} } }
+          const outline = data.success && data.data?.outline 
+            ? data.data.outline 
+            : data.outline
+          
+          if (outline) {
+            // Reload the first page so the new row lands in the current sort order
+            refreshAfterStructureChange()
+            toast({
+              title: "Success",
+              description: data.message || "Outline created successfully",
+            })
+          } else {
+            throw new Error("Outline data not found in response")
+          }
+        } else {
+          const errorData = await response.json()
+          throw new Error(errorData.message || errorData.error || "Failed to create outline")
+        }
+      }
+
+      setIsOpen(false)
+    } catch (error) {
+      console.error("Error saving outline:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save outline",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleMergeConflict = async (values: OutlineFieldValues) => {
+    if (!conflict) return
+
+    // Reviewers only send the status; nothing is left to save if they took the current one
+    if (!canUpdate && values.status === conflict.theirs.status) {
+      replaceOutline(conflict.theirs)
+      setConflict(null)
+      setIsOpen(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/outlines/${conflict.theirs.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orgId,
+          ...(canUpdate ? values : { status: values.status }),
+          statusComment,
+          version: conflict.theirs.version,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.status === 409 && data.details?.outline) {
+        // Changed yet again while merging: merge against the newest copy
+        setConflict({ base: getFieldValues(conflict.theirs), mine: values, theirs: data.details.outline })
+        toast({
+          title: "Changed again",
+          description: "The outline was saved by someone else while you were merging. Review the new changes.",
+          variant: "destructive",
+        })
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to update outline")
+      }
+
+      replaceOutline(data.data.outline)
+      setConflict(null)
+      setIsOpen(false)
+      toast({
+        title: "Success",
+        description: "Merged changes saved",
+      })
+    } catch (error) {
+      console.error("Error saving merged outline:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save merged outline",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Start the edit again from the current copy
+  const handleDiscardConflict = () => {
+    if (!conflict) return
+    const current = conflict.theirs
+    replaceOutline(current)
+    setFormData(getFieldValues(current))
+    setEditingBase({ values: getFieldValues(current), version: current.version })
+    setConflict(null)
+  }
+
+  const handleDeleteOutline = async (id: string) => {
+    if (!orgId) {
+      toast({
+        title: "Error",
+        description: "Organization ID is missing",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!confirm("Move this outline to the trash? You can restore it from the Trash page.")) return
+
+    setDeletingId(id)
+    try {
+      const response = await fetch(`/api/outlines/${id}?orgId=${orgId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        // Its sub-sections move up a level, so every number may change
+        refreshAfterStructureChange()
+        toast({
+          title: "Success",
+          description: "Outline moved to trash",
+        })
+      } else {
+        throw new Error("Failed to delete outline")
+      }
+    } catch (error) {
+      console.error("Error deleting outline:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete outline",
+        variant: "destructive",
+      })
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (selected) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const allSelected = outlines.length > 0 && outlines.every((outline) => selectedIds.has(outline.id))
+
+  const toggleAllSelected = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(outlines.map((outline) => outline.id)) : new Set())
+  }
+
+  const handleBulkAction = async (change: BulkOutlineChange) => {
+    const ids = [...selectedIds]
+    if (
+      change.action === "delete" &&
+      !confirm(`Move ${ids.length} outline${ids.length === 1 ? "" : "s"} to the trash? You can restore them from the Trash page.`)
+    ) {
+      return
+    }
+
+    setIsBulkSaving(true)
+    try {
+      const response = await fetch("/api/outlines/bulk", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, ids, ...change }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const results: { id: string; result: string; error?: { message: string } }[] = data.data?.results || []
+        const failed = results.filter((item) => item.result === "failed")
+        // Failed outlines stay selected so they can be retried or dealt with one by one
+        setSelectedIds(new Set(failed.map((item) => item.id)))
+        toast({
+          title: failed.length > 0 ? "Some outlines were not changed" : "Success",
+          description: failed.length > 0 ? `${data.message}. ${failed[0].error?.message ?? ""}`.trim() : data.message,
+          variant: failed.length > 0 ? "destructive" : undefined,
+        })
+        refreshAfterStructureChange()
+      } else {
+        toast({
+          title: "Error",
+          description: data.message || data.error || "Failed to update outlines",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Error updating outlines:", error)
+      toast({
+        title: "Error",
+        description: "An error occurred while updating outlines",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBulkSaving(false)
+    }
+  }
+
+  const handleStatusChange = async (outline: Outline, status: string, comment: string) => {
+    try {
+      const response = await fetch(`/api/outlines/${outline.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, status, statusComment: comment }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const updated = data.success && data.data?.outline ? data.data.outline : data.outline
+        replaceOutline(updated)
+        toast({
+          title: "Success",
+          description: `Moved to ${status}`,
+        })
+        return true
+      }
+      throw new Error(data.message || data.error || "Failed to change status")
+    } catch (error) {
+      console.error("Error changing outline status:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change status",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  // Board moves show straight away and are undone if the server refuses them
+  const handleBoardMove = async (outline: TreeOutline, status: string) => {
+    setTreeOutlines((prev) => prev.map((o) => (o.id === outline.id ? { ...o, status } : o)))
+    try {
+      const response = await fetch(`/api/outlines/${outline.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, status, version: outline.version }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        replaceOutline(data.success && data.data?.outline ? data.data.outline : data.outline)
+        return
+      }
+      if (response.status === 409 && data.details?.outline) {
+        // Someone else changed it first; show their version rather than the one dragged
+        replaceOutline(data.details.outline)
+        toast({
+          title: "Error",
+          description: data.message || "This outline was changed by someone else",
+          variant: "destructive",
+        })
+        return
+      }
+      throw new Error(data.message || data.error || "Failed to change status")
+    } catch (error) {
+      console.error("Error moving outline on the board:", error)
+      setTreeOutlines((prev) => prev.map((o) => (o.id === outline.id ? { ...o, status: outline.status } : o)))
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change status",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "Completed":
+      case "Approved":
+        return "text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800"
+      case "In Review":
+        return "text-purple-700 dark:text-purple-400 bg-purple-50 dark:bg-purple-950/30 border border-purple-200 dark:border-purple-800"
+      case "Changes Requested":
+        return "text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800"
+      case "In-Progress":
+        return "text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800"
+      default:
+        return "text-yellow-700 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-800"
+    }
+  }
+
+  // The last status is the done one
+  const doneStatus = config.statuses[config.statuses.length - 1]
+
+  const renderReviewer = (outline: Outline) =>
+    outline.reviewer ? (
+      <div className="flex items-center gap-2 min-w-0" title={outline.reviewer.email}>
+        <MemberAvatar user={outline.reviewer} />
+        <span className="truncate">{outline.reviewer.name || outline.reviewer.email}</span>
+      </div>
+    ) : (
+      <span className="text-muted-foreground">Unassigned</span>
+    )
+
+  const renderRowActions = (outline: Outline, withAddSection = false) => (
+    <>
+      {withAddSection && canCreate && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            handleOpenSheet(undefined, outline.id)
+          }}
+          disabled={isSaving || deletingId !== null}
+          title="Add sub-section"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      )}
+      {canViewHistory && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setContentOutline(outline)}
+          title={canUpdate ? "Edit content and comments" : "View content and comments"}
+        >
+          <FileText className="w-4 h-4" />
+        </Button>
+      )}
+      {canViewHistory && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setHistoryOutline(outline)}
+          title="View history"
+        >
+          <History className="w-4 h-4" />
+        </Button>
+      )}
+      {canEdit && (
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          onClick={() => handleOpenSheet(outline)}
+          disabled={isSaving || deletingId !== null}
+        >
+          <Edit2 className="w-4 h-4" />
+        </Button>
+      )}
+      {canDelete && (
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          onClick={() => handleDeleteOutline(outline.id)}
+          disabled={isSaving || deletingId !== null}
+        >
+          {deletingId === outline.id ? (
+            <Loader2 className="w-4 h-4 text-destructive animate-spin" />
+          ) : (
+            <Trash2 className="w-4 h-4 text-destructive" />
+          )}
+        </Button>
+      )}
+    </>
+  )
+
+  const renderSortableHead = (field: SortField, label: string, className: string) => {
+    const isActive = sortBy === field
+    const SortIcon = !isActive ? ArrowUpDown : sortOrder === "asc" ? ArrowUp : ArrowDown
+    return (
+      <TableHead className={className}>
+        <button
+          type="button"
+          onClick={() => handleSort(field)}
+          className={`inline-flex items-center gap-1 hover:text-foreground transition-colors ${isActive ? "text-foreground" : ""}`}
+        >
+          {label}
+          <SortIcon className={`w-3 h-3 ${isActive ? "" : "opacity-50"}`} />
+        </button>
+      </TableHead>
+    )
+  }
+
+  return (
+    <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+        <div className="space-y-1 min-w-0">
+          <Link
+            href={`/workspace/${orgId}`}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-3 h-3" />
+            Documents
+          </Link>
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent truncate">
+            {currentDocument?.title || "Outlines"}
+          </h1>
+          {currentDocument ? (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+              <DocumentStatusBadge status={currentDocument.status} />
+              {currentDocument.dueDate && (
+                <OutlineDueDate dueDate={currentDocument.dueDate} isDone={!isDocumentOpen(currentDocument.status)} />
+              )}
+              {currentDocument.owner && (
+                <span className="inline-flex items-center gap-1.5">
+                  <MemberAvatar user={currentDocument.owner} className="w-5 h-5" />
+                  {currentDocument.owner.name || currentDocument.owner.email}
+                </span>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm sm:text-base">Manage your project outlines and track progress</p>
+          )}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+        {canViewHistory && <OutlineExportMenu orgId={orgId} documentId={documentId} />}
+        {canCreate && (
+          <>
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="w-full sm:w-auto">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <OutlineImportDialog
+              orgId={orgId}
+              documentId={documentId}
+              open={isImportOpen}
+              onOpenChange={setIsImportOpen}
+              onImported={refreshAfterStructureChange}
+            />
+          </>
+        )}
+        {(canCreate || canSaveTemplate) && (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="w-full sm:w-auto">
+                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                  Templates
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {canCreate && (
+                  <DropdownMenuItem onSelect={() => setIsTemplatePickerOpen(true)}>
+                    <LayoutTemplate className="w-4 h-4" />
+                    Add from template...
+                  </DropdownMenuItem>
+                )}
+                {canSaveTemplate && (
+                  <DropdownMenuItem onSelect={() => setIsSaveTemplateOpen(true)}>
+                    <Save className="w-4 h-4" />
+                    Save as template...
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <OutlineTemplateDialog
+              orgId={orgId}
+              documentId={documentId}
+              open={isTemplatePickerOpen}
+              onOpenChange={setIsTemplatePickerOpen}
+              canDeleteTemplates={can("template:delete")}
+              onInstantiated={refreshAfterStructureChange}
+            />
+            <SaveOutlineTemplateDialog
+              orgId={orgId}
+              documentId={documentId}
+              open={isSaveTemplateOpen}
+              onOpenChange={setIsSaveTemplateOpen}
+            />
+          </>
+        )}
+        {hasRowActions && (
+          <Sheet open={isOpen} onOpenChange={setIsOpen}>
+            {canCreate && (
+              <SheetTrigger asChild>
+                <Button onClick={() => handleOpenSheet()} className="shadow-lg hover:shadow-xl transition-all w-full sm:w-auto">
+                  <Plus className="w-4 h-4 mr-2" />
+                  <span className="hidden sm:inline">Add Outline</span>
+                  <span className="sm:hidden">Add</span>
+                </Button>
+              </SheetTrigger>
+            )}
+          <SheetContent className="w-[calc(100vw-2rem)] sm:w-[400px] lg:w-[500px] px-4 sm:px-6">
+            <SheetHeader>
+              <SheetTitle>{editingId ? "Edit Outline" : "Add New Outline"}</SheetTitle>
+              <SheetDescription>
+                {editingId ? "Update the outline details" : "Create a new outline for your project"}
+              </SheetDescription>
+            </SheetHeader>
+            {editingId && (
+              <div className="mt-4">
+                <OutlinePresenceNotice presence={presence[editingId]} currentUserId={session?.user.id} />
+              </div>
+            )}
+            <div className="space-y-4 mt-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Header</label>
+                <Input
+                  placeholder="Outline title"
+                  value={formData.header}
+                  disabled={!!editingId && !canUpdate}
+                  onChange={(e) => setFormData({ ...formData, header: e.target.value })}
+                />
+              </div>
+
+              {!editingId && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Parent Section</label>
+                  <Select
+                    value={parentId ?? TOP_LEVEL}
+                    onValueChange={(value) => setParentId(value === TOP_LEVEL ? null : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                      {treeOutlines.map((outline) => (
+                        <SelectItem key={outline.id} value={outline.id}>
+                          <span className="truncate" style={{ paddingLeft: outline.depth * 12 }}>
+                            {outline.number} {outline.header}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Section Type</label>
+                <Select
+                  value={formData.sectionType}
+                  disabled={!!editingId && !canUpdate}
+                  onValueChange={(value) => setFormData({ ...formData, sectionType: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {config.sectionTypes.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Status</label>
+                <Select
+                  value={formData.status}
+                  disabled={!editingOutline}
+                  onValueChange={(value) => setFormData({ ...formData, status: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(editingOutline
+                      ? [editingOutline.status, ...getNextStatuses(editingOutline)]
+                      : [formData.status]
+                    ).map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!editingOutline && (
+                  <p className="text-xs text-muted-foreground">New outlines start as {formData.status}</p>
+                )}
+              </div>
+
+              {editingOutline && formData.status !== editingOutline.status && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Status Comment</label>
+                  <Textarea
+                    placeholder="Why is the status changing? (optional)"
+                    value={statusComment}
+                    maxLength={1000}
+                    onChange={(e) => setStatusComment(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Target</label>
+                  <Input
+                    type="number"
+                    value={formData.target === 0 ? "" : formData.target}
+                    min={1}
+                    disabled={!!editingId && !canUpdate}
+                    className={targetError ? "border-red-500 focus-visible:ring-red-500" : ""}
+                    onChange={(e) => {
+                      const value = e.target.value
+                      // Allow empty string or any number while typing (including 0)
+                      if (value === "") {
+                        setFormData({ ...formData, target: 0 })
+                        setTargetError("")
+                        return
+                      }
+                      const numValue = Number.parseInt(value, 10)
+                      // Allow any number while typing, including 0
+                      if (!Number.isNaN(numValue)) {
+                        setFormData({
+                          ...formData,
+                          target: numValue,
+                        })
+                        // Show error if negative value
+                        if (numValue < 0) {
+                          setTargetError("Value must be positive")
+                        } else if (numValue === 0) {
+                          setTargetError("Minimum: 1")
+                        } else {
+                          setTargetError("")
+                        }
+                      }
+                    }}
+                    onBlur={(e) => {
+                      // Only enforce minimum value of 1 when field loses focus
+                      const value = e.target.value === "" ? 0 : Number.parseInt(e.target.value, 10)
+                      if (Number.isNaN(value) || value < 1) {
+                        setFormData({
+                          ...formData,
+                          target: 1,
+                        })
+                        setTargetError("")
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      // Support arrow keys for quick increment/decrement
+                      if (e.key === "ArrowUp") {
+                        e.preventDefault()
+                        const currentValue = formData.target < 1 ? 1 : formData.target
+                        setFormData({
+                          ...formData,
+                          target: currentValue + 1,
+                        })
+                        setTargetError("")
+                      } else if (e.key === "ArrowDown") {
+                        e.preventDefault()
+                        const currentValue = formData.target < 1 ? 1 : formData.target
+                        setFormData({
+                          ...formData,
+                          target: Math.max(1, currentValue - 1),
+                        })
+                        setTargetError("")
+                      }
+                    }}
+                    title="Enter a number (minimum: 1) or use ↑/↓ arrow keys"
+                  />
+                  {targetError && (
+                    <p className="text-sm text-red-500 mt-1">{targetError}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Limit</label>
+                  <Input
+                    type="number"
+                    value={formData.limit === 0 ? "" : formData.limit}
+                    min={1}
+                    disabled={!!editingId && !canUpdate}
+                    className={limitError ? "border-red-500 focus-visible:ring-red-500" : ""}
+                    onChange={(e) => {
+                      const value = e.target.value
+                      // Allow empty string or any number while typing (including 0)
+                      if (value === "") {
+                        setFormData({ ...formData, limit: 0 })
+                        setLimitError("")
+                        return
+                      }
+                      const numValue = Number.parseInt(value, 10)
+                      // Allow any number while typing, including 0
+                      if (!Number.isNaN(numValue)) {
+                        setFormData({
+                          ...formData,
+                          limit: numValue,
+                        })
+                        // Show error if negative value
+                        if (numValue < 0) {
+                          setLimitError("Value must be positive")
+                        } else if (numValue === 0) {
+                          setLimitError("Minimum: 1")
+                        } else {
+                          setLimitError("")
+                        }
+                      }
+                    }}
+                    onBlur={(e) => {
+                      // Only enforce minimum value of 1 when field loses focus
+                      const value = e.target.value === "" ? 0 : Number.parseInt(e.target.value, 10)
+                      if (Number.isNaN(value) || value < 1) {
+                        setFormData({
+                          ...formData,
+                          limit: 1,
+                        })
+                        setLimitError("")
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      // Support arrow keys for quick increment/decrement
+                      if (e.key === "ArrowUp") {
+                        e.preventDefault()
+                        const currentValue = formData.limit < 1 ? 1 : formData.limit
+                        setFormData({
+                          ...formData,
+                          limit: currentValue + 1,
+                        })
+                        setLimitError("")
+                      } else if (e.key === "ArrowDown") {
+                        e.preventDefault()
+                        const currentValue = formData.limit < 1 ? 1 : formData.limit
+                        setFormData({
+                          ...formData,
+                          limit: Math.max(1, currentValue - 1),
+                        })
+                        setLimitError("")
+                      }
+                    }}
+                    title="Enter a number (minimum: 1) or use ↑/↓ arrow keys"
+                  />
+                  {limitError && (
+                    <p className="text-sm text-red-500 mt-1">{limitError}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Reviewer</label>
+                <Select
+                  value={formData.reviewerId ?? UNASSIGNED}
+                  disabled={!!editingId && !canUpdate}
+                  onValueChange={(value) => setFormData({ ...formData, reviewerId: value === UNASSIGNED ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.user.id} value={member.user.id}>
+                        <MemberAvatar user={member.user} />
+                        <span className="truncate">{member.user.name || member.user.email}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Due Date</label>
+                <OutlineDueDatePicker
+                  value={formData.dueDate}
+                  disabled={!!editingId && !canUpdate}
+                  onChange={(dueDate) => setFormData({ ...formData, dueDate })}
+                />
+              </div>
+
+              <Button onClick={handleSaveOutline} disabled={isSaving} className="w-full">
+                {isSaving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {editingId ? "Updating..." : "Creating..."}
+                  </>
+                ) : (
+                  editingId ? "Update Outline" : "Create Outline"
+                )}
+              </Button>
+            </div>
+          </SheetContent>
+        </Sheet>
+        )}
+        </div>
+      </div>
+
+      {/* Search, filters and sorting (mirrored in the URL) */}
+      <div className="flex flex-col lg:flex-row gap-3 mb-4 sm:mb-6">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={view}
+          onValueChange={(value) => value && handleViewChange(value as OutlineView)}
+          className="self-start"
+        >
+          <ToggleGroupItem value="list" aria-label="List view" title="List view">
+            <List className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="tree" aria-label="Section tree" title="Section tree">
+            <ListTree className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="calendar" aria-label="Calendar" title="Calendar">
+            <CalendarDays className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="board" aria-label="Board" title="Board">
+            <Kanban className="w-4 h-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        {view === "calendar" ? (
+          <p className="flex-1 self-center text-sm text-muted-foreground">
+            All outlines by due date; pick a day to see what is due
+          </p>
+        ) : view === "board" ? (
+          <p className="flex-1 self-center text-sm text-muted-foreground">
+            {canEdit
+              ? "Drag a card onto a highlighted column to change its status"
+              : "All outlines by status"}
+          </p>
+        ) : view === "tree" ? (
+          <p className="flex-1 self-center text-sm text-muted-foreground">
+            {canUpdate
+              ? "Drag a section onto the top or bottom edge of another to reorder it, or onto its middle to nest it"
+              : "All sections in document order"}
+          </p>
+        ) : (
+          <>
+          <div className="relative flex-1 min-w-0">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search headers..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 lg:flex gap-3">
+            <Select value={statusFilter} onValueChange={(value) => updateQuery({ status: value })}>
+              <SelectTrigger className="w-full lg:w-[150px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {config.statuses.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sectionTypeFilter} onValueChange={(value) => updateQuery({ sectionType: value })}>
+              <SelectTrigger className="w-full lg:w-[180px]">
+                <SelectValue placeholder="Section Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All section types</SelectItem>
+                {config.sectionTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={reviewerFilter} onValueChange={(value) => updateQuery({ reviewerId: value })}>
+              <SelectTrigger className="w-full lg:w-[150px]">
+                <SelectValue placeholder="Reviewer" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All reviewers</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user.id} value={member.user.id}>
+                    <MemberAvatar user={member.user} />
+                    <span className="truncate">{member.user.name || member.user.email}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" onClick={clearFilters} className="lg:w-auto">
+              <X className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          )}
+          </>
+        )}
+      </div>
+
+      {isLoading || (needsTree && isTreeLoading && treeOutlines.length === 0) ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center space-y-3">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="text-muted-foreground">Loading outlines...</p>
+          </div>
+        </div>
+      ) : view === "calendar" ? (
+        <OutlineCalendarView
+          outlines={treeOutlines}
+          doneStatus={doneStatus}
+          renderStatus={(outline) => (
+            <OutlineStatusMenu
+              status={outline.status}
+              nextStatuses={getNextStatuses(outline)}
+              className={getStatusColor(outline.status)}
+              disabled={isSaving || deletingId !== null}
+              onChange={(status, comment) => handleStatusChange(outline, status, comment)}
+            />
+          )}
+          renderActions={hasRowActions ? (outline) => renderRowActions(outline) : undefined}
+        />
+      ) : view === "board" && treeOutlines.length > 0 ? (
+        <OutlineBoardView
+          outlines={treeOutlines}
+          statuses={config.statuses}
+          doneStatus={doneStatus}
+          getNextStatuses={getNextStatuses}
+          getStatusClassName={getStatusColor}
+          onMove={handleBoardMove}
+          renderActions={hasRowActions ? (outline) => renderRowActions(outline) : undefined}
+        />
+      ) : view === "tree" && treeOutlines.length > 0 ? (
+        <OutlineTreeView
+          outlines={treeOutlines}
+          canReorder={canUpdate}
+          onMove={handleMoveOutline}
+          renderStatus={(outline) => (
+            <OutlineStatusMenu
+              status={outline.status}
+              nextStatuses={getNextStatuses(outline)}
+              className={getStatusColor(outline.status)}
+              disabled={isSaving || deletingId !== null}
+              onChange={(status, comment) => handleStatusChange(outline, status, comment)}
+            />
+          )}
+          renderReviewer={renderReviewer}
+          renderActions={hasRowActions || canCreate ? (outline) => renderRowActions(outline, true) : undefined}
+        />
+      ) : outlines.length === 0 && hasFilters ? (
+        <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+          <div className="max-w-md mx-auto space-y-4">
+            <div className="inline-block p-4 rounded-full bg-primary/10">
+              <Search className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="text-xl font-semibold">No matching outlines</h3>
+            <p className="text-muted-foreground">Try a different search or clear the filters</p>
+            <Button variant="outline" onClick={clearFilters} className="mt-4">
+              Clear filters
+            </Button>
+          </div>
+        </div>
+      ) : outlines.length === 0 ? (
+        <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+          <div className="max-w-md mx-auto space-y-4">
+            <div className="inline-block p-4 rounded-full bg-primary/10">
+              <Plus className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="text-xl font-semibold">No outlines yet</h3>
+            <p className="text-muted-foreground">Get started by creating your first outline</p>
+            {canCreate && (
+              <Sheet open={isOpen} onOpenChange={setIsOpen}>
+                <SheetTrigger asChild>
+                  <Button onClick={() => handleOpenSheet()} className="mt-4 shadow-lg hover:shadow-xl transition-all">
+                    Create your first outline
+                  </Button>
+                </SheetTrigger>
+              </Sheet>
+            )}
+          </div>
+        </div>
+      ) : (
+        <>
+          {canSelect && (
+            <OutlineBulkActions
+              selectedCount={selectedIds.size}
+              statuses={config.statuses}
+              sectionTypes={config.sectionTypes}
+              members={members}
+              canChangeStatus={canEdit}
+              canUpdate={canUpdate}
+              canDelete={canDelete}
+              isSaving={isBulkSaving}
+              onApply={handleBulkAction}
+              onClear={() => setSelectedIds(new Set())}
+            />
+          )}
+
+          {/* Desktop Table View */}
+          <div className="hidden lg:block rounded-xl border-2 shadow-lg overflow-hidden bg-card w-full">
+            <div className="overflow-x-auto w-full">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    {canSelect && (
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected ? true : selectedIds.size > 0 ? "indeterminate" : false}
+                          onCheckedChange={(checked) => toggleAllSelected(checked === true)}
+                          aria-label="Select all outlines"
+                        />
+                      </TableHead>
+                    )}
+                    {renderSortableHead("header", "Header", "min-w-[150px]")}
+                    {renderSortableHead("sectionType", "Section Type", "min-w-[120px]")}
+                    {renderSortableHead("status", "Status", "min-w-[100px]")}
+                    {renderSortableHead("target", "Target", "text-right min-w-[80px]")}
+                    {renderSortableHead("limit", "Limit", "text-right min-w-[80px]")}
+                    {renderSortableHead("wordCount", "Words", "min-w-[140px]")}
+                    {renderSortableHead("reviewer", "Reviewer", "min-w-[100px]")}
+                    {renderSortableHead("dueDate", "Due", "min-w-[110px]")}
+                    {hasRowActions && <TableHead className="text-right min-w-[100px]">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outlines.map((outline) => (
+                    <TableRow key={outline.id} data-state={selectedIds.has(outline.id) ? "selected" : undefined}>
+                      {canSelect && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(outline.id)}
+                            onCheckedChange={(checked) => toggleSelected(outline.id, checked === true)}
+                            aria-label={`Select ${outline.header}`}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell className="font-medium max-w-[200px] truncate" title={outline.header}>
+                        {outline.number && (
+                          <span className="font-mono text-xs text-muted-foreground mr-2">{outline.number}</span>
+                        )}
+                        {outline.header}
+                        <span className="ml-2">
+                          <OutlinePresenceAvatars presence={presence[outline.id]} currentUserId={session?.user.id} />
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[150px] truncate" title={outline.sectionType}>{outline.sectionType}</TableCell>
+                      <TableCell>
+                        <OutlineStatusMenu
+                          status={outline.status}
+                          nextStatuses={getNextStatuses(outline)}
+                          className={getStatusColor(outline.status)}
+                          disabled={isSaving || deletingId !== null}
+                          onChange={(status, comment) => handleStatusChange(outline, status, comment)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{outline.target}</TableCell>
+                      <TableCell className="text-right">{outline.limit}</TableCell>
+                      <TableCell>
+                        <OutlineWordProgress wordCount={outline.wordCount} target={outline.target} limit={outline.limit} />
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[160px]">{renderReviewer(outline)}</TableCell>
+                      <TableCell>
+                        <OutlineDueDate dueDate={outline.dueDate} isDone={outline.status === doneStatus} />
+                      </TableCell>
+                      {hasRowActions && (
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">{renderRowActions(outline)}</div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Mobile Card View */}
+          <div className="lg:hidden space-y-4 w-full">
+            <div className="flex items-center gap-2">
+              <Select value={sortBy} onValueChange={(value) => handleSort(value as SortField)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      Sort by {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => updateQuery({ sortBy, sortOrder: sortOrder === "asc" ? "desc" : "asc" })}
+                title={sortOrder === "asc" ? "Ascending" : "Descending"}
+              >
+                {sortOrder === "asc" ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+              </Button>
+            </div>
+            {outlines.map((outline) => (
+              <Card key={outline.id} className="border-2 shadow-lg w-full overflow-hidden">
+                <CardHeader className="min-w-0">
+                  <div className="flex items-start justify-between gap-2">
+                    {canSelect && (
+                      <Checkbox
+                        checked={selectedIds.has(outline.id)}
+                        onCheckedChange={(checked) => toggleSelected(outline.id, checked === true)}
+                        aria-label={`Select ${outline.header}`}
+                        className="mt-1.5"
+                      />
+                    )}
+                    <div className="flex-1 min-w-0 overflow-hidden">
+                      <CardTitle className="text-lg mb-2 truncate" title={outline.header}>
+                        {outline.number && (
+                          <span className="font-mono text-sm text-muted-foreground mr-2">{outline.number}</span>
+                        )}
+                        {outline.header}
+                      </CardTitle>
+                      <OutlinePresenceAvatars presence={presence[outline.id]} currentUserId={session?.user.id} />
+                      <div className="flex flex-wrap gap-2 items-center">
+                        <OutlineStatusMenu
+                          status={outline.status}
+                          nextStatuses={getNextStatuses(outline)}
+                          className={getStatusColor(outline.status)}
+                          disabled={isSaving || deletingId !== null}
+                          onChange={(status, comment) => handleStatusChange(outline, status, comment)}
+                        />
+                        <span className="text-xs text-muted-foreground truncate" title={outline.sectionType}>{outline.sectionType}</span>
+                      </div>
+                    </div>
+                    {hasRowActions && (
+                      <div className="flex items-center gap-2 ml-2">
+                        {canViewHistory && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHistoryOutline(outline)}
+                            title="View history"
+                            className="h-8 w-8 p-0"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canEdit && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => handleOpenSheet(outline)}
+                            disabled={isSaving || deletingId !== null}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => handleDeleteOutline(outline.id)}
+                            disabled={isSaving || deletingId !== null}
+                            className="h-8 w-8 p-0"
+                          >
+                            {deletingId === outline.id ? (
+                              <Loader2 className="w-4 h-4 text-destructive animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground text-xs mb-1">Target</p>
+                      <p className="font-medium">{outline.target}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground text-xs mb-1">Limit</p>
+                      <p className="font-medium">{outline.limit}</p>
+                    </div>
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground text-xs mb-1">Words</p>
+                      <OutlineWordProgress wordCount={outline.wordCount} target={outline.target} limit={outline.limit} />
+                    </div>
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground text-xs mb-1">Reviewer</p>
+                      <div className="font-medium">{renderReviewer(outline)}</div>
+                    </div>
+                    <div className="col-span-2">
+                      <p className="text-muted-foreground text-xs mb-1">Due</p>
+                      <OutlineDueDate dueDate={outline.dueDate} isDone={outline.status === doneStatus} />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex flex-col items-center gap-3 mt-6">
+            <p className="text-sm text-muted-foreground">
+              Showing {outlines.length} of {total} outline{total === 1 ? "" : "s"}
+            </p>
+            {nextCursor && (
+              <Button variant="outline" onClick={() => fetchOutlines(nextCursor)} disabled={isLoadingMore}>
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      <OutlineContentSheet
+        outline={contentOutline}
+        orgId={orgId}
+        canEdit={canUpdate}
+        onOpenChange={(open) => !open && setContentOutline(null)}
+        onSaved={(id, wordCount) => {
+          replaceOutline({ id, wordCount })
+          setContentOutline((prev) => (prev && prev.id === id ? { ...prev, wordCount } : prev))
+        }}
+        notice={
+          contentOutline && (
+            <OutlinePresenceNotice presence={presence[contentOutline.id]} currentUserId={session?.user.id} />
+          )
+        }
+        comments={
+          contentOutline && (
+            <OutlineComments
+              outlineId={contentOutline.id}
+              orgId={orgId}
+              members={members}
+              currentUserId={session?.user.id}
+              canResolve={can("outline:review")}
+              canModerate={canDelete}
+            />
+          )
+        }
+      />
+
+      <OutlineHistorySheet
+        outline={historyOutline}
+        canRestore={canUpdate}
+        onOpenChange={(open) => !open && setHistoryOutline(null)}
+        onRestored={(restored) => {
+          replaceOutline(restored)
+          setHistoryOutline(restored)
+        }}
+      />
+
+      {conflict && (
+        <OutlineConflictDialog
+          open
+          onOpenChange={(open) => !open && setConflict(null)}
+          base={conflict.base}
+          mine={conflict.mine}
+          theirs={getFieldValues(conflict.theirs)}
+          fields={canUpdate ? outlineMergeFields : ["status"]}
+          members={members}
+          isSaving={isSaving}
+          onMerge={handleMergeConflict}
+          onDiscard={handleDiscardConflict}
+        />
+      )}
+    </div>
+  )
+}
+
+export default function OutlineTablePage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-20">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <OutlineTableContent />
+    </Suspense>
+  )
+}
@@ -17,7 +17,7 @@ import {
 } from "@/components/ui/sidebar"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
-import { LayoutGrid, Users, LogOut, Building2, Loader2 } from "lucide-react"
+import { LayoutGrid, BarChart3, Users, LogOut, Building2, Loader2, ScrollText, Trash2, Settings } from "lucide-react"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { EmailVerificationBanner } from "@/components/email-verification-banner"
 import { Notifications } from "@/components/notifications"
@@ -86,7 +86,15 @@ export default function WorkspaceLayout({
                 <SidebarMenuButton asChild>
                   <Link href={orgId ? `/workspace/${orgId}` : "/workspace"}>
                     <LayoutGrid className="w-4 h-4" />
-                    <span>Outlines</span>
+                    <span>Documents</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href={orgId ? `/workspace/${orgId}/dashboard` : "/workspace"}>
+                    <BarChart3 className="w-4 h-4" />
+                    <span>Dashboard</span>
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
@@ -98,6 +106,30 @@ export default function WorkspaceLayout({
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href={orgId ? `/workspace/${orgId}/audit` : "/workspace"}>
+                    <ScrollText className="w-4 h-4" />
+                    <span>Audit Log</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href={orgId ? `/workspace/${orgId}/trash` : "/workspace"}>
+                    <Trash2 className="w-4 h-4" />
+                    <span>Trash</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href={orgId ? `/workspace/${orgId}/settings` : "/workspace"}>
+                    <Settings className="w-4 h-4" />
+                    <span>Settings</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarContent>
           <div className="border-t p-3 sm:p-4 mt-auto min-w-0">
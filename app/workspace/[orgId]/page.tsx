@@ -1,191 +1,219 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
 import { useParams, useRouter } from "next/navigation"
 import { useSession } from "@/lib/auth-client"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
 import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
-import { Trash2, Edit2, Plus, Loader2 } from "lucide-react"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import { useOutlineTemplates } from "@/hooks/use-outline-templates"
+import { MemberAvatar } from "@/components/member-avatar"
+import { OutlineDueDate, OutlineDueDatePicker } from "@/components/outline-due-date"
+import { DocumentStatusBadge, isDocumentOpen } from "@/components/document-status-badge"
+import type { PermissionAction } from "@/lib/permissions"
+import { documentStatuses, type DocumentStatus } from "@/lib/validation"
+import { toDueDateKey } from "@/lib/outline-due-dates"
+import { Edit2, FileText, Loader2, Plus, Trash2 } from "lucide-react"
 
-interface Outline {
+interface MemberUser {
   id: string
-  header: string
-  sectionType: string
-  status: string
-  target: number
-  limit: number
-  reviewer: string
+  name: string | null
+  email: string
+  image: string | null
+}
+
+interface OrgMember {
+  id: string
+  role: string
+  user: MemberUser
 }
 
-const SECTION_TYPES = [
-  "Table of Contents",
-  "Executive Summary",
-  "Technical Approach",
-  "Design",
-  "Capabilities",
-  "Focus Document",
-  "Narrative",
-]
+interface OutlineDocument {
+  id: string
+  title: string
+  status: string
+  dueDate: string | null
+  ownerId: string | null
+  owner: MemberUser | null
+  outlineCount: number
+  doneCount: number
+  createdAt: string
+}
 
-const STATUS_OPTIONS = ["Pending", "In-Progress", "Completed"]
-const REVIEWER_OPTIONS = ["Assim", "Bini", "Mami"]
+// Bursts of real-time events (e.g. a bulk edit) cause one refetch
+const REALTIME_REFRESH_DELAY_MS = 300
+// Select items cannot have an empty value, so "no owner" and "no template" get placeholders
+const UNASSIGNED = "unassigned"
+const BLANK = "blank"
 
-export default function OutlineTablePage() {
+export default function DocumentListPage() {
   const params = useParams()
   const router = useRouter()
   const orgId = params.orgId as string
   const { data: session } = useSession()
   const { toast } = useToast()
-  const [outlines, setOutlines] = useState<Outline[]>([])
+  const [documents, setDocuments] = useState<OutlineDocument[]>([])
+  const [members, setMembers] = useState<OrgMember[]>([])
+  const [permissions, setPermissions] = useState<PermissionAction[]>([])
+  const [membersVersion, setMembersVersion] = useState(0)
   const [isLoading, setIsLoading] = useState(true)
   const [isOpen, setIsOpen] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [isOrgOwner, setIsOrgOwner] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [deletingId, setDeletingId] = useState<string | null>(null)
-  const [formData, setFormData] = useState({
-    header: "",
-    sectionType: SECTION_TYPES[0],
-    status: STATUS_OPTIONS[0],
-    target: 1, // Minimum value is 1, not 0
-    limit: 1, // Minimum value is 1, not 0
-    reviewer: REVIEWER_OPTIONS[0],
+  const [templateId, setTemplateId] = useState(BLANK)
+  const realtimeRefreshTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [formData, setFormData] = useState<{
+    title: string
+    status: DocumentStatus
+    dueDate: string | null
+    ownerId: string | null
+  }>({
+    title: "",
+    status: "Active",
+    dueDate: null,
+    ownerId: null,
   })
-  const [targetError, setTargetError] = useState<string>("")
-  const [limitError, setLimitError] = useState<string>("")
+
+  const can = (action: PermissionAction) => permissions.includes(action)
+  const canCreate = can("document:create")
+  const canUpdate = can("document:update")
+  const canDelete = can("document:delete")
+  const hasRowActions = canUpdate || canDelete
+  // Starting from a template also creates outlines
+  const canUseTemplates = can("outline:create")
+  const { templates } = useOutlineTemplates(orgId, isOpen && !editingId && canUseTemplates)
 
   useEffect(() => {
     if (orgId) {
-      fetchOutlines()
+      fetchDocuments()
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [orgId])
 
-  // Validate organization access and check owner status
+  // Validate organization access and load the current user's permissions
   useEffect(() => {
     const validateOrg = async () => {
-      if (!orgId || !session) return
-      
       try {
         const response = await fetch(`/api/org/members?orgId=${orgId}`)
         if (response.status === 403 || response.status === 404) {
-          // Organization doesn't exist or user doesn't have access
           router.push(`/workspace/${orgId}/not-found`)
           return
         }
-        
+
         if (response.ok) {
           const data = await response.json()
-          // Handle new API response format: { success: true, data: { members: [...], organization: {...} } }
           const responseData = data.success && data.data ? data.data : data
-          const members = responseData.members || []
-          const organization = responseData.organization
-          
-          // Check if current user is the owner
-          if (organization && organization.ownerId) {
-            // Use organization.ownerId if available
-            setIsOrgOwner(session.user.id === organization.ownerId)
-          } else {
-            // Fallback: Find the owner from the members list
-            const ownerMember = members.find((m: { role: string; user: { id: string } }) => m.role === "owner")
-            const ownerId = ownerMember?.user.id || ""
-            setIsOrgOwner(session.user.id === ownerId)
-          }
+          setPermissions(Array.isArray(responseData.permissions) ? responseData.permissions : [])
+          setMembers(Array.isArray(responseData.members) ? responseData.members : [])
         }
       } catch (error) {
         console.error("Error validating organization:", error)
       }
     }
-    
+
     if (orgId && session) {
       validateOrg()
     }
-  }, [orgId, session, router])
+  }, [orgId, session, router, membersVersion])
 
-  const fetchOutlines = async () => {
-    if (!orgId) {
-      return
+  // A silent fetch reloads the documents already on screen without the loading state
+  const fetchDocuments = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) {
+      setIsLoading(true)
     }
-    setIsLoading(true)
     try {
-      const response = await fetch(`/api/outlines?orgId=${orgId}`)
+      const response = await fetch(`/api/documents?orgId=${orgId}`)
+      const data = await response.json()
+
       if (response.ok) {
-        const data = await response.json()
-        // Handle new API response format: { success: true, data: { outlines: [...] } }
-        const outlines = data.success && data.data?.outlines 
-          ? data.data.outlines 
-          : data.outlines || []
-        setOutlines(outlines)
-      } else {
-        const errorData = await response.json()
-        toast({
-          title: "Error",
-          description: errorData.message || errorData.error || "Failed to fetch outlines",
-          variant: "destructive",
-        })
-        setOutlines([]) // Set empty array on error
+        const responseData = data.success && data.data ? data.data : data
+        setDocuments(responseData.documents || [])
+      } else if (!silent) {
+        throw new Error(data.message || data.error || "Failed to fetch documents")
       }
     } catch (error) {
-      console.error("Error fetching outlines:", error)
+      console.error("Error fetching documents:", error)
       toast({
         title: "Error",
-        description: "An error occurred while fetching outlines",
+        description: error instanceof Error ? error.message : "Failed to fetch documents",
         variant: "destructive",
       })
-      setOutlines([]) // Set empty array on error
     } finally {
       setIsLoading(false)
     }
   }
 
-  const handleOpenSheet = (outline?: Outline) => {
-    // Clear errors when opening sheet
-    setTargetError("")
-    setLimitError("")
-    
-    if (outline) {
-      setEditingId(outline.id)
+  const scheduleRealtimeRefresh = () => {
+    if (realtimeRefreshTimeout.current) clearTimeout(realtimeRefreshTimeout.current)
+    realtimeRefreshTimeout.current = setTimeout(() => {
+      realtimeRefreshTimeout.current = null
+      fetchDocuments({ silent: true })
+    }, REALTIME_REFRESH_DELAY_MS)
+  }
+
+  useEffect(() => {
+    return () => {
+      if (realtimeRefreshTimeout.current) clearTimeout(realtimeRefreshTimeout.current)
+    }
+  }, [])
+
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      // Outline changes move the progress counts
+      if (
+        event.type === "document.changed" ||
+        event.type === "outline.created" ||
+        event.type === "outline.updated" ||
+        event.type === "outline.deleted"
+      ) {
+        scheduleRealtimeRefresh()
+      } else if (event.type === "member.changed") {
+        setMembersVersion((version) => version + 1)
+        // Documents owned by a departing member lose their owner
+        if (event.change === "left" || event.change === "removed") {
+          scheduleRealtimeRefresh()
+        }
+      }
+    },
+    { enabled: !!session, onReconnect: scheduleRealtimeRefresh }
+  )
+
+  const handleOpenSheet = (document?: OutlineDocument) => {
+    if (document) {
+      setEditingId(document.id)
       setFormData({
-        header: outline.header,
-        sectionType: outline.sectionType,
-        status: outline.status,
-        // Ensure minimum value of 1 for target and limit
-        target: Math.max(1, outline.target || 1),
-        limit: Math.max(1, outline.limit || 1),
-        reviewer: outline.reviewer,
+        title: document.title,
+        status: document.status as DocumentStatus,
+        dueDate: document.dueDate ? toDueDateKey(document.dueDate) : null,
+        ownerId: document.ownerId,
       })
     } else {
       setEditingId(null)
       setFormData({
-        header: "",
-        sectionType: SECTION_TYPES[0],
-        status: STATUS_OPTIONS[0],
-        target: 1, // Minimum value is 1, not 0
-        limit: 1, // Minimum value is 1, not 0
-        reviewer: REVIEWER_OPTIONS[0],
+        title: "",
+        status: "Active",
+        dueDate: null,
+        ownerId: session?.user.id ?? null,
       })
+      setTemplateId(BLANK)
     }
     setIsOpen(true)
   }
 
-  const handleSaveOutline = async () => {
-    if (!orgId) {
+  const handleSave = async () => {
+    if (!formData.title.trim()) {
       toast({
         title: "Error",
-        description: "Organization ID is missing",
-        variant: "destructive",
-      })
-      return
-    }
-
-    if (!formData.header.trim()) {
-      toast({
-        title: "Error",
-        description: "Header is required",
+        description: "Title is required",
         variant: "destructive",
       })
       return
@@ -193,76 +221,38 @@ export default function OutlineTablePage() {
 
     setIsSaving(true)
     try {
-      if (editingId) {
-        // Update
-        const response = await fetch(`/api/outlines/${editingId}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            orgId,
-            ...formData,
-          }),
-        })
-
-        if (response.ok) {
-          const data = await response.json()
-          // Handle new API response format: { success: true, data: { outline: {...} } }
-          const outline = data.success && data.data?.outline 
-            ? data.data.outline 
-            : data.outline
-          
-          if (outline) {
-            setOutlines(outlines.map((o) => (o.id === editingId ? outline : o)))
-            toast({
-              title: "Success",
-              description: data.message || "Outline updated successfully",
-            })
-          } else {
-            throw new Error("Outline data not found in response")
-          }
-        } else {
-          const errorData = await response.json()
-          throw new Error(errorData.message || errorData.error || "Failed to update outline")
-        }
-      } else {
-        // Create
-        const response = await fetch("/api/outlines", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            orgId,
-            ...formData,
-          }),
-        })
+      const response = await fetch(editingId ? `/api/documents/${editingId}` : "/api/documents", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orgId,
+          ...formData,
+          title: formData.title.trim(),
+          templateId: !editingId && templateId !== BLANK ? templateId : undefined,
+        }),
+      })
+      const data = await response.json()
 
-        if (response.ok) {
-          const data = await response.json()
-          // Handle new API response format: { success: true, data: { outline: {...} } }
-          const outline = data.success && data.data?.outline 
-            ? data.data.outline 
-            : data.outline
-          
-          if (outline) {
-            setOutlines([...outlines, outline])
-            toast({
-              title: "Success",
-              description: data.message || "Outline created successfully",
-            })
-          } else {
-            throw new Error("Outline data not found in response")
-          }
-        } else {
-          const errorData = await response.json()
-          throw new Error(errorData.message || errorData.error || "Failed to create outline")
-        }
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to save document")
       }
 
+      const document: OutlineDocument | undefined = data.success && data.data ? data.data.document : data.document
+      if (document) {
+        setDocuments((prev) =>
+          editingId ? prev.map((d) => (d.id === document.id ? document : d)) : [document, ...prev]
+        )
+      }
+      toast({
+        title: "Success",
+        description: data.message || (editingId ? "Document updated successfully" : "Document created successfully"),
+      })
       setIsOpen(false)
     } catch (error) {
-      console.error("Error saving outline:", error)
+      console.error("Error saving document:", error)
       toast({
         title: "Error",
-        description: "Failed to save outline",
+        description: error instanceof Error ? error.message : "Failed to save document",
         variant: "destructive",
       })
     } finally {
@@ -270,38 +260,30 @@ export default function OutlineTablePage() {
     }
   }
 
-  const handleDeleteOutline = async (id: string) => {
-    if (!orgId) {
-      toast({
-        title: "Error",
-        description: "Organization ID is missing",
-        variant: "destructive",
-      })
-      return
-    }
-
-    if (!confirm("Are you sure you want to delete this outline?")) return
+  const handleDelete = async (document: OutlineDocument) => {
+    if (!confirm(`Delete "${document.title}"? This cannot be undone.`)) return
 
-    setDeletingId(id)
+    setDeletingId(document.id)
     try {
-      const response = await fetch(`/api/outlines/${id}?orgId=${orgId}`, {
+      const response = await fetch(`/api/documents/${document.id}?orgId=${orgId}`, {
         method: "DELETE",
       })
+      const data = await response.json()
 
-      if (response.ok) {
-        setOutlines(outlines.filter((o) => o.id !== id))
-        toast({
-          title: "Success",
-          description: "Outline deleted successfully",
-        })
-      } else {
-        throw new Error("Failed to delete outline")
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to delete document")
       }
+
+      setDocuments((prev) => prev.filter((d) => d.id !== document.id))
+      toast({
+        title: "Success",
+        description: data.message || "Document deleted",
+      })
     } catch (error) {
-      console.error("Error deleting outline:", error)
+      console.error("Error deleting document:", error)
       toast({
         title: "Error",
-        description: "Failed to delete outline",
+        description: error instanceof Error ? error.message : "Failed to delete document",
         variant: "destructive",
       })
     } finally {
@@ -309,287 +291,180 @@ export default function OutlineTablePage() {
     }
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Completed":
-        return "text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800"
-      case "In-Progress":
-        return "text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800"
-      default:
-        return "text-yellow-700 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-800"
-    }
-  }
+  const renderProgress = (document: OutlineDocument) => (
+    <div className="space-y-1 min-w-[120px]">
+      <Progress value={document.outlineCount > 0 ? (document.doneCount / document.outlineCount) * 100 : 0} />
+      <p className="text-xs text-muted-foreground">
+        {document.doneCount} of {document.outlineCount} {document.outlineCount === 1 ? "outline" : "outlines"} done
+      </p>
+    </div>
+  )
+
+  const renderOwner = (document: OutlineDocument) =>
+    document.owner ? (
+      <span className="inline-flex items-center gap-2 min-w-0">
+        <MemberAvatar user={document.owner} />
+        <span className="truncate">{document.owner.name || document.owner.email}</span>
+      </span>
+    ) : (
+      <span className="text-muted-foreground">No owner</span>
+    )
+
+  const renderActions = (document: OutlineDocument) => (
+    <>
+      {canUpdate && (
+        <Button variant="ghost" size="icon" onClick={() => handleOpenSheet(document)} title="Edit document">
+          <Edit2 className="w-4 h-4" />
+        </Button>
+      )}
+      {canDelete && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleDelete(document)}
+          disabled={deletingId !== null}
+          title="Delete document"
+          className="text-destructive hover:text-destructive"
+        >
+          {deletingId === document.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+        </Button>
+      )}
+    </>
+  )
+
+  const getDocumentHref = (document: OutlineDocument) => `/workspace/${orgId}/documents/${document.id}`
 
   return (
     <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
         <div className="space-y-1">
           <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
-            Outlines
+            Documents
           </h1>
-          <p className="text-muted-foreground text-sm sm:text-base">Manage your project outlines and track progress</p>
+          <p className="text-muted-foreground text-sm sm:text-base">Each document holds its own outlines</p>
         </div>
-        {isOrgOwner && (
-          <Sheet open={isOpen} onOpenChange={setIsOpen}>
-            <SheetTrigger asChild>
-              <Button onClick={() => handleOpenSheet()} className="shadow-lg hover:shadow-xl transition-all w-full sm:w-auto">
-                <Plus className="w-4 h-4 mr-2" />
-                <span className="hidden sm:inline">Add Outline</span>
-                <span className="sm:hidden">Add</span>
-              </Button>
-            </SheetTrigger>
-          <SheetContent className="w-[calc(100vw-2rem)] sm:w-[400px] lg:w-[500px] px-4 sm:px-6">
-            <SheetHeader>
-              <SheetTitle>{editingId ? "Edit Outline" : "Add New Outline"}</SheetTitle>
-              <SheetDescription>
-                {editingId ? "Update the outline details" : "Create a new outline for your project"}
-              </SheetDescription>
-            </SheetHeader>
-            <div className="space-y-4 mt-6">
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Header</label>
-                <Input
-                  placeholder="Outline title"
-                  value={formData.header}
-                  onChange={(e) => setFormData({ ...formData, header: e.target.value })}
-                />
-              </div>
+        {canCreate && (
+          <Button onClick={() => handleOpenSheet()} className="shadow-lg hover:shadow-xl transition-all w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            New Document
+          </Button>
+        )}
+      </div>
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Section Type</label>
-                <Select
-                  value={formData.sectionType}
-                  onValueChange={(value) => setFormData({ ...formData, sectionType: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {SECTION_TYPES.map((type) => (
-                      <SelectItem key={type} value={type}>
-                        {type}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetContent className="w-[calc(100vw-2rem)] sm:w-[400px] lg:w-[500px] px-4 sm:px-6">
+          <SheetHeader>
+            <SheetTitle>{editingId ? "Edit Document" : "New Document"}</SheetTitle>
+            <SheetDescription>
+              {editingId ? "Update the document details" : "Create a document to hold a new set of outlines"}
+            </SheetDescription>
+          </SheetHeader>
+          <div className="space-y-4 mt-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Title</label>
+              <Input
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="e.g. City Library Renovation Proposal"
+              />
+            </div>
 
+            {!editingId && canUseTemplates && (
               <div className="space-y-2">
-                <label className="text-sm font-medium">Status</label>
-                <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value })}>
+                <label className="text-sm font-medium">Template</label>
+                <Select value={templateId} onValueChange={setTemplateId}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {STATUS_OPTIONS.map((status) => (
-                      <SelectItem key={status} value={status}>
-                        {status}
+                    <SelectItem value={BLANK}>Blank document</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        <span className="truncate">{template.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {template.builtIn ? "Built-in · " : ""}
+                          {template.sections.length} {template.sections.length === 1 ? "section" : "sections"}
+                        </span>
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
+            )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Target</label>
-                  <Input
-                    type="number"
-                    value={formData.target === 0 ? "" : formData.target}
-                    min={1}
-                    className={targetError ? "border-red-500 focus-visible:ring-red-500" : ""}
-                    onChange={(e) => {
-                      const value = e.target.value
-                      // Allow empty string or any number while typing (including 0)
-                      if (value === "") {
-                        setFormData({ ...formData, target: 0 })
-                        setTargetError("")
-                        return
-                      }
-                      const numValue = Number.parseInt(value, 10)
-                      // Allow any number while typing, including 0
-                      if (!Number.isNaN(numValue)) {
-                        setFormData({
-                          ...formData,
-                          target: numValue,
-                        })
-                        // Show error if negative value
-                        if (numValue < 0) {
-                          setTargetError("Value must be positive")
-                        } else if (numValue === 0) {
-                          setTargetError("Minimum: 1")
-                        } else {
-                          setTargetError("")
-                        }
-                      }
-                    }}
-                    onBlur={(e) => {
-                      // Only enforce minimum value of 1 when field loses focus
-                      const value = e.target.value === "" ? 0 : Number.parseInt(e.target.value, 10)
-                      if (Number.isNaN(value) || value < 1) {
-                        setFormData({
-                          ...formData,
-                          target: 1,
-                        })
-                        setTargetError("")
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Support arrow keys for quick increment/decrement
-                      if (e.key === "ArrowUp") {
-                        e.preventDefault()
-                        const currentValue = formData.target < 1 ? 1 : formData.target
-                        setFormData({
-                          ...formData,
-                          target: currentValue + 1,
-                        })
-                        setTargetError("")
-                      } else if (e.key === "ArrowDown") {
-                        e.preventDefault()
-                        const currentValue = formData.target < 1 ? 1 : formData.target
-                        setFormData({
-                          ...formData,
-                          target: Math.max(1, currentValue - 1),
-                        })
-                        setTargetError("")
-                      }
-                    }}
-                    title="Enter a number (minimum: 1) or use ↑/↓ arrow keys"
-                  />
-                  {targetError && (
-                    <p className="text-sm text-red-500 mt-1">{targetError}</p>
-                  )}
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Limit</label>
-                  <Input
-                    type="number"
-                    value={formData.limit === 0 ? "" : formData.limit}
-                    min={1}
-                    className={limitError ? "border-red-500 focus-visible:ring-red-500" : ""}
-                    onChange={(e) => {
-                      const value = e.target.value
-                      // Allow empty string or any number while typing (including 0)
-                      if (value === "") {
-                        setFormData({ ...formData, limit: 0 })
-                        setLimitError("")
-                        return
-                      }
-                      const numValue = Number.parseInt(value, 10)
-                      // Allow any number while typing, including 0
-                      if (!Number.isNaN(numValue)) {
-                        setFormData({
-                          ...formData,
-                          limit: numValue,
-                        })
-                        // Show error if negative value
-                        if (numValue < 0) {
-                          setLimitError("Value must be positive")
-                        } else if (numValue === 0) {
-                          setLimitError("Minimum: 1")
-                        } else {
-                          setLimitError("")
-                        }
-                      }
-                    }}
-                    onBlur={(e) => {
-                      // Only enforce minimum value of 1 when field loses focus
-                      const value = e.target.value === "" ? 0 : Number.parseInt(e.target.value, 10)
-                      if (Number.isNaN(value) || value < 1) {
-                        setFormData({
-                          ...formData,
-                          limit: 1,
-                        })
-                        setLimitError("")
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Support arrow keys for quick increment/decrement
-                      if (e.key === "ArrowUp") {
-                        e.preventDefault()
-                        const currentValue = formData.limit < 1 ? 1 : formData.limit
-                        setFormData({
-                          ...formData,
-                          limit: currentValue + 1,
-                        })
-                        setLimitError("")
-                      } else if (e.key === "ArrowDown") {
-                        e.preventDefault()
-                        const currentValue = formData.limit < 1 ? 1 : formData.limit
-                        setFormData({
-                          ...formData,
-                          limit: Math.max(1, currentValue - 1),
-                        })
-                        setLimitError("")
-                      }
-                    }}
-                    title="Enter a number (minimum: 1) or use ↑/↓ arrow keys"
-                  />
-                  {limitError && (
-                    <p className="text-sm text-red-500 mt-1">{limitError}</p>
-                  )}
-                </div>
-              </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Status</label>
+              <Select
+                value={formData.status}
+                onValueChange={(value) => setFormData({ ...formData, status: value as DocumentStatus })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {documentStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Reviewer</label>
-                <Select
-                  value={formData.reviewer}
-                  onValueChange={(value) => setFormData({ ...formData, reviewer: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {REVIEWER_OPTIONS.map((reviewer) => (
-                      <SelectItem key={reviewer} value={reviewer}>
-                        {reviewer}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Due Date</label>
+              <OutlineDueDatePicker
+                value={formData.dueDate}
+                onChange={(dueDate) => setFormData({ ...formData, dueDate })}
+              />
+            </div>
 
-              <Button onClick={handleSaveOutline} disabled={isSaving} className="w-full">
-                {isSaving ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    {editingId ? "Updating..." : "Creating..."}
-                  </>
-                ) : (
-                  editingId ? "Update Outline" : "Create Outline"
-                )}
-              </Button>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Owner</label>
+              <Select
+                value={formData.ownerId ?? UNASSIGNED}
+                onValueChange={(value) => setFormData({ ...formData, ownerId: value === UNASSIGNED ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>No owner</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user.id} value={member.user.id}>
+                      <MemberAvatar user={member.user} />
+                      <span className="truncate">{member.user.name || member.user.email}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          </SheetContent>
-        </Sheet>
-        )}
-      </div>
+
+            <Button onClick={handleSave} disabled={isSaving} className="w-full">
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingId ? "Save Changes" : "Create Document"}
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
 
       {isLoading ? (
         <div className="flex items-center justify-center py-20">
           <div className="text-center space-y-3">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-            <p className="text-muted-foreground">Loading outlines...</p>
+            <p className="text-muted-foreground">Loading documents...</p>
           </div>
         </div>
-      ) : outlines.length === 0 ? (
+      ) : documents.length === 0 ? (
         <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
           <div className="max-w-md mx-auto space-y-4">
             <div className="inline-block p-4 rounded-full bg-primary/10">
-              <Plus className="h-8 w-8 text-primary" />
+              <FileText className="h-8 w-8 text-primary" />
             </div>
-            <h3 className="text-xl font-semibold">No outlines yet</h3>
-            <p className="text-muted-foreground">Get started by creating your first outline</p>
-            {isOrgOwner && (
-              <Sheet open={isOpen} onOpenChange={setIsOpen}>
-                <SheetTrigger asChild>
-                  <Button onClick={() => handleOpenSheet()} className="mt-4 shadow-lg hover:shadow-xl transition-all">
-                    Create your first outline
-                  </Button>
-                </SheetTrigger>
-              </Sheet>
-            )}
+            <h3 className="text-xl font-semibold">No documents yet</h3>
+            <p className="text-muted-foreground">
+              {canCreate ? "Create a document to start outlining a proposal" : "Documents created by your team will appear here"}
+            </p>
           </div>
         </div>
       ) : (
@@ -600,52 +475,33 @@ export default function OutlineTablePage() {
               <Table>
                 <TableHeader>
                   <TableRow className="bg-muted/50">
-                    <TableHead className="min-w-[150px]">Header</TableHead>
-                    <TableHead className="min-w-[120px]">Section Type</TableHead>
+                    <TableHead className="min-w-[200px]">Title</TableHead>
                     <TableHead className="min-w-[100px]">Status</TableHead>
-                    <TableHead className="text-right min-w-[80px]">Target</TableHead>
-                    <TableHead className="text-right min-w-[80px]">Limit</TableHead>
-                    <TableHead className="min-w-[100px]">Reviewer</TableHead>
-                    {isOrgOwner && <TableHead className="text-right min-w-[100px]">Actions</TableHead>}
+                    <TableHead className="min-w-[120px]">Due</TableHead>
+                    <TableHead className="min-w-[150px]">Owner</TableHead>
+                    <TableHead className="min-w-[160px]">Progress</TableHead>
+                    {hasRowActions && <TableHead className="text-right min-w-[100px]">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {outlines.map((outline) => (
-                    <TableRow key={outline.id}>
-                      <TableCell className="font-medium max-w-[200px] truncate" title={outline.header}>{outline.header}</TableCell>
-                      <TableCell className="text-sm text-muted-foreground max-w-[150px] truncate" title={outline.sectionType}>{outline.sectionType}</TableCell>
+                  {documents.map((document) => (
+                    <TableRow key={document.id}>
+                      <TableCell className="font-medium max-w-[300px] truncate" title={document.title}>
+                        <Link href={getDocumentHref(document)} className="hover:underline">
+                          {document.title}
+                        </Link>
+                      </TableCell>
                       <TableCell>
-                        <span className={`text-xs font-medium px-2 py-1 rounded ${getStatusColor(outline.status)}`}>
-                          {outline.status}
-                        </span>
+                        <DocumentStatusBadge status={document.status} />
                       </TableCell>
-                      <TableCell className="text-right">{outline.target}</TableCell>
-                      <TableCell className="text-right">{outline.limit}</TableCell>
-                      <TableCell className="text-sm max-w-[120px] truncate" title={outline.reviewer}>{outline.reviewer}</TableCell>
-                      {isOrgOwner && (
+                      <TableCell>
+                        <OutlineDueDate dueDate={document.dueDate} isDone={!isDocumentOpen(document.status)} />
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[200px]">{renderOwner(document)}</TableCell>
+                      <TableCell>{renderProgress(document)}</TableCell>
+                      {hasRowActions && (
                         <TableCell className="text-right">
-                          <div className="flex items-center justify-end gap-2">
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              onClick={() => handleOpenSheet(outline)}
-                              disabled={isSaving || deletingId !== null}
-                            >
-                              <Edit2 className="w-4 h-4" />
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              onClick={() => handleDeleteOutline(outline.id)}
-                              disabled={isSaving || deletingId !== null}
-                            >
-                              {deletingId === outline.id ? (
-                                <Loader2 className="w-4 h-4 text-destructive animate-spin" />
-                              ) : (
-                                <Trash2 className="w-4 h-4 text-destructive" />
-                              )}
-                            </Button>
-                          </div>
+                          <div className="flex items-center justify-end gap-1">{renderActions(document)}</div>
                         </TableCell>
                       )}
                     </TableRow>
@@ -657,62 +513,31 @@ export default function OutlineTablePage() {
 
           {/* Mobile Card View */}
           <div className="lg:hidden space-y-4 w-full">
-            {outlines.map((outline) => (
-              <Card key={outline.id} className="border-2 shadow-lg w-full overflow-hidden">
+            {documents.map((document) => (
+              <Card key={document.id} className="border-2 shadow-lg w-full overflow-hidden">
                 <CardHeader className="min-w-0">
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex-1 min-w-0 overflow-hidden">
-                      <CardTitle className="text-lg mb-2 truncate" title={outline.header}>{outline.header}</CardTitle>
-                      <div className="flex flex-wrap gap-2 items-center">
-                        <span className={`text-xs font-medium px-2 py-1 rounded ${getStatusColor(outline.status)} whitespace-nowrap`}>
-                          {outline.status}
-                        </span>
-                        <span className="text-xs text-muted-foreground truncate" title={outline.sectionType}>{outline.sectionType}</span>
-                      </div>
+                      <CardTitle className="text-lg mb-2 truncate" title={document.title}>
+                        <Link href={getDocumentHref(document)} className="hover:underline">
+                          {document.title}
+                        </Link>
+                      </CardTitle>
+                      <DocumentStatusBadge status={document.status} />
                     </div>
-                    {isOrgOwner && (
-                      <div className="flex items-center gap-2 ml-2">
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          onClick={() => handleOpenSheet(outline)}
-                          disabled={isSaving || deletingId !== null}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          onClick={() => handleDeleteOutline(outline.id)}
-                          disabled={isSaving || deletingId !== null}
-                          className="h-8 w-8 p-0"
-                        >
-                          {deletingId === outline.id ? (
-                            <Loader2 className="w-4 h-4 text-destructive animate-spin" />
-                          ) : (
-                            <Trash2 className="w-4 h-4 text-destructive" />
-                          )}
-                        </Button>
-                      </div>
-                    )}
+                    {hasRowActions && <div className="flex items-center gap-1 flex-shrink-0">{renderActions(document)}</div>}
                   </div>
                 </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <p className="text-muted-foreground text-xs mb-1">Target</p>
-                      <p className="font-medium">{outline.target}</p>
-                    </div>
-                    <div>
-                      <p className="text-muted-foreground text-xs mb-1">Limit</p>
-                      <p className="font-medium">{outline.limit}</p>
-                    </div>
-                    <div className="col-span-2">
-                      <p className="text-muted-foreground text-xs mb-1">Reviewer</p>
-                      <p className="font-medium">{outline.reviewer}</p>
-                    </div>
+                <CardContent className="text-sm space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-muted-foreground">Due</span>
+                    <OutlineDueDate dueDate={document.dueDate} isDone={!isDocumentOpen(document.status)} />
+                  </div>
+                  <div className="flex items-center justify-between gap-2 min-w-0">
+                    <span className="text-muted-foreground">Owner</span>
+                    {renderOwner(document)}
                   </div>
+                  {renderProgress(document)}
                 </CardContent>
               </Card>
             ))}
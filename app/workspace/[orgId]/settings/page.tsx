@@ -0,0 +1,458 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useSession } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import type { PermissionAction } from "@/lib/permissions"
+import type { OutlineConfig } from "@/lib/validation"
+import type { OutlineStatusTransition } from "@/lib/outline-workflow"
+import { ArrowDown, ArrowRight, ArrowUp, Loader2, Plus, ShieldCheck, X } from "lucide-react"
+
+const EMPTY_CONFIG: OutlineConfig = { sectionTypes: [], statuses: [], transitions: [] }
+
+type ListKey = "sectionTypes" | "statuses"
+
+const EMPTY_TRANSITION: OutlineStatusTransition = { from: "", to: "", requiresReviewer: false }
+
+const LISTS: { key: ListKey; title: string; description: string; placeholder: string }[] = [
+  {
+    key: "sectionTypes",
+    title: "Section Types",
+    description: "Kinds of sections an outline can be",
+    placeholder: "Add a section type",
+  },
+  {
+    key: "statuses",
+    title: "Statuses",
+    description: "The first status is the default for new outlines; the last one counts as done",
+    placeholder: "Add a status",
+  },
+]
+
+export default function OrganizationSettingsPage() {
+  const params = useParams()
+  const router = useRouter()
+  const orgIdParam = params.orgId as string | undefined
+  // Validate orgId - ensure it's not undefined, null, or the string "undefined"
+  const orgId = orgIdParam && orgIdParam !== "undefined" ? orgIdParam : undefined
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const [savedConfig, setSavedConfig] = useState<OutlineConfig>(EMPTY_CONFIG)
+  const [config, setConfig] = useState<OutlineConfig>(EMPTY_CONFIG)
+  const [newValues, setNewValues] = useState<Record<ListKey, string>>({
+    sectionTypes: "",
+    statuses: "",
+  })
+  const [newTransition, setNewTransition] = useState<OutlineStatusTransition>(EMPTY_TRANSITION)
+  const [permissions, setPermissions] = useState<PermissionAction[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canEdit = permissions.includes("org:update")
+  const hasChanges = JSON.stringify(config) !== JSON.stringify(savedConfig)
+
+  useEffect(() => {
+    if (!orgId) {
+      router.push("/workspace")
+      return
+    }
+    fetchSettings()
+  }, [orgId, router])
+
+  // Load the current user's permissions
+  useEffect(() => {
+    const loadPermissions = async () => {
+      if (!orgId || !session) return
+
+      try {
+        const response = await fetch(`/api/org/members?orgId=${orgId}`)
+        if (response.ok) {
+          const data = await response.json()
+          const responseData = data.success && data.data ? data.data : data
+          setPermissions(Array.isArray(responseData.permissions) ? responseData.permissions : [])
+        }
+      } catch (error) {
+        console.error("Error loading permissions:", error)
+      }
+    }
+
+    loadPermissions()
+  }, [orgId, session])
+
+  const fetchSettings = async () => {
+    if (!orgId) {
+      return
+    }
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/org/settings/outlines?orgId=${orgId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        const loaded: OutlineConfig = responseData.config || EMPTY_CONFIG
+        setSavedConfig(loaded)
+        setConfig(loaded)
+      } else if (response.status === 403 || response.status === 404) {
+        router.push(`/workspace/${orgId}/not-found`)
+      } else {
+        throw new Error(data.message || data.error || "Failed to load settings")
+      }
+    } catch (error) {
+      console.error("Error fetching outline settings:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load settings",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAdd = (key: ListKey) => {
+    const value = newValues[key].trim()
+    if (!value) {
+      return
+    }
+    if (config[key].some((existing) => existing.toLowerCase() === value.toLowerCase())) {
+      toast({
+        title: "Error",
+        description: `"${value}" is already in the list`,
+        variant: "destructive",
+      })
+      return
+    }
+    setConfig({ ...config, [key]: [...config[key], value] })
+    setNewValues({ ...newValues, [key]: "" })
+  }
+
+  const handleRemove = (key: ListKey, index: number) => {
+    const removed = config[key][index]
+    const next = { ...config, [key]: config[key].filter((_, i) => i !== index) }
+    // A removed status takes its transitions with it
+    if (key === "statuses") {
+      next.transitions = config.transitions.filter((t) => t.from !== removed && t.to !== removed)
+    }
+    setConfig(next)
+  }
+
+  const handleMove = (key: ListKey, index: number, offset: number) => {
+    const values = [...config[key]]
+    const [moved] = values.splice(index, 1)
+    values.splice(index + offset, 0, moved)
+    setConfig({ ...config, [key]: values })
+  }
+
+  const handleAddTransition = () => {
+    const { from, to } = newTransition
+    if (!from || !to) {
+      return
+    }
+    if (from === to) {
+      toast({
+        title: "Error",
+        description: "A transition must move to a different status",
+        variant: "destructive",
+      })
+      return
+    }
+    if (config.transitions.some((t) => t.from === from && t.to === to)) {
+      toast({
+        title: "Error",
+        description: `${from} → ${to} is already in the workflow`,
+        variant: "destructive",
+      })
+      return
+    }
+    setConfig({ ...config, transitions: [...config.transitions, newTransition] })
+    setNewTransition(EMPTY_TRANSITION)
+  }
+
+  const handleToggleReviewer = (index: number, requiresReviewer: boolean) => {
+    setConfig({
+      ...config,
+      transitions: config.transitions.map((t, i) => (i === index ? { ...t, requiresReviewer } : t)),
+    })
+  }
+
+  const handleRemoveTransition = (index: number) => {
+    setConfig({ ...config, transitions: config.transitions.filter((_, i) => i !== index) })
+  }
+
+  const handleSave = async () => {
+    if (!orgId) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/org/settings/outlines", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, ...config }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        const saved: OutlineConfig = responseData.config || config
+        setSavedConfig(saved)
+        setConfig(saved)
+        toast({
+          title: "Success",
+          description: data.message || "Outline settings updated successfully",
+        })
+      } else {
+        throw new Error(data.message || data.error || "Failed to save settings")
+      }
+    } catch (error) {
+      console.error("Error saving outline settings:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+        <div className="space-y-1 min-w-0">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Settings
+          </h1>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            {canEdit
+              ? "Choose the section types, statuses and workflow your outlines use"
+              : "Only owners and admins can change these settings"}
+          </p>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setConfig(savedConfig)} disabled={!hasChanges || isSaving}>
+              Discard
+            </Button>
+            <Button onClick={handleSave} disabled={!hasChanges || isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center space-y-3">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="text-muted-foreground">Loading settings...</p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:gap-6 grid-cols-1 lg:grid-cols-2">
+          {LISTS.map(({ key, title, description, placeholder }) => (
+            <Card key={key} className="border-2 shadow-lg min-w-0">
+              <CardHeader>
+                <CardTitle className="text-lg">{title}</CardTitle>
+                <CardDescription>{description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {config[key].length === 0 ? (
+                  <div className="rounded-lg border-2 border-dashed p-6 text-center text-sm text-muted-foreground">
+                    No {title.toLowerCase()} yet
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {config[key].map((value, index) => (
+                      <li key={value} className="flex items-center gap-2 rounded-lg border px-3 py-2 min-w-0">
+                        <span className="flex-1 text-sm truncate" title={value}>
+                          {value}
+                        </span>
+                        {canEdit && (
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleMove(key, index, -1)}
+                              disabled={index === 0}
+                              aria-label={`Move ${value} up`}
+                            >
+                              <ArrowUp className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleMove(key, index, 1)}
+                              disabled={index === config[key].length - 1}
+                              aria-label={`Move ${value} down`}
+                            >
+                              <ArrowDown className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-destructive hover:text-destructive"
+                              onClick={() => handleRemove(key, index)}
+                              aria-label={`Remove ${value}`}
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={placeholder}
+                      value={newValues[key]}
+                      maxLength={100}
+                      onChange={(e) => setNewValues({ ...newValues, [key]: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault()
+                          handleAdd(key)
+                        }
+                      }}
+                    />
+                    <Button variant="outline" size="icon" onClick={() => handleAdd(key)} aria-label={`Add to ${title}`}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+          <Card className="border-2 shadow-lg min-w-0 lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Workflow</CardTitle>
+              <CardDescription>
+                Status changes outlines are allowed to make. Transitions that need approval can only be made by the
+                outline&apos;s assigned reviewer
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {config.transitions.length === 0 ? (
+                <div className="rounded-lg border-2 border-dashed p-6 text-center text-sm text-muted-foreground">
+                  No transitions yet. Outlines will stay in their first status
+                </div>
+              ) : (
+                <ul className="space-y-2">
+                  {config.transitions.map((transition, index) => (
+                    <li
+                      key={`${transition.from}->${transition.to}`}
+                      className="flex flex-wrap items-center gap-2 rounded-lg border px-3 py-2 min-w-0"
+                    >
+                      <span className="flex flex-1 items-center gap-2 text-sm min-w-0">
+                        <span className="truncate" title={transition.from}>{transition.from}</span>
+                        <ArrowRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                        <span className="truncate" title={transition.to}>{transition.to}</span>
+                      </span>
+                      {canEdit ? (
+                        <div className="flex items-center gap-3 flex-shrink-0">
+                          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Checkbox
+                              checked={transition.requiresReviewer}
+                              onCheckedChange={(checked) => handleToggleReviewer(index, checked === true)}
+                            />
+                            Reviewer approval
+                          </label>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => handleRemoveTransition(index)}
+                            aria-label={`Remove ${transition.from} to ${transition.to}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        transition.requiresReviewer && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+                            <ShieldCheck className="w-4 h-4" />
+                            Reviewer approval
+                          </span>
+                        )
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canEdit && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Select
+                    value={newTransition.from}
+                    onValueChange={(from) => setNewTransition({ ...newTransition, from })}
+                  >
+                    <SelectTrigger className="sm:flex-1">
+                      <SelectValue placeholder="From status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {config.statuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={newTransition.to} onValueChange={(to) => setNewTransition({ ...newTransition, to })}>
+                    <SelectTrigger className="sm:flex-1">
+                      <SelectValue placeholder="To status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {config.statuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Checkbox
+                      checked={newTransition.requiresReviewer}
+                      onCheckedChange={(checked) =>
+                        setNewTransition({ ...newTransition, requiresReviewer: checked === true })
+                      }
+                    />
+                    Reviewer approval
+                  </label>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={handleAddTransition}
+                    disabled={!newTransition.from || !newTransition.to}
+                    aria-label="Add transition"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -8,8 +8,20 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
-import { Trash2, Plus, Crown, Loader2, Users } from "lucide-react"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import { isEmailServiceEnabledClient } from "@/lib/email-config"
+import {
+  assignableRoles,
+  getRoleLabel,
+  DEFAULT_MEMBER_ROLE,
+  type AssignableRole,
+  type PermissionAction,
+} from "@/lib/permissions"
+import { Trash2, Plus, Crown, Loader2, Users, LogOut } from "lucide-react"
 
 interface TeamMember {
   id: string
@@ -43,8 +55,23 @@ export default function TeamPage() {
   const [inviteEmail, setInviteEmail] = useState("")
   const [isInviting, setIsInviting] = useState(false)
   const [removingUserId, setRemovingUserId] = useState<string | null>(null)
+  const [inviteRole, setInviteRole] = useState<AssignableRole>(DEFAULT_MEMBER_ROLE)
+  const [permissions, setPermissions] = useState<PermissionAction[]>([])
+  const [updatingRoleUserId, setUpdatingRoleUserId] = useState<string | null>(null)
+  const [transferTarget, setTransferTarget] = useState<TeamMember | null>(null)
+  const [transferPassword, setTransferPassword] = useState("")
+  const [isTransferring, setIsTransferring] = useState(false)
+  const [isLeaving, setIsLeaving] = useState(false)
 
-  const isOrgOwner = session && organization && session.user.id === organization.ownerId
+  const isOrgOwner = !!session && !!organization && session.user.id === organization.ownerId
+  const canInvite = permissions.includes("member:invite")
+  const canRemove = permissions.includes("member:remove")
+  const canChangeRoles = permissions.includes("member:update-role")
+  // Admin rights can only be granted, revoked or removed by the owner
+  const availableRoles = assignableRoles.filter((role) => role !== "admin" || isOrgOwner)
+  const canManageMember = (member: TeamMember) =>
+    member.role !== "owner" && member.user.id !== session?.user.id && (member.role !== "admin" || isOrgOwner)
+  const hasMemberActions = canRemove || isOrgOwner
 
   useEffect(() => {
     if (!orgId) {
@@ -54,6 +81,17 @@ export default function TeamPage() {
     fetchTeamData()
   }, [orgId, router])
 
+  // Joins, removals and role changes made elsewhere show up without a reload
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      if (event.type === "member.changed") {
+        fetchTeamData({ silent: true })
+      }
+    },
+    { enabled: !!session, onReconnect: () => fetchTeamData({ silent: true }) }
+  )
+
   // Validate organization access
   useEffect(() => {
     const validateOrg = async () => {
@@ -75,11 +113,12 @@ export default function TeamPage() {
     }
   }, [orgId, session, router])
 
-  const fetchTeamData = async () => {
+  // A silent fetch skips the loading state, for changes pushed by the server
+  const fetchTeamData = async ({ silent = false }: { silent?: boolean } = {}) => {
     if (!orgId) {
       return
     }
-    setIsLoading(true)
+    if (!silent) setIsLoading(true)
     try {
       const response = await fetch(`/api/org/members?orgId=${orgId}`)
       if (response.ok) {
@@ -88,6 +127,7 @@ export default function TeamPage() {
         const responseData = data.success && data.data ? data.data : data
         const membersList = responseData.members || []
         setMembers(membersList)
+        setPermissions(Array.isArray(responseData.permissions) ? responseData.permissions : [])
         
         // Set organization from API response
         if (responseData.organization) {
@@ -156,7 +196,7 @@ export default function TeamPage() {
         body: JSON.stringify({
           orgId,
           email: inviteEmail,
-          role: "member",
+          role: inviteRole,
         }),
       })
 
@@ -167,12 +207,19 @@ export default function TeamPage() {
           ? data.data.invitation 
           : data.invitation
         
+        // Invitees without an account get a signup link; show it when it cannot be emailed
+        const signupLink = data.success ? data.data?.signupLink : data.signupLink
+
         if (invitation) {
           setInviteEmail("")
+          setInviteRole(DEFAULT_MEMBER_ROLE)
           setIsOpen(false)
           toast({
             title: "Success",
-            description: data.message || "Invitation sent successfully",
+            description:
+              signupLink && !isEmailServiceEnabledClient()
+                ? `${data.message} ${signupLink}`
+                : data.message || "Invitation sent successfully",
           })
           // Refresh team data to show updated list
           fetchTeamData()
@@ -205,11 +252,11 @@ export default function TeamPage() {
       return
     }
 
-    // Double-check: Only owners can remove members
-    if (!isOrgOwner) {
+    // Double-check: Only members with the remove permission can remove members
+    if (!canRemove) {
       toast({
         title: "Error",
-        description: "Only organization owners can remove members",
+        description: "You do not have permission to remove members",
         variant: "destructive",
       })
       return
@@ -245,6 +292,199 @@ export default function TeamPage() {
     }
   }
 
+  const handleChangeRole = async (userId: string, role: AssignableRole) => {
+    if (!orgId) {
+      return
+    }
+
+    setUpdatingRoleUserId(userId)
+    try {
+      const response = await fetch("/api/org/members", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, userId, role }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMembers(members.map((m) => (m.user.id === userId ? { ...m, role } : m)))
+        toast({
+          title: "Success",
+          description: data.message || "Member role updated successfully",
+        })
+      } else {
+        throw new Error(data.message || data.error || "Failed to update member role")
+      }
+    } catch (error) {
+      console.error("Error updating member role:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update member role",
+        variant: "destructive",
+      })
+    } finally {
+      setUpdatingRoleUserId(null)
+    }
+  }
+
+  const handleLeaveOrganization = async () => {
+    if (!orgId) {
+      return
+    }
+
+    if (!confirm(`Are you sure you want to leave ${organization?.name || "this organization"}?`)) return
+
+    setIsLeaving(true)
+    try {
+      const response = await fetch("/api/org/leave", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: data.message || "You have left the organization",
+        })
+        router.push("/workspace")
+      } else {
+        throw new Error(data.message || data.error || "Failed to leave organization")
+      }
+    } catch (error) {
+      console.error("Error leaving organization:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to leave organization",
+        variant: "destructive",
+      })
+      setIsLeaving(false)
+    }
+  }
+
+  const handleTransferCancel = () => {
+    setTransferTarget(null)
+    setTransferPassword("")
+  }
+
+  const handleTransferConfirm = async () => {
+    if (!orgId || !transferTarget || !transferPassword.trim()) {
+      toast({
+        title: "Error",
+        description: "Password is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsTransferring(true)
+    try {
+      const response = await fetch("/api/org/transfer", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orgId,
+          userId: transferTarget.user.id,
+          password: transferPassword,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: "Transfer Requested",
+          description: data.message || "Ownership transfer requested",
+        })
+        handleTransferCancel()
+      } else {
+        toast({
+          title: "Error",
+          description: data.error || data.message || "Failed to transfer ownership",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Error transferring ownership:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsTransferring(false)
+    }
+  }
+
+  const renderActions = (member: TeamMember, className?: string) => (
+    <div className="flex items-center justify-end gap-2">
+      {isOrgOwner && member.role !== "owner" && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setTransferTarget(member)}
+          disabled={isTransferring}
+          title="Transfer ownership"
+          className={className}
+        >
+          <Crown className="w-4 h-4 text-yellow-600" />
+        </Button>
+      )}
+      {canRemove && canManageMember(member) && (
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          onClick={() => handleRemoveMember(member.user.id)}
+          disabled={removingUserId !== null}
+          title="Remove member"
+          className={className}
+        >
+          {removingUserId === member.user.id ? (
+            <Loader2 className="w-4 h-4 text-destructive animate-spin" />
+          ) : (
+            <Trash2 className="w-4 h-4 text-destructive" />
+          )}
+        </Button>
+      )}
+    </div>
+  )
+
+  const renderRole = (member: TeamMember) => {
+    if (canChangeRoles && canManageMember(member)) {
+      return (
+        <Select
+          value={member.role}
+          onValueChange={(value) => handleChangeRole(member.user.id, value as AssignableRole)}
+          disabled={updatingRoleUserId !== null}
+        >
+          <SelectTrigger className="h-8 w-[130px]">
+            <SelectValue>{getRoleLabel(member.role)}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {availableRoles.map((role) => (
+              <SelectItem key={role} value={role}>
+                {getRoleLabel(role)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    }
+
+    return (
+      <span className={`text-xs font-semibold px-3 py-1.5 rounded-full ${
+        member.role === "owner" 
+          ? "bg-primary/10 text-primary border border-primary/20" 
+          : "bg-muted text-muted-foreground"
+      }`}>
+        {getRoleLabel(member.role)}
+      </span>
+    )
+  }
+
   return (
     <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
@@ -265,46 +505,84 @@ export default function TeamPage() {
               : "Manage your organization members and permissions"}
           </p>
         </div>
-        <Sheet open={isOpen} onOpenChange={setIsOpen}>
-          <SheetTrigger asChild>
-            <Button 
-              className="shadow-lg hover:shadow-xl transition-all w-full sm:w-auto"
-              disabled={!isOrgOwner}
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          {!isOrgOwner && organization && (
+            <Button
+              variant="outline"
+              className="w-full sm:w-auto text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={handleLeaveOrganization}
+              disabled={isLeaving}
             >
-              <Plus className="w-4 h-4 mr-2" />
-              <span className="hidden sm:inline">Invite Member</span>
-              <span className="sm:hidden">Invite</span>
+              {isLeaving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <LogOut className="w-4 h-4 mr-2" />
+              )}
+              Leave
             </Button>
-          </SheetTrigger>
-          <SheetContent className="w-[calc(100vw-2rem)] sm:w-[400px] px-4 sm:px-6">
-            <SheetHeader>
-              <SheetTitle>Invite Team Member</SheetTitle>
-              <SheetDescription>Invite a new member to your organization</SheetDescription>
-            </SheetHeader>
-            <div className="space-y-4 mt-6">
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Email</label>
-                <Input
-                  type="email"
-                  placeholder="member@example.com"
-                  value={inviteEmail}
-                  onChange={(e) => setInviteEmail(e.target.value)}
-                  disabled={isInviting}
-                />
-              </div>
-              <Button onClick={handleInviteMember} disabled={isInviting} className="w-full">
-                {isInviting ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Inviting...
-                  </>
-                ) : (
-                  "Send Invite"
-                )}
+          )}
+          <Sheet open={isOpen} onOpenChange={setIsOpen}>
+            <SheetTrigger asChild>
+              <Button 
+                className="shadow-lg hover:shadow-xl transition-all w-full sm:w-auto"
+                disabled={!canInvite}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                <span className="hidden sm:inline">Invite Member</span>
+                <span className="sm:hidden">Invite</span>
               </Button>
-            </div>
-          </SheetContent>
-        </Sheet>
+            </SheetTrigger>
+            <SheetContent className="w-[calc(100vw-2rem)] sm:w-[400px] px-4 sm:px-6">
+              <SheetHeader>
+                <SheetTitle>Invite Team Member</SheetTitle>
+                <SheetDescription>
+                  Invite a new member to your organization. People without an account are sent a link to sign up.
+                </SheetDescription>
+              </SheetHeader>
+              <div className="space-y-4 mt-6">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Email</label>
+                  <Input
+                    type="email"
+                    placeholder="member@example.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    disabled={isInviting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Role</label>
+                  <Select
+                    value={inviteRole}
+                    onValueChange={(value) => setInviteRole(value as AssignableRole)}
+                    disabled={isInviting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableRoles.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {getRoleLabel(role)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleInviteMember} disabled={isInviting} className="w-full">
+                  {isInviting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Inviting...
+                    </>
+                  ) : (
+                    "Send Invite"
+                  )}
+                </Button>
+              </div>
+            </SheetContent>
+          </Sheet>
+        </div>
       </div>
 
       {isLoading ? (
@@ -335,7 +613,7 @@ export default function TeamPage() {
                     <TableHead className="min-w-[150px]">Name</TableHead>
                     <TableHead className="min-w-[200px]">Email</TableHead>
                     <TableHead className="min-w-[100px]">Role</TableHead>
-                    {isOrgOwner && <TableHead className="text-right min-w-[100px]">Actions</TableHead>}
+                    {hasMemberActions && <TableHead className="text-right min-w-[100px]">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -348,32 +626,9 @@ export default function TeamPage() {
                         </div>
                       </TableCell>
                       <TableCell className="text-sm text-muted-foreground max-w-[250px] truncate" title={member.user.email}>{member.user.email}</TableCell>
-                      <TableCell>
-                        <span className={`text-xs font-semibold px-3 py-1.5 rounded-full ${
-                          member.role === "owner" 
-                            ? "bg-primary/10 text-primary border border-primary/20" 
-                            : "bg-muted text-muted-foreground"
-                        }`}>
-                          {member.role === "owner" ? "Owner" : "Member"}
-                        </span>
-                      </TableCell>
-                      {isOrgOwner && (
-                        <TableCell className="text-right">
-                          {member.role !== "owner" && (
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              onClick={() => handleRemoveMember(member.user.id)}
-                              disabled={removingUserId !== null}
-                            >
-                              {removingUserId === member.user.id ? (
-                                <Loader2 className="w-4 h-4 text-destructive animate-spin" />
-                              ) : (
-                                <Trash2 className="w-4 h-4 text-destructive" />
-                              )}
-                            </Button>
-                          )}
-                        </TableCell>
+                      <TableCell>{renderRole(member)}</TableCell>
+                      {hasMemberActions && (
+                        <TableCell className="text-right">{renderActions(member)}</TableCell>
                       )}
                     </TableRow>
                   ))}
@@ -395,37 +650,68 @@ export default function TeamPage() {
                       </CardTitle>
                       <p className="text-sm text-muted-foreground truncate" title={member.user.email}>{member.user.email}</p>
                     </div>
-                    {isOrgOwner && member.role !== "owner" && (
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        onClick={() => handleRemoveMember(member.user.id)}
-                        disabled={removingUserId !== null}
-                        className="h-8 w-8 p-0"
-                      >
-                        {removingUserId === member.user.id ? (
-                          <Loader2 className="w-4 h-4 text-destructive animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4 text-destructive" />
-                        )}
-                      </Button>
-                    )}
+                    {hasMemberActions && renderActions(member, "h-8 w-8 p-0")}
                   </div>
                 </CardHeader>
-                <CardContent>
-                  <span className={`text-xs font-semibold px-3 py-1.5 rounded-full ${
-                    member.role === "owner" 
-                      ? "bg-primary/10 text-primary border border-primary/20" 
-                      : "bg-muted text-muted-foreground"
-                  }`}>
-                    {member.role === "owner" ? "Owner" : "Member"}
-                  </span>
-                </CardContent>
+                <CardContent>{renderRole(member)}</CardContent>
               </Card>
             ))}
           </div>
         </>
       )}
+
+      {/* Transfer Ownership Confirmation Dialog */}
+      <AlertDialog open={transferTarget !== null} onOpenChange={(open) => !open && handleTransferCancel()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer Ownership</AlertDialogTitle>
+            <AlertDialogDescription>
+              {transferTarget
+                ? `${transferTarget.user.name || transferTarget.user.email} will become the owner of this organization once they accept. You will stay on as an admin.`
+                : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-password">Enter your password to confirm</Label>
+              <Input
+                id="transfer-password"
+                type="password"
+                placeholder="Enter your password"
+                value={transferPassword}
+                onChange={(e) => setTransferPassword(e.target.value)}
+                disabled={isTransferring}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && transferPassword.trim()) {
+                    handleTransferConfirm()
+                  }
+                }}
+              />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleTransferCancel} disabled={isTransferring}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleTransferConfirm()
+              }}
+              disabled={isTransferring || !transferPassword.trim()}
+            >
+              {isTransferring ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Requesting...
+                </>
+              ) : (
+                "Transfer Ownership"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
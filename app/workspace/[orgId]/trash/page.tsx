@@ -0,0 +1,237 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useSession } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import type { PermissionAction } from "@/lib/permissions"
+import { Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { format, formatDistanceToNow } from "date-fns"
+
+interface DeletedOutline {
+  id: string
+  header: string
+  sectionType: string
+  status: string
+  reviewerId: string | null
+  document: { id: string; title: string }
+  deletedAt: string
+  purgeAt: string
+}
+
+export default function OutlineTrashPage() {
+  const params = useParams()
+  const router = useRouter()
+  const orgIdParam = params.orgId as string | undefined
+  // Validate orgId - ensure it's not undefined, null, or the string "undefined"
+  const orgId = orgIdParam && orgIdParam !== "undefined" ? orgIdParam : undefined
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const [outlines, setOutlines] = useState<DeletedOutline[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [permissions, setPermissions] = useState<PermissionAction[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const canRestore = permissions.includes("outline:delete")
+
+  useEffect(() => {
+    if (!orgId) {
+      router.push("/workspace")
+      return
+    }
+    fetchTrash()
+  }, [orgId, router])
+
+  // Load the current user's permissions
+  useEffect(() => {
+    const loadPermissions = async () => {
+      if (!orgId || !session) return
+
+      try {
+        const response = await fetch(`/api/org/members?orgId=${orgId}`)
+        if (response.ok) {
+          const data = await response.json()
+          const responseData = data.success && data.data ? data.data : data
+          setPermissions(Array.isArray(responseData.permissions) ? responseData.permissions : [])
+        }
+      } catch (error) {
+        console.error("Error loading permissions:", error)
+      }
+    }
+
+    loadPermissions()
+  }, [orgId, session])
+
+  const fetchTrash = async () => {
+    if (!orgId) {
+      return
+    }
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/outlines/trash?orgId=${orgId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setOutlines(responseData.outlines || [])
+        setRetentionDays(responseData.retentionDays ?? null)
+      } else if (response.status === 403 || response.status === 404) {
+        router.push(`/workspace/${orgId}/not-found`)
+      } else {
+        throw new Error(data.message || data.error || "Failed to load trash")
+      }
+    } catch (error) {
+      console.error("Error fetching outline trash:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load trash",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRestore = async (id: string) => {
+    setRestoringId(id)
+    try {
+      const response = await fetch(`/api/outlines/${id}/restore`, {
+        method: "POST",
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: data.message || "Outline restored successfully",
+        })
+        setOutlines((prev) => prev.filter((o) => o.id !== id))
+      } else {
+        throw new Error(data.message || data.error || "Failed to restore outline")
+      }
+    } catch (error) {
+      console.error("Error restoring outline:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore outline",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const renderRestoreButton = (outline: DeletedOutline, className?: string) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => handleRestore(outline.id)}
+      disabled={restoringId !== null}
+      className={className}
+    >
+      {restoringId === outline.id ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <RotateCcw className="w-4 h-4 mr-2" />
+      )}
+      Restore
+    </Button>
+  )
+
+  return (
+    <div className="flex-1 p-3 sm:p-4 md:p-6 lg:p-8 w-full max-w-full overflow-x-hidden">
+      <div className="space-y-1 mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Trash
+        </h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          {retentionDays
+            ? `Deleted outlines are permanently removed after ${retentionDays} days`
+            : "Deleted outlines can be restored from here"}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center space-y-3">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="text-muted-foreground">Loading trash...</p>
+          </div>
+        </div>
+      ) : outlines.length === 0 ? (
+        <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+          <div className="max-w-md mx-auto space-y-4">
+            <div className="inline-block p-4 rounded-full bg-primary/10">
+              <Trash2 className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="text-xl font-semibold">Trash is empty</h3>
+            <p className="text-muted-foreground">Deleted outlines will appear here</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Desktop Table View */}
+          <div className="hidden lg:block rounded-xl border-2 shadow-lg overflow-hidden bg-card w-full">
+            <div className="overflow-x-auto w-full">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead className="min-w-[150px]">Header</TableHead>
+                    <TableHead className="min-w-[120px]">Document</TableHead>
+                    <TableHead className="min-w-[120px]">Section Type</TableHead>
+                    <TableHead className="min-w-[120px]">Deleted</TableHead>
+                    <TableHead className="min-w-[140px]">Permanently Deleted</TableHead>
+                    {canRestore && <TableHead className="text-right min-w-[100px]">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outlines.map((outline) => (
+                    <TableRow key={outline.id}>
+                      <TableCell className="font-medium max-w-[200px] truncate" title={outline.header}>{outline.header}</TableCell>
+                      <TableCell className="text-sm max-w-[150px] truncate" title={outline.document.title}>{outline.document.title}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[150px] truncate" title={outline.sectionType}>{outline.sectionType}</TableCell>
+                      <TableCell className="text-sm">{formatDistanceToNow(new Date(outline.deletedAt), { addSuffix: true })}</TableCell>
+                      <TableCell className="text-sm text-destructive">{format(new Date(outline.purgeAt), "MMM d, yyyy")}</TableCell>
+                      {canRestore && <TableCell className="text-right">{renderRestoreButton(outline)}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Mobile Card View */}
+          <div className="lg:hidden space-y-4 w-full">
+            {outlines.map((outline) => (
+              <Card key={outline.id} className="border-2 shadow-lg w-full overflow-hidden">
+                <CardHeader className="min-w-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0 overflow-hidden">
+                      <CardTitle className="text-lg mb-2 truncate" title={outline.header}>{outline.header}</CardTitle>
+                      <p className="text-xs text-muted-foreground truncate" title={`${outline.document.title} · ${outline.sectionType}`}>
+                        {outline.document.title} · {outline.sectionType}
+                      </p>
+                    </div>
+                    {canRestore && renderRestoreButton(outline, "flex-shrink-0")}
+                  </div>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  <p className="text-muted-foreground">
+                    Deleted {formatDistanceToNow(new Date(outline.deletedAt), { addSuffix: true })}
+                  </p>
+                  <p className="text-destructive">
+                    Permanently deleted on {format(new Date(outline.purgeAt), "MMM d, yyyy")}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -11,10 +11,11 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import Link from "next/link"
-import { LogOut, Building2, Plus, Users, Sparkles, Loader2, Trash2 } from "lucide-react"
+import { LogOut, Building2, Plus, Users, Sparkles, Loader2, Trash2, DoorOpen, ClipboardCheck } from "lucide-react"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { EmailVerificationBanner } from "@/components/email-verification-banner"
 import { Notifications } from "@/components/notifications"
+import { DEFAULT_MEMBER_ROLE, getRoleLabel } from "@/lib/permissions"
 
 interface Organization {
   id: string
@@ -44,6 +45,7 @@ function WorkspaceContent() {
   const [isDeleting, setIsDeleting] = useState(false)
   const [orgNameExists, setOrgNameExists] = useState(false)
   const [isCheckingOrgName, setIsCheckingOrgName] = useState(false)
+  const [leavingOrgId, setLeavingOrgId] = useState<string | null>(null)
 
   // Handle invitation from email link
   useEffect(() => {
@@ -348,7 +350,7 @@ function WorkspaceContent() {
           // Direct join (if owner accepts immediately)
           const newOrg: Organization = {
             ...organization,
-            role: "member",
+            role: DEFAULT_MEMBER_ROLE,
           }
           setOrganizations([...organizations, newOrg])
           toast({
@@ -451,6 +453,43 @@ function WorkspaceContent() {
     }
   }
 
+  const handleLeaveClick = async (org: Organization, e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (!confirm(`Are you sure you want to leave ${org.name}?`)) return
+
+    setLeavingOrgId(org.id)
+    try {
+      const response = await fetch("/api/org/leave", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId: org.id }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setOrganizations(organizations.filter((o) => o.id !== org.id))
+        toast({
+          title: "Success",
+          description: data.message || "You have left the organization",
+        })
+      } else {
+        throw new Error(data.message || data.error || "Failed to leave organization")
+      }
+    } catch (error) {
+      console.error("Error leaving organization:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to leave organization",
+        variant: "destructive",
+      })
+    } finally {
+      setLeavingOrgId(null)
+    }
+  }
+
   const handleDeleteCancel = () => {
     setIsDeleteDialogOpen(false)
     setDeleteOrgId(null)
@@ -541,6 +580,28 @@ function WorkspaceContent() {
             <span className="hidden sm:inline">Join Organization</span>
             <span className="sm:hidden">Join</span>
           </Button>
+          <Button
+            variant="ghost"
+            size="lg"
+            asChild
+            className="w-full sm:w-auto sm:ml-auto"
+          >
+            <Link href="/workspace/reviews">
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              My Reviews
+            </Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="lg"
+            asChild
+            className="w-full sm:w-auto"
+          >
+            <Link href="/workspace/trash">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Trash
+            </Link>
+          </Button>
         </div>
 
         {isLoading ? (
@@ -591,12 +652,28 @@ function WorkspaceContent() {
                           <Trash2 className="h-4 w-4" />
                         </Button>
                       )}
+                      {org.role !== "owner" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={(e) => handleLeaveClick(org, e)}
+                          disabled={leavingOrgId !== null}
+                          title="Leave Organization"
+                        >
+                          {leavingOrgId === org.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <DoorOpen className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
                       <span className={`px-2.5 py-1 rounded-full text-xs font-semibold ${
                         org.role === "owner" 
                           ? "bg-primary/10 text-primary border border-primary/20" 
                           : "bg-muted text-muted-foreground"
                       }`}>
-                        {org.role === "owner" ? "Owner" : "Member"}
+                        {getRoleLabel(org.role)}
                       </span>
                     </div>
                   </div>
@@ -744,7 +821,7 @@ function WorkspaceContent() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Organization</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this organization? This action cannot be undone. All data, members, and content associated with this organization will be permanently deleted.
+              Are you sure you want to delete this organization? It will be moved to the trash, where you can restore it with all of its members and content until it is permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="space-y-4 py-4">
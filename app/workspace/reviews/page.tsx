@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/hooks/use-toast"
+import Link from "next/link"
+import { ArrowLeft, Building2, ClipboardCheck, ExternalLink } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+
+interface AssignedOutline {
+  id: string
+  header: string
+  sectionType: string
+  status: string
+  target: number
+  limit: number
+  updatedAt: string
+  isDone: boolean
+  organization: {
+    id: string
+    name: string
+  }
+  document: {
+    id: string
+    title: string
+  }
+}
+
+interface OrganizationGroup {
+  id: string
+  name: string
+  outlines: AssignedOutline[]
+}
+
+const groupByOrganization = (outlines: AssignedOutline[]): OrganizationGroup[] => {
+  const groups = new Map<string, OrganizationGroup>()
+  for (const outline of outlines) {
+    const group = groups.get(outline.organization.id) ?? { ...outline.organization, outlines: [] }
+    group.outlines.push(outline)
+    groups.set(outline.organization.id, group)
+  }
+  return [...groups.values()]
+}
+
+export default function MyReviewsPage() {
+  const router = useRouter()
+  const { data: session, isPending } = useSession()
+  const { toast } = useToast()
+  const [outlines, setOutlines] = useState<AssignedOutline[]>([])
+  const [includeDone, setIncludeDone] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/auth/signin")
+    } else if (session) {
+      fetchAssigned()
+    }
+  }, [session, isPending, router, includeDone])
+
+  const fetchAssigned = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/outlines/assigned?includeDone=${includeDone}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setOutlines(responseData.outlines || [])
+      } else {
+        throw new Error(data.message || data.error || "Failed to load your reviews")
+      }
+    } catch (error) {
+      console.error("Error fetching assigned outlines:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load your reviews",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const groups = groupByOrganization(outlines)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="w-full max-w-5xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <Button variant="ghost" size="sm" asChild className="mb-4">
+          <Link href="/workspace">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Workspaces
+          </Link>
+        </Button>
+
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div className="space-y-1">
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+              My Reviews
+            </h1>
+            <p className="text-muted-foreground text-sm sm:text-base">
+              Outlines assigned to you across all of your organizations
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch checked={includeDone} onCheckedChange={setIncludeDone} />
+            Show completed
+          </label>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="text-center space-y-3">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              <p className="text-muted-foreground">Loading your reviews...</p>
+            </div>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+            <div className="max-w-md mx-auto space-y-4">
+              <div className="inline-block p-4 rounded-full bg-primary/10">
+                <ClipboardCheck className="h-8 w-8 text-primary" />
+              </div>
+              <h3 className="text-xl font-semibold">Nothing waiting on you</h3>
+              <p className="text-muted-foreground">Outlines assigned to you for review will appear here</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6 sm:space-y-8">
+            {groups.map((group) => (
+              <section key={group.id} className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h2 className="flex items-center gap-2 text-lg font-semibold min-w-0">
+                    <Building2 className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                    <span className="truncate" title={group.name}>{group.name}</span>
+                    <span className="text-sm font-normal text-muted-foreground">({group.outlines.length})</span>
+                  </h2>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/workspace/${group.id}`}>Open</Link>
+                  </Button>
+                </div>
+                <div className="grid gap-3 grid-cols-1 sm:grid-cols-2">
+                  {group.outlines.map((outline) => (
+                    <Card key={outline.id} className={outline.isDone ? "border-2 opacity-70" : "border-2 shadow-sm"}>
+                      <CardHeader className="min-w-0 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="text-base truncate" title={outline.header}>{outline.header}</CardTitle>
+                          <Link
+                            href={`/workspace/${group.id}/documents/${outline.document.id}?q=${encodeURIComponent(outline.header)}`}
+                            className="text-muted-foreground hover:text-foreground flex-shrink-0"
+                            aria-label={`Open ${outline.header}`}
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </Link>
+                        </div>
+                        <CardDescription className="space-y-1">
+                          <span className="block truncate" title={`${outline.document.title} · ${outline.sectionType}`}>
+                            {outline.document.title} · {outline.sectionType}
+                          </span>
+                          <span className="block">
+                            <span className="font-medium text-foreground">{outline.status}</span> · Target {outline.target} · Limit {outline.limit}
+                          </span>
+                          <span className="block">
+                            Updated {formatDistanceToNow(new Date(outline.updatedAt), { addSuffix: true })}
+                          </span>
+                        </CardDescription>
+                      </CardHeader>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import Link from "next/link"
+import { ArrowLeft, Building2, Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { format, formatDistanceToNow } from "date-fns"
+
+interface DeletedOrganization {
+  id: string
+  name: string
+  slug: string
+  deletedAt: string
+  purgeAt: string
+  memberCount: number
+  outlineCount: number
+}
+
+export default function OrganizationTrashPage() {
+  const router = useRouter()
+  const { data: session, isPending } = useSession()
+  const { toast } = useToast()
+  const [organizations, setOrganizations] = useState<DeletedOrganization[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/auth/signin")
+    } else if (session) {
+      fetchTrash()
+    }
+  }, [session, isPending, router])
+
+  const fetchTrash = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/org/trash")
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setOrganizations(responseData.organizations || [])
+        setRetentionDays(responseData.retentionDays ?? null)
+      } else {
+        throw new Error(data.message || data.error || "Failed to load trash")
+      }
+    } catch (error) {
+      console.error("Error fetching organization trash:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load trash",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRestore = async (org: DeletedOrganization) => {
+    setRestoringId(org.id)
+    try {
+      const response = await fetch("/api/org/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId: org.id }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: data.message || "Organization restored",
+        })
+        setOrganizations((prev) => prev.filter((o) => o.id !== org.id))
+      } else {
+        throw new Error(data.message || data.error || "Failed to restore organization")
+      }
+    } catch (error) {
+      console.error("Error restoring organization:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore organization",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="w-full max-w-5xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <Button variant="ghost" size="sm" asChild className="mb-4">
+          <Link href="/workspace">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Workspaces
+          </Link>
+        </Button>
+
+        <div className="space-y-1 mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Trash
+          </h1>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            {retentionDays
+              ? `Deleted organizations are permanently removed after ${retentionDays} days`
+              : "Organizations you deleted can be restored from here"}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="text-center space-y-3">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              <p className="text-muted-foreground">Loading trash...</p>
+            </div>
+          </div>
+        ) : organizations.length === 0 ? (
+          <div className="rounded-xl border-2 border-dashed p-16 text-center bg-muted/20">
+            <div className="max-w-md mx-auto space-y-4">
+              <div className="inline-block p-4 rounded-full bg-primary/10">
+                <Trash2 className="h-8 w-8 text-primary" />
+              </div>
+              <h3 className="text-xl font-semibold">Trash is empty</h3>
+              <p className="text-muted-foreground">Organizations you delete will appear here</p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2">
+            {organizations.map((org) => (
+              <Card key={org.id} className="border-2 shadow-lg">
+                <CardHeader className="min-w-0 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <div className="p-2 rounded-lg bg-muted">
+                        <Building2 className="h-5 w-5 text-muted-foreground" />
+                      </div>
+                      <CardTitle className="text-lg truncate" title={org.name}>{org.name}</CardTitle>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(org)}
+                      disabled={restoringId !== null}
+                    >
+                      {restoringId === org.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                      )}
+                      Restore
+                    </Button>
+                  </div>
+                  <CardDescription className="space-y-1">
+                    <span className="block">
+                      {org.memberCount} member{org.memberCount === 1 ? "" : "s"} · {org.outlineCount} outline{org.outlineCount === 1 ? "" : "s"}
+                    </span>
+                    <span className="block">
+                      Deleted {formatDistanceToNow(new Date(org.deletedAt), { addSuffix: true })}
+                    </span>
+                    <span className="block text-destructive">
+                      Permanently deleted on {format(new Date(org.purgeAt), "MMM d, yyyy")}
+                    </span>
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
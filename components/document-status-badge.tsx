@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge"
+import type { DocumentStatus } from "@/lib/validation"
+import { cn } from "@/lib/utils"
+
+const documentStatusClasses: Record<DocumentStatus, string> = {
+  Active: "text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800",
+  Submitted: "text-purple-700 dark:text-purple-400 bg-purple-50 dark:bg-purple-950/30 border-purple-200 dark:border-purple-800",
+  Won: "text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30 border-green-200 dark:border-green-800",
+  Lost: "text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800",
+  Archived: "text-muted-foreground bg-muted border-border",
+}
+
+/**
+ * Only active documents are still being worked on; their due date can be overdue
+ */
+export function isDocumentOpen(status: string) {
+  return status === "Active"
+}
+
+export function DocumentStatusBadge({ status, className }: { status: string; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn(documentStatusClasses[status as DocumentStatus], className)}>
+      {status}
+    </Badge>
+  )
+}
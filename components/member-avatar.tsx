@@ -0,0 +1,27 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { cn } from "@/lib/utils"
+
+interface MemberAvatarProps {
+  user: {
+    name: string | null
+    email: string
+    image: string | null
+  }
+  className?: string
+}
+
+const getInitials = (name: string | null, email: string) => {
+  const source = name?.trim() || email
+  const parts = source.split(/\s+/).filter(Boolean)
+  const initials = parts.length > 1 ? parts[0][0] + parts[parts.length - 1][0] : source.slice(0, 2)
+  return initials.toUpperCase()
+}
+
+export function MemberAvatar({ user, className }: MemberAvatarProps) {
+  return (
+    <Avatar className={cn("size-6", className)}>
+      {user.image && <AvatarImage src={user.image} alt={user.name || user.email} />}
+      <AvatarFallback className="text-[10px] font-medium">{getInitials(user.name, user.email)}</AvatarFallback>
+    </Avatar>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
+import { useParams, useRouter } from "next/navigation"
 import { useSession } from "@/lib/auth-client"
 import { Button } from "@/components/ui/button"
 import {
@@ -11,7 +11,8 @@ import {
 } from "@/components/ui/popover"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { useToast } from "@/hooks/use-toast"
-import { Bell, Check, X, Loader2, UserPlus, CheckCircle2, XCircle, Users } from "lucide-react"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import { Bell, Check, X, Loader2, UserPlus, CheckCircle2, XCircle, Users, Crown, UserMinus, ClipboardCheck, ArrowRightLeft, AtSign, Clock, AlertTriangle } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
 import { cn } from "@/lib/utils"
 
@@ -27,6 +28,8 @@ interface Notification {
 
 export function Notifications() {
   const router = useRouter()
+  const params = useParams()
+  const orgId = params?.orgId as string | undefined
   const { data: session } = useSession()
   const { toast } = useToast()
   const [notifications, setNotifications] = useState<Notification[]>([])
@@ -38,11 +41,6 @@ export function Notifications() {
     if (session?.user) {
       // Fetch immediately when component mounts or session changes
       fetchNotifications()
-      // Poll for new notifications every 30 seconds
-      const interval = setInterval(() => {
-        fetchNotifications()
-      }, 30000)
-      return () => clearInterval(interval)
     } else {
       // Clear notifications when user logs out
       setNotifications([])
@@ -51,6 +49,18 @@ export function Notifications() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session?.user?.id])
 
+  // New notifications are pushed by the server instead of polled. Inside an
+  // organization this shares the page's event stream.
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      if (event.type === "notification.created") {
+        fetchNotifications()
+      }
+    },
+    { enabled: !!session?.user, onReconnect: () => fetchNotifications() }
+  )
+
   // Fetch notifications when popover opens
   useEffect(() => {
     if (isOpen && session?.user) {
@@ -321,6 +331,46 @@ export function Notifications() {
     }
   }
 
+  const handleOwnershipTransfer = async (transferId: string, action: "accept" | "reject") => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/org/transfer/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transferId }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast({
+          title: action === "accept" ? "Ownership Accepted" : "Ownership Declined",
+          description: data.message || (action === "accept" ? "You are now the organization owner" : "Ownership transfer declined"),
+        })
+        await fetchNotifications()
+        if (action === "accept" && data.data?.organization) {
+          window.location.href = `/workspace/${data.data.organization.id}/team`
+        }
+      } else {
+        toast({
+          title: "Error",
+          description: data.error || data.message || `Failed to ${action} ownership transfer`,
+          variant: "destructive",
+        })
+        await fetchNotifications()
+      }
+    } catch (error) {
+      console.error(`Error handling ownership transfer (${action}):`, error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   if (!session?.user) {
     return null
   }
@@ -341,6 +391,24 @@ export function Notifications() {
         return <XCircle className="h-4 w-4 text-destructive" />
       case "organization_deleted":
         return <XCircle className="h-4 w-4 text-destructive" />
+      case "ownership_transfer":
+        return <Crown className="h-4 w-4" />
+      case "ownership_transfer_accepted":
+        return <CheckCircle2 className="h-4 w-4 text-green-500" />
+      case "ownership_transfer_rejected":
+        return <XCircle className="h-4 w-4 text-destructive" />
+      case "member_left":
+        return <UserMinus className="h-4 w-4" />
+      case "outline_assigned":
+        return <ClipboardCheck className="h-4 w-4" />
+      case "outline_status_changed":
+        return <ArrowRightLeft className="h-4 w-4" />
+      case "comment_mention":
+        return <AtSign className="h-4 w-4" />
+      case "outline_due_soon":
+        return <Clock className="h-4 w-4" />
+      case "outline_overdue":
+        return <AlertTriangle className="h-4 w-4" />
       default:
         return <Bell className="h-4 w-4" />
     }
@@ -362,6 +430,20 @@ export function Notifications() {
         return "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
       case "organization_deleted":
         return "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
+      case "ownership_transfer":
+        return "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20"
+      case "ownership_transfer_accepted":
+        return "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20"
+      case "ownership_transfer_rejected":
+        return "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
+      case "outline_assigned":
+      case "outline_status_changed":
+      case "comment_mention":
+        return "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20"
+      case "outline_due_soon":
+        return "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20"
+      case "outline_overdue":
+        return "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
       default:
         return "bg-primary/10 text-primary border-primary/20"
     }
@@ -442,6 +524,7 @@ export function Notifications() {
                 let metadata: {
                   expiresAt?: string
                   invitationId?: string
+                  transferId?: string
                   daysUntilExpiration?: number
                   [key: string]: any
                 } = {}
@@ -470,7 +553,19 @@ export function Notifications() {
                 }
                 
                 const isInvitation = notification.type === "invitation" && !notification.read && metadata.invitationId && !isInvitationExpired
+
+                // Check if ownership transfer is still actionable
+                const isTransferExpired =
+                  notification.type === "ownership_transfer" && !!metadata.expiresAt && new Date() > new Date(metadata.expiresAt)
+                const isOwnershipTransfer =
+                  notification.type === "ownership_transfer" && !notification.read && !!metadata.transferId && !isTransferExpired
                 const isValidJoinRequest = isJoinRequest && !notification.read && !isJoinRequestExpired
+                const isOutlineReview =
+                  notification.type === "outline_assigned" ||
+                  notification.type === "outline_status_changed" ||
+                  notification.type === "comment_mention" ||
+                  notification.type === "outline_due_soon" ||
+                  notification.type === "outline_overdue"
 
                 return (
                   <div
@@ -480,12 +575,23 @@ export function Notifications() {
                       !notification.read 
                         ? "bg-gradient-to-r from-primary/5 via-primary/3 to-transparent border-l-4 border-l-primary" 
                         : "bg-transparent",
-                      index === 0 && "rounded-t-lg"
+                      index === 0 && "rounded-t-lg",
+                      isOutlineReview && "cursor-pointer"
                     )}
                     onClick={() => {
-                      if (!notification.read && !isJoinRequest && !isInvitation) {
+                      if (!notification.read && !isJoinRequest && !isInvitation && !isOwnershipTransfer) {
                         markAsRead(notification.id)
                       }
+                      // Outline review, mention and reminder notifications open the outline in its organization
+                      if (isOutlineReview && metadata.organizationId) {
+                        setIsOpen(false)
+                        // Notifications from before documents existed open the document list
+                        router.push(
+                          metadata.documentId
+                            ? `/workspace/${metadata.organizationId}/documents/${metadata.documentId}?q=${encodeURIComponent(metadata.outlineHeader || "")}`
+                            : `/workspace/${metadata.organizationId}`
+                        )
+                      }
                     }}
                   >
                     <div className="flex items-start gap-4">
@@ -616,6 +722,41 @@ export function Notifications() {
                               </Button>
                             </div>
                           )}
+                          {isOwnershipTransfer && (
+                            <div className="flex items-center gap-2 ml-2">
+                              <Button
+                                size="sm"
+                                variant="default"
+                                className="h-7 px-3 text-xs font-medium shadow-sm hover:shadow-md transition-all duration-200"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleOwnershipTransfer(metadata.transferId!, "accept")
+                                }}
+                                disabled={isLoading}
+                              >
+                                <Check className="h-3.5 w-3.5 mr-1.5" />
+                                Accept
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 px-3 text-xs font-medium hover:bg-destructive/10 hover:border-destructive/50 transition-all duration-200"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleOwnershipTransfer(metadata.transferId!, "reject")
+                                }}
+                                disabled={isLoading}
+                              >
+                                <X className="h-3.5 w-3.5 mr-1.5" />
+                                Decline
+                              </Button>
+                            </div>
+                          )}
+                          {notification.type === "ownership_transfer" && isTransferExpired && (
+                            <div className="flex items-center gap-2 ml-2">
+                              <span className="text-xs text-destructive font-medium">Expired</span>
+                            </div>
+                          )}
                           {notification.type === "invitation" && isInvitationExpired && (
                             <div className="flex items-center gap-2 ml-2">
                               <span className="text-xs text-destructive font-medium">Expired</span>
@@ -0,0 +1,195 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { MemberAvatar } from "@/components/member-avatar"
+import { OutlineDueDate } from "@/components/outline-due-date"
+import { OutlineWordProgress } from "@/components/outline-word-progress"
+import { cn } from "@/lib/utils"
+import { GripVertical, Loader2 } from "lucide-react"
+
+interface BoardOutline {
+  id: string
+  header: string
+  sectionType: string
+  status: string
+  target: number
+  limit: number
+  wordCount: number
+  number: string
+  dueDate: string | null
+  reviewer: { name: string | null; email: string; image: string | null } | null
+}
+
+interface OutlineBoardViewProps<T extends BoardOutline> {
+  outlines: T[]
+  // The organization's statuses, in order; one column each
+  statuses: string[]
+  // The organization's last status; done outlines are never overdue
+  doneStatus: string | undefined
+  // Columns a card may be dropped on; cards with none cannot be dragged
+  getNextStatuses: (outline: T) => string[]
+  getStatusClassName: (status: string) => string
+  onMove: (outline: T, status: string) => Promise<void>
+  renderActions?: (outline: T) => ReactNode
+}
+
+/**
+ * Outlines as cards in one column per status. A card can be dragged onto any
+ * column its workflow allows next; those columns are highlighted while it is
+ * dragged. `outlines` should be in section order, as returned by the tree API.
+ */
+export function OutlineBoardView<T extends BoardOutline>({
+  outlines,
+  statuses,
+  doneStatus,
+  getNextStatuses,
+  getStatusClassName,
+  onMove,
+  renderActions,
+}: OutlineBoardViewProps<T>) {
+  const [dragId, setDragId] = useState<string | null>(null)
+  const [dropStatus, setDropStatus] = useState<string | null>(null)
+  const [movingIds, setMovingIds] = useState<Set<string>>(new Set())
+
+  // Outlines left in a status that was since removed from the settings still get a column
+  const columns = [
+    ...statuses,
+    ...new Set(outlines.map((outline) => outline.status).filter((status) => !statuses.includes(status))),
+  ]
+
+  const dragged = dragId ? outlines.find((outline) => outline.id === dragId) ?? null : null
+  const allowedStatuses = new Set(dragged ? getNextStatuses(dragged) : [])
+
+  const handleDrop = async (status: string) => {
+    const outline = dragged
+    setDragId(null)
+    setDropStatus(null)
+    if (!outline || !allowedStatuses.has(status)) {
+      return
+    }
+
+    setMovingIds((prev) => new Set(prev).add(outline.id))
+    try {
+      await onMove(outline, status)
+    } finally {
+      setMovingIds((prev) => {
+        const next = new Set(prev)
+        next.delete(outline.id)
+        return next
+      })
+    }
+  }
+
+  return (
+    <div className="flex gap-3 sm:gap-4 overflow-x-auto pb-2">
+      {columns.map((status) => {
+        const cards = outlines.filter((outline) => outline.status === status)
+        const isAllowed = allowedStatuses.has(status)
+        return (
+          <section
+            key={status}
+            onDragOver={(event) => {
+              if (!isAllowed) return
+              event.preventDefault()
+              event.dataTransfer.dropEffect = "move"
+              if (dropStatus !== status) setDropStatus(status)
+            }}
+            onDragLeave={(event) => {
+              if (!event.currentTarget.contains(event.relatedTarget as Node | null) && dropStatus === status) {
+                setDropStatus(null)
+              }
+            }}
+            onDrop={(event) => {
+              event.preventDefault()
+              handleDrop(status)
+            }}
+            className={cn(
+              "flex flex-col w-[280px] flex-shrink-0 rounded-lg border-2 bg-muted/30 transition-colors",
+              dragged && !isAllowed && dragged.status !== status && "opacity-50",
+              isAllowed && "border-dashed border-primary/50",
+              dropStatus === status && "border-primary bg-primary/10"
+            )}
+            aria-label={`${status} (${cards.length})`}
+          >
+            <header className="flex items-center justify-between gap-2 px-3 py-2 border-b">
+              <span className={cn("text-xs font-medium px-2 py-1 rounded whitespace-nowrap", getStatusClassName(status))}>
+                {status}
+              </span>
+              <span className="text-xs text-muted-foreground">{cards.length}</span>
+            </header>
+            <ol className="flex-1 space-y-2 p-2 min-h-[120px]">
+              {cards.map((outline) => {
+                const isMoving = movingIds.has(outline.id)
+                const canDrag = !isMoving && getNextStatuses(outline).length > 0
+                return (
+                  <li
+                    key={outline.id}
+                    draggable={canDrag}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move"
+                      event.dataTransfer.setData("text/plain", outline.id)
+                      setDragId(outline.id)
+                    }}
+                    onDragEnd={() => {
+                      setDragId(null)
+                      setDropStatus(null)
+                    }}
+                    className={cn(
+                      "rounded-md border bg-card p-3 space-y-2 shadow-sm",
+                      canDrag && "cursor-grab",
+                      dragId === outline.id && "opacity-50"
+                    )}
+                  >
+                    <div className="flex items-start gap-2 min-w-0">
+                      {isMoving ? (
+                        <Loader2 className="w-4 h-4 mt-0.5 animate-spin text-muted-foreground flex-shrink-0" />
+                      ) : (
+                        canDrag && <GripVertical className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" aria-hidden />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate" title={outline.header}>
+                          <span className="font-mono text-xs text-muted-foreground mr-1">{outline.number}</span>
+                          {outline.header}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate" title={outline.sectionType}>
+                          {outline.sectionType}
+                        </p>
+                      </div>
+                    </div>
+                    <OutlineWordProgress
+                      wordCount={outline.wordCount}
+                      target={outline.target}
+                      limit={outline.limit}
+                      className="min-w-0"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Target {outline.target.toLocaleString()} · Limit {outline.limit.toLocaleString()}
+                    </p>
+                    <div className="flex items-center justify-between gap-2 text-xs min-w-0">
+                      {outline.reviewer ? (
+                        <div className="flex items-center gap-2 min-w-0" title={outline.reviewer.email}>
+                          <MemberAvatar user={outline.reviewer} className="size-5" />
+                          <span className="truncate">{outline.reviewer.name || outline.reviewer.email}</span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Unassigned</span>
+                      )}
+                      {outline.dueDate && (
+                        <OutlineDueDate
+                          dueDate={outline.dueDate}
+                          isDone={outline.status === doneStatus}
+                          className="text-xs flex-shrink-0"
+                        />
+                      )}
+                    </div>
+                    {renderActions && <div className="flex items-center justify-end gap-1">{renderActions(outline)}</div>}
+                  </li>
+                )
+              })}
+            </ol>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
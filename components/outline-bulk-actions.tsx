@@ -0,0 +1,127 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MemberAvatar } from "@/components/member-avatar"
+import { Loader2, Trash2, X } from "lucide-react"
+
+// Select items cannot have an empty value, so "no reviewer" gets a placeholder
+const UNASSIGNED = "unassigned"
+
+export type BulkOutlineChange =
+  | { action: "delete" }
+  | { action: "update"; status?: string; sectionType?: string; reviewerId?: string | null }
+
+interface BulkMember {
+  user: {
+    id: string
+    name: string | null
+    email: string
+    image: string | null
+  }
+}
+
+interface OutlineBulkActionsProps {
+  selectedCount: number
+  statuses: string[]
+  sectionTypes: string[]
+  members: BulkMember[]
+  canChangeStatus: boolean
+  canUpdate: boolean
+  canDelete: boolean
+  isSaving: boolean
+  onApply: (change: BulkOutlineChange) => void
+  onClear: () => void
+}
+
+/**
+ * Toolbar for the selected outlines. Each menu applies its change to every
+ * selected outline as soon as a value is picked.
+ */
+export function OutlineBulkActions({
+  selectedCount,
+  statuses,
+  sectionTypes,
+  members,
+  canChangeStatus,
+  canUpdate,
+  canDelete,
+  isSaving,
+  onApply,
+  onClear,
+}: OutlineBulkActionsProps) {
+  if (selectedCount === 0) {
+    return null
+  }
+
+  return (
+    <div className="sticky top-2 z-10 flex flex-col lg:flex-row lg:items-center gap-2 mb-4 p-3 rounded-xl border-2 bg-card shadow-lg">
+      <div className="flex items-center gap-2 text-sm font-medium whitespace-nowrap">
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+        {selectedCount} selected
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2 flex-1">
+        {canChangeStatus && (
+          <Select value="" onValueChange={(status) => onApply({ action: "update", status })} disabled={isSaving}>
+            <SelectTrigger className="sm:w-[180px]">
+              <SelectValue placeholder="Change status" />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {canUpdate && (
+          <Select value="" onValueChange={(sectionType) => onApply({ action: "update", sectionType })} disabled={isSaving}>
+            <SelectTrigger className="sm:w-[180px]">
+              <SelectValue placeholder="Change section type" />
+            </SelectTrigger>
+            <SelectContent>
+              {sectionTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {canUpdate && (
+          <Select
+            value=""
+            onValueChange={(value) => onApply({ action: "update", reviewerId: value === UNASSIGNED ? null : value })}
+            disabled={isSaving}
+          >
+            <SelectTrigger className="sm:w-[200px]">
+              <SelectValue placeholder="Reassign reviewer" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.user.id} value={member.user.id}>
+                  <MemberAvatar user={member.user} />
+                  <span className="truncate">{member.user.name || member.user.email}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="flex gap-2">
+        {canDelete && (
+          <Button variant="destructive" onClick={() => onApply({ action: "delete" })} disabled={isSaving}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        )}
+        <Button variant="ghost" onClick={onClear} disabled={isSaving}>
+          <X className="w-4 h-4 mr-2" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Calendar } from "@/components/ui/calendar"
+import { OutlineDueDate } from "@/components/outline-due-date"
+import { getDueDateStatus, parseDateKey, toDueDateKey, toLocalDateKey } from "@/lib/outline-due-dates"
+import { format } from "date-fns"
+import { AlertTriangle, CalendarDays } from "lucide-react"
+
+interface CalendarOutline {
+  id: string
+  header: string
+  status: string
+  number: string
+  dueDate: string | null
+}
+
+interface OutlineCalendarViewProps<T extends CalendarOutline> {
+  outlines: T[]
+  // The organization's last status; done outlines are never overdue
+  doneStatus: string | undefined
+  renderStatus: (outline: T) => ReactNode
+  renderActions?: (outline: T) => ReactNode
+}
+
+/**
+ * Outlines laid out by due date. Days with something due are marked on the
+ * calendar, picking a day lists what is due then, and everything overdue is
+ * listed below regardless of the month shown.
+ */
+export function OutlineCalendarView<T extends CalendarOutline>({
+  outlines,
+  doneStatus,
+  renderStatus,
+  renderActions,
+}: OutlineCalendarViewProps<T>) {
+  const todayKey = toLocalDateKey(new Date())
+  const [selectedKey, setSelectedKey] = useState(todayKey)
+
+  const isDone = (outline: T) => outline.status === doneStatus
+
+  const byDay = new Map<string, T[]>()
+  for (const outline of outlines) {
+    if (!outline.dueDate) continue
+    const key = toDueDateKey(outline.dueDate)
+    byDay.set(key, [...(byDay.get(key) ?? []), outline])
+  }
+
+  const overdueKeys = new Set(
+    [...byDay.entries()]
+      .filter(([, dayOutlines]) =>
+        dayOutlines.some((outline) => getDueDateStatus(outline.dueDate, isDone(outline), todayKey) === "overdue")
+      )
+      .map(([key]) => key)
+  )
+  const overdue = outlines
+    .filter((outline) => getDueDateStatus(outline.dueDate, isDone(outline), todayKey) === "overdue")
+    .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!))
+  const undatedCount = outlines.filter((outline) => !outline.dueDate).length
+  const selectedOutlines = byDay.get(selectedKey) ?? []
+
+  const renderRow = (outline: T) => (
+    <div key={outline.id} className="flex items-center gap-3 px-4 py-3">
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate" title={outline.header}>
+          <span className="font-mono text-xs text-muted-foreground mr-2">{outline.number}</span>
+          {outline.header}
+        </p>
+        <OutlineDueDate dueDate={outline.dueDate} isDone={isDone(outline)} className="text-xs" />
+      </div>
+      {renderStatus(outline)}
+      {renderActions && <div className="flex items-center gap-1">{renderActions(outline)}</div>}
+    </div>
+  )
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[auto_1fr] items-start">
+      <div className="rounded-xl border-2 shadow-lg bg-card p-2 justify-self-center lg:justify-self-start">
+        <Calendar
+          mode="single"
+          required
+          selected={parseDateKey(selectedKey)}
+          defaultMonth={parseDateKey(selectedKey)}
+          onSelect={(date) => setSelectedKey(toLocalDateKey(date))}
+          modifiers={{
+            due: (date) => byDay.has(toLocalDateKey(date)),
+            overdue: (date) => overdueKeys.has(toLocalDateKey(date)),
+          }}
+          modifiersClassNames={{
+            due: "[&>button]:font-semibold [&>button]:underline [&>button]:underline-offset-4",
+            overdue: "[&>button]:text-destructive",
+          }}
+          className="[--cell-size:--spacing(10)]"
+        />
+        <p className="px-3 pb-2 text-xs text-muted-foreground">
+          Underlined days have outlines due; red ones have overdue outlines
+        </p>
+      </div>
+
+      <div className="space-y-4 min-w-0">
+        <div className="rounded-xl border-2 shadow-lg bg-card overflow-hidden">
+          <div className="flex items-center gap-2 px-4 py-3 border-b bg-muted/50">
+            <CalendarDays className="w-4 h-4 text-muted-foreground" />
+            <h3 className="font-semibold">{format(parseDateKey(selectedKey), "EEEE, MMMM d, yyyy")}</h3>
+          </div>
+          {selectedOutlines.length > 0 ? (
+            <div className="divide-y">{selectedOutlines.map(renderRow)}</div>
+          ) : (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">Nothing is due on this day</p>
+          )}
+        </div>
+
+        {overdue.length > 0 && (
+          <div className="rounded-xl border-2 border-destructive/30 shadow-lg bg-card overflow-hidden">
+            <div className="flex items-center gap-2 px-4 py-3 border-b bg-destructive/5">
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+              <h3 className="font-semibold">Overdue ({overdue.length})</h3>
+            </div>
+            <div className="divide-y">{overdue.map(renderRow)}</div>
+          </div>
+        )}
+
+        {undatedCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {undatedCount} {undatedCount === 1 ? "outline has" : "outlines have"} no due date
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,492 @@
+"use client"
+
+import { Fragment, useEffect, useRef, useState, type KeyboardEvent, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { MemberAvatar } from "@/components/member-avatar"
+import { useToast } from "@/hooks/use-toast"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import { findMentions, getMentionHandle, MAX_COMMENT_LENGTH } from "@/lib/comment-mentions"
+import { cn } from "@/lib/utils"
+import { formatDistanceToNow } from "date-fns"
+import { CheckCircle2, Loader2, MessageSquare, Pencil, Reply, RotateCcw, Trash2 } from "lucide-react"
+
+interface CommentUser {
+  id: string
+  name: string | null
+  email: string
+  image: string | null
+}
+
+interface OutlineComment {
+  id: string
+  body: string
+  createdAt: string
+  editedAt: string | null
+  resolvedAt: string | null
+  parentId: string | null
+  author: CommentUser | null
+  resolvedBy: CommentUser | null
+  replies?: OutlineComment[]
+}
+
+interface OutlineCommentsProps {
+  outlineId: string
+  orgId: string
+  members: { user: CommentUser }[]
+  currentUserId: string | undefined
+  // Resolve any thread, not just the user's own
+  canResolve: boolean
+  // Delete anyone's comments
+  canModerate: boolean
+}
+
+const MAX_SUGGESTIONS = 5
+
+const displayName = (user: CommentUser | null) => (user ? user.name || user.email : "Former member")
+
+interface CommentComposerProps {
+  members: { user: CommentUser }[]
+  initialValue?: string
+  placeholder: string
+  submitLabel: string
+  autoFocus?: boolean
+  onSubmit: (body: string) => Promise<boolean>
+  onCancel?: () => void
+}
+
+/**
+ * Comment box that suggests members after "@"
+ */
+function CommentComposer({
+  members,
+  initialValue = "",
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [value, setValue] = useState(initialValue)
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const suggestions = query
+    ? members
+        .filter(({ user }) =>
+          [user.name ?? "", user.email].some((field) => field.toLowerCase().includes(query.text.toLowerCase()))
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  // Track the "@word" being typed right before the caret
+  const updateQuery = (text: string, caret: number) => {
+    const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret))
+    setQuery(match ? { start: caret - match[2].length - 1, text: match[2] } : null)
+  }
+
+  const insertMention = (user: CommentUser) => {
+    if (!query) return
+    const caret = query.start + query.text.length + 1
+    const handle = `${getMentionHandle(user)} `
+    const next = value.slice(0, query.start) + handle + value.slice(caret)
+    setValue(next)
+    setQuery(null)
+    requestAnimationFrame(() => {
+      const position = query.start + handle.length
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  const handleSubmit = async () => {
+    if (!value.trim()) return
+    setIsSubmitting(true)
+    try {
+      if (await onSubmit(value.trim())) {
+        setValue("")
+        setQuery(null)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault()
+      handleSubmit()
+    } else if (event.key === "Enter" && suggestions.length > 0) {
+      event.preventDefault()
+      insertMention(suggestions[0].user)
+    } else if (event.key === "Escape" && query) {
+      event.preventDefault()
+      setQuery(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          maxLength={MAX_COMMENT_LENGTH}
+          disabled={isSubmitting}
+          onChange={(e) => {
+            setValue(e.target.value)
+            updateQuery(e.target.value, e.target.selectionStart)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setTimeout(() => setQuery(null), 150)}
+          className="min-h-[72px] text-sm"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-0 right-0 top-full mt-1 rounded-md border bg-popover shadow-md py-1">
+            {suggestions.map(({ user }) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-sm hover:bg-accent"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(user)}
+                >
+                  <MemberAvatar user={user} className="size-5" />
+                  <span className="truncate">{user.name || user.email}</span>
+                  {user.name && <span className="truncate text-xs text-muted-foreground">{user.email}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !value.trim()}>
+          {isSubmitting && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Comment threads on an outline, with @mentions and resolve/reopen
+ */
+export function OutlineComments({
+  outlineId,
+  orgId,
+  members,
+  currentUserId,
+  canResolve,
+  canModerate,
+}: OutlineCommentsProps) {
+  const { toast } = useToast()
+  const [comments, setComments] = useState<OutlineComment[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [showResolved, setShowResolved] = useState(false)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const mentionCandidates = members.map((member) => member.user)
+
+  const fetchComments = async ({ silent = false } = {}) => {
+    if (!silent) setIsLoading(true)
+    try {
+      const response = await fetch(`/api/outlines/${outlineId}/comments`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setComments(Array.isArray(responseData.comments) ? responseData.comments : [])
+      } else {
+        throw new Error(data.message || data.error || "Failed to load comments")
+      }
+    } catch (error) {
+      console.error("Error fetching comments:", error)
+      if (!silent) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load comments",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      if (!silent) setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setComments([])
+    setReplyingTo(null)
+    setEditingId(null)
+    fetchComments()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [outlineId])
+
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      if (event.type === "comment.changed" && event.outlineId === outlineId) {
+        fetchComments({ silent: true })
+      }
+    },
+    { onReconnect: () => fetchComments({ silent: true }) }
+  )
+
+  const openThreads = comments.filter((comment) => !comment.resolvedAt)
+  const resolvedThreads = comments.filter((comment) => comment.resolvedAt)
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || fallback)
+      }
+      await fetchComments({ silent: true })
+      return true
+    } catch (error) {
+      console.error(`${fallback}:`, error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : fallback,
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const handleCreate = (body: string, parentId: string | null = null) =>
+    request(
+      `/api/outlines/${outlineId}/comments`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, body, parentId }),
+      },
+      "Failed to add comment"
+    ).then((ok) => {
+      if (ok && parentId) setReplyingTo(null)
+      return ok
+    })
+
+  const handleUpdate = async (comment: OutlineComment, changes: { body?: string; resolved?: boolean }) => {
+    setBusyId(comment.id)
+    const ok = await request(
+      `/api/outlines/${outlineId}/comments/${comment.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, ...changes }),
+      },
+      "Failed to update comment"
+    )
+    setBusyId(null)
+    if (ok && changes.body !== undefined) setEditingId(null)
+    return ok
+  }
+
+  const handleDelete = async (comment: OutlineComment) => {
+    const replies = comment.replies?.length ?? 0
+    if (!confirm(replies > 0 ? `Delete this comment and its ${replies} ${replies === 1 ? "reply" : "replies"}?` : "Delete this comment?")) {
+      return
+    }
+    setBusyId(comment.id)
+    await request(
+      `/api/outlines/${outlineId}/comments/${comment.id}?orgId=${orgId}`,
+      { method: "DELETE" },
+      "Failed to delete comment"
+    )
+    setBusyId(null)
+  }
+
+  // Mentions of current members are highlighted; other "@" text is left alone
+  const renderBody = (body: string) => {
+    const parts: ReactNode[] = []
+    let last = 0
+    for (const mention of findMentions(body, mentionCandidates)) {
+      parts.push(body.slice(last, mention.start))
+      parts.push(
+        <span
+          key={mention.start}
+          className={cn(
+            "rounded px-0.5 font-medium",
+            mention.userId === currentUserId ? "bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200" : "text-primary"
+          )}
+        >
+          {body.slice(mention.start, mention.start + mention.length)}
+        </span>
+      )
+      last = mention.start + mention.length
+    }
+    parts.push(body.slice(last))
+    return parts.map((part, index) => <Fragment key={index}>{part}</Fragment>)
+  }
+
+  const renderComment = (comment: OutlineComment, thread: OutlineComment) => {
+    const isAuthor = !!currentUserId && comment.author?.id === currentUserId
+    const isThread = comment.id === thread.id
+    const isBusy = busyId === comment.id
+
+    return (
+      <div key={comment.id} className={cn("flex gap-2", !isThread && "mt-3")}>
+        {comment.author ? (
+          <MemberAvatar user={comment.author} />
+        ) : (
+          <div className="size-6 shrink-0 rounded-full bg-muted" />
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{displayName(comment.author)}</span> ·{" "}
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {comment.editedAt && " (edited)"}
+          </p>
+          {editingId === comment.id ? (
+            <CommentComposer
+              members={members}
+              initialValue={comment.body}
+              placeholder="Edit comment"
+              submitLabel="Save"
+              autoFocus
+              onSubmit={(body) => handleUpdate(comment, { body })}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">{renderBody(comment.body)}</p>
+          )}
+          {editingId !== comment.id && (
+            <div className="flex flex-wrap items-center gap-1 -ml-2">
+              {isThread && !thread.resolvedAt && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplyingTo(thread.id)}>
+                  <Reply className="w-3 h-3 mr-1" />
+                  Reply
+                </Button>
+              )}
+              {isThread && (isAuthor || canResolve) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={isBusy}
+                  onClick={() => handleUpdate(comment, { resolved: !comment.resolvedAt })}
+                >
+                  {comment.resolvedAt ? (
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                  ) : (
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                  )}
+                  {comment.resolvedAt ? "Reopen" : "Resolve"}
+                </Button>
+              )}
+              {isAuthor && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={isBusy}
+                  onClick={() => setEditingId(comment.id)}
+                >
+                  <Pencil className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+              )}
+              {(isAuthor || canModerate) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                  disabled={isBusy}
+                  onClick={() => handleDelete(comment)}
+                >
+                  {isBusy ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Trash2 className="w-3 h-3 mr-1" />}
+                  Delete
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const renderThread = (thread: OutlineComment) => (
+    <li key={thread.id} className={cn("rounded-lg border p-3", thread.resolvedAt && "bg-muted/30")}>
+      {thread.resolvedAt && (
+        <p className="flex items-center gap-1 mb-2 text-xs text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-3 h-3" />
+          Resolved by {displayName(thread.resolvedBy)}{" "}
+          {formatDistanceToNow(new Date(thread.resolvedAt), { addSuffix: true })}
+        </p>
+      )}
+      {renderComment(thread, thread)}
+      {(thread.replies?.length ?? 0) > 0 && (
+        <div className="ml-8">{thread.replies?.map((reply) => renderComment(reply, thread))}</div>
+      )}
+      {replyingTo === thread.id && (
+        <div className="ml-8 mt-3">
+          <CommentComposer
+            members={members}
+            placeholder="Reply… Type @ to mention someone"
+            submitLabel="Reply"
+            autoFocus
+            onSubmit={(body) => handleCreate(body, thread.id)}
+            onCancel={() => setReplyingTo(null)}
+          />
+        </div>
+      )}
+    </li>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 pb-4">
+      <CommentComposer
+        members={members}
+        placeholder="Leave feedback… Type @ to mention someone"
+        submitLabel="Comment"
+        onSubmit={(body) => handleCreate(body)}
+      />
+
+      {comments.length === 0 ? (
+        <div className="py-8 text-center space-y-2">
+          <MessageSquare className="w-8 h-8 mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No comments yet</p>
+        </div>
+      ) : (
+        <>
+          {openThreads.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">All threads are resolved</p>
+          ) : (
+            <ol className="space-y-3">{openThreads.map(renderThread)}</ol>
+          )}
+          {resolvedThreads.length > 0 && (
+            <div className="space-y-3">
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => setShowResolved((prev) => !prev)}>
+                {showResolved ? "Hide" : "Show"} {resolvedThreads.length} resolved{" "}
+                {resolvedThreads.length === 1 ? "thread" : "threads"}
+              </Button>
+              {showResolved && <ol className="space-y-3">{resolvedThreads.map(renderThread)}</ol>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Badge } from "@/components/ui/badge"
+import { Loader2 } from "lucide-react"
+
+export const outlineMergeFields = ["header", "sectionType", "status", "target", "limit", "reviewerId", "dueDate"] as const
+
+export type OutlineMergeField = (typeof outlineMergeFields)[number]
+
+export interface OutlineFieldValues {
+  header: string
+  sectionType: string
+  status: string
+  target: number
+  limit: number
+  reviewerId: string | null
+  // "YYYY-MM-DD"
+  dueDate: string | null
+}
+
+const fieldLabels: Record<OutlineMergeField, string> = {
+  header: "Header",
+  sectionType: "Section Type",
+  status: "Status",
+  target: "Target",
+  limit: "Limit",
+  reviewerId: "Reviewer",
+  dueDate: "Due Date",
+}
+
+type Choice = "mine" | "theirs"
+
+interface ConflictMember {
+  user: { id: string; name: string | null; email: string }
+}
+
+interface OutlineConflictDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Values when the form was opened, the user's edit, and the server's current copy
+  base: OutlineFieldValues
+  mine: OutlineFieldValues
+  theirs: OutlineFieldValues
+  // Fields this user may change; the rest always keep the server's value
+  fields: readonly OutlineMergeField[]
+  members: ConflictMember[]
+  isSaving: boolean
+  onMerge: (values: OutlineFieldValues) => void
+  onDiscard: () => void
+}
+
+/**
+ * Shown when saving an outline that someone else changed since it was opened.
+ * Each field that differs can keep the user's value or take the current one;
+ * fields only one side changed start on that side's value.
+ */
+export function OutlineConflictDialog({
+  open,
+  onOpenChange,
+  base,
+  mine,
+  theirs,
+  fields,
+  members,
+  isSaving,
+  onMerge,
+  onDiscard,
+}: OutlineConflictDialogProps) {
+  const conflicting = fields.filter((field) => mine[field] !== theirs[field])
+  const [choices, setChoices] = useState<Partial<Record<OutlineMergeField, Choice>>>({})
+
+  useEffect(() => {
+    if (open) {
+      setChoices(
+        Object.fromEntries(
+          conflicting.map((field) => [field, mine[field] === base[field] ? "theirs" : "mine"])
+        )
+      )
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, theirs])
+
+  const formatValue = (field: OutlineMergeField, value: OutlineFieldValues[OutlineMergeField]) => {
+    if (field === "reviewerId") {
+      if (!value) return "Unassigned"
+      const member = members.find((m) => m.user.id === value)
+      return member ? member.user.name || member.user.email : "Former member"
+    }
+    if (field === "dueDate") {
+      return value ? String(value) : "None"
+    }
+    return String(value)
+  }
+
+  const handleMerge = () => {
+    const merged = Object.fromEntries(
+      outlineMergeFields.map((field) => [
+        field,
+        conflicting.includes(field) && choices[field] === "mine" ? mine[field] : theirs[field],
+      ])
+    ) as unknown as OutlineFieldValues
+    onMerge(merged)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Someone else changed this outline</DialogTitle>
+          <DialogDescription>
+            It was saved by someone else after you opened it. Choose which value to keep for each field that differs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicting.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your changes match the current version. Saving again applies them on top of it.
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {conflicting.map((field) => {
+              const bothChanged = mine[field] !== base[field] && theirs[field] !== base[field]
+              return (
+                <div key={field} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{fieldLabels[field]}</span>
+                    {bothChanged && <Badge variant="destructive">Changed by both</Badge>}
+                  </div>
+                  <RadioGroup
+                    value={choices[field] ?? "mine"}
+                    onValueChange={(value) => setChoices((prev) => ({ ...prev, [field]: value as Choice }))}
+                    className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+                  >
+                    {(["mine", "theirs"] as const).map((choice) => (
+                      <label
+                        key={choice}
+                        className="flex items-start gap-2 rounded-md border p-2 cursor-pointer has-[[data-state=checked]]:border-primary has-[[data-state=checked]]:bg-primary/5"
+                      >
+                        <RadioGroupItem value={choice} className="mt-0.5" />
+                        <span className="min-w-0">
+                          <span className="block text-xs text-muted-foreground">
+                            {choice === "mine" ? "Your version" : "Current version"}
+                          </span>
+                          <span className="block text-sm break-words">
+                            {formatValue(field, choice === "mine" ? mine[field] : theirs[field])}
+                          </span>
+                        </span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard} disabled={isSaving}>
+            Discard My Changes
+          </Button>
+          <Button onClick={handleMerge} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Merged Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,344 @@
+"use client"
+
+import { useEffect, useRef, useState, type ClipboardEvent, type ReactNode } from "react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { OutlineWordProgress } from "@/components/outline-word-progress"
+import { useToast } from "@/hooks/use-toast"
+import { countWords, sanitizeOutlineContent } from "@/lib/outline-content"
+import { formatDistanceToNow } from "date-fns"
+import {
+  AlertTriangle,
+  Bold,
+  Heading2,
+  Heading3,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  Loader2,
+  MessageSquare,
+  Quote,
+  RemoveFormatting,
+  Strikethrough,
+  Underline,
+} from "lucide-react"
+
+interface OutlineSummary {
+  id: string
+  header: string
+  target: number
+  limit: number
+  wordCount: number
+}
+
+interface OutlineContent {
+  body: string
+  updatedAt: string | null
+  updatedBy: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+}
+
+interface OutlineContentSheetProps<T extends OutlineSummary> {
+  outline: T | null
+  orgId: string
+  canEdit: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (outlineId: string, wordCount: number) => void
+  // Shown under the title, e.g. who else has the outline open
+  notice?: ReactNode
+  // Shown in a second tab next to the content
+  comments?: ReactNode
+}
+
+// Styles for the stored HTML subset, shared by the editor and the read-only view
+const CONTENT_CLASSES =
+  "text-sm leading-relaxed break-words [&_p]:my-2 [&_h2]:text-lg [&_h2]:font-semibold [&_h2]:mt-4 [&_h2]:mb-2 [&_h3]:font-semibold [&_h3]:mt-3 [&_h3]:mb-1 [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground [&_pre]:bg-muted [&_pre]:rounded [&_pre]:p-2 [&_pre]:overflow-x-auto [&_code]:font-mono [&_a]:text-primary [&_a]:underline"
+
+// Formatting commands for the toolbar. execCommand is deprecated but is still
+// the only built-in way to edit a contentEditable region.
+const TOOLBAR = [
+  { label: "Bold", icon: Bold, command: "bold" },
+  { label: "Italic", icon: Italic, command: "italic" },
+  { label: "Underline", icon: Underline, command: "underline" },
+  { label: "Strikethrough", icon: Strikethrough, command: "strikeThrough" },
+  { label: "Heading", icon: Heading2, command: "formatBlock", value: "h2" },
+  { label: "Subheading", icon: Heading3, command: "formatBlock", value: "h3" },
+  { label: "Quote", icon: Quote, command: "formatBlock", value: "blockquote" },
+  { label: "Bulleted list", icon: List, command: "insertUnorderedList" },
+  { label: "Numbered list", icon: ListOrdered, command: "insertOrderedList" },
+  { label: "Clear formatting", icon: RemoveFormatting, command: "removeFormat" },
+] as const
+
+export function OutlineContentSheet<T extends OutlineSummary>({
+  outline,
+  orgId,
+  canEdit,
+  onOpenChange,
+  onSaved,
+  notice,
+  comments,
+}: OutlineContentSheetProps<T>) {
+  const { toast } = useToast()
+  const editorRef = useRef<HTMLDivElement>(null)
+  const [content, setContent] = useState<OutlineContent | null>(null)
+  const [wordCount, setWordCount] = useState(0)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (outline) {
+      fetchContent(outline.id)
+    } else {
+      setContent(null)
+      setIsDirty(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [outline?.id])
+
+  // Load the saved body into the editor once it has rendered
+  useEffect(() => {
+    if (content && editorRef.current) {
+      editorRef.current.innerHTML = sanitizeOutlineContent(content.body)
+    }
+  }, [content, canEdit])
+
+  const fetchContent = async (outlineId: string) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/outlines/${outlineId}/content`)
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setContent(responseData.content)
+        setWordCount(responseData.wordCount ?? 0)
+        setIsDirty(false)
+      } else {
+        throw new Error(data.message || data.error || "Failed to load content")
+      }
+    } catch (error) {
+      console.error("Error fetching outline content:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load content",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateWordCount = () => {
+    if (editorRef.current) {
+      setWordCount(countWords(editorRef.current.innerText))
+      setIsDirty(true)
+    }
+  }
+
+  const runCommand = (command: string, value?: string) => {
+    editorRef.current?.focus()
+    document.execCommand(command, false, value)
+    updateWordCount()
+  }
+
+  const handleLink = () => {
+    const url = prompt("Link URL (https:// or mailto:)")
+    if (url) {
+      runCommand("createLink", url.trim())
+    }
+  }
+
+  // Pasted markup is cleaned the same way the server will clean it
+  const handlePaste = (event: ClipboardEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    const html = event.clipboardData.getData("text/html")
+    if (html) {
+      document.execCommand("insertHTML", false, sanitizeOutlineContent(html))
+    } else {
+      document.execCommand("insertText", false, event.clipboardData.getData("text/plain"))
+    }
+    updateWordCount()
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && isDirty && !confirm("Discard your unsaved changes?")) {
+      return
+    }
+    onOpenChange(open)
+  }
+
+  const handleSave = async () => {
+    if (!outline || !editorRef.current) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/outlines/${outline.id}/content`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, body: editorRef.current.innerHTML }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        setContent(responseData.content)
+        setWordCount(responseData.wordCount)
+        setIsDirty(false)
+        onSaved(outline.id, responseData.wordCount)
+        toast({
+          title: "Success",
+          description: data.message || "Content saved",
+        })
+      } else {
+        throw new Error(data.message || data.error || "Failed to save content")
+      }
+    } catch (error) {
+      console.error("Error saving outline content:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save content",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isOverLimit = !!outline && outline.limit > 0 && wordCount > outline.limit
+  const savedBody = content ? sanitizeOutlineContent(content.body) : ""
+
+  const contentBody =
+    isLoading || !outline ? (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    ) : (
+      <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+        <OutlineWordProgress wordCount={wordCount} target={outline.target} limit={outline.limit} />
+
+        {isOverLimit && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              This section is {(wordCount - outline.limit).toLocaleString()} words over its limit of{" "}
+              {outline.limit.toLocaleString()}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {canEdit ? (
+          <>
+            <div className="flex flex-wrap items-center gap-1 rounded-md border p-1">
+              {TOOLBAR.map((item) => (
+                <Button
+                  key={item.label}
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={item.label}
+                  aria-label={item.label}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => runCommand(item.command, "value" in item ? item.value : undefined)}
+                >
+                  <item.icon className="w-4 h-4" />
+                </Button>
+              ))}
+              <Separator orientation="vertical" className="h-6 mx-1" />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Link"
+                aria-label="Link"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={handleLink}
+              >
+                <Link className="w-4 h-4" />
+              </Button>
+            </div>
+            <div
+              ref={editorRef}
+              contentEditable
+              suppressContentEditableWarning
+              role="textbox"
+              aria-multiline
+              aria-label="Section content"
+              onInput={updateWordCount}
+              onPaste={handlePaste}
+              className={`${CONTENT_CLASSES} flex-1 min-h-[240px] overflow-y-auto rounded-md border px-3 py-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring`}
+            />
+            <div className="flex justify-end gap-2 pb-4">
+              <Button
+                variant="outline"
+                onClick={() => outline && fetchContent(outline.id)}
+                disabled={!isDirty || isSaving}
+              >
+                Discard
+              </Button>
+              <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Content
+              </Button>
+            </div>
+          </>
+        ) : savedBody ? (
+          <div
+            className={`${CONTENT_CLASSES} flex-1 overflow-y-auto rounded-md border px-3 py-2`}
+            dangerouslySetInnerHTML={{ __html: savedBody }}
+          />
+        ) : (
+          <div className="rounded-lg border-2 border-dashed p-6 text-center text-sm text-muted-foreground">
+            No content has been written for this section yet
+          </div>
+        )}
+      </div>
+    )
+
+  return (
+    <Sheet open={outline !== null} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-[calc(100vw-2rem)] sm:max-w-2xl px-4 sm:px-6 flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="truncate" title={outline?.header}>
+            {outline?.header}
+          </SheetTitle>
+          <SheetDescription>
+            {content?.updatedAt
+              ? `Last edited by ${content.updatedBy ? content.updatedBy.name || content.updatedBy.email : "a former member"} ${formatDistanceToNow(new Date(content.updatedAt), { addSuffix: true })}`
+              : "No content yet"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {notice && <div className="mt-4">{notice}</div>}
+
+        {comments ? (
+          <Tabs defaultValue="content" className="flex flex-col flex-1 min-h-0 mt-4">
+            <TabsList className="w-full">
+              <TabsTrigger value="content">Content</TabsTrigger>
+              <TabsTrigger value="comments">
+                <MessageSquare className="w-4 h-4" />
+                Comments
+              </TabsTrigger>
+            </TabsList>
+            {/* Kept mounted so switching tabs does not lose unsaved edits */}
+            <TabsContent value="content" forceMount className="flex flex-col flex-1 min-h-0 data-[state=inactive]:hidden">
+              {contentBody}
+            </TabsContent>
+            <TabsContent value="comments" className="flex-1 min-h-0 overflow-y-auto">
+              {comments}
+            </TabsContent>
+          </Tabs>
+        ) : (
+          contentBody
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
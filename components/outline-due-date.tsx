@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  describeDueDate,
+  getDueDateStatus,
+  parseDateKey,
+  toDueDateKey,
+  toLocalDateKey,
+  type DueDateStatus,
+} from "@/lib/outline-due-dates"
+import { cn } from "@/lib/utils"
+import { format } from "date-fns"
+import { AlertTriangle, CalendarDays, Clock, X } from "lucide-react"
+
+export const dueDateStatusClasses: Record<DueDateStatus, string> = {
+  overdue: "text-destructive font-medium",
+  due_today: "text-amber-600 dark:text-amber-400 font-medium",
+  due_soon: "text-amber-600 dark:text-amber-400",
+  upcoming: "text-muted-foreground",
+}
+
+interface OutlineDueDateProps {
+  dueDate: string | null
+  isDone: boolean
+  className?: string
+}
+
+/**
+ * An outline's due date, flagged when it is close or has passed
+ */
+export function OutlineDueDate({ dueDate, isDone, className }: OutlineDueDateProps) {
+  if (!dueDate) {
+    return <span className={cn("text-muted-foreground", className)}>—</span>
+  }
+
+  const todayKey = toLocalDateKey(new Date())
+  const status = getDueDateStatus(dueDate, isDone, todayKey)
+  const Icon = status === "overdue" ? AlertTriangle : status === "due_today" || status === "due_soon" ? Clock : null
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 text-sm whitespace-nowrap", status && dueDateStatusClasses[status], className)}
+      title={isDone ? "Done" : describeDueDate(dueDate, todayKey)}
+    >
+      {Icon && <Icon className="w-3 h-3" />}
+      {format(parseDateKey(toDueDateKey(dueDate)), "MMM d, yyyy")}
+    </span>
+  )
+}
+
+interface OutlineDueDatePickerProps {
+  // "YYYY-MM-DD", or null for no due date
+  value: string | null
+  onChange: (value: string | null) => void
+  disabled?: boolean
+}
+
+/**
+ * Button that opens a calendar to pick or clear a due date
+ */
+export function OutlineDueDatePicker({ value, onChange, disabled }: OutlineDueDatePickerProps) {
+  const [open, setOpen] = useState(false)
+  const selected = value ? parseDateKey(value) : undefined
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            disabled={disabled}
+            className={cn("flex-1 justify-start font-normal", !value && "text-muted-foreground")}
+          >
+            <CalendarDays className="w-4 h-4 mr-2" />
+            {selected ? format(selected, "PPP") : "No due date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selected}
+            defaultMonth={selected}
+            onSelect={(date) => {
+              onChange(date ? toLocalDateKey(date) : null)
+              setOpen(false)
+            }}
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          title="Clear due date"
+          aria-label="Clear due date"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
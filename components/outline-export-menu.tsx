@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import type { OutlineExportFormat } from "@/lib/validation"
+import { Download, Loader2 } from "lucide-react"
+
+const FORMATS: { value: OutlineExportFormat; label: string }[] = [
+  { value: "docx", label: "Word (.docx)" },
+  { value: "pdf", label: "PDF (.pdf)" },
+  { value: "md", label: "Markdown (.md)" },
+  { value: "csv", label: "Spreadsheet (.csv)" },
+]
+
+interface OutlineExportMenuProps {
+  orgId: string
+  documentId: string
+  disabled?: boolean
+}
+
+/**
+ * Downloads a document's outlines as a file, optionally with an
+ * appendix of each section's status and reviewer
+ */
+export function OutlineExportMenu({ orgId, documentId, disabled }: OutlineExportMenuProps) {
+  const { toast } = useToast()
+  const [includeAppendix, setIncludeAppendix] = useState(true)
+  const [exportingFormat, setExportingFormat] = useState<OutlineExportFormat | null>(null)
+
+  const handleExport = async (format: OutlineExportFormat) => {
+    setExportingFormat(format)
+    try {
+      const query = new URLSearchParams({ orgId, documentId, format, appendix: String(includeAppendix) })
+      const response = await fetch(`/api/outlines/export?${query.toString()}`)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        toast({
+          title: "Error",
+          description: errorData.message || errorData.error || "Failed to export outlines",
+          variant: "destructive",
+        })
+        return
+      }
+
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `outline.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error("Error exporting outlines:", error)
+      toast({
+        title: "Error",
+        description: "An error occurred while exporting outlines",
+        variant: "destructive",
+      })
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled || exportingFormat !== null}>
+        <Button variant="outline" className="w-full sm:w-auto">
+          {exportingFormat ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Download as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map((format) => (
+          <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeAppendix}
+          onCheckedChange={(checked) => setIncludeAppendix(checked === true)}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Status appendix
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
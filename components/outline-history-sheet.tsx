@@ -0,0 +1,304 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowRight, History, Loader2, RotateCcw } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+
+interface OutlineSummary {
+  id: string
+  header: string
+}
+
+interface OutlineRevision {
+  id: string
+  version: number
+  createdAt: string
+  restoredFromVersion: number | null
+  changes: Record<string, { before: unknown; after: unknown }>
+  author: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+}
+
+interface OutlineStatusChange {
+  id: string
+  fromStatus: string | null
+  toStatus: string
+  comment: string | null
+  createdAt: string
+  actor: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+}
+
+interface RevisionUser {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface OutlineHistorySheetProps<T extends OutlineSummary> {
+  outline: T | null
+  canRestore: boolean
+  onOpenChange: (open: boolean) => void
+  onRestored: (outline: T) => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  header: "Header",
+  sectionType: "Section Type",
+  status: "Status",
+  target: "Target",
+  limit: "Limit",
+  reviewerId: "Reviewer",
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") {
+    return "—"
+  }
+  return String(value)
+}
+
+export function OutlineHistorySheet<T extends OutlineSummary>({
+  outline,
+  canRestore,
+  onOpenChange,
+  onRestored,
+}: OutlineHistorySheetProps<T>) {
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<OutlineRevision[]>([])
+  const [reviewers, setReviewers] = useState<RevisionUser[]>([])
+  const [statusChanges, setStatusChanges] = useState<OutlineStatusChange[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (outline) {
+      fetchRevisions(outline.id)
+    } else {
+      setRevisions([])
+      setStatusChanges([])
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [outline?.id])
+
+  // Reviewer changes are stored as user IDs
+  const formatFieldValue = (field: string, value: unknown) => {
+    if (field !== "reviewerId") {
+      return formatValue(value)
+    }
+    if (!value) {
+      return "Unassigned"
+    }
+    const reviewer = reviewers.find((r) => r.id === value)
+    return reviewer ? reviewer.name || reviewer.email : "Former member"
+  }
+
+  const fetchRevisions = async (outlineId: string) => {
+    setIsLoading(true)
+    try {
+      const [response, statusResponse] = await Promise.all([
+        fetch(`/api/outlines/${outlineId}/revisions`),
+        fetch(`/api/outlines/${outlineId}/status-changes`),
+      ])
+      const [data, statusData] = await Promise.all([response.json(), statusResponse.json()])
+
+      if (response.ok && statusResponse.ok) {
+        const responseData = data.success && data.data ? data.data : data
+        const statusResponseData = statusData.success && statusData.data ? statusData.data : statusData
+        setRevisions(responseData.revisions || [])
+        setReviewers(responseData.reviewers || [])
+        setStatusChanges(statusResponseData.statusChanges || [])
+      } else {
+        const failed = response.ok ? statusData : data
+        throw new Error(failed.message || failed.error || "Failed to load history")
+      }
+    } catch (error) {
+      console.error("Error fetching outline history:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load history",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRestore = async (revision: OutlineRevision) => {
+    if (!outline) return
+
+    if (!confirm(`Restore this outline to version ${revision.version}? Its current status will be kept.`)) return
+
+    setRestoringId(revision.id)
+    try {
+      const response = await fetch(`/api/outlines/${outline.id}/revisions/${revision.id}/restore`, {
+        method: "POST",
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const restored = data.success && data.data?.outline ? data.data.outline : data.outline
+        toast({
+          title: "Success",
+          description: data.message || "Outline restored",
+        })
+        onRestored(restored)
+        await fetchRevisions(outline.id)
+      } else {
+        throw new Error(data.message || data.error || "Failed to restore outline")
+      }
+    } catch (error) {
+      console.error("Error restoring outline:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore outline",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const latestVersion = revisions[0]?.version
+
+  return (
+    <Sheet open={outline !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-[calc(100vw-2rem)] sm:w-[400px] lg:w-[500px] px-4 sm:px-6">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription className="truncate" title={outline?.header}>
+            {outline ? `Changes to "${outline.header}"` : ""}
+          </SheetDescription>
+        </SheetHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="py-12 text-center space-y-3">
+            <History className="w-8 h-8 mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No history recorded yet</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="versions" className="mt-4">
+            <TabsList className="w-full">
+              <TabsTrigger value="versions">Versions</TabsTrigger>
+              <TabsTrigger value="status">Status</TabsTrigger>
+            </TabsList>
+            <TabsContent value="versions">
+              <ScrollArea className="h-[calc(100vh-11rem)] mt-2 pr-2">
+                <ol className="space-y-4">
+                  {revisions.map((revision) => {
+                    const entries = Object.entries(revision.changes)
+                    return (
+                      <li key={revision.id} className="rounded-lg border p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold">
+                              Version {revision.version}
+                              {revision.version === latestVersion && (
+                                <span className="ml-2 text-xs font-medium text-primary">Current</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {revision.author ? revision.author.name || revision.author.email : "Unknown user"} ·{" "}
+                              {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                            </p>
+                            {revision.restoredFromVersion !== null && (
+                              <p className="text-xs text-muted-foreground">
+                                Restored from version {revision.restoredFromVersion}
+                              </p>
+                            )}
+                          </div>
+                          {canRestore && revision.version !== latestVersion && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestore(revision)}
+                              disabled={restoringId !== null}
+                              className="flex-shrink-0"
+                            >
+                              {restoringId === revision.id ? (
+                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                              ) : (
+                                <RotateCcw className="w-3 h-3 mr-1" />
+                              )}
+                              Restore
+                            </Button>
+                          )}
+                        </div>
+                        {entries.length === 0 ? (
+                          <p className="text-xs text-muted-foreground">No field changes</p>
+                        ) : (
+                          <ul className="space-y-1 text-xs">
+                            {entries.map(([field, change]) => (
+                              <li key={field} className="break-words">
+                                <span className="font-medium">{FIELD_LABELS[field] || field}:</span>{" "}
+                                {revision.version > 1 && (
+                                  <>
+                                    <span className="text-red-600 dark:text-red-400 line-through">{formatFieldValue(field, change.before)}</span>{" "}
+                                    →{" "}
+                                  </>
+                                )}
+                                <span className="text-green-700 dark:text-green-400">{formatFieldValue(field, change.after)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ol>
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="status">
+              {statusChanges.length === 0 ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">No status changes recorded yet</p>
+              ) : (
+                <ScrollArea className="h-[calc(100vh-11rem)] mt-2 pr-2">
+                  <ol className="space-y-4">
+                    {statusChanges.map((change) => (
+                      <li key={change.id} className="rounded-lg border p-3 space-y-2">
+                        <p className="flex flex-wrap items-center gap-2 text-sm font-semibold">
+                          {change.fromStatus ? (
+                            <>
+                              <span>{change.fromStatus}</span>
+                              <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                              <span>{change.toStatus}</span>
+                            </>
+                          ) : (
+                            <span>Created as {change.toStatus}</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {change.actor ? change.actor.name || change.actor.email : "Former member"} ·{" "}
+                          {formatDistanceToNow(new Date(change.createdAt), { addSuffix: true })}
+                        </p>
+                        {change.comment && (
+                          <p className="text-sm whitespace-pre-wrap break-words rounded-md bg-muted/50 px-2 py-1">
+                            {change.comment}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </ScrollArea>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import {
+  guessImportMapping,
+  ImportFileError,
+  mapImportRecord,
+  outlineImportFieldLabels,
+  outlineImportFields,
+  parseImportFile,
+  type ImportColumnMapping,
+  type MappedImportRow,
+  type OutlineImportFormat,
+  type ParsedImportFile,
+} from "@/lib/outline-import"
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
+
+// Select items cannot have an empty value
+const NOT_MAPPED = "not-mapped"
+const PREVIEW_ROWS = 5
+
+interface ImportRowReport {
+  row: number
+  values: MappedImportRow
+  errors: { field: string; message: string }[]
+}
+
+interface ImportReport {
+  total: number
+  validCount: number
+  invalidCount: number
+  rows: ImportRowReport[]
+}
+
+type Step = "upload" | "map" | "review"
+
+interface OutlineImportDialogProps {
+  orgId: string
+  documentId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+/**
+ * Upload a CSV or JSON file of outlines, map its columns onto outline fields,
+ * check every row with a dry run and then import them all at once
+ */
+export function OutlineImportDialog({ orgId, documentId, open, onOpenChange, onImported }: OutlineImportDialogProps) {
+  const { toast } = useToast()
+  const [step, setStep] = useState<Step>("upload")
+  const [fileName, setFileName] = useState("")
+  const [format, setFormat] = useState<OutlineImportFormat>("csv")
+  const [content, setContent] = useState("")
+  const [file, setFile] = useState<ParsedImportFile | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<ImportColumnMapping>({})
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const reset = () => {
+    setStep("upload")
+    setFileName("")
+    setContent("")
+    setFile(null)
+    setFileError(null)
+    setMapping({})
+    setReport(null)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (isSubmitting) return
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return
+
+    const nextFormat: OutlineImportFormat = selected.name.toLowerCase().endsWith(".json") ? "json" : "csv"
+    const text = await selected.text()
+    setFileName(selected.name)
+    setFormat(nextFormat)
+    setContent(text)
+    try {
+      const parsed = parseImportFile(text, nextFormat)
+      setFile(parsed)
+      setFileError(null)
+      setMapping(guessImportMapping(parsed.columns))
+      setStep("map")
+    } catch (error) {
+      setFile(null)
+      setFileError(error instanceof ImportFileError ? error.message : "The file could not be read")
+    }
+  }
+
+  const submit = async (dryRun: boolean) => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/outlines/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, documentId, format, content, mapping, dryRun }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        if (dryRun) {
+          setReport(data.data.report)
+          setStep("review")
+        } else {
+          toast({
+            title: "Success",
+            description: data.message || "Outlines imported successfully",
+          })
+          reset()
+          onOpenChange(false)
+          onImported()
+        }
+      } else {
+        // A failed import returns the same report as a dry run
+        if (data.errorCode === "IMPORT_VALIDATION_FAILED" && data.details) {
+          setReport(data.details)
+          setStep("review")
+        }
+        toast({
+          title: "Error",
+          description: data.message || data.error || "Failed to import outlines",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Error importing outlines:", error)
+      toast({
+        title: "Error",
+        description: "An error occurred while importing outlines",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const previewRows = file ? file.records.slice(0, PREVIEW_ROWS).map((record) => mapImportRecord(record, mapping)) : []
+  const canValidate = Boolean(mapping.header && mapping.sectionType)
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Outlines</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file with a header row, or a JSON array of outlines."}
+            {step === "map" && `Choose which column of ${fileName} fills each outline field.`}
+            {step === "review" && "Every row is checked before anything is created. Fix any errors in the file and upload it again."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-3">
+            <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={(e) => handleFileChange(e.target.files?.[0])} />
+            {fileError && (
+              <p className="text-sm text-destructive flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {fileError}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Header and section type are required. Outlines start at the first status, so a status column is ignored;
+              reviewers are matched by email or user ID. Up to 500 outlines per file.
+            </p>
+          </div>
+        )}
+
+        {step === "map" && file && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {outlineImportFields.map((field) => (
+                <div key={field} className="space-y-1">
+                  <label className="text-sm font-medium">
+                    {outlineImportFieldLabels[field]}
+                    {(field === "header" || field === "sectionType") && <span className="text-destructive"> *</span>}
+                  </label>
+                  <Select
+                    value={mapping[field] ?? NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setMapping((prev) => {
+                        const next = { ...prev }
+                        if (value === NOT_MAPPED) delete next[field]
+                        else next[field] = value
+                        return next
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {file.columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">
+                Preview ({Math.min(PREVIEW_ROWS, file.records.length)} of {file.records.length} rows)
+              </p>
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {outlineImportFields.map((field) => (
+                        <TableHead key={field} className="whitespace-nowrap">
+                          {outlineImportFieldLabels[field].replace(/ \(.*\)$/, "")}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewRows.map((row, index) => (
+                      <TableRow key={index}>
+                        {outlineImportFields.map((field) => (
+                          <TableCell key={field} className="max-w-[12rem] truncate">
+                            {row[field] ?? <span className="text-muted-foreground">—</span>}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "review" && report && (
+          <div className="space-y-3">
+            <p className="text-sm flex items-center gap-2">
+              {report.invalidCount === 0 ? (
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+              ) : (
+                <AlertCircle className="w-4 h-4 text-destructive" />
+              )}
+              {report.validCount} of {report.total} rows are ready to import
+              {report.invalidCount > 0 && `; ${report.invalidCount} have errors`}
+            </p>
+            <div className="border rounded-md overflow-x-auto max-h-[50vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Header</TableHead>
+                    <TableHead>Section Type</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow key={row.row} className={row.errors.length > 0 ? "bg-destructive/5" : undefined}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="max-w-[14rem] truncate">{row.values.header ?? "—"}</TableCell>
+                      <TableCell>{row.values.sectionType ?? "—"}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-700 dark:text-green-400">OK</span>
+                        ) : (
+                          <ul className="text-destructive text-xs space-y-0.5">
+                            {row.errors.map((error, index) => (
+                              <li key={index}>{error.message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button variant="outline" onClick={() => setStep(step === "review" ? "map" : "upload")} disabled={isSubmitting}>
+              Back
+            </Button>
+          )}
+          {step === "map" && (
+            <Button onClick={() => submit(true)} disabled={!canValidate || isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Check Rows
+            </Button>
+          )}
+          {step === "review" && report && (
+            <Button onClick={() => submit(false)} disabled={report.invalidCount > 0 || isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Import {report.total} Outline{report.total === 1 ? "" : "s"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { MemberAvatar } from "@/components/member-avatar"
+import type { OutlinePresence } from "@/lib/outline-presence"
+import { cn } from "@/lib/utils"
+import { Pencil, Users } from "lucide-react"
+
+const MAX_AVATARS = 3
+
+// The current user's own entry is never shown back to them
+function othersPresent(presence: OutlinePresence[] | undefined, currentUserId: string | undefined) {
+  return (presence ?? []).filter((entry) => entry.user.id !== currentUserId)
+}
+
+function describe(entry: OutlinePresence) {
+  return `${entry.user.name || entry.user.email} is ${entry.mode}`
+}
+
+interface OutlinePresenceProps {
+  presence: OutlinePresence[] | undefined
+  currentUserId: string | undefined
+}
+
+/**
+ * Small stack of avatars for the other people who have an outline open.
+ * Editors get a ring so they stand out from viewers.
+ */
+export function OutlinePresenceAvatars({ presence, currentUserId }: OutlinePresenceProps) {
+  const others = othersPresent(presence, currentUserId)
+  if (others.length === 0) {
+    return null
+  }
+
+  const shown = others.slice(0, MAX_AVATARS)
+  return (
+    <span className="inline-flex items-center -space-x-1.5 align-middle" title={others.map(describe).join("\n")}>
+      {shown.map((entry) => (
+        <MemberAvatar
+          key={entry.user.id}
+          user={entry.user}
+          className={cn("size-5 border-2 border-background", entry.mode === "editing" && "ring-2 ring-amber-500")}
+        />
+      ))}
+      {others.length > shown.length && (
+        <span className="pl-2.5 text-[10px] text-muted-foreground">+{others.length - shown.length}</span>
+      )}
+    </span>
+  )
+}
+
+/**
+ * Warning shown in an open outline when someone else has it open too
+ */
+export function OutlinePresenceNotice({ presence, currentUserId }: OutlinePresenceProps) {
+  const others = othersPresent(presence, currentUserId)
+  if (others.length === 0) {
+    return null
+  }
+
+  const editors = others.filter((entry) => entry.mode === "editing")
+  const Icon = editors.length > 0 ? Pencil : Users
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-2 rounded-md border px-3 py-2 text-sm",
+        editors.length > 0
+          ? "border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-200"
+          : "bg-muted/40 text-muted-foreground"
+      )}
+    >
+      <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+      <p>
+        {others.map(describe).join(", ")} this outline.
+        {editors.length > 0 && " If you both save, you will be asked to merge your changes."}
+      </p>
+    </div>
+  )
+}
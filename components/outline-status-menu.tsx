@@ -0,0 +1,112 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Textarea } from "@/components/ui/textarea"
+import { cn } from "@/lib/utils"
+import { ChevronDown, Loader2 } from "lucide-react"
+
+interface OutlineStatusMenuProps {
+  status: string
+  nextStatuses: string[]
+  className?: string
+  disabled?: boolean
+  onChange: (status: string, comment: string) => Promise<boolean>
+}
+
+/**
+ * Status badge that opens a menu of the statuses the outline can move to next.
+ * Picking one asks for an optional comment before the change is saved.
+ */
+export function OutlineStatusMenu({ status, nextStatuses, className, disabled, onChange }: OutlineStatusMenuProps) {
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null)
+  const [comment, setComment] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const badgeClassName = cn("text-xs font-medium px-2 py-1 rounded whitespace-nowrap", className)
+
+  if (nextStatuses.length === 0) {
+    return <span className={badgeClassName}>{status}</span>
+  }
+
+  const handleConfirm = async () => {
+    if (!pendingStatus) return
+
+    setIsSaving(true)
+    const saved = await onChange(pendingStatus, comment.trim())
+    setIsSaving(false)
+    if (saved) {
+      setPendingStatus(null)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled}>
+          <button type="button" className={cn(badgeClassName, "inline-flex items-center gap-1 hover:opacity-80")}>
+            {status}
+            <ChevronDown className="w-3 h-3" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Move to</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {nextStatuses.map((next) => (
+            <DropdownMenuItem
+              key={next}
+              onSelect={() => {
+                setComment("")
+                setPendingStatus(next)
+              }}
+            >
+              {next}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={(open) => !open && !isSaving && setPendingStatus(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move to {pendingStatus}</DialogTitle>
+            <DialogDescription>
+              Change the status from {status} to {pendingStatus}. The comment is kept in the outline&apos;s history.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Add a comment (optional)"
+            value={comment}
+            maxLength={1000}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingStatus(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Move to {pendingStatus}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
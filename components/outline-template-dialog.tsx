@@ -0,0 +1,341 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { useOutlineTemplates } from "@/hooks/use-outline-templates"
+import type { OutlineTemplate } from "@/lib/outline-templates"
+import { cn } from "@/lib/utils"
+import { LayoutTemplate, Loader2, Trash2 } from "lucide-react"
+
+/**
+ * A template's sections as they will be created, numbered and indented like the tree
+ */
+export function OutlineTemplatePreview({ template }: { template: OutlineTemplate }) {
+  return (
+    <div className="divide-y text-sm">
+      {template.sections.map((section) => (
+        <div
+          key={section.id}
+          className="flex items-center gap-3 py-2 pr-2"
+          style={{ paddingLeft: `${section.depth * 1.25 + 0.5}rem` }}
+        >
+          <span className="font-mono text-xs text-muted-foreground w-8 flex-shrink-0">{section.number}</span>
+          <div className="flex-1 min-w-0">
+            <p className="truncate" title={section.header}>{section.header}</p>
+            <p className="text-xs text-muted-foreground truncate">{section.sectionType}</p>
+          </div>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {section.target} / {section.limit}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface OutlineTemplateDialogProps {
+  orgId: string
+  documentId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  canDeleteTemplates: boolean
+  onInstantiated: () => void
+}
+
+/**
+ * Pick a built-in or saved template and add all of its sections to a document in one go
+ */
+export function OutlineTemplateDialog({
+  orgId,
+  documentId,
+  open,
+  onOpenChange,
+  canDeleteTemplates,
+  onInstantiated,
+}: OutlineTemplateDialogProps) {
+  const { toast } = useToast()
+  const { templates, isLoading, reload } = useOutlineTemplates(orgId, open)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const selected = templates.find((template) => template.id === selectedId) ?? templates[0] ?? null
+
+  useEffect(() => {
+    if (!open) setSelectedId(null)
+  }, [open])
+
+  const handleApply = async () => {
+    if (!selected) return
+
+    setIsApplying(true)
+    try {
+      const response = await fetch(`/api/outlines/templates/${selected.id}/instantiate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, documentId }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to add template")
+      }
+
+      toast({
+        title: "Success",
+        description: data.message || "Template added",
+      })
+      onInstantiated()
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error adding template:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add template",
+        variant: "destructive",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const handleDelete = async (template: OutlineTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Outlines created from it are not affected.`)) return
+
+    setDeletingId(template.id)
+    try {
+      const response = await fetch(`/api/outlines/templates/${template.id}?orgId=${orgId}`, {
+        method: "DELETE",
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to delete template")
+      }
+
+      toast({
+        title: "Success",
+        description: data.message || "Template deleted",
+      })
+      if (selectedId === template.id) setSelectedId(null)
+      reload()
+    } catch (error) {
+      console.error("Error deleting template:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete template",
+        variant: "destructive",
+      })
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add from Template</DialogTitle>
+          <DialogDescription>
+            Every section of the template is added after this document&apos;s current sections, in the first status.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && templates.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[220px_1fr] min-w-0">
+            <div className="space-y-1">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className={cn(
+                    "flex items-start gap-1 rounded-md border px-3 py-2 cursor-pointer hover:bg-muted/50",
+                    selected?.id === template.id && "border-primary bg-primary/5"
+                  )}
+                  onClick={() => setSelectedId(template.id)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate" title={template.name}>{template.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {template.sections.length} {template.sections.length === 1 ? "section" : "sections"}
+                    </p>
+                  </div>
+                  {template.builtIn ? (
+                    <Badge variant="secondary" className="text-[10px]">Built-in</Badge>
+                  ) : (
+                    canDeleteTemplates && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-destructive hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDelete(template)
+                        }}
+                        disabled={deletingId !== null}
+                        title="Delete template"
+                      >
+                        {deletingId === template.id ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-3 h-3" />
+                        )}
+                      </Button>
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="rounded-md border min-w-0">
+                <div className="px-3 py-2 border-b bg-muted/50">
+                  <p className="font-medium">{selected.name}</p>
+                  {selected.description && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+                  {selected.createdBy && (
+                    <p className="text-xs text-muted-foreground">
+                      Saved by {selected.createdBy.name || selected.createdBy.email}
+                    </p>
+                  )}
+                </div>
+                <div className="max-h-[50vh] overflow-y-auto">
+                  <OutlineTemplatePreview template={selected} />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!selected || isApplying}>
+            {isApplying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LayoutTemplate className="w-4 h-4 mr-2" />}
+            {selected
+              ? `Add ${selected.sections.length} ${selected.sections.length === 1 ? "section" : "sections"}`
+              : "Add sections"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface SaveOutlineTemplateDialogProps {
+  orgId: string
+  documentId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Save a document's current outlines (headers, section types, targets, limits
+ * and nesting) as a template for the organization
+ */
+export function SaveOutlineTemplateDialog({ orgId, documentId, open, onOpenChange }: SaveOutlineTemplateDialogProps) {
+  const { toast } = useToast()
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setName("")
+      setDescription("")
+    }
+  }, [open])
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Name is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/outlines/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, documentId, name: name.trim(), description: description.trim() || null }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to save template")
+      }
+
+      toast({
+        title: "Success",
+        description: data.message || "Template saved successfully",
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving template:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save template",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Saves each outline&apos;s header, section type, target, limit and place in the tree. Statuses, reviewers
+            and content are not saved.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Standard RFP Response" />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Description</label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+
+import { useState, type DragEvent, type ReactNode } from "react"
+import { getSubtreeIds } from "@/lib/outline-tree"
+import { cn } from "@/lib/utils"
+import { ChevronDown, ChevronRight, GripVertical, Loader2 } from "lucide-react"
+
+interface TreeOutline {
+  id: string
+  header: string
+  sectionType: string
+  parentId: string | null
+  position: number
+  number: string
+  depth: number
+  childCount: number
+}
+
+type DropZone = "before" | "inside" | "after"
+
+interface OutlineTreeViewProps<T extends TreeOutline> {
+  outlines: T[]
+  canReorder: boolean
+  onMove: (outline: T, parentId: string | null, index: number) => Promise<void>
+  renderStatus: (outline: T) => ReactNode
+  renderReviewer: (outline: T) => ReactNode
+  renderActions?: (outline: T) => ReactNode
+}
+
+/**
+ * Outlines as numbered, collapsible sections. Rows can be dragged onto the
+ * top or bottom edge of another row to reorder, or onto its middle to nest.
+ * `outlines` must be flat and in section order, as returned by the tree API.
+ */
+export function OutlineTreeView<T extends TreeOutline>({
+  outlines,
+  canReorder,
+  onMove,
+  renderStatus,
+  renderReviewer,
+  renderActions,
+}: OutlineTreeViewProps<T>) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dragId, setDragId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ id: string; zone: DropZone } | null>(null)
+  const [movingId, setMovingId] = useState<string | null>(null)
+
+  // An outline cannot be dropped onto itself or anything nested under it
+  const blockedIds = dragId ? getSubtreeIds(outlines, dragId) : new Set<string>()
+
+  // Hide rows under collapsed sections
+  let hiddenBelowDepth: number | null = null
+  const visible = outlines.filter((outline) => {
+    if (hiddenBelowDepth !== null && outline.depth > hiddenBelowDepth) {
+      return false
+    }
+    hiddenBelowDepth = collapsed.has(outline.id) ? outline.depth : null
+    return true
+  })
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setCollapsed(next)
+  }
+
+  const getDropZone = (event: DragEvent<HTMLElement>): DropZone => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const offset = (event.clientY - rect.top) / rect.height
+    return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside"
+  }
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, target: T) => {
+    if (!dragId || blockedIds.has(target.id)) {
+      return
+    }
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    const zone = getDropZone(event)
+    if (dropTarget?.id !== target.id || dropTarget.zone !== zone) {
+      setDropTarget({ id: target.id, zone })
+    }
+  }
+
+  const handleDrop = async (event: DragEvent<HTMLElement>, target: T) => {
+    event.preventDefault()
+    const dragged = outlines.find((outline) => outline.id === dragId)
+    const zone = dropTarget?.zone
+    setDragId(null)
+    setDropTarget(null)
+    if (!dragged || !zone || blockedIds.has(target.id)) {
+      return
+    }
+
+    // Indexes count the new siblings without the outline being moved
+    let parentId: string | null
+    let index: number
+    if (zone === "inside") {
+      parentId = target.id
+      index = outlines.filter((outline) => outline.parentId === target.id && outline.id !== dragged.id).length
+    } else {
+      parentId = target.parentId
+      const siblings = outlines.filter((outline) => outline.parentId === target.parentId && outline.id !== dragged.id)
+      index = siblings.findIndex((outline) => outline.id === target.id) + (zone === "after" ? 1 : 0)
+    }
+
+    if (parentId === dragged.parentId && index === dragged.position) {
+      return
+    }
+
+    setMovingId(dragged.id)
+    try {
+      await onMove(dragged, parentId, index)
+      if (parentId) {
+        setCollapsed((prev) => {
+          const next = new Set(prev)
+          next.delete(parentId)
+          return next
+        })
+      }
+    } finally {
+      setMovingId(null)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border-2 shadow-lg overflow-hidden">
+      <ol>
+        {visible.map((outline) => {
+          const isDropTarget = dropTarget?.id === outline.id
+          return (
+            <li
+              key={outline.id}
+              draggable={canReorder && movingId === null}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move"
+                event.dataTransfer.setData("text/plain", outline.id)
+                setDragId(outline.id)
+              }}
+              onDragEnd={() => {
+                setDragId(null)
+                setDropTarget(null)
+              }}
+              onDragOver={(event) => handleDragOver(event, outline)}
+              onDragLeave={() => isDropTarget && setDropTarget(null)}
+              onDrop={(event) => handleDrop(event, outline)}
+              className={cn(
+                "flex items-center gap-2 border-b last:border-b-0 px-2 sm:px-3 py-2 min-w-0 transition-colors hover:bg-muted/50",
+                dragId === outline.id && "opacity-50",
+                isDropTarget && dropTarget.zone === "before" && "border-t-2 border-t-primary",
+                isDropTarget && dropTarget.zone === "after" && "border-b-2 border-b-primary",
+                isDropTarget && dropTarget.zone === "inside" && "bg-primary/10"
+              )}
+            >
+              {canReorder && (
+                <span className="text-muted-foreground cursor-grab flex-shrink-0" aria-hidden>
+                  {movingId === outline.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <GripVertical className="w-4 h-4" />
+                  )}
+                </span>
+              )}
+              <div className="flex items-center gap-1 flex-1 min-w-0" style={{ paddingLeft: outline.depth * 20 }}>
+                {outline.childCount > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => toggleCollapsed(outline.id)}
+                    className="text-muted-foreground hover:text-foreground flex-shrink-0"
+                    aria-label={collapsed.has(outline.id) ? `Expand ${outline.header}` : `Collapse ${outline.header}`}
+                  >
+                    {collapsed.has(outline.id) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+                ) : (
+                  <span className="w-4 flex-shrink-0" />
+                )}
+                <span className="font-mono text-xs text-muted-foreground flex-shrink-0">{outline.number}</span>
+                <span className="font-medium truncate" title={outline.header}>
+                  {outline.header}
+                </span>
+                <span
+                  className="hidden md:inline text-sm text-muted-foreground truncate ml-2"
+                  title={outline.sectionType}
+                >
+                  {outline.sectionType}
+                </span>
+              </div>
+              <div className="flex-shrink-0">{renderStatus(outline)}</div>
+              <div className="hidden lg:block text-sm w-[160px] flex-shrink-0">{renderReviewer(outline)}</div>
+              {renderActions && <div className="flex items-center gap-1 flex-shrink-0">{renderActions(outline)}</div>}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { Progress } from "@/components/ui/progress"
+import { getWordCountStatus } from "@/lib/outline-content"
+import { cn } from "@/lib/utils"
+import { AlertTriangle } from "lucide-react"
+
+interface OutlineWordProgressProps {
+  wordCount: number
+  target: number
+  limit: number
+  className?: string
+}
+
+/**
+ * Word count against an outline's target, flagged when it goes over the limit
+ */
+export function OutlineWordProgress({ wordCount, target, limit, className }: OutlineWordProgressProps) {
+  const status = getWordCountStatus(wordCount, target, limit)
+  const goal = target > 0 ? target : limit
+  const percent = goal > 0 ? Math.min(100, Math.round((wordCount / goal) * 100)) : 0
+
+  return (
+    <div className={cn("space-y-1 min-w-[120px]", className)}>
+      <Progress
+        value={percent}
+        className={cn(
+          status === "over_limit" && "bg-destructive/20 [&>[data-slot=progress-indicator]]:bg-destructive",
+          status === "on_target" && "[&>[data-slot=progress-indicator]]:bg-green-600"
+        )}
+        aria-label={`${wordCount} of ${goal} words`}
+      />
+      <p
+        className={cn(
+          "flex items-center gap-1 text-xs whitespace-nowrap",
+          status === "over_limit" ? "text-destructive font-medium" : "text-muted-foreground"
+        )}
+        title={limit > 0 ? `Limit: ${limit} words` : undefined}
+      >
+        {status === "over_limit" && <AlertTriangle className="w-3 h-3" />}
+        {wordCount.toLocaleString()}
+        {target > 0 && ` / ${target.toLocaleString()}`} words
+        {status === "over_limit" && ` (${(wordCount - limit).toLocaleString()} over limit)`}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRealtimeEvents } from "@/hooks/use-realtime-events"
+import type { OutlinePresence } from "@/lib/outline-presence"
+import type { OutlinePresenceMode } from "@/lib/validation"
+
+// Well inside the server's 45 second expiry, so one lost heartbeat is harmless
+const HEARTBEAT_INTERVAL_MS = 20_000
+
+export type OutlinePresenceByOutline = Record<string, OutlinePresence[]>
+
+function groupByOutline(presence: OutlinePresence[]): OutlinePresenceByOutline {
+  const grouped: OutlinePresenceByOutline = {}
+  for (const entry of presence) {
+    grouped[entry.outlineId] = [...(grouped[entry.outlineId] ?? []), entry]
+  }
+  return grouped
+}
+
+/**
+ * Who has each of an organization's outlines open, kept current by
+ * `presence.changed` events
+ */
+export function useOutlinePresence(orgId: string | undefined, enabled = true): OutlinePresenceByOutline {
+  const [presence, setPresence] = useState<OutlinePresenceByOutline>({})
+
+  const load = async () => {
+    if (!orgId) return
+    try {
+      const response = await fetch(`/api/outlines/presence?orgId=${orgId}`)
+      if (response.ok) {
+        const data = await response.json()
+        const responseData = data.success && data.data ? data.data : data
+        setPresence(groupByOutline(Array.isArray(responseData.presence) ? responseData.presence : []))
+      }
+    } catch (error) {
+      console.error("Error loading outline presence:", error)
+    }
+  }
+
+  useEffect(() => {
+    if (enabled) {
+      load()
+    } else {
+      setPresence({})
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, enabled])
+
+  useRealtimeEvents(
+    orgId,
+    (event) => {
+      if (event.type === "presence.changed") {
+        setPresence((prev) => ({ ...prev, [event.outlineId]: event.presence }))
+      }
+    },
+    { enabled: enabled && !!orgId, onReconnect: load }
+  )
+
+  return presence
+}
+
+/**
+ * Tell others that the current user has an outline open. Pass a null
+ * `outlineId` when nothing is open.
+ */
+export function useOutlinePresenceHeartbeat(
+  orgId: string | undefined,
+  outlineId: string | null,
+  mode: OutlinePresenceMode
+) {
+  useEffect(() => {
+    if (!orgId || !outlineId) {
+      return
+    }
+
+    const url = `/api/outlines/${outlineId}/presence`
+    const beat = () => {
+      fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orgId, mode }),
+      }).catch((error) => console.error("Error sending presence heartbeat:", error))
+    }
+    // keepalive lets the request finish when the tab is closing
+    const leave = () => {
+      fetch(`${url}?orgId=${orgId}`, { method: "DELETE", keepalive: true }).catch(() => {})
+    }
+
+    beat()
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS)
+    window.addEventListener("pagehide", leave)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener("pagehide", leave)
+      leave()
+    }
+  }, [orgId, outlineId, mode])
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { OutlineTemplate } from "@/lib/outline-templates"
+
+/**
+ * Built-in templates and the organization's own, loaded while `enabled`
+ * (e.g. while a picker is open) so a newly saved template shows up next time
+ */
+export function useOutlineTemplates(orgId: string | undefined, enabled = true) {
+  const [templates, setTemplates] = useState<OutlineTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const load = async () => {
+    if (!orgId) return
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/outlines/templates?orgId=${orgId}`)
+      if (response.ok) {
+        const data = await response.json()
+        const responseData = data.success && data.data ? data.data : data
+        setTemplates(Array.isArray(responseData.templates) ? responseData.templates : [])
+      }
+    } catch (error) {
+      console.error("Error loading outline templates:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (enabled) {
+      load()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgId, enabled])
+
+  return { templates, isLoading, reload: load }
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import type { RealtimeEvent } from "@/lib/realtime"
+
+interface Subscriber {
+  onEvent: (event: RealtimeEvent) => void
+  onReconnect?: () => void
+}
+
+interface Connection {
+  source: EventSource
+  subscribers: Set<Subscriber>
+  hasOpened: boolean
+}
+
+// Components on the same page share one stream per URL, so the notification
+// bell and the outline table do not each hold a connection open
+const connections = new Map<string, Connection>()
+
+function connect(url: string): Connection {
+  const existing = connections.get(url)
+  if (existing) {
+    return existing
+  }
+
+  const connection: Connection = { source: new EventSource(url), subscribers: new Set(), hasOpened: false }
+
+  connection.source.onopen = () => {
+    // Events sent while the stream was down are lost, so subscribers refetch
+    if (connection.hasOpened) {
+      connection.subscribers.forEach((subscriber) => subscriber.onReconnect?.())
+    }
+    connection.hasOpened = true
+  }
+
+  // Events are sent with their type as the SSE event name
+  const eventTypes: RealtimeEvent["type"][] = [
+    "outline.created",
+    "outline.updated",
+    "outline.deleted",
+    "document.changed",
+    "member.changed",
+    "comment.changed",
+    "presence.changed",
+    "notification.created",
+  ]
+  eventTypes.forEach((type) => connection.source.addEventListener(type, (message) => dispatch(connection, message)))
+
+  connections.set(url, connection)
+  return connection
+}
+
+function dispatch(connection: Connection, message: MessageEvent) {
+  let event: RealtimeEvent
+  try {
+    event = JSON.parse(message.data)
+  } catch {
+    return
+  }
+  connection.subscribers.forEach((subscriber) => subscriber.onEvent(event))
+}
+
+function disconnect(url: string, subscriber: Subscriber) {
+  const connection = connections.get(url)
+  if (!connection) return
+
+  connection.subscribers.delete(subscriber)
+  if (connection.subscribers.size === 0) {
+    connection.source.close()
+    connections.delete(url)
+  }
+}
+
+/**
+ * Subscribe to real-time events for the signed-in user and, when `orgId` is
+ * given, one organization. Pass `enabled: false` to stay disconnected, e.g.
+ * before the session has loaded.
+ */
+export function useRealtimeEvents(
+  orgId: string | null | undefined,
+  onEvent: (event: RealtimeEvent) => void,
+  options: { enabled?: boolean; onReconnect?: () => void } = {}
+) {
+  const { enabled = true } = options
+  // Handlers change on every render; the connection should not
+  const handlers = useRef({ onEvent, onReconnect: options.onReconnect })
+  handlers.current = { onEvent, onReconnect: options.onReconnect }
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") {
+      return
+    }
+
+    const url = orgId ? `/api/events?orgId=${encodeURIComponent(orgId)}` : "/api/events"
+    const subscriber: Subscriber = {
+      onEvent: (event) => handlers.current.onEvent(event),
+      onReconnect: () => handlers.current.onReconnect?.(),
+    }
+
+    connect(url).subscribers.add(subscriber)
+    return () => disconnect(url, subscriber)
+  }, [orgId, enabled])
+}
@@ -74,9 +74,9 @@ export function unauthorizedResponse(message: string = "Unauthorized"): Response
 /**
  * Create a forbidden response
  */
-export function forbiddenResponse(message: string = "Access denied"): Response {
+export function forbiddenResponse(message: string = "Access denied", errorCode?: string): Response {
   return errorResponse(message, 403, {
-    errorCode: "FORBIDDEN",
+    errorCode: errorCode || "FORBIDDEN",
     message,
   })
 }
@@ -106,6 +106,21 @@ export function badRequestResponse(
   })
 }
 
+/**
+ * Create a conflict response, e.g. when a record changed since the client read it
+ */
+export function conflictResponse(
+  message: string,
+  errorCode?: string,
+  details?: unknown
+): Response {
+  return errorResponse(message, 409, {
+    errorCode: errorCode || "CONFLICT",
+    message,
+    details,
+  })
+}
+
 /**
  * Create an internal server error response
  */
@@ -135,6 +150,11 @@ export function handleApiError(error: unknown): Response {
       )
     }
 
+    // Permission errors from requirePermission
+    if (error.name === "PermissionError") {
+      return forbiddenResponse(error.message)
+    }
+
     // Known error types
     if (error.message.includes("Unauthorized") || error.message.includes("unauthorized")) {
       return unauthorizedResponse(error.message)
@@ -0,0 +1,124 @@
+import { auth } from "./auth"
+import { prisma, type PrismaTransactionClient } from "./prisma"
+import type { AuditAction, AuditTargetType } from "./validation"
+
+/**
+ * Audit Log Utilities
+ *
+ * Records who changed what inside an organization. Events should be written
+ * with the same transaction client as the mutation they describe so the log
+ * never disagrees with the data.
+ */
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+/**
+ * Outline fields tracked in audit diffs
+ */
+export const outlineAuditFields = ["header", "sectionType", "status", "target", "limit", "reviewerId", "dueDate"] as const
+
+/**
+ * Document fields tracked in audit diffs
+ */
+export const documentAuditFields = ["title", "status", "dueDate", "ownerId"] as const
+
+/**
+ * Outline template fields tracked in audit diffs
+ */
+export const templateAuditFields = ["name", "description"] as const
+
+/**
+ * Request details captured with every event
+ */
+export interface AuditContext {
+  actorId: string
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export interface AuditEventInput {
+  organizationId: string
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId?: string | null
+  changes?: AuditChanges | null
+  metadata?: Record<string, unknown> | null
+}
+
+/**
+ * Build the audit context for a request
+ * IP address and user agent come from the caller's Session row
+ */
+export async function getAuditContext(request: Request, actorId: string): Promise<AuditContext> {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers })
+    const token = session?.session?.token
+
+    if (token) {
+      const sessionRow = await prisma.session.findUnique({
+        where: { token },
+        select: { ipAddress: true, userAgent: true },
+      })
+
+      if (sessionRow) {
+        return {
+          actorId,
+          ipAddress: sessionRow.ipAddress,
+          userAgent: sessionRow.userAgent,
+        }
+      }
+    }
+  } catch (error) {
+    // Missing request details should never block the mutation itself
+    console.error("Failed to load session for audit context:", error)
+  }
+
+  return { actorId, ipAddress: null, userAgent: null }
+}
+
+/**
+ * Compute a field-level diff between two snapshots
+ * Only fields whose values differ are included
+ */
+export function diffFields<T extends Record<string, unknown>>(
+  before: T | null,
+  after: T | null,
+  fields: readonly (keyof T & string)[]
+): AuditChanges {
+  const changes: AuditChanges = {}
+
+  for (const field of fields) {
+    const beforeValue = before ? before[field] ?? null : null
+    const afterValue = after ? after[field] ?? null : null
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Write an audit event
+ * Pass the transaction client used for the mutation being recorded
+ */
+export async function recordAuditEvent(
+  client: PrismaTransactionClient,
+  context: AuditContext,
+  event: AuditEventInput
+) {
+  return client.auditEvent.create({
+    data: {
+      organizationId: event.organizationId,
+      actorId: context.actorId,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId ?? null,
+      changes: event.changes && Object.keys(event.changes).length > 0 ? JSON.stringify(event.changes) : null,
+      metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  })
+}
@@ -1,4 +1,6 @@
+import { compare } from "bcryptjs"
 import { prisma } from "./prisma"
+import { hasPermission, normalizeRole, PermissionError, type OrganizationRole, type PermissionAction } from "./permissions"
 
 /**
  * Authorization Utilities
@@ -10,6 +12,7 @@ import { prisma } from "./prisma"
 export interface OrgAccessResult {
   hasAccess: boolean
   isOwner: boolean
+  role?: OrganizationRole
   member?: {
     id: string
     role: string
@@ -63,10 +66,12 @@ export async function checkOrgAccess(
       id: true,
       name: true,
       ownerId: true,
+      deletedAt: true,
     },
   })
 
-  if (!organization) {
+  // Organizations in the trash are only reachable through the trash endpoints
+  if (!organization || organization.deletedAt) {
     return {
       hasAccess: false,
       isOwner: false,
@@ -78,13 +83,18 @@ export async function checkOrgAccess(
   return {
     hasAccess: true,
     isOwner,
+    role: isOwner ? "owner" : normalizeRole(member.role),
     member: {
       id: member.id,
       role: member.role,
       organizationId: member.organizationId,
       userId: member.userId,
     },
-    organization,
+    organization: {
+      id: organization.id,
+      name: organization.name,
+      ownerId: organization.ownerId,
+    },
   }
 }
 
@@ -102,10 +112,10 @@ export async function checkOrgOwner(
 
   const organization = await prisma.organization.findUnique({
     where: { id: orgId },
-    select: { ownerId: true },
+    select: { ownerId: true, deletedAt: true },
   })
 
-  return organization ? organization.ownerId === userId : false
+  return organization && !organization.deletedAt ? organization.ownerId === userId : false
 }
 
 /**
@@ -139,3 +149,56 @@ export async function verifyOrgMembership(
     : null
 }
 
+
+/**
+ * Require that a user may perform an action in an organization
+ * Returns the access result on success and throws PermissionError otherwise
+ */
+export async function requirePermission(
+  userId: string,
+  orgId: string,
+  action: PermissionAction,
+  message?: string
+): Promise<OrgAccessResult & { role: OrganizationRole }> {
+  const access = await checkOrgAccess(userId, orgId)
+
+  if (!access.hasAccess || !access.role) {
+    throw new PermissionError("You do not have access to this organization")
+  }
+
+  if (!hasPermission(access.role, action)) {
+    throw new PermissionError(message || "You do not have permission to perform this action")
+  }
+
+  return { ...access, role: access.role }
+}
+
+export type PasswordCheckResult = "valid" | "invalid" | "no_password"
+
+/**
+ * Re-confirm a user's password for sensitive actions
+ * better-auth stores credential passwords on the Account row
+ */
+export async function verifyUserPassword(
+  userId: string,
+  password: string
+): Promise<PasswordCheckResult> {
+  const account = await prisma.account.findFirst({
+    where: {
+      userId,
+      providerId: "credential",
+    },
+    select: {
+      password: true,
+    },
+  })
+
+  if (!account || !account.password) {
+    return "no_password"
+  }
+
+  // Verify password using bcryptjs compare (same method used by better-auth)
+  const isPasswordValid = await compare(password, account.password)
+
+  return isPasswordValid ? "valid" : "invalid"
+}
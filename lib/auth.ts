@@ -6,6 +6,7 @@ import type { NextRequest } from "next/server"
 import { prisma } from "./prisma"
 import { sendEmail } from "./email"
 import { getOrganizationInvitationTemplate } from "./email-templates"
+import { surfacePendingInvitations } from "./invitations"
 import { hash, compare } from "bcryptjs"
 
 
@@ -66,6 +67,21 @@ Thanks.`
     }),
   ],
 
+  databaseHooks: {
+    session: {
+      create: {
+        // Invitations sent to the user's email before they had an account show up on sign-in
+        after: async (session) => {
+          try {
+            await surfacePendingInvitations(session.userId)
+          } catch (error) {
+            console.error("Failed to surface pending invitations:", error)
+          }
+        },
+      },
+    },
+  },
+
   session: {
     expirationTime: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24, // Update age: 24 hours
@@ -0,0 +1,87 @@
+/**
+ * Comment Mentions
+ *
+ * Comments are plain text and mention people as `@name`. A mention matches a
+ * member by full name, first name, email or the part of the email before
+ * the "@", ignoring case; the longest handle wins, so "@Ann Lee" is not read
+ * as "@Ann". A handle that fits more than one member mentions nobody rather
+ * than guessing. These helpers are shared by the API and the UI.
+ */
+
+export const MAX_COMMENT_LENGTH = 5000
+
+export interface MentionCandidate {
+  id: string
+  name: string | null
+  email: string
+}
+
+export interface CommentMention {
+  userId: string
+  // Position of the "@" and length of the matched text, including the "@"
+  start: number
+  length: number
+}
+
+const HANDLE_CHAR = /[\p{L}\p{N}_.-]/u
+
+function getHandles(candidate: MentionCandidate): string[] {
+  const handles = [candidate.email, candidate.email.split("@")[0]]
+  const name = candidate.name?.trim().replace(/\s+/g, " ")
+  if (name) {
+    handles.push(name, name.split(" ")[0])
+  }
+  return [...new Set(handles.map((handle) => handle.toLowerCase()).filter(Boolean))]
+}
+
+/**
+ * Find the members mentioned in a comment body, in the order they appear
+ */
+export function findMentions(body: string, candidates: MentionCandidate[]): CommentMention[] {
+  const handles = candidates.flatMap((candidate) => getHandles(candidate).map((handle) => ({ handle, candidate })))
+  const lowerBody = body.toLowerCase()
+  const mentions: CommentMention[] = []
+
+  for (let index = lowerBody.indexOf("@"); index !== -1; index = lowerBody.indexOf("@", index + 1)) {
+    // Part of an email address or a word, not a mention
+    if (index > 0 && HANDLE_CHAR.test(body[index - 1])) {
+      continue
+    }
+
+    const rest = lowerBody.slice(index + 1)
+    let best: { length: number; ids: Set<string> } | null = null
+
+    for (const { handle, candidate } of handles) {
+      // A handle must end at a word boundary; a trailing "." ends a sentence
+      if (!rest.startsWith(handle) || HANDLE_CHAR.test(rest.charAt(handle.length).replace(".", ""))) {
+        continue
+      }
+      if (!best || handle.length > best.length) {
+        best = { length: handle.length, ids: new Set([candidate.id]) }
+      } else if (handle.length === best.length) {
+        best.ids.add(candidate.id)
+      }
+    }
+
+    if (best && best.ids.size === 1) {
+      mentions.push({ userId: [...best.ids][0], start: index, length: best.length + 1 })
+      index += best.length
+    }
+  }
+
+  return mentions
+}
+
+/**
+ * IDs of the members mentioned in a comment body, without duplicates
+ */
+export function getMentionedUserIds(body: string, candidates: MentionCandidate[]): string[] {
+  return [...new Set(findMentions(body, candidates).map((mention) => mention.userId))]
+}
+
+/**
+ * Text to insert when picking a member from the mention suggestions
+ */
+export function getMentionHandle(candidate: MentionCandidate): string {
+  return `@${candidate.name?.trim().replace(/\s+/g, " ") || candidate.email}`
+}
@@ -0,0 +1,174 @@
+/**
+ * Document Blocks
+ *
+ * A small format-neutral document model used by the export writers. Outline
+ * content (sanitized rich-text HTML) is converted into blocks once and then
+ * rendered as Markdown, DOCX or PDF.
+ */
+
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  link?: string
+}
+
+export type DocumentBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4; text: string }
+  | { type: "paragraph"; runs: TextRun[]; style?: "quote" | "code" | "muted" }
+  | { type: "list_item"; runs: TextRun[]; ordered: boolean; index: number; depth: number }
+  | { type: "table"; header: string[]; rows: string[][] }
+  | { type: "page_break" }
+
+const TAG = /<(\/?)([a-z0-9]+)([^>]*)>|[^<]+/gi
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ""
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Plain text of a run list, as used for CSV cells and table fallbacks
+ */
+export function runsToText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join("")
+}
+
+/**
+ * Convert sanitized outline content into blocks. Only the tags that
+ * `sanitizeOutlineContent` keeps are understood; `headingLevel` is the level
+ * used for the content's own h2 (h3 goes one deeper, capped at 4).
+ */
+export function htmlToBlocks(html: string, headingLevel: 2 | 3 | 4 = 4): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  const lists: { ordered: boolean; count: number }[] = []
+  const inline = { bold: 0, italic: 0, underline: 0, strike: 0, code: 0 }
+  let link: string | undefined
+  let runs: TextRun[] = []
+  let current: { kind: "paragraph" | "heading" | "list_item"; level?: 2 | 3; style?: "quote" | "code" } | null = null
+  let quoteDepth = 0
+  let preDepth = 0
+
+  const flush = () => {
+    const text = runsToText(runs)
+    if (text.trim()) {
+      if (current?.kind === "heading") {
+        const level = Math.min(4, headingLevel + (current.level === 3 ? 1 : 0)) as 2 | 3 | 4
+        blocks.push({ type: "heading", level, text: text.trim() })
+      } else if (current?.kind === "list_item" && lists.length > 0) {
+        const list = lists[lists.length - 1]
+        blocks.push({ type: "list_item", runs, ordered: list.ordered, index: list.count, depth: lists.length - 1 })
+      } else {
+        const style = preDepth > 0 ? "code" : quoteDepth > 0 ? "quote" : undefined
+        blocks.push({ type: "paragraph", runs, ...(style ? { style } : {}) })
+      }
+    }
+    runs = []
+  }
+
+  const start = (next: NonNullable<typeof current>) => {
+    flush()
+    current = next
+  }
+
+  for (const [token, closing, rawName, attributes = ""] of html.matchAll(TAG)) {
+    if (!rawName) {
+      const text = decodeEntities(token)
+      runs.push({
+        text: preDepth > 0 ? text : text.replace(/\s+/g, " "),
+        ...(inline.bold > 0 && { bold: true }),
+        ...(inline.italic > 0 && { italic: true }),
+        ...(inline.underline > 0 && { underline: true }),
+        ...(inline.strike > 0 && { strike: true }),
+        ...((inline.code > 0 || preDepth > 0) && { code: true }),
+        ...(link && { link }),
+      })
+      continue
+    }
+
+    const name = rawName.toLowerCase()
+    const delta = closing ? -1 : 1
+    switch (name) {
+      case "strong":
+        inline.bold += delta
+        break
+      case "em":
+        inline.italic += delta
+        break
+      case "u":
+        inline.underline += delta
+        break
+      case "s":
+        inline.strike += delta
+        break
+      case "code":
+        inline.code += delta
+        break
+      case "a":
+        link = closing ? undefined : attributes.match(/href="([^"]*)"/)?.[1]
+        if (link) link = decodeEntities(link)
+        break
+      case "br":
+        runs.push({ text: "\n" })
+        break
+      case "p":
+        if (closing) flush()
+        else start({ kind: "paragraph" })
+        break
+      case "h2":
+      case "h3":
+        if (closing) {
+          flush()
+          current = null
+        } else {
+          start({ kind: "heading", level: name === "h2" ? 2 : 3 })
+        }
+        break
+      case "blockquote":
+        flush()
+        quoteDepth += delta
+        break
+      case "pre":
+        flush()
+        preDepth += delta
+        break
+      case "ul":
+      case "ol":
+        flush()
+        if (closing) lists.pop()
+        else lists.push({ ordered: name === "ol", count: 0 })
+        current = null
+        break
+      case "li":
+        if (closing) {
+          flush()
+          current = null
+        } else {
+          if (lists.length > 0) lists[lists.length - 1].count += 1
+          start({ kind: "list_item" })
+        }
+        break
+    }
+  }
+  flush()
+
+  // Whitespace at block edges comes from the source markup, not the writer
+  for (const block of blocks) {
+    if (block.type === "list_item" || (block.type === "paragraph" && block.style !== "code")) {
+      block.runs[0].text = block.runs[0].text.trimStart()
+      block.runs[block.runs.length - 1].text = block.runs[block.runs.length - 1].text.trimEnd()
+    }
+  }
+
+  return blocks
+}
@@ -0,0 +1,94 @@
+import type { Prisma } from "@prisma/client"
+import { prisma, type PrismaTransactionClient } from "./prisma"
+import { getFinalStatuses } from "./outline-config"
+
+/**
+ * Documents
+ *
+ * A document (usually a proposal) groups an organization's outlines, so an
+ * organization can work on several at once. Every outline belongs to exactly
+ * one document, and nesting, ordering and section numbers are per document.
+ * A document's owner is a member of its organization and, like an outline's
+ * reviewer, is cleared when they leave or are removed.
+ */
+
+/**
+ * Include the owner's public profile with a document
+ */
+export const documentOwnerInclude = {
+  owner: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    },
+  },
+} satisfies Prisma.DocumentInclude
+
+export interface DocumentProgress {
+  outlineCount: number
+  // Outlines in the organization's last (done) status
+  doneCount: number
+}
+
+/**
+ * Load a document, or null when it does not exist or belongs to another organization
+ */
+export async function findOrgDocument(organizationId: string, documentId: string) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    include: documentOwnerInclude,
+  })
+
+  return document && document.organizationId === organizationId ? document : null
+}
+
+/**
+ * Live outline counts for each document of an organization, keyed by document ID
+ */
+export async function getDocumentProgress(
+  organizationId: string,
+  documentIds: string[]
+): Promise<Map<string, DocumentProgress>> {
+  const [groups, finalStatuses] = await Promise.all([
+    prisma.outline.groupBy({
+      by: ["documentId", "status"],
+      where: { documentId: { in: documentIds }, deletedAt: null },
+      _count: { _all: true },
+    }),
+    getFinalStatuses([organizationId]),
+  ])
+
+  const doneStatus = finalStatuses.get(organizationId)
+  const progress = new Map<string, DocumentProgress>(
+    documentIds.map((id) => [id, { outlineCount: 0, doneCount: 0 }])
+  )
+  for (const group of groups) {
+    const counts = progress.get(group.documentId)
+    if (!counts) continue
+    counts.outlineCount += group._count._all
+    if (group.status === doneStatus) {
+      counts.doneCount += group._count._all
+    }
+  }
+
+  return progress
+}
+
+/**
+ * Clear the owner of every document in an organization owned by a departing
+ * member. Returns the number of documents changed.
+ */
+export async function unassignDocumentOwner(
+  tx: PrismaTransactionClient,
+  organizationId: string,
+  userId: string
+): Promise<number> {
+  const result = await tx.document.updateMany({
+    where: { organizationId, ownerId: userId },
+    data: { ownerId: null },
+  })
+
+  return result.count
+}
@@ -0,0 +1,304 @@
+import { deflateRawSync } from "node:zlib"
+import type { DocumentBlock, TextRun } from "./document-blocks"
+
+/**
+ * DOCX Writer
+ *
+ * Renders document blocks as a Word document. The package is assembled by
+ * hand (WordprocessingML parts in a zip archive) so exports need no
+ * third-party services or native dependencies. Server-only.
+ */
+
+const HEADING_SIZES = { 1: 40, 2: 32, 3: 26, 4: 23 } // Half-points
+const PARAGRAPH_STYLES = { quote: "Quote", code: "Code", muted: "Muted" }
+const LIST_INDENT = 360 // Twentieths of a point
+const TABLE_WIDTH = 9360 // Letter width less 1" margins
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+  )
+}
+
+function textElement(text: string): string {
+  return `<w:t xml:space="preserve">${escapeXml(text)}</w:t>`
+}
+
+function runXml(run: TextRun, extraProperties = ""): string {
+  const properties = [
+    run.link ? '<w:rStyle w:val="Hyperlink"/>' : "",
+    run.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>' : "",
+    run.bold ? "<w:b/>" : "",
+    run.italic ? "<w:i/>" : "",
+    run.strike ? "<w:strike/>" : "",
+    run.underline || run.link ? '<w:u w:val="single"/>' : "",
+    extraProperties,
+  ].join("")
+
+  // Line breaks (from <br> and inside code blocks) become explicit breaks
+  const content = run.text.split("\n").map(textElement).join("<w:br/>")
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}${content}</w:r>`
+}
+
+class DocxBuilder {
+  private links: string[] = []
+
+  linkRelationshipId(href: string): string {
+    let index = this.links.indexOf(href)
+    if (index === -1) {
+      index = this.links.push(href) - 1
+    }
+    // rId1 is the styles part
+    return `rId${index + 2}`
+  }
+
+  runs(runs: TextRun[], extraProperties = ""): string {
+    return runs
+      .map((run) =>
+        run.link
+          ? `<w:hyperlink r:id="${this.linkRelationshipId(run.link)}">${runXml(run, extraProperties)}</w:hyperlink>`
+          : runXml(run, extraProperties)
+      )
+      .join("")
+  }
+
+  block(block: DocumentBlock): string {
+    switch (block.type) {
+      case "heading":
+        return `<w:p><w:pPr><w:pStyle w:val="Heading${block.level}"/></w:pPr>${runXml({ text: block.text })}</w:p>`
+      case "paragraph": {
+        const properties = block.style ? `<w:pPr><w:pStyle w:val="${PARAGRAPH_STYLES[block.style]}"/></w:pPr>` : ""
+        return `<w:p>${properties}${this.runs(block.runs)}</w:p>`
+      }
+      case "list_item": {
+        // Markers are written as text so numbering matches the other formats exactly
+        const marker = block.ordered ? `${block.index}.` : "•"
+        const indent = LIST_INDENT * (block.depth + 1)
+        return (
+          `<w:p><w:pPr><w:pStyle w:val="ListParagraph"/><w:ind w:left="${indent}" w:hanging="${LIST_INDENT}"/></w:pPr>` +
+          `${runXml({ text: `${marker}\t` })}${this.runs(block.runs)}</w:p>`
+        )
+      }
+      case "table": {
+        const columnWidth = Math.floor(TABLE_WIDTH / block.header.length)
+        const cell = (text: string, header: boolean) =>
+          `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : ""}</w:tcPr>` +
+          `<w:p><w:pPr><w:spacing w:after="0"/></w:pPr>${runXml({ text, bold: header }, '<w:sz w:val="18"/>')}</w:p></w:tc>`
+        const row = (cells: string[], header = false) =>
+          `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cells.map((text) => cell(text, header)).join("")}</w:tr>`
+        return (
+          `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${TABLE_WIDTH}" w:type="dxa"/></w:tblPr>` +
+          `<w:tblGrid>${block.header.map(() => `<w:gridCol w:w="${columnWidth}"/>`).join("")}</w:tblGrid>` +
+          `${row(block.header, true)}${block.rows.map((cells) => row(cells)).join("")}</w:tbl>` +
+          // Word needs a paragraph between a table and whatever follows it
+          "<w:p/>"
+        )
+      }
+      case "page_break":
+        return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>'
+    }
+  }
+
+  document(blocks: DocumentBlock[]): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>' +
+      blocks.map((block) => this.block(block)).join("") +
+      '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+      '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+      "</w:sectPr></w:body></w:document>"
+    )
+  }
+
+  relationships(): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      this.links
+        .map(
+          (href, index) =>
+            `<Relationship Id="rId${index + 2}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" ` +
+            `Target="${escapeXml(href)}" TargetMode="External"/>`
+        )
+        .join("") +
+      "</Relationships>"
+    )
+  }
+}
+
+function paragraphStyle(id: string, name: string, paragraph: string, run: string): string {
+  return (
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>` +
+    `<w:next w:val="Normal"/><w:qFormat/><w:pPr>${paragraph}</w:pPr><w:rPr>${run}</w:rPr></w:style>`
+  )
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/>' +
+  '<w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  ([1, 2, 3, 4] as const)
+    .map((level) =>
+      paragraphStyle(
+        `Heading${level}`,
+        `heading ${level}`,
+        `<w:keepNext/><w:spacing w:before="${level === 1 ? 0 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/>`,
+        `<w:b/><w:sz w:val="${HEADING_SIZES[level]}"/><w:szCs w:val="${HEADING_SIZES[level]}"/>`
+      )
+    )
+    .join("") +
+  paragraphStyle("Quote", "Quote", '<w:ind w:left="720"/>', '<w:i/><w:color w:val="595959"/>') +
+  paragraphStyle(
+    "Code",
+    "Code",
+    '<w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>',
+    '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="20"/>'
+  ) +
+  paragraphStyle("Muted", "Muted", "", '<w:color w:val="7F7F7F"/>') +
+  paragraphStyle("ListParagraph", "List Paragraph", '<w:spacing w:after="60"/>', "") +
+  '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+  ["top", "left", "bottom", "right", "insideH", "insideV"]
+    .map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`)
+    .join("") +
+  '</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  "</w:styles>"
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  "</Types>"
+
+const PACKAGE_RELATIONSHIPS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  "</Relationships>"
+
+function corePropertiesXml(title: string, createdAt: Date): string {
+  const timestamp = `${createdAt.toISOString().slice(0, 19)}Z`
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified>` +
+    "</cp:coreProperties>"
+  )
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Minimal zip archive (deflate, no zip64) for the package parts
+ */
+function createZip(files: { name: string; content: string }[], modifiedAt: Date): Buffer {
+  const dosTime = (modifiedAt.getHours() << 11) | (modifiedAt.getMinutes() << 5) | (modifiedAt.getSeconds() >> 1)
+  const dosDate = ((modifiedAt.getFullYear() - 1980) << 9) | ((modifiedAt.getMonth() + 1) << 5) | modifiedAt.getDate()
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8")
+    const data = Buffer.from(file.content, "utf8")
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // Version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // Deflate
+    local.writeUInt16LE(dosTime, 10)
+    local.writeUInt16LE(dosDate, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(dosTime, 12)
+    central.writeUInt16LE(dosDate, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/**
+ * Render document blocks as a .docx file
+ */
+export function renderDocx(title: string, blocks: DocumentBlock[], createdAt = new Date()): Buffer {
+  const builder = new DocxBuilder()
+  // Hyperlink relationships are collected while the body is written
+  const document = builder.document(blocks)
+
+  return createZip(
+    [
+      { name: "[Content_Types].xml", content: CONTENT_TYPES_XML },
+      { name: "_rels/.rels", content: PACKAGE_RELATIONSHIPS_XML },
+      { name: "docProps/core.xml", content: corePropertiesXml(title, createdAt) },
+      { name: "word/document.xml", content: document },
+      { name: "word/styles.xml", content: STYLES_XML },
+      { name: "word/_rels/document.xml.rels", content: builder.relationships() },
+    ],
+    createdAt
+  )
+}
@@ -402,7 +402,9 @@ export function getJoinRequestNotificationTemplate(
 export function getOrganizationInvitationTemplate(
   organizationName: string,
   invitationLink: string,
-  expiresIn: string = "7 days"
+  expiresIn: string = "7 days",
+  // The invitee has no account yet, so the link leads to sign up first
+  needsAccount: boolean = false
 ): string {
   return generateEmailTemplate({
     title: "You've Been Invited!",
@@ -410,13 +412,106 @@ export function getOrganizationInvitationTemplate(
 
 You have been invited to join the organization "${organizationName}".
 
-Click the button below to accept the invitation and start collaborating with your team.
+${needsAccount
+  ? "Click the button below to create your account with this email address. Once you have verified your email address, you can accept the invitation from your notifications."
+  : "Click the button below to accept the invitation and start collaborating with your team."}
 
 This invitation will expire in ${expiresIn}. Please accept it before it expires.`,
-    buttonText: "Accept Invitation",
+    buttonText: needsAccount ? "Create Account" : "Accept Invitation",
     buttonLink: invitationLink,
     footerText: `This invitation will expire in ${expiresIn}. If you did not expect this invitation, you can safely ignore this email.`,
     type: "success",
   })
 }
 
+
+export function getOwnershipTransferTemplate(
+  organizationName: string,
+  fromName: string,
+  workspaceUrl: string,
+  expiresIn: string = "7 days"
+): string {
+  return generateEmailTemplate({
+    title: "Ownership Transfer Request",
+    message: `Hello,
+
+${fromName} wants to transfer ownership of "${organizationName}" to you.
+
+As the owner you will be able to manage members, roles and the organization itself. Open your notifications in the workspace to accept or decline the request.`,
+    buttonText: "Open Workspace",
+    buttonLink: workspaceUrl,
+    footerText: `This request will expire in ${expiresIn}. If you did not expect it, you can decline it from your notifications.`,
+    type: "warning",
+  })
+}
+
+// Outline, comment and organization text is user input and is shown as-is
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+export function getOutlineReviewTemplate(
+  organizationName: string,
+  outlineHeader: string,
+  summary: string,
+  outlineUrl: string
+): string {
+  return generateEmailTemplate({
+    title: "Outline Review Update",
+    message: `Hello,
+
+${escapeHtml(summary)}
+
+Outline: "${escapeHtml(outlineHeader)}"
+Organization: "${escapeHtml(organizationName)}"`,
+    buttonText: "Open Outline",
+    buttonLink: outlineUrl,
+    footerText: `You are receiving this because you review this outline in "${escapeHtml(organizationName)}".`,
+    type: "default",
+  })
+}
+
+export function getCommentMentionTemplate(
+  organizationName: string,
+  outlineHeader: string,
+  actorName: string,
+  excerpt: string,
+  outlineUrl: string
+): string {
+  return generateEmailTemplate({
+    title: "You Were Mentioned",
+    message: `Hello,
+
+${escapeHtml(actorName)} mentioned you in a comment on "${escapeHtml(outlineHeader)}":
+
+"${escapeHtml(excerpt)}"
+
+Organization: "${escapeHtml(organizationName)}"`,
+    buttonText: "Open Outline",
+    buttonLink: outlineUrl,
+    footerText: `You are receiving this because you were mentioned in "${escapeHtml(organizationName)}".`,
+    type: "default",
+  })
+}
+
+export function getOutlineDueReminderTemplate(
+  organizationName: string,
+  outlineHeader: string,
+  summary: string,
+  outlineUrl: string,
+  isOverdue: boolean
+): string {
+  return generateEmailTemplate({
+    title: isOverdue ? "Outline Overdue" : "Outline Due Soon",
+    message: `Hello,
+
+${escapeHtml(summary)}
+
+Outline: "${escapeHtml(outlineHeader)}"
+Organization: "${escapeHtml(organizationName)}"`,
+    buttonText: "Open Outline",
+    buttonLink: outlineUrl,
+    footerText: `You are receiving this because you review this outline, or own "${escapeHtml(organizationName)}" and it has no reviewer.`,
+    type: isOverdue ? "warning" : "default",
+  })
+}
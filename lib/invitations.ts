@@ -0,0 +1,123 @@
+import { prisma } from "./prisma"
+import { publishNotificationEvent } from "./realtime"
+
+/**
+ * Organization Invitations
+ *
+ * Invitations are addressed to an email address, so they can be sent before
+ * the person has an account. Registered invitees get an in-app notification
+ * straight away. Anyone else is emailed a signup link carrying the
+ * invitation ID; their pending invitations become notifications once the
+ * account's email is verified, and on every sign-in after that until they are
+ * answered or expire.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getAppUrl() {
+  return process.env.BETTER_AUTH_URL || "http://localhost:3000"
+}
+
+/**
+ * Link for a registered invitee; opening it while signed in accepts the invitation
+ */
+export function getInvitationAcceptLink(invitationId: string) {
+  return `${getAppUrl()}/workspace?invitation=${invitationId}`
+}
+
+/**
+ * Link for an invitee without an account. The signup page shows the invitation
+ * and fills in the email; it becomes a notification once that email is verified.
+ */
+export function getInvitationSignupLink(invitationId: string) {
+  return `${getAppUrl()}/auth/signup?invitation=${invitationId}`
+}
+
+export function getDaysUntilExpiration(expiresAt: Date) {
+  return Math.ceil((expiresAt.getTime() - Date.now()) / DAY_MS)
+}
+
+/**
+ * The in-app notification an invitee gets for an invitation
+ */
+export function buildInvitationNotification(
+  invitation: { id: string; expiresAt: Date },
+  organization: { id: string; name: string },
+  inviter: { id: string; name: string | null; email: string }
+) {
+  const daysUntilExpiration = getDaysUntilExpiration(invitation.expiresAt)
+
+  return {
+    type: "invitation",
+    title: "Organization Invitation",
+    message: `You have been invited to join "${organization.name}" (expires in ${daysUntilExpiration} day${daysUntilExpiration !== 1 ? "s" : ""})`,
+    metadata: JSON.stringify({
+      organizationId: organization.id,
+      organizationName: organization.name,
+      invitationId: invitation.id,
+      inviterId: inviter.id,
+      inviterName: inviter.name || inviter.email,
+      expiresAt: invitation.expiresAt.toISOString(),
+      daysUntilExpiration,
+    }),
+  }
+}
+
+/**
+ * Notify a user of the pending invitations sent to their email that they
+ * have not been notified of yet, such as ones sent before they signed up.
+ * Does nothing until the email is verified, since an invitation is meant
+ * for whoever owns the address. Returns the number of notifications created.
+ */
+export async function surfacePendingInvitations(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  })
+  if (!user?.emailVerified) {
+    return 0
+  }
+
+  const invitations = await prisma.invitation.findMany({
+    where: {
+      email: user.email,
+      status: "pending",
+      expiresAt: { gt: new Date() },
+      organization: { deletedAt: null },
+    },
+    include: {
+      organization: { select: { id: true, name: true } },
+      user: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  })
+
+  let created = 0
+  for (const invitation of invitations) {
+    const existing = await prisma.notification.findFirst({
+      where: {
+        userId,
+        type: "invitation",
+        metadata: { contains: `"invitationId":"${invitation.id}"` },
+      },
+      select: { id: true },
+    })
+    if (existing) {
+      continue
+    }
+
+    await prisma.notification.create({
+      data: {
+        ...buildInvitationNotification(invitation, invitation.organization, invitation.user),
+        userId,
+      },
+    })
+    created += 1
+  }
+
+  if (created > 0) {
+    await publishNotificationEvent(userId)
+  }
+
+  return created
+}
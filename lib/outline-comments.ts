@@ -0,0 +1,71 @@
+import type { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { getMentionedUserIds, type MentionCandidate } from "./comment-mentions"
+
+/**
+ * Outline Comment Utilities
+ *
+ * Comments form one-level threads on an outline: a top-level comment and
+ * its replies. Only top-level comments are resolved, which resolves the
+ * whole thread. Mentions are resolved against the organization's current
+ * members whenever a comment is saved.
+ */
+
+const commentUserSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+    image: true,
+  },
+}
+
+/**
+ * Include the author and resolver with a comment
+ */
+export const commentInclude = {
+  author: commentUserSelect,
+  resolvedBy: commentUserSelect,
+} satisfies Prisma.CommentInclude
+
+/**
+ * Include a thread's replies, oldest first, with a top-level comment
+ */
+export const commentThreadInclude = {
+  ...commentInclude,
+  replies: {
+    include: commentInclude,
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.CommentInclude
+
+/**
+ * Members of an organization who can be mentioned
+ */
+export async function getMentionCandidates(organizationId: string): Promise<MentionCandidate[]> {
+  const members = await prisma.organizationMember.findMany({
+    where: { organizationId },
+    select: { user: { select: { id: true, name: true, email: true } } },
+  })
+
+  return members.map((member) => member.user)
+}
+
+/**
+ * Members mentioned in `body` who were not already mentioned in
+ * `previousBody`, so edits only notify newly added mentions
+ */
+export async function getNewMentions(
+  organizationId: string,
+  body: string,
+  previousBody: string | null = null
+): Promise<string[]> {
+  if (!body.includes("@")) {
+    return []
+  }
+
+  const candidates = await getMentionCandidates(organizationId)
+  const previous = new Set(previousBody ? getMentionedUserIds(previousBody, candidates) : [])
+
+  return getMentionedUserIds(body, candidates).filter((id) => !previous.has(id))
+}
@@ -0,0 +1,171 @@
+import { prisma, type PrismaTransactionClient } from "./prisma"
+import {
+  DEFAULT_OUTLINE_SECTION_TYPES,
+  DEFAULT_OUTLINE_STATUSES,
+  type OutlineConfig,
+} from "./validation"
+import { DEFAULT_OUTLINE_TRANSITIONS } from "./outline-workflow"
+
+/**
+ * Outline Configuration
+ *
+ * Each organization keeps its own lists of outline section types and
+ * statuses as `OutlineOption` rows, and its status workflow as
+ * `OutlineWorkflowRule` rows. New organizations are seeded with the defaults;
+ * owners and admins edit them from the organization settings page.
+ */
+
+export const outlineOptionKinds = ["section_type", "status"] as const
+
+export type OutlineOptionKind = (typeof outlineOptionKinds)[number]
+
+type OptionListKey = "sectionTypes" | "statuses"
+
+const configKeys: Record<OutlineOptionKind, OptionListKey> = {
+  section_type: "sectionTypes",
+  status: "statuses",
+}
+
+// Outline column holding the value of each option kind
+const outlineFields = {
+  section_type: "sectionType",
+  status: "status",
+} as const
+
+type OptionsClient = Pick<PrismaTransactionClient, "outlineOption" | "outlineWorkflowRule">
+
+/**
+ * Load an organization's outline vocabularies in display order, with its workflow
+ */
+export async function getOutlineConfig(
+  organizationId: string,
+  client: OptionsClient = prisma
+): Promise<OutlineConfig> {
+  const [options, rules] = await Promise.all([
+    client.outlineOption.findMany({
+      where: { organizationId },
+      select: { kind: true, value: true },
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    }),
+    client.outlineWorkflowRule.findMany({
+      where: { organizationId },
+      select: { fromStatus: true, toStatus: true, requiresReviewer: true },
+      orderBy: { createdAt: "asc" },
+    }),
+  ])
+
+  const config: OutlineConfig = {
+    sectionTypes: [],
+    statuses: [],
+    transitions: rules.map((rule) => ({
+      from: rule.fromStatus,
+      to: rule.toStatus,
+      requiresReviewer: rule.requiresReviewer,
+    })),
+  }
+  for (const option of options) {
+    const key = configKeys[option.kind as OutlineOptionKind]
+    if (key) {
+      config[key].push(option.value)
+    }
+  }
+
+  return config
+}
+
+/**
+ * The last status in each organization's list, which counts as done
+ */
+export async function getFinalStatuses(organizationIds: string[]): Promise<Map<string, string>> {
+  const statuses = await prisma.outlineOption.findMany({
+    where: { organizationId: { in: organizationIds }, kind: "status" },
+    select: { organizationId: true, value: true },
+    orderBy: [{ position: "desc" }, { createdAt: "desc" }],
+  })
+
+  const finalStatuses = new Map<string, string>()
+  for (const status of statuses) {
+    if (!finalStatuses.has(status.organizationId)) {
+      finalStatuses.set(status.organizationId, status.value)
+    }
+  }
+
+  return finalStatuses
+}
+
+function toOptionRows(organizationId: string, config: Pick<OutlineConfig, OptionListKey>) {
+  return outlineOptionKinds.flatMap((kind) =>
+    config[configKeys[kind]].map((value, position) => ({ organizationId, kind, value, position }))
+  )
+}
+
+function toRuleRows(organizationId: string, config: Pick<OutlineConfig, "transitions">) {
+  return config.transitions.map((transition) => ({
+    organizationId,
+    fromStatus: transition.from,
+    toStatus: transition.to,
+    requiresReviewer: transition.requiresReviewer,
+  }))
+}
+
+/**
+ * Give a new organization the default section types, statuses and workflow
+ */
+export async function seedOutlineOptions(tx: PrismaTransactionClient, organizationId: string) {
+  const config: OutlineConfig = {
+    sectionTypes: DEFAULT_OUTLINE_SECTION_TYPES,
+    statuses: DEFAULT_OUTLINE_STATUSES,
+    transitions: DEFAULT_OUTLINE_TRANSITIONS,
+  }
+
+  await tx.outlineOption.createMany({ data: toOptionRows(organizationId, config) })
+  await tx.outlineWorkflowRule.createMany({ data: toRuleRows(organizationId, config) })
+}
+
+/**
+ * Values removed from `current` in `next` that outlines still use. Deleted
+ * outlines are included so they stay valid if restored.
+ */
+export async function findOptionsInUse(
+  client: PrismaTransactionClient,
+  organizationId: string,
+  current: OutlineConfig,
+  next: OutlineConfig
+): Promise<Partial<Record<OptionListKey, string[]>>> {
+  const inUse: Partial<Record<OptionListKey, string[]>> = {}
+
+  for (const kind of outlineOptionKinds) {
+    const key = configKeys[kind]
+    const removed = current[key].filter((value) => !next[key].includes(value))
+    if (removed.length === 0) {
+      continue
+    }
+
+    const field = outlineFields[kind]
+    const used = await client.outline.findMany({
+      where: { organizationId, [field]: { in: removed } },
+      select: { sectionType: true, status: true },
+      distinct: [field],
+    })
+
+    if (used.length > 0) {
+      inUse[key] = used.map((outline) => outline[field])
+    }
+  }
+
+  return inUse
+}
+
+/**
+ * Replace all of an organization's outline options and workflow with `config`
+ */
+export async function replaceOutlineOptions(
+  tx: PrismaTransactionClient,
+  organizationId: string,
+  config: OutlineConfig
+) {
+  await tx.outlineOption.deleteMany({ where: { organizationId } })
+  await tx.outlineOption.createMany({ data: toOptionRows(organizationId, config) })
+  await tx.outlineWorkflowRule.deleteMany({ where: { organizationId } })
+  await tx.outlineWorkflowRule.createMany({ data: toRuleRows(organizationId, config) })
+}
@@ -0,0 +1,190 @@
+/**
+ * Outline Content
+ *
+ * Section text is stored as a small subset of HTML produced by the rich-text
+ * editor. Everything saved goes through `sanitizeOutlineContent`, which
+ * rebuilds the markup from an allowlist: unknown tags are dropped (keeping
+ * their text), attributes are removed except safe link targets, and the
+ * result is always balanced. Word counts are checked against the outline's
+ * `target` and `limit`. These helpers are shared by the API and the UI.
+ */
+
+export const MAX_OUTLINE_CONTENT_LENGTH = 200_000
+
+// Tags the editor can produce; b, i and div are normalised on the way in
+const ALLOWED_TAGS = new Set([
+  "p",
+  "br",
+  "strong",
+  "em",
+  "u",
+  "s",
+  "h2",
+  "h3",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "pre",
+  "code",
+  "a",
+])
+const TAG_ALIASES: Record<string, string> = { b: "strong", i: "em", strike: "s", div: "p" }
+const VOID_TAGS = new Set(["br"])
+const BLOCK_TAGS = new Set(["p", "br", "h2", "h3", "ul", "ol", "li", "blockquote", "pre", "div"])
+// Their content is not text and is dropped along with the tag
+const DROPPED_CONTENT_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "noscript",
+  "template",
+  "textarea",
+  "title",
+  "head",
+  "svg",
+  "math",
+])
+const SAFE_HREF = /^(https?:|mailto:)/i
+
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ""
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function getHref(attributes: string): string | null {
+  const match = attributes.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i)
+  if (!match) {
+    return null
+  }
+  // Strip control characters and whitespace browsers ignore inside URLs
+  // eslint-disable-next-line no-control-regex
+  const href = decodeEntities(match[1] ?? match[2] ?? match[3] ?? "").replace(/[\u0000- ]/g, "")
+  return SAFE_HREF.test(href) ? href : null
+}
+
+/**
+ * Rebuild rich-text HTML from the allowlist so it is safe to render
+ */
+export function sanitizeOutlineContent(html: string): string {
+  const output: string[] = []
+  const open: string[] = []
+  let droppedTag: string | null = null
+
+  for (const [token, closing, rawName, attributes = ""] of html.matchAll(TOKEN)) {
+    if (token.startsWith("<!--")) {
+      continue
+    }
+
+    if (!rawName) {
+      if (!droppedTag) {
+        output.push(escapeHtml(decodeEntities(token)))
+      }
+      continue
+    }
+
+    const lowerName = rawName.toLowerCase()
+    if (droppedTag) {
+      if (closing && lowerName === droppedTag) {
+        droppedTag = null
+      }
+      continue
+    }
+    if (DROPPED_CONTENT_TAGS.has(lowerName)) {
+      droppedTag = closing || attributes.trim().endsWith("/") ? null : lowerName
+      continue
+    }
+
+    const name = TAG_ALIASES[lowerName] ?? lowerName
+    if (!ALLOWED_TAGS.has(name)) {
+      continue
+    }
+
+    if (closing) {
+      // Close anything left open inside it; stray closing tags are ignored
+      const index = open.lastIndexOf(name)
+      if (index !== -1) {
+        for (const tag of open.splice(index).reverse()) {
+          output.push(`</${tag}>`)
+        }
+      }
+      continue
+    }
+
+    if (VOID_TAGS.has(name)) {
+      output.push(`<${name}>`)
+      continue
+    }
+
+    // A new list item or paragraph ends an unclosed one, as browsers do
+    if ((name === "li" || name === "p") && open[open.length - 1] === name) {
+      output.push(`</${open.pop()}>`)
+    }
+
+    if (name === "a") {
+      const href = getHref(attributes)
+      if (!href) {
+        continue
+      }
+      output.push(`<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">`)
+    } else {
+      output.push(`<${name}>`)
+    }
+    open.push(name)
+  }
+
+  for (const tag of open.reverse()) {
+    output.push(`</${tag}>`)
+  }
+
+  return output.join("")
+}
+
+/**
+ * Plain text of rich-text HTML, with block boundaries as whitespace
+ */
+export function getContentText(html: string): string {
+  const text = html.replace(TOKEN, (token, _closing: string, name: string | undefined) => {
+    if (!name) {
+      return token.startsWith("<!--") ? "" : token
+    }
+    return BLOCK_TAGS.has(name.toLowerCase()) ? " " : ""
+  })
+  return decodeEntities(text)
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim()
+  return trimmed ? trimmed.split(/\s+/).length : 0
+}
+
+export type WordCountStatus = "empty" | "under" | "on_target" | "over_limit"
+
+/**
+ * Where a word count stands against an outline's target and limit.
+ * A target or limit of 0 means none is set.
+ */
+export function getWordCountStatus(wordCount: number, target: number, limit: number): WordCountStatus {
+  if (limit > 0 && wordCount > limit) {
+    return "over_limit"
+  }
+  if (wordCount === 0) {
+    return "empty"
+  }
+  return target > 0 && wordCount < target ? "under" : "on_target"
+}
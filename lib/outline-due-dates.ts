@@ -0,0 +1,79 @@
+/**
+ * Outline Due Dates
+ *
+ * A due date is a calendar day, stored as midnight UTC of that day and sent
+ * to the browser as a "YYYY-MM-DD" key so it reads the same in every time
+ * zone. An outline is overdue from the day after its due date until it
+ * reaches its organization's last (done) status. These helpers are shared
+ * by the API, the reminder runner and the UI.
+ */
+
+export const DEFAULT_DUE_SOON_DAYS = 3
+
+export type DueDateStatus = "overdue" | "due_today" | "due_soon" | "upcoming"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The "YYYY-MM-DD" key of a stored due date (or an ISO string of one)
+ */
+export function toDueDateKey(value: Date | string): string {
+  return new Date(value).toISOString().slice(0, 10)
+}
+
+/**
+ * The key for a day in the local time zone, e.g. today in the browser
+ */
+export function toLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Local midnight of a day key, for date pickers and formatting
+ */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Whole days from `todayKey` until the due day; negative once it has passed
+ */
+export function getDaysUntilDue(dueDateKey: string, todayKey: string): number {
+  return Math.round((Date.parse(dueDateKey) - Date.parse(todayKey)) / DAY_MS)
+}
+
+/**
+ * Where an outline stands against its due date. Done outlines and outlines
+ * without a due date have no status.
+ */
+export function getDueDateStatus(
+  dueDate: Date | string | null,
+  isDone: boolean,
+  todayKey: string,
+  dueSoonDays: number = DEFAULT_DUE_SOON_DAYS
+): DueDateStatus | null {
+  if (!dueDate || isDone) {
+    return null
+  }
+
+  const days = getDaysUntilDue(toDueDateKey(dueDate), todayKey)
+  if (days < 0) return "overdue"
+  if (days === 0) return "due_today"
+  if (days <= dueSoonDays) return "due_soon"
+  return "upcoming"
+}
+
+/**
+ * Short description such as "Due tomorrow" or "3 days overdue"
+ */
+export function describeDueDate(dueDate: Date | string, todayKey: string): string {
+  const days = getDaysUntilDue(toDueDateKey(dueDate), todayKey)
+  if (days === 0) return "Due today"
+  if (days === 1) return "Due tomorrow"
+  if (days === -1) return "1 day overdue"
+  if (days < 0) return `${-days} days overdue`
+  return `Due in ${days} days`
+}
@@ -0,0 +1,257 @@
+import { htmlToBlocks, runsToText, type DocumentBlock, type TextRun } from "./document-blocks"
+import { buildOutlineTree, flattenOutlineTree, type OutlineTreeItem } from "./outline-tree"
+import type { OutlineExportFormat } from "./validation"
+
+/**
+ * Outline Export
+ *
+ * Builds the exported document for an organization's outlines: one chapter
+ * per section type (in the organization's order), each listing its outlines
+ * in section order with their content, and optionally an appendix table of
+ * status, reviewer and word counts. Markdown and CSV are rendered here; DOCX
+ * and PDF by `docx-writer` and `pdf-writer`.
+ */
+
+export interface ExportOutline extends OutlineTreeItem {
+  header: string
+  sectionType: string
+  status: string
+  target: number
+  limit: number
+  wordCount: number
+  reviewer: { name: string | null; email: string } | null
+  content: { body: string } | null
+}
+
+export interface OutlineExportDocument {
+  title: string
+  blocks: DocumentBlock[]
+}
+
+export const exportContentTypes: Record<OutlineExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+  csv: "text/csv; charset=utf-8",
+}
+
+const APPENDIX_HEADER = ["Section", "Header", "Section Type", "Status", "Reviewer", "Words", "Target", "Limit"]
+
+function reviewerName(outline: ExportOutline): string {
+  return outline.reviewer ? outline.reviewer.name || outline.reviewer.email : "Unassigned"
+}
+
+/**
+ * Outlines in section order with their numbers, grouped by section type.
+ * Groups follow `sectionTypes`; types no longer configured come last.
+ */
+export function groupOutlinesBySectionType(outlines: ExportOutline[], sectionTypes: string[]) {
+  const ordered = flattenOutlineTree(buildOutlineTree(outlines))
+  const groups = new Map<string, typeof ordered>(sectionTypes.map((type) => [type, []]))
+
+  for (const outline of ordered) {
+    const group = groups.get(outline.sectionType) ?? []
+    group.push(outline)
+    groups.set(outline.sectionType, group)
+  }
+
+  return [...groups].filter(([, group]) => group.length > 0).map(([sectionType, group]) => ({ sectionType, outlines: group }))
+}
+
+/**
+ * Build the export document for a document's outlines
+ */
+export function buildOutlineExport(
+  documentTitle: string,
+  outlines: ExportOutline[],
+  sectionTypes: string[],
+  options: { appendix: boolean; generatedAt?: Date }
+): OutlineExportDocument {
+  const title = `${documentTitle} Outline`
+  const generatedAt = options.generatedAt ?? new Date()
+  const groups = groupOutlinesBySectionType(outlines, sectionTypes)
+  const blocks: DocumentBlock[] = [
+    { type: "heading", level: 1, text: title },
+    {
+      type: "paragraph",
+      style: "muted",
+      runs: [{ text: `Exported ${generatedAt.toISOString().slice(0, 10)} · ${outlines.length} sections` }],
+    },
+  ]
+
+  for (const group of groups) {
+    blocks.push({ type: "heading", level: 2, text: group.sectionType })
+
+    for (const outline of group.outlines) {
+      blocks.push({ type: "heading", level: 3, text: `${outline.number} ${outline.header}` })
+
+      const content = outline.content ? htmlToBlocks(outline.content.body, 4) : []
+      if (content.length > 0) {
+        blocks.push(...content)
+      } else {
+        blocks.push({ type: "paragraph", style: "muted", runs: [{ text: "No content yet.", italic: true }] })
+      }
+    }
+  }
+
+  if (options.appendix) {
+    blocks.push(
+      { type: "page_break" },
+      { type: "heading", level: 2, text: "Appendix: Section Status" },
+      {
+        type: "table",
+        header: APPENDIX_HEADER,
+        rows: groups.flatMap((group) =>
+          group.outlines.map((outline) => [
+            outline.number,
+            outline.header,
+            outline.sectionType,
+            outline.status,
+            reviewerName(outline),
+            String(outline.wordCount),
+            outline.target > 0 ? String(outline.target) : "—",
+            outline.limit > 0 ? String(outline.limit) : "—",
+          ])
+        ),
+      }
+    )
+  }
+
+  return { title, blocks }
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|~])/g, "\\$1")
+}
+
+// Parentheses and spaces would end a Markdown link target early
+function encodeLinkTarget(href: string): string {
+  return href.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`)
+}
+
+function runToMarkdown(run: TextRun): string {
+  if (run.text === "\n") {
+    return "  \n"
+  }
+  if (run.code) {
+    return run.text.includes("`") ? `\`\` ${run.text} \`\`` : `\`${run.text}\``
+  }
+
+  // Emphasis markers must hug the text, so surrounding spaces stay outside
+  const [, leading, text, trailing] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ["", "", run.text, ""]
+  if (!text) {
+    return run.text
+  }
+  let markdown = escapeMarkdown(text)
+  if (run.bold) markdown = `**${markdown}**`
+  if (run.italic) markdown = `_${markdown}_`
+  if (run.strike) markdown = `~~${markdown}~~`
+  if (run.underline) markdown = `<u>${markdown}</u>`
+  if (run.link) markdown = `[${markdown}](${encodeLinkTarget(run.link)})`
+  return `${leading}${markdown}${trailing}`
+}
+
+function tableRowToMarkdown(cells: string[]): string {
+  return `| ${cells.map((cell) => escapeMarkdown(cell).replace(/\n/g, " ")).join(" | ")} |`
+}
+
+/**
+ * Render document blocks as GitHub-flavoured Markdown
+ */
+export function blocksToMarkdown(blocks: DocumentBlock[]): string {
+  const output: string[] = []
+  let previous: DocumentBlock | undefined
+
+  for (const block of blocks) {
+    // Consecutive list items stay together; everything else is separated by a blank line
+    if (previous && !(previous.type === "list_item" && block.type === "list_item")) {
+      output.push("")
+    }
+
+    switch (block.type) {
+      case "heading":
+        output.push(`${"#".repeat(block.level)} ${escapeMarkdown(block.text)}`)
+        break
+      case "paragraph":
+        if (block.style === "code") {
+          output.push("```", runsToText(block.runs), "```")
+        } else {
+          const text = block.runs.map(runToMarkdown).join("")
+          output.push(block.style === "quote" ? text.replace(/^/gm, "> ") : text)
+        }
+        break
+      case "list_item": {
+        const marker = block.ordered ? `${block.index}.` : "-"
+        output.push(`${"   ".repeat(block.depth)}${marker} ${block.runs.map(runToMarkdown).join("")}`)
+        break
+      }
+      case "table":
+        output.push(
+          tableRowToMarkdown(block.header),
+          `| ${block.header.map(() => "---").join(" | ")} |`,
+          ...block.rows.map(tableRowToMarkdown)
+        )
+        break
+      case "page_break":
+        output.push("---")
+        break
+    }
+    previous = block
+  }
+
+  return `${output.join("\n")}\n`
+}
+
+function csvCell(value: string | number): string {
+  let text = String(value)
+  // Spreadsheet apps run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per outline in section order, with its content as plain text
+ */
+export function outlinesToCsv(outlines: ExportOutline[], sectionTypes: string[]): string {
+  const rows: (string | number)[][] = [
+    ["Section", "Header", "Section Type", "Status", "Reviewer", "Reviewer Email", "Words", "Target", "Limit", "Content"],
+  ]
+
+  for (const group of groupOutlinesBySectionType(outlines, sectionTypes)) {
+    for (const outline of group.outlines) {
+      const content = outline.content ? htmlToBlocks(outline.content.body) : []
+      rows.push([
+        outline.number,
+        outline.header,
+        outline.sectionType,
+        outline.status,
+        outline.reviewer ? reviewerName(outline) : "",
+        outline.reviewer?.email ?? "",
+        outline.wordCount,
+        outline.target,
+        outline.limit,
+        content
+          .map((block) => (block.type === "heading" ? block.text : "runs" in block ? runsToText(block.runs) : ""))
+          .join("\n"),
+      ])
+    }
+  }
+
+  // Excel needs the BOM to read the file as UTF-8
+  return `\uFEFF${rows.map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`
+}
+
+/**
+ * Attachment file name for an export, e.g. "city-rfp-outline-2024-01-31.pdf"
+ */
+export function getExportFileName(documentTitle: string, format: OutlineExportFormat, date = new Date()): string {
+  const slug = documentTitle
+    .normalize("NFKD")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, "-")
+  return `${slug || "document"}-outline-${date.toISOString().slice(0, 10)}.${format}`
+}
@@ -0,0 +1,229 @@
+/**
+ * Outline Import
+ *
+ * Bulk import reads a CSV or JSON file into records keyed by column name,
+ * then maps columns onto outline fields. The same parsing runs in the upload
+ * dialog (for the preview and column mapping) and in the import route (which
+ * validates every row with `createOutlineSchema`), so both see the same rows.
+ */
+
+export const MAX_IMPORT_ROWS = 500
+export const MAX_IMPORT_FILE_LENGTH = 2_000_000
+
+export const outlineImportFormats = ["csv", "json"] as const
+
+export type OutlineImportFormat = (typeof outlineImportFormats)[number]
+
+// Status is not imported: new outlines always enter the workflow at the first
+// status, so a status column (such as the export's) is left unmapped
+export const outlineImportFields = ["header", "sectionType", "target", "limit", "reviewer", "parentId"] as const
+
+export type OutlineImportField = (typeof outlineImportFields)[number]
+
+export const outlineImportFieldLabels: Record<OutlineImportField, string> = {
+  header: "Header",
+  sectionType: "Section Type",
+  target: "Target",
+  limit: "Limit",
+  reviewer: "Reviewer (email or user ID)",
+  parentId: "Parent Outline ID",
+}
+
+// Column names recognised for each field, best match first, compared without
+// case, spaces or punctuation. Covers the columns of the CSV export.
+const FIELD_ALIASES: Record<OutlineImportField, string[]> = {
+  header: ["header", "title", "heading", "name"],
+  sectionType: ["sectiontype", "type"],
+  target: ["target", "targetwords", "wordtarget"],
+  limit: ["limit", "wordlimit", "maxwords"],
+  reviewer: ["revieweremail", "reviewerid", "reviewer", "reviewedby"],
+  parentId: ["parentid", "parent", "parentoutlineid"],
+}
+
+export type ImportColumnMapping = Partial<Record<OutlineImportField, string>>
+
+export type ImportRecord = Record<string, string>
+
+export interface ParsedImportFile {
+  columns: string[]
+  records: ImportRecord[]
+}
+
+/**
+ * Values mapped onto outline fields; empty cells are left out
+ */
+export type MappedImportRow = Partial<Record<OutlineImportField, string>>
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImportFileError"
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new ImportFileError("CSV has an unterminated quoted field")
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no outline
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ""
+  }
+  if (typeof value === "object") {
+    // Reviewers may come as { email } or { id } objects from other tools' exports
+    const reference = value as { email?: unknown; id?: unknown }
+    return typeof reference.email === "string" ? reference.email : typeof reference.id === "string" ? reference.id : ""
+  }
+  return String(value)
+}
+
+function parseJsonRecords(content: string): ParsedImportFile {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new ImportFileError("File is not valid JSON")
+  }
+
+  // Accept a bare array or an export-style { outlines: [...] } wrapper
+  const items = Array.isArray(data) ? data : (data as { outlines?: unknown } | null)?.outlines
+  if (!Array.isArray(items)) {
+    throw new ImportFileError("JSON must be an array of outlines")
+  }
+
+  const columns: string[] = []
+  const records = items.map((item, index) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new ImportFileError(`Item ${index + 1} is not an object`)
+    }
+    const record: ImportRecord = {}
+    for (const [key, value] of Object.entries(item)) {
+      if (!columns.includes(key)) {
+        columns.push(key)
+      }
+      record[key] = cellValue(value)
+    }
+    return record
+  })
+
+  return { columns, records }
+}
+
+function parseCsvRecords(content: string): ParsedImportFile {
+  // Spreadsheet apps often save CSV with a byte order mark
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""))
+  if (!header) {
+    throw new ImportFileError("CSV is empty")
+  }
+
+  const columns = header.map((column) => column.trim())
+  const duplicate = columns.find((column, index) => column && columns.indexOf(column) !== index)
+  if (duplicate) {
+    throw new ImportFileError(`CSV has more than one "${duplicate}" column`)
+  }
+
+  return {
+    columns: columns.filter(Boolean),
+    records: rows.map((cells) =>
+      Object.fromEntries(columns.flatMap((column, index) => (column ? [[column, cells[index] ?? ""]] : [])))
+    ),
+  }
+}
+
+/**
+ * Read an import file into records keyed by column name
+ */
+export function parseImportFile(content: string, format: OutlineImportFormat): ParsedImportFile {
+  const parsed = format === "json" ? parseJsonRecords(content) : parseCsvRecords(content)
+
+  if (parsed.records.length === 0) {
+    throw new ImportFileError("File has no outlines")
+  }
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`No more than ${MAX_IMPORT_ROWS} outlines can be imported at once`)
+  }
+
+  return parsed
+}
+
+function normalizeColumnName(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+/**
+ * Match columns to fields by name, e.g. "Section Type" or "section_type" to `sectionType`
+ */
+export function guessImportMapping(columns: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {}
+  for (const field of outlineImportFields) {
+    const column = FIELD_ALIASES[field]
+      .map((alias) => columns.find((candidate) => normalizeColumnName(candidate) === alias))
+      .find(Boolean)
+    if (column) {
+      mapping[field] = column
+    }
+  }
+  return mapping
+}
+
+/**
+ * Pick each mapped field's value out of a record. Unmapped fields and empty
+ * cells are omitted so the schema defaults apply.
+ */
+export function mapImportRecord(record: ImportRecord, mapping: ImportColumnMapping): MappedImportRow {
+  const row: MappedImportRow = {}
+  for (const field of outlineImportFields) {
+    const column = mapping[field]
+    const value = column ? record[column]?.trim() : undefined
+    if (value) {
+      row[field] = value
+    }
+  }
+  return row
+}
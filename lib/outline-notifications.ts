@@ -0,0 +1,225 @@
+import { prisma } from "./prisma"
+import { isEmailServiceEnabled } from "./email-config"
+import { publishNotificationEvent } from "./realtime"
+
+/**
+ * Outline Notifications
+ *
+ * Reviewers get an in-app notification (and an email when the email service
+ * is enabled) when an outline is assigned to them and when the status of an
+ * outline they review changes. Members mentioned in a comment are notified
+ * the same way. Nobody is notified about their own changes.
+ */
+
+export const outlineNotificationTypes = ["outline_assigned", "outline_status_changed", "comment_mention"] as const
+
+export type OutlineNotificationType = (typeof outlineNotificationTypes)[number]
+
+interface OutlineSnapshot {
+  id: string
+  header: string
+  status: string
+  organizationId: string
+  documentId: string
+  reviewerId: string | null
+}
+
+interface NotificationActor {
+  id: string
+  name?: string | null
+  email: string
+}
+
+export type OutlineReviewEvent =
+  | { type: "outline_assigned" }
+  | { type: "outline_status_changed"; previousStatus: string }
+
+/**
+ * Link to an outline on its document's page
+ */
+function getOutlineUrl(outline: Pick<OutlineSnapshot, "header" | "organizationId" | "documentId">) {
+  const baseUrl = process.env.BETTER_AUTH_URL || "http://localhost:3000"
+  return `${baseUrl}/workspace/${outline.organizationId}/documents/${outline.documentId}?q=${encodeURIComponent(outline.header)}`
+}
+
+/**
+ * Work out which notification, if any, a change to an outline should send.
+ * A new assignment takes precedence over a status change in the same update.
+ */
+export function getOutlineReviewEvent(
+  before: Pick<OutlineSnapshot, "status" | "reviewerId"> | null,
+  after: OutlineSnapshot
+): OutlineReviewEvent | null {
+  if (!after.reviewerId) {
+    return null
+  }
+  if (after.reviewerId !== before?.reviewerId) {
+    return { type: "outline_assigned" }
+  }
+  if (before && before.status !== after.status) {
+    return { type: "outline_status_changed", previousStatus: before.status }
+  }
+  return null
+}
+
+/**
+ * Notify an outline's reviewer about an assignment or status change.
+ * Failures are logged and never fail the request that triggered them.
+ */
+export async function notifyOutlineReviewer(
+  outline: OutlineSnapshot,
+  actor: NotificationActor,
+  event: OutlineReviewEvent | null
+) {
+  if (!event || !outline.reviewerId || outline.reviewerId === actor.id) {
+    return
+  }
+
+  try {
+    const [reviewer, organization] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: outline.reviewerId },
+        select: { id: true, name: true, email: true },
+      }),
+      prisma.organization.findUnique({
+        where: { id: outline.organizationId },
+        select: { id: true, name: true },
+      }),
+    ])
+
+    if (!reviewer || !organization) {
+      return
+    }
+
+    const actorName = actor.name || actor.email
+    const { title, summary } =
+      event.type === "outline_assigned"
+        ? {
+            title: "Outline Assigned",
+            summary: `${actorName} assigned you to review "${outline.header}" in "${organization.name}"`,
+          }
+        : {
+            title: "Outline Status Changed",
+            summary: `${actorName} moved "${outline.header}" from ${event.previousStatus} to ${outline.status} in "${organization.name}"`,
+          }
+
+    await prisma.notification.create({
+      data: {
+        type: event.type,
+        title,
+        message: summary,
+        userId: reviewer.id,
+        metadata: JSON.stringify({
+          organizationId: organization.id,
+          organizationName: organization.name,
+          documentId: outline.documentId,
+          outlineId: outline.id,
+          outlineHeader: outline.header,
+          status: outline.status,
+          previousStatus: event.type === "outline_status_changed" ? event.previousStatus : undefined,
+          actorId: actor.id,
+          actorName,
+        }),
+      },
+    })
+    await publishNotificationEvent(reviewer.id)
+
+    if (isEmailServiceEnabled()) {
+      const { sendEmail } = await import("./email")
+      const { getOutlineReviewTemplate } = await import("./email-templates")
+
+      const outlineUrl = getOutlineUrl(outline)
+
+      await sendEmail({
+        to: reviewer.email,
+        subject: `${title}: ${outline.header}`,
+        text: `Hi ${reviewer.name || "there"},\n\n${summary}.\n\nOpen the outline:\n${outlineUrl}`,
+        html: getOutlineReviewTemplate(organization.name, outline.header, `${summary}.`, outlineUrl),
+      })
+    }
+  } catch (error) {
+    console.error("Failed to send outline review notification:", error)
+  }
+}
+
+// Longest piece of a comment quoted in notifications
+const COMMENT_EXCERPT_LENGTH = 200
+
+/**
+ * Notify members mentioned in a comment. Pass only the users who were not
+ * already mentioned before an edit so nobody is notified twice.
+ * Failures are logged and never fail the request that triggered them.
+ */
+export async function notifyCommentMentions(
+  outline: Pick<OutlineSnapshot, "id" | "header" | "organizationId" | "documentId">,
+  comment: { id: string; body: string },
+  actor: NotificationActor,
+  userIds: string[]
+) {
+  const recipientIds = userIds.filter((id) => id !== actor.id)
+  if (recipientIds.length === 0) {
+    return
+  }
+
+  try {
+    const [recipients, organization] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: recipientIds } },
+        select: { id: true, name: true, email: true },
+      }),
+      prisma.organization.findUnique({
+        where: { id: outline.organizationId },
+        select: { id: true, name: true },
+      }),
+    ])
+
+    if (recipients.length === 0 || !organization) {
+      return
+    }
+
+    const actorName = actor.name || actor.email
+    const excerpt =
+      comment.body.length > COMMENT_EXCERPT_LENGTH
+        ? `${comment.body.slice(0, COMMENT_EXCERPT_LENGTH).trimEnd()}…`
+        : comment.body
+    const summary = `${actorName} mentioned you in a comment on "${outline.header}" in "${organization.name}"`
+
+    await prisma.notification.createMany({
+      data: recipients.map((recipient) => ({
+        type: "comment_mention",
+        title: "Mentioned in a Comment",
+        message: `${summary}: ${excerpt}`,
+        userId: recipient.id,
+        metadata: JSON.stringify({
+          organizationId: organization.id,
+          organizationName: organization.name,
+          documentId: outline.documentId,
+          outlineId: outline.id,
+          outlineHeader: outline.header,
+          commentId: comment.id,
+          actorId: actor.id,
+          actorName,
+        }),
+      })),
+    })
+    await publishNotificationEvent(...recipients.map((recipient) => recipient.id))
+
+    if (isEmailServiceEnabled()) {
+      const { sendEmail } = await import("./email")
+      const { getCommentMentionTemplate } = await import("./email-templates")
+
+      const outlineUrl = getOutlineUrl(outline)
+
+      for (const recipient of recipients) {
+        await sendEmail({
+          to: recipient.email,
+          subject: `${actorName} mentioned you on ${outline.header}`,
+          text: `Hi ${recipient.name || "there"},\n\n${summary}:\n\n"${excerpt}"\n\nOpen the outline:\n${outlineUrl}`,
+          html: getCommentMentionTemplate(organization.name, outline.header, actorName, excerpt, outlineUrl),
+        })
+      }
+    }
+  } catch (error) {
+    console.error("Failed to send comment mention notification:", error)
+  }
+}
@@ -0,0 +1,187 @@
+import { prisma, type PrismaTransactionClient } from "./prisma"
+import { getSectionNumbers, getSubtreeIds, type OutlineTreeItem } from "./outline-tree"
+
+/**
+ * Outline Ordering
+ *
+ * Keeps `parentId` and `position` consistent as outlines are created, moved,
+ * trashed and restored. Each document has its own tree, and positions among
+ * the live (not deleted) children of a parent always run 0..n-1. Writes
+ * should use the same transaction client as the change that triggered them.
+ */
+
+type OrderedOutline = OutlineTreeItem & { documentId: string }
+
+type OrderingClient = Pick<PrismaTransactionClient, "outline">
+
+export type OutlineMoveError = {
+  code: "INVALID_PARENT" | "CIRCULAR_PARENT"
+  message: string
+}
+
+/**
+ * Load every live outline's place in a document's tree
+ */
+export async function getOutlineTreeItems(
+  documentId: string,
+  client: OrderingClient = prisma
+): Promise<OutlineTreeItem[]> {
+  return client.outline.findMany({
+    where: { documentId, deletedAt: null },
+    select: { id: true, parentId: true, position: true },
+  })
+}
+
+/**
+ * Section numbers for a document's outlines, keyed by ID
+ */
+export async function getOutlineSectionNumbers(documentId: string): Promise<Map<string, string>> {
+  return getSectionNumbers(await getOutlineTreeItems(documentId))
+}
+
+/**
+ * Check that `parentId` can hold `outlineId`: it must be a live outline in the
+ * same document and not the outline itself or one of its descendants.
+ * Pass a null `outlineId` for outlines that do not exist yet.
+ */
+export async function findParentError(
+  documentId: string,
+  outlineId: string | null,
+  parentId: string | null
+): Promise<OutlineMoveError | null> {
+  if (!parentId) {
+    return null
+  }
+
+  const items = await getOutlineTreeItems(documentId)
+  if (!items.some((item) => item.id === parentId)) {
+    return { code: "INVALID_PARENT", message: "Parent outline not found in this document" }
+  }
+  if (outlineId && getSubtreeIds(items, outlineId).has(parentId)) {
+    return { code: "CIRCULAR_PARENT", message: "An outline cannot be nested under itself" }
+  }
+
+  return null
+}
+
+/**
+ * Position after the last live child of `parentId`
+ */
+export async function getNextOutlinePosition(
+  client: OrderingClient,
+  documentId: string,
+  parentId: string | null
+): Promise<number> {
+  const last = await client.outline.findFirst({
+    where: { documentId, parentId, deletedAt: null },
+    select: { position: true },
+    orderBy: { position: "desc" },
+  })
+
+  return last ? last.position + 1 : 0
+}
+
+/**
+ * Write positions 0..n-1 for `ids` under `parentId`, skipping rows already in place
+ */
+async function writeSiblingOrder(
+  client: OrderingClient,
+  parentId: string | null,
+  ids: string[],
+  current: Map<string, OutlineTreeItem>
+) {
+  for (const [position, id] of ids.entries()) {
+    const existing = current.get(id)
+    if (existing?.position === position && existing.parentId === parentId) {
+      continue
+    }
+    await client.outline.update({ where: { id }, data: { parentId, position } })
+  }
+}
+
+async function getLiveChildren(
+  client: OrderingClient,
+  documentId: string,
+  parentId: string | null,
+  excludeId: string
+) {
+  return client.outline.findMany({
+    where: { documentId, parentId, deletedAt: null, id: { not: excludeId } },
+    select: { id: true, parentId: true, position: true },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+  })
+}
+
+/**
+ * Move an outline under `parentId` at `index` among its new siblings, and
+ * close the gap it leaves behind. `index` is clamped to the sibling count.
+ */
+export async function moveOutline(
+  client: OrderingClient,
+  outline: OrderedOutline,
+  parentId: string | null,
+  index: number
+) {
+  const siblings = await getLiveChildren(client, outline.documentId, parentId, outline.id)
+  const ids = siblings.map((sibling) => sibling.id)
+  ids.splice(Math.min(Math.max(index, 0), ids.length), 0, outline.id)
+
+  const current = new Map<string, OutlineTreeItem>([...siblings, outline].map((item) => [item.id, item]))
+  await writeSiblingOrder(client, parentId, ids, current)
+
+  if (outline.parentId !== parentId) {
+    const previous = await getLiveChildren(client, outline.documentId, outline.parentId, outline.id)
+    await writeSiblingOrder(
+      client,
+      outline.parentId,
+      previous.map((sibling) => sibling.id),
+      new Map(previous.map((item) => [item.id, item]))
+    )
+  }
+}
+
+/**
+ * Before an outline goes to the trash, lift its children into its place so
+ * they stay visible and numbered. Returns the number of children moved.
+ */
+export async function promoteOutlineChildren(client: OrderingClient, outline: OrderedOutline): Promise<number> {
+  const children = await getLiveChildren(client, outline.documentId, outline.id, outline.id)
+
+  await client.outline.updateMany({
+    where: {
+      documentId: outline.documentId,
+      parentId: outline.parentId,
+      deletedAt: null,
+      position: { gt: outline.position },
+    },
+    data: { position: { increment: children.length - 1 } },
+  })
+
+  for (const [offset, child] of children.entries()) {
+    await client.outline.update({
+      where: { id: child.id },
+      data: { parentId: outline.parentId, position: outline.position + offset },
+    })
+  }
+
+  return children.length
+}
+
+/**
+ * Where a restored outline goes: the end of its old parent if that is still
+ * live, otherwise the end of the top level
+ */
+export async function getRestorePlacement(
+  client: OrderingClient,
+  outline: OrderedOutline
+): Promise<{ parentId: string | null; position: number }> {
+  const parent = outline.parentId
+    ? await client.outline.findFirst({
+        where: { id: outline.parentId, deletedAt: null },
+        select: { id: true },
+      })
+    : null
+  const parentId = parent?.id ?? null
+
+  return { parentId, position: await getNextOutlinePosition(client, outline.documentId, parentId) }
+}
@@ -0,0 +1,154 @@
+import { publishOrgEvent } from "./realtime"
+import type { OutlinePresenceMode } from "./validation"
+
+/**
+ * Outline Presence
+ *
+ * Tracks who has an outline open, and whether they are viewing or editing
+ * it, so others can see before they start an edit that would conflict.
+ * Browsers send a heartbeat while an outline is open; entries expire when
+ * the heartbeats stop (e.g. the tab was closed). Presence is advisory: the
+ * version check on `PATCH /api/outlines/[id]` is what prevents lost updates.
+ *
+ * Entries are kept in process memory, like the default event broker, which
+ * suits a single Node instance. Every change is published as a
+ * `presence.changed` event with the outline's full list.
+ */
+
+export const PRESENCE_TTL_MS = 45_000
+const SWEEP_INTERVAL_MS = 15_000
+
+export interface PresenceUser {
+  id: string
+  name: string | null
+  email: string
+  image: string | null
+}
+
+export interface OutlinePresence {
+  outlineId: string
+  mode: OutlinePresenceMode
+  user: PresenceUser
+}
+
+interface PresenceEntry extends OutlinePresence {
+  expiresAt: number
+}
+
+// orgId -> `${outlineId}:${userId}` -> entry
+type PresenceMap = Map<string, Map<string, PresenceEntry>>
+
+const globalForPresence = globalThis as unknown as {
+  outlinePresence: PresenceMap | undefined
+  outlinePresenceSweeper: ReturnType<typeof setInterval> | undefined
+}
+
+function getPresenceMap(): PresenceMap {
+  if (!globalForPresence.outlinePresence) {
+    globalForPresence.outlinePresence = new Map()
+  }
+  return globalForPresence.outlinePresence
+}
+
+function toPresence({ outlineId, mode, user }: PresenceEntry): OutlinePresence {
+  return { outlineId, mode, user }
+}
+
+function listOutlinePresence(orgId: string, outlineId: string): OutlinePresence[] {
+  const entries = getPresenceMap().get(orgId)
+  if (!entries) {
+    return []
+  }
+  return [...entries.values()].filter((entry) => entry.outlineId === outlineId).map(toPresence)
+}
+
+async function publishPresence(orgId: string, outlineId: string) {
+  await publishOrgEvent({
+    type: "presence.changed",
+    organizationId: orgId,
+    outlineId,
+    presence: listOutlinePresence(orgId, outlineId),
+  })
+}
+
+/**
+ * Drop expired entries and return the outlines whose presence changed
+ */
+function pruneExpired(orgId: string, now = Date.now()): Set<string> {
+  const changed = new Set<string>()
+  const entries = getPresenceMap().get(orgId)
+  if (!entries) {
+    return changed
+  }
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      entries.delete(key)
+      changed.add(entry.outlineId)
+    }
+  }
+  if (entries.size === 0) {
+    getPresenceMap().delete(orgId)
+  }
+  return changed
+}
+
+// Without a sweep, a closed tab would stay listed until someone else's heartbeat
+function ensureSweeper() {
+  if (globalForPresence.outlinePresenceSweeper) {
+    return
+  }
+  const sweeper = setInterval(() => {
+    for (const orgId of [...getPresenceMap().keys()]) {
+      for (const outlineId of pruneExpired(orgId)) {
+        void publishPresence(orgId, outlineId)
+      }
+    }
+  }, SWEEP_INTERVAL_MS)
+  // Never keep the process alive just for presence
+  sweeper.unref?.()
+  globalForPresence.outlinePresenceSweeper = sweeper
+}
+
+/**
+ * Record a heartbeat. Only changes to who is present, or how, are published.
+ */
+export async function touchOutlinePresence(
+  orgId: string,
+  outlineId: string,
+  user: PresenceUser,
+  mode: OutlinePresenceMode
+) {
+  ensureSweeper()
+
+  const map = getPresenceMap()
+  const entries = map.get(orgId) ?? new Map<string, PresenceEntry>()
+  map.set(orgId, entries)
+
+  const key = `${outlineId}:${user.id}`
+  const previous = entries.get(key)
+  entries.set(key, { outlineId, mode, user, expiresAt: Date.now() + PRESENCE_TTL_MS })
+
+  if (!previous || previous.mode !== mode) {
+    await publishPresence(orgId, outlineId)
+  }
+}
+
+/**
+ * Remove a user from an outline, e.g. when they close it
+ */
+export async function clearOutlinePresence(orgId: string, outlineId: string, userId: string) {
+  const entries = getPresenceMap().get(orgId)
+  if (entries?.delete(`${outlineId}:${userId}`)) {
+    await publishPresence(orgId, outlineId)
+  }
+}
+
+/**
+ * Everyone present on any outline in an organization
+ */
+export function getOrgPresence(orgId: string): OutlinePresence[] {
+  for (const outlineId of pruneExpired(orgId)) {
+    void publishPresence(orgId, outlineId)
+  }
+  return [...(getPresenceMap().get(orgId)?.values() ?? [])].map(toPresence)
+}
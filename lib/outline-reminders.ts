@@ -0,0 +1,196 @@
+import { prisma } from "./prisma"
+import { isEmailServiceEnabled } from "./email-config"
+import { getFinalStatuses } from "./outline-config"
+import { publishNotificationEvent } from "./realtime"
+import { DEFAULT_DUE_SOON_DAYS, describeDueDate, toDueDateKey } from "./outline-due-dates"
+
+/**
+ * Outline Due Date Reminders
+ *
+ * `runOutlineReminders` sends an in-app notification (and an email when the
+ * email service is enabled) for every outline that is due soon and again
+ * once it is overdue. Each reminder goes out once per due date; changing the
+ * due date re-arms both. Outlines in their organization's last (done) status
+ * are skipped. The reminder goes to the outline's reviewer, or to the
+ * organization's owner when nobody reviews it.
+ *
+ * Run it daily through `GET /api/cron/outline-reminders` (protected by
+ * CRON_SECRET) or `npm run reminders:send`.
+ *
+ * Environment Variable: OUTLINE_DUE_SOON_DAYS
+ * - Default: 3
+ * - How many days ahead "due soon" reaches; must be a whole number of 0 or more
+ */
+
+export type OutlineReminderKind = "due_soon" | "overdue"
+
+export interface OutlineReminderResult {
+  dryRun: boolean
+  dueSoon: number
+  overdue: number
+  emails: number
+  reminders: { outlineId: string; kind: OutlineReminderKind; recipientId: string }[]
+}
+
+/**
+ * Number of days before the due date that counts as due soon
+ */
+export function getDueSoonDays(): number {
+  const envValue = process.env.OUTLINE_DUE_SOON_DAYS
+  const days = envValue ? Number.parseInt(envValue, 10) : Number.NaN
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_DUE_SOON_DAYS
+}
+
+/**
+ * Find outlines that need a reminder and send them. With `dryRun`, only
+ * reports what would be sent.
+ */
+export async function runOutlineReminders({
+  now = new Date(),
+  dryRun = false,
+}: { now?: Date; dryRun?: boolean } = {}): Promise<OutlineReminderResult> {
+  // Due dates are whole days in UTC, so "today" is too
+  const todayKey = now.toISOString().slice(0, 10)
+  const today = new Date(`${todayKey}T00:00:00.000Z`)
+  const dueSoonEnd = new Date(today)
+  dueSoonEnd.setUTCDate(dueSoonEnd.getUTCDate() + getDueSoonDays() + 1)
+
+  const candidates = await prisma.outline.findMany({
+    where: {
+      deletedAt: null,
+      organization: { deletedAt: null },
+      OR: [
+        { dueDate: { gte: today, lt: dueSoonEnd }, dueReminderSentAt: null },
+        { dueDate: { lt: today }, overdueReminderSentAt: null },
+      ],
+    },
+    select: {
+      id: true,
+      header: true,
+      status: true,
+      dueDate: true,
+      reviewerId: true,
+      organizationId: true,
+      documentId: true,
+      organization: { select: { id: true, name: true, ownerId: true } },
+    },
+    orderBy: { dueDate: "asc" },
+  })
+
+  const finalStatuses = await getFinalStatuses([...new Set(candidates.map((outline) => outline.organizationId))])
+
+  const reminders = candidates.flatMap((outline) =>
+    outline.dueDate && finalStatuses.get(outline.organizationId) !== outline.status
+      ? [
+          {
+            outline,
+            dueDate: outline.dueDate,
+            kind: (outline.dueDate < today ? "overdue" : "due_soon") as OutlineReminderKind,
+            recipientId: outline.reviewerId ?? outline.organization.ownerId,
+          },
+        ]
+      : []
+  )
+
+  const result: OutlineReminderResult = {
+    dryRun,
+    dueSoon: reminders.filter((reminder) => reminder.kind === "due_soon").length,
+    overdue: reminders.filter((reminder) => reminder.kind === "overdue").length,
+    emails: 0,
+    reminders: reminders.map(({ outline, kind, recipientId }) => ({ outlineId: outline.id, kind, recipientId })),
+  }
+
+  if (dryRun || reminders.length === 0) {
+    return result
+  }
+
+  const recipients = new Map(
+    (
+      await prisma.user.findMany({
+        where: { id: { in: [...new Set(reminders.map((reminder) => reminder.recipientId))] } },
+        select: { id: true, name: true, email: true },
+      })
+    ).map((user) => [user.id, user])
+  )
+
+  const messages = reminders.map(({ outline, dueDate, kind, recipientId }) => {
+    const dueDateKey = toDueDateKey(dueDate)
+    const description = describeDueDate(dueDate, todayKey).toLowerCase()
+    return {
+      outline,
+      kind,
+      recipient: recipients.get(recipientId),
+      title: kind === "overdue" ? "Outline Overdue" : "Outline Due Soon",
+      summary:
+        kind === "overdue"
+          ? `"${outline.header}" in "${outline.organization.name}" was due on ${dueDateKey} (${description})`
+          : `"${outline.header}" in "${outline.organization.name}" is due on ${dueDateKey} (${description})`,
+      dueDateKey,
+    }
+  })
+
+  // Reminders are marked as sent with the notifications, so a failed run is simply retried
+  await prisma.$transaction([
+    prisma.notification.createMany({
+      data: messages
+        .filter((message) => message.recipient)
+        .map(({ outline, kind, recipient, title, summary, dueDateKey }) => ({
+          type: kind === "overdue" ? "outline_overdue" : "outline_due_soon",
+          title,
+          message: summary,
+          userId: recipient!.id,
+          metadata: JSON.stringify({
+            organizationId: outline.organization.id,
+            organizationName: outline.organization.name,
+            documentId: outline.documentId,
+            outlineId: outline.id,
+            outlineHeader: outline.header,
+            status: outline.status,
+            dueDate: dueDateKey,
+          }),
+        })),
+    }),
+    prisma.outline.updateMany({
+      where: { id: { in: messages.filter((m) => m.kind === "due_soon").map((m) => m.outline.id) } },
+      data: { dueReminderSentAt: now },
+    }),
+    prisma.outline.updateMany({
+      where: { id: { in: messages.filter((m) => m.kind === "overdue").map((m) => m.outline.id) } },
+      data: { overdueReminderSentAt: now },
+    }),
+  ])
+
+  await publishNotificationEvent(...recipients.keys())
+
+  if (isEmailServiceEnabled()) {
+    const { sendEmail } = await import("./email")
+    const { getOutlineDueReminderTemplate } = await import("./email-templates")
+    const baseUrl = process.env.BETTER_AUTH_URL || "http://localhost:3000"
+
+    for (const { outline, kind, recipient, title, summary } of messages) {
+      if (!recipient) continue
+
+      const outlineUrl = `${baseUrl}/workspace/${outline.organization.id}/documents/${outline.documentId}?q=${encodeURIComponent(outline.header)}`
+      try {
+        const sent = await sendEmail({
+          to: recipient.email,
+          subject: `${title}: ${outline.header}`,
+          text: `Hi ${recipient.name || "there"},\n\n${summary}.\n\nOpen the outline:\n${outlineUrl}`,
+          html: getOutlineDueReminderTemplate(
+            outline.organization.name,
+            outline.header,
+            `${summary}.`,
+            outlineUrl,
+            kind === "overdue"
+          ),
+        })
+        if (sent.success) result.emails++
+      } catch (error) {
+        // The in-app notification is already stored; one bad address should not stop the rest
+        console.error(`Failed to email outline reminder for ${outline.id}:`, error)
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,42 @@
+import type { Prisma } from "@prisma/client"
+import type { PrismaTransactionClient } from "./prisma"
+
+/**
+ * Outline Reviewer Utilities
+ *
+ * An outline's reviewer is a member of its organization (`Outline.reviewerId`).
+ * Routes check membership with `verifyOrgMembership` before assigning, and
+ * outlines are unassigned when their reviewer leaves or is removed.
+ */
+
+/**
+ * Include the reviewer's public profile with an outline
+ */
+export const outlineReviewerInclude = {
+  reviewer: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    },
+  },
+} satisfies Prisma.OutlineInclude
+
+/**
+ * Unassign every outline in an organization reviewed by a departing member.
+ * Returns the number of outlines that were unassigned.
+ */
+export async function unassignReviewerOutlines(
+  tx: PrismaTransactionClient,
+  organizationId: string,
+  userId: string
+): Promise<number> {
+  const result = await tx.outline.updateMany({
+    where: { organizationId, reviewerId: userId },
+    // Bumped like any other edit so open editors see the change as a conflict
+    data: { reviewerId: null, version: { increment: 1 } },
+  })
+
+  return result.count
+}
@@ -0,0 +1,68 @@
+import type { Outline } from "@prisma/client"
+import type { PrismaTransactionClient } from "./prisma"
+
+/**
+ * Outline Revision Utilities
+ *
+ * Every create, update and restore stores a full snapshot of the outline so
+ * earlier versions can be compared and restored. Status changes are also
+ * kept on their own with the actor's comment. Both should be written with
+ * the same transaction client as the outline change.
+ */
+
+/**
+ * Outline fields kept in each revision, diffed between versions
+ */
+export const outlineRevisionFields = ["header", "sectionType", "status", "target", "limit", "reviewerId"] as const
+
+/**
+ * Store the current state of an outline as its next revision
+ */
+export async function recordOutlineRevision(
+  client: PrismaTransactionClient,
+  outline: Outline,
+  authorId: string | null,
+  restoredFromId: string | null = null
+) {
+  const latest = await client.outlineRevision.aggregate({
+    where: { outlineId: outline.id },
+    _max: { version: true },
+  })
+
+  return client.outlineRevision.create({
+    data: {
+      outlineId: outline.id,
+      version: (latest._max.version ?? 0) + 1,
+      header: outline.header,
+      sectionType: outline.sectionType,
+      status: outline.status,
+      target: outline.target,
+      limit: outline.limit,
+      reviewerId: outline.reviewerId,
+      authorId,
+      restoredFromId,
+    },
+  })
+}
+
+/**
+ * Store a status change with the user who made it and their comment
+ */
+export async function recordOutlineStatusChange(
+  client: PrismaTransactionClient,
+  outlineId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  actorId: string | null,
+  comment: string | null = null
+) {
+  return client.outlineStatusChange.create({
+    data: {
+      outlineId,
+      fromStatus,
+      toStatus,
+      actorId,
+      comment,
+    },
+  })
+}
@@ -0,0 +1,185 @@
+import type { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { getOutlineConfig } from "./outline-config"
+
+/**
+ * Outline Statistics
+ *
+ * Aggregate figures for an organization's dashboard, over all of its live
+ * outlines or one document's. Counts and sums are grouped in the database.
+ * The completion trend is rebuilt from status changes into and out of the
+ * organization's last (done) status, by UTC day, working back from how many
+ * outlines are done now.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface OutlineStats {
+  // The organization's last status, or null when it has none configured
+  doneStatus: string | null
+  totals: {
+    outlineCount: number
+    doneCount: number
+    target: number
+    limit: number
+    wordCount: number
+  }
+  // Configured statuses first, in order, then any left over from removed ones
+  byStatus: { status: string; count: number }[]
+  bySectionType: { sectionType: string; count: number; target: number; limit: number; wordCount: number }[]
+  // Most outlines first; `reviewer` is null for unassigned outlines
+  byReviewer: {
+    reviewer: { id: string; name: string | null; email: string; image: string | null } | null
+    count: number
+    doneCount: number
+  }[]
+  // One entry per day, oldest first; `done` is the count at the end of the day
+  trend: { date: string; completed: number; reopened: number; done: number }[]
+}
+
+function toDayKey(time: number) {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+// Configured values in their order (even when unused), then any others found
+function orderByConfig<T>(configured: string[], groups: Map<string, T>, empty: () => T): (T & { key: string })[] {
+  const keys = [...configured, ...[...groups.keys()].filter((key) => !configured.includes(key))]
+  return keys.map((key) => ({ key, ...(groups.get(key) ?? empty()) }))
+}
+
+/**
+ * Dashboard figures for an organization, or for one of its documents when
+ * `documentId` is given. The trend covers the last `days` days, today included.
+ */
+export async function getOutlineStats(
+  organizationId: string,
+  { documentId, days }: { documentId?: string; days: number }
+): Promise<OutlineStats> {
+  const where: Prisma.OutlineWhereInput = {
+    organizationId,
+    deletedAt: null,
+    ...(documentId ? { documentId } : {}),
+  }
+  const now = new Date()
+  const firstDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - (days - 1) * DAY_MS
+
+  const config = await getOutlineConfig(organizationId)
+  const doneStatus = config.statuses[config.statuses.length - 1] ?? null
+
+  const [totals, statusGroups, sectionTypeGroups, reviewerGroups, doneChanges] = await Promise.all([
+    prisma.outline.aggregate({
+      where,
+      _count: { _all: true },
+      _sum: { target: true, limit: true, wordCount: true },
+    }),
+    prisma.outline.groupBy({
+      by: ["status"],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.outline.groupBy({
+      by: ["sectionType"],
+      where,
+      _count: { _all: true },
+      _sum: { target: true, limit: true, wordCount: true },
+    }),
+    prisma.outline.groupBy({
+      by: ["reviewerId", "status"],
+      where,
+      _count: { _all: true },
+    }),
+    doneStatus
+      ? prisma.outlineStatusChange.findMany({
+          where: {
+            createdAt: { gte: new Date(firstDay) },
+            outline: where,
+            OR: [{ toStatus: doneStatus }, { fromStatus: doneStatus }],
+          },
+          select: { fromStatus: true, toStatus: true, createdAt: true },
+        })
+      : Promise.resolve([]),
+  ])
+
+  const byStatus = orderByConfig<{ count: number }>(
+    config.statuses,
+    new Map(statusGroups.map((group) => [group.status, { count: group._count._all }])),
+    () => ({ count: 0 })
+  ).map(({ key, count }) => ({ status: key, count }))
+
+  const bySectionType = orderByConfig<Omit<OutlineStats["bySectionType"][number], "sectionType">>(
+    config.sectionTypes,
+    new Map(
+      sectionTypeGroups.map((group) => [
+        group.sectionType,
+        {
+          count: group._count._all,
+          target: group._sum.target ?? 0,
+          limit: group._sum.limit ?? 0,
+          wordCount: group._sum.wordCount ?? 0,
+        },
+      ])
+    ),
+    () => ({ count: 0, target: 0, limit: 0, wordCount: 0 })
+  ).map(({ key, ...counts }) => ({ sectionType: key, ...counts }))
+
+  const reviewerCounts = new Map<string | null, { count: number; doneCount: number }>()
+  for (const group of reviewerGroups) {
+    const counts = reviewerCounts.get(group.reviewerId) ?? { count: 0, doneCount: 0 }
+    counts.count += group._count._all
+    if (group.status === doneStatus) {
+      counts.doneCount += group._count._all
+    }
+    reviewerCounts.set(group.reviewerId, counts)
+  }
+  const reviewerIds = [...reviewerCounts.keys()].filter((id): id is string => id !== null)
+  const reviewers = await prisma.user.findMany({
+    where: { id: { in: reviewerIds } },
+    select: { id: true, name: true, email: true, image: true },
+  })
+  const reviewersById = new Map(reviewers.map((reviewer) => [reviewer.id, reviewer]))
+  const byReviewer = [...reviewerCounts.entries()]
+    .map(([reviewerId, counts]) => ({
+      reviewer: reviewerId ? reviewersById.get(reviewerId) ?? null : null,
+      ...counts,
+    }))
+    .sort((a, b) => b.count - a.count)
+
+  const doneCount = statusGroups.find((group) => group.status === doneStatus)?._count._all ?? 0
+
+  const changesByDay = new Map<string, { completed: number; reopened: number }>()
+  for (const change of doneChanges) {
+    const key = toDayKey(change.createdAt.getTime())
+    const counts = changesByDay.get(key) ?? { completed: 0, reopened: 0 }
+    if (change.toStatus === doneStatus) {
+      counts.completed += 1
+    } else {
+      counts.reopened += 1
+    }
+    changesByDay.set(key, counts)
+  }
+
+  // Each day ends with today's count less everything that changed after it
+  const trend: OutlineStats["trend"] = []
+  let done = doneCount
+  for (let day = days - 1; day >= 0; day--) {
+    const date = toDayKey(firstDay + day * DAY_MS)
+    const { completed, reopened } = changesByDay.get(date) ?? { completed: 0, reopened: 0 }
+    trend.unshift({ date, completed, reopened, done })
+    done -= completed - reopened
+  }
+
+  return {
+    doneStatus,
+    totals: {
+      outlineCount: totals._count._all,
+      doneCount,
+      target: totals._sum.target ?? 0,
+      limit: totals._sum.limit ?? 0,
+      wordCount: totals._sum.wordCount ?? 0,
+    },
+    byStatus,
+    bySectionType,
+    byReviewer,
+    trend,
+  }
+}
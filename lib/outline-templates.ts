@@ -0,0 +1,322 @@
+import { prisma, type PrismaTransactionClient } from "./prisma"
+import { recordAuditEvent, diffFields, outlineAuditFields, type AuditContext } from "./audit"
+import { recordOutlineRevision, recordOutlineStatusChange } from "./outline-revisions"
+import { outlineReviewerInclude } from "./outline-reviewers"
+import { getNextOutlinePosition } from "./outline-ordering"
+import { buildOutlineTree, flattenOutlineTree, type OutlineTreeNode } from "./outline-tree"
+import type { OutlineConfig } from "./validation"
+
+/**
+ * Outline Templates
+ *
+ * A template is a reusable set of outline sections: headers, section types,
+ * targets and limits, nested and ordered like outlines. Built-in templates are
+ * defined here and offered to every organization; organizations save their
+ * own from a document's outlines as `OutlineTemplate` rows. Instantiating a
+ * template creates one outline per section, in the document's first status,
+ * after the document's existing top-level sections.
+ */
+
+interface TemplateSectionDefinition {
+  header: string
+  sectionType: string
+  target: number
+  limit: number
+  children?: TemplateSectionDefinition[]
+}
+
+interface BuiltInTemplateDefinition {
+  id: string
+  name: string
+  description: string
+  sections: TemplateSectionDefinition[]
+}
+
+// Built-in templates use the default section types, so organizations that
+// renamed theirs have to add them back before using these
+const builtInTemplates: BuiltInTemplateDefinition[] = [
+  {
+    id: "builtin-technical-proposal",
+    name: "Technical Proposal",
+    description: "A full technical proposal: summary, approach, design, capabilities and closing narrative",
+    sections: [
+      { header: "Table of Contents", sectionType: "Table of Contents", target: 100, limit: 200 },
+      { header: "Executive Summary", sectionType: "Executive Summary", target: 500, limit: 750 },
+      {
+        header: "Technical Approach",
+        sectionType: "Technical Approach",
+        target: 300,
+        limit: 500,
+        children: [
+          { header: "Methodology", sectionType: "Technical Approach", target: 800, limit: 1200 },
+          { header: "Work Plan and Schedule", sectionType: "Technical Approach", target: 600, limit: 900 },
+          { header: "Risk Management", sectionType: "Technical Approach", target: 400, limit: 600 },
+        ],
+      },
+      { header: "Solution Design", sectionType: "Design", target: 800, limit: 1200 },
+      {
+        header: "Capabilities",
+        sectionType: "Capabilities",
+        target: 200,
+        limit: 400,
+        children: [
+          { header: "Past Performance", sectionType: "Capabilities", target: 600, limit: 900 },
+          { header: "Key Personnel", sectionType: "Capabilities", target: 500, limit: 750 },
+        ],
+      },
+      { header: "Closing Statement", sectionType: "Narrative", target: 250, limit: 400 },
+    ],
+  },
+  {
+    id: "builtin-grant-application",
+    name: "Grant Application",
+    description: "Need, goals, evaluation and capacity sections for a funding application",
+    sections: [
+      { header: "Project Summary", sectionType: "Executive Summary", target: 300, limit: 500 },
+      { header: "Statement of Need", sectionType: "Narrative", target: 600, limit: 900 },
+      { header: "Goals and Objectives", sectionType: "Technical Approach", target: 500, limit: 750 },
+      { header: "Project Design and Activities", sectionType: "Design", target: 800, limit: 1200 },
+      { header: "Evaluation Plan", sectionType: "Technical Approach", target: 500, limit: 750 },
+      { header: "Organizational Capacity", sectionType: "Capabilities", target: 400, limit: 600 },
+      { header: "Budget Justification", sectionType: "Narrative", target: 400, limit: 600 },
+    ],
+  },
+  {
+    id: "builtin-capability-statement",
+    name: "Capability Statement",
+    description: "A short company overview of core competencies and past performance",
+    sections: [
+      { header: "Company Overview", sectionType: "Executive Summary", target: 200, limit: 300 },
+      { header: "Core Competencies", sectionType: "Capabilities", target: 250, limit: 400 },
+      { header: "Past Performance", sectionType: "Capabilities", target: 300, limit: 450 },
+      { header: "Differentiators", sectionType: "Focus Document", target: 150, limit: 250 },
+    ],
+  },
+]
+
+export interface OutlineTemplateSection {
+  id: string
+  parentId: string | null
+  position: number
+  header: string
+  sectionType: string
+  target: number
+  limit: number
+}
+
+export interface OutlineTemplate {
+  id: string
+  name: string
+  description: string | null
+  builtIn: boolean
+  // In section order, each with its number and depth as in the outline tree
+  sections: (OutlineTemplateSection & { number: string; depth: number })[]
+  createdBy: { id: string; name: string | null; email: string } | null
+  createdAt: Date | null
+}
+
+const templateInclude = {
+  sections: true,
+  createdBy: {
+    select: { id: true, name: true, email: true },
+  },
+} as const
+
+function orderSections(sections: OutlineTemplateSection[]): OutlineTemplate["sections"] {
+  return flattenOutlineTree(buildOutlineTree(sections)).map(({ children, ...section }) => section)
+}
+
+function toBuiltInTemplate(definition: BuiltInTemplateDefinition): OutlineTemplate {
+  const sections: OutlineTemplateSection[] = []
+  const addSections = (definitions: TemplateSectionDefinition[], parentId: string | null) => {
+    definitions.forEach(({ children, ...section }, position) => {
+      const id = `${definition.id}-${sections.length + 1}`
+      sections.push({ ...section, id, parentId, position })
+      addSections(children ?? [], id)
+    })
+  }
+  addSections(definition.sections, null)
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    builtIn: true,
+    sections: orderSections(sections),
+    createdBy: null,
+    createdAt: null,
+  }
+}
+
+function toSavedTemplate(template: {
+  id: string
+  name: string
+  description: string | null
+  sections: OutlineTemplateSection[]
+  createdBy: OutlineTemplate["createdBy"]
+  createdAt: Date
+}): OutlineTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    builtIn: false,
+    sections: orderSections(template.sections),
+    createdBy: template.createdBy,
+    createdAt: template.createdAt,
+  }
+}
+
+export function isBuiltInTemplateId(templateId: string) {
+  return builtInTemplates.some((template) => template.id === templateId)
+}
+
+/**
+ * Built-in templates first, then the organization's own, newest first
+ */
+export async function listOutlineTemplates(organizationId: string): Promise<OutlineTemplate[]> {
+  const saved = await prisma.outlineTemplate.findMany({
+    where: { organizationId },
+    include: templateInclude,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+  })
+
+  return [
+    ...builtInTemplates.map(toBuiltInTemplate),
+    ...saved.map(toSavedTemplate),
+  ]
+}
+
+/**
+ * Load a built-in template or one of the organization's, or null when there is none
+ */
+export async function findOutlineTemplate(
+  organizationId: string,
+  templateId: string
+): Promise<OutlineTemplate | null> {
+  const builtIn = builtInTemplates.find((template) => template.id === templateId)
+  if (builtIn) {
+    return toBuiltInTemplate(builtIn)
+  }
+
+  const template = await prisma.outlineTemplate.findUnique({
+    where: { id: templateId },
+    include: templateInclude,
+  })
+  if (!template || template.organizationId !== organizationId) {
+    return null
+  }
+
+  return toSavedTemplate(template)
+}
+
+/**
+ * Section types a template uses that the organization no longer has
+ */
+export function findMissingSectionTypes(template: OutlineTemplate, config: OutlineConfig): string[] {
+  const missing = new Set(
+    template.sections.map((section) => section.sectionType).filter((type) => !config.sectionTypes.includes(type))
+  )
+  return [...missing]
+}
+
+/**
+ * Save a document's live outlines as the sections of a new template, keeping
+ * their nesting and order. Returns the number of sections saved.
+ */
+export async function saveOutlineTemplateSections(
+  tx: PrismaTransactionClient,
+  templateId: string,
+  documentId: string
+): Promise<number> {
+  const outlines = await tx.outline.findMany({
+    where: { documentId, deletedAt: null },
+    select: { id: true, parentId: true, position: true, header: true, sectionType: true, target: true, limit: true },
+  })
+
+  const saveNodes = async (nodes: OutlineTreeNode<(typeof outlines)[number]>[], parentId: string | null) => {
+    for (const [position, node] of nodes.entries()) {
+      const section = await tx.outlineTemplateSection.create({
+        data: {
+          templateId,
+          header: node.header,
+          sectionType: node.sectionType,
+          target: node.target,
+          limit: node.limit,
+          parentId,
+          position,
+        },
+        select: { id: true },
+      })
+      await saveNodes(node.children, section.id)
+    }
+  }
+  await saveNodes(buildOutlineTree(outlines), null)
+
+  return outlines.length
+}
+
+/**
+ * Create an outline for every section of a template in a document, each
+ * recorded like a newly created outline. Pass the transaction client of the
+ * surrounding change so the template goes in whole or not at all.
+ */
+export async function instantiateOutlineTemplate(
+  tx: PrismaTransactionClient,
+  auditContext: AuditContext,
+  {
+    organizationId,
+    documentId,
+    template,
+    status,
+  }: {
+    organizationId: string
+    documentId: string
+    template: OutlineTemplate
+    // The organization's first status
+    status: string
+  }
+) {
+  const firstPosition = await getNextOutlinePosition(tx, documentId, null)
+  const created = []
+
+  // Depth first, so each section is created right after its parent and the
+  // parent's new ID is known
+  const pending: { node: OutlineTreeNode<OutlineTemplateSection>; parentId: string | null; position: number }[] =
+    buildOutlineTree(template.sections).map((node, index) => ({ node, parentId: null, position: firstPosition + index }))
+
+  while (pending.length > 0) {
+    const { node, parentId, position } = pending.shift()!
+    const outline = await tx.outline.create({
+      data: {
+        organizationId,
+        documentId,
+        header: node.header,
+        sectionType: node.sectionType,
+        status,
+        target: node.target,
+        limit: node.limit,
+        parentId,
+        position,
+      },
+      include: outlineReviewerInclude,
+    })
+
+    await recordOutlineRevision(tx, outline, auditContext.actorId)
+    await recordOutlineStatusChange(tx, outline.id, null, outline.status, auditContext.actorId)
+
+    await recordAuditEvent(tx, auditContext, {
+      organizationId,
+      action: "outline.created",
+      targetType: "outline",
+      targetId: outline.id,
+      changes: diffFields(null, outline, outlineAuditFields),
+      metadata: { source: "template", templateId: template.id },
+    })
+
+    created.push(outline)
+    pending.unshift(...node.children.map((child, index) => ({ node: child, parentId: outline.id, position: index })))
+  }
+
+  return created
+}
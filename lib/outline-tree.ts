@@ -0,0 +1,77 @@
+/**
+ * Outline Tree
+ *
+ * Outlines nest through `parentId` and are ordered among their siblings by
+ * `position`. Section numbers (1, 1.1, 1.2, 2, ...) are derived from that
+ * order and never stored. These helpers are shared by the API and the UI.
+ */
+
+export interface OutlineTreeItem {
+  id: string
+  parentId: string | null
+  position: number
+}
+
+export type OutlineTreeNode<T extends OutlineTreeItem> = T & {
+  number: string
+  depth: number
+  children: OutlineTreeNode<T>[]
+}
+
+/**
+ * Nest a flat list of outlines. Outlines whose parent is not in the list are
+ * treated as top-level so a partial list still renders.
+ */
+export function buildOutlineTree<T extends OutlineTreeItem>(outlines: T[]): OutlineTreeNode<T>[] {
+  const ids = new Set(outlines.map((outline) => outline.id))
+  const childrenOf = new Map<string | null, T[]>()
+
+  for (const outline of outlines) {
+    const parentId = outline.parentId && ids.has(outline.parentId) ? outline.parentId : null
+    const siblings = childrenOf.get(parentId) ?? []
+    siblings.push(outline)
+    childrenOf.set(parentId, siblings)
+  }
+
+  const build = (parentId: string | null, prefix: string, depth: number): OutlineTreeNode<T>[] =>
+    (childrenOf.get(parentId) ?? [])
+      .sort((a, b) => a.position - b.position || a.id.localeCompare(b.id))
+      .map((outline, index) => {
+        const number = prefix ? `${prefix}.${index + 1}` : String(index + 1)
+        return { ...outline, number, depth, children: build(outline.id, number, depth + 1) }
+      })
+
+  return build(null, "", 0)
+}
+
+/**
+ * Flatten a tree back into display order (each parent before its children)
+ */
+export function flattenOutlineTree<T extends OutlineTreeItem>(nodes: OutlineTreeNode<T>[]): OutlineTreeNode<T>[] {
+  return nodes.flatMap((node) => [node, ...flattenOutlineTree(node.children)])
+}
+
+/**
+ * Section number of every outline, keyed by ID
+ */
+export function getSectionNumbers(outlines: OutlineTreeItem[]): Map<string, string> {
+  return new Map(flattenOutlineTree(buildOutlineTree(outlines)).map((node) => [node.id, node.number]))
+}
+
+/**
+ * IDs of an outline and everything nested under it
+ */
+export function getSubtreeIds(outlines: OutlineTreeItem[], id: string): Set<string> {
+  const subtree = new Set([id])
+  let added = true
+  while (added) {
+    added = false
+    for (const outline of outlines) {
+      if (outline.parentId && subtree.has(outline.parentId) && !subtree.has(outline.id)) {
+        subtree.add(outline.id)
+        added = true
+      }
+    }
+  }
+  return subtree
+}
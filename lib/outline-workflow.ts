@@ -0,0 +1,75 @@
+/**
+ * Outline Status Workflow
+ *
+ * Each organization defines which status changes are allowed as a list of
+ * transitions. A transition can require the outline's assigned reviewer, which
+ * is how approvals work: only the reviewer can move an outline into an
+ * approval status. These helpers are shared by the API and the UI.
+ */
+
+export interface OutlineStatusTransition {
+  from: string
+  to: string
+  requiresReviewer: boolean
+}
+
+/**
+ * Workflow new organizations start with, using DEFAULT_OUTLINE_STATUSES
+ */
+export const DEFAULT_OUTLINE_TRANSITIONS: OutlineStatusTransition[] = [
+  { from: "Draft", to: "In-Progress", requiresReviewer: false },
+  { from: "In-Progress", to: "Draft", requiresReviewer: false },
+  { from: "In-Progress", to: "In Review", requiresReviewer: false },
+  { from: "In Review", to: "In-Progress", requiresReviewer: false },
+  { from: "In Review", to: "Changes Requested", requiresReviewer: true },
+  { from: "In Review", to: "Approved", requiresReviewer: true },
+  { from: "Changes Requested", to: "In-Progress", requiresReviewer: false },
+  { from: "Approved", to: "In-Progress", requiresReviewer: false },
+]
+
+export type StatusTransitionError = {
+  code: "INVALID_TRANSITION" | "REVIEWER_REQUIRED" | "NOT_REVIEWER"
+  message: string
+}
+
+/**
+ * Transitions out of a status. Pass `isReviewer` to drop the ones the user
+ * cannot take; leave it out to list every configured transition.
+ */
+export function getNextTransitions(
+  transitions: OutlineStatusTransition[],
+  from: string,
+  isReviewer?: boolean
+): OutlineStatusTransition[] {
+  return transitions.filter(
+    (transition) => transition.from === from && (isReviewer === undefined || isReviewer || !transition.requiresReviewer)
+  )
+}
+
+/**
+ * Check whether a user may move an outline from its current status to `to`.
+ * Returns null when the change is allowed.
+ */
+export function checkStatusTransition(
+  transitions: OutlineStatusTransition[],
+  outline: { status: string; reviewerId: string | null },
+  to: string,
+  userId: string
+): StatusTransitionError | null {
+  const transition = transitions.find((t) => t.from === outline.status && t.to === to)
+
+  if (!transition) {
+    return { code: "INVALID_TRANSITION", message: `Cannot move an outline from ${outline.status} to ${to}` }
+  }
+
+  if (transition.requiresReviewer) {
+    if (!outline.reviewerId) {
+      return { code: "REVIEWER_REQUIRED", message: `Assign a reviewer before moving this outline to ${to}` }
+    }
+    if (outline.reviewerId !== userId) {
+      return { code: "NOT_REVIEWER", message: `Only the assigned reviewer can move this outline to ${to}` }
+    }
+  }
+
+  return null
+}
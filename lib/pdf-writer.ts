@@ -0,0 +1,541 @@
+import { deflateSync } from "node:zlib"
+import type { DocumentBlock, TextRun } from "./document-blocks"
+
+/**
+ * PDF Writer
+ *
+ * Renders document blocks as an A4 PDF using the standard Helvetica and
+ * Courier fonts, which every viewer has, so nothing is embedded. Text is
+ * WinAnsi-encoded; characters outside it are printed as "?". Server-only.
+ */
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const FOOTER_Y = 30
+
+type FontKey = "F1" | "F2" | "F3" | "F4" | "F5"
+
+const FONTS: Record<FontKey, string> = {
+  F1: "Helvetica",
+  F2: "Helvetica-Bold",
+  F3: "Helvetica-Oblique",
+  F4: "Helvetica-BoldOblique",
+  F5: "Courier",
+}
+
+// Advance widths (1/1000 em) of characters 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+]
+// Widths of the WinAnsi punctuation above 127 that outline text commonly uses
+const SPECIAL_WIDTHS: Record<number, number> = {
+  0x85: 1000,
+  0x91: 222,
+  0x92: 222,
+  0x93: 333,
+  0x94: 333,
+  0x95: 350,
+  0x96: 556,
+  0x97: 1000,
+  0xa0: 278,
+  0xb7: 278,
+}
+
+// WinAnsi bytes 0x80-0x9f, which differ from Latin-1
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88, "‰": 0x89, "Š": 0x8a,
+  "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+  "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+}
+
+/**
+ * Map text to WinAnsi, one character per byte
+ */
+function toWinAnsi(text: string): string {
+  let encoded = ""
+  for (const char of text.replace(/\t/g, "    ")) {
+    const code = char.codePointAt(0) ?? 0
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      encoded += char
+    } else if (WIN_ANSI[char]) {
+      encoded += String.fromCharCode(WIN_ANSI[char])
+    } else if (code >= 0x20) {
+      encoded += "?"
+    }
+  }
+  return encoded
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, "\\$&").replace(/\r/g, "\\r").replace(/\n/g, "\\n")
+}
+
+function textWidth(text: string, font: FontKey, size: number): number {
+  if (font === "F5") {
+    return text.length * 0.6 * size
+  }
+  const widths = font === "F2" || font === "F4" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let total = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    total += code >= 32 && code <= 126 ? widths[code - 32] : SPECIAL_WIDTHS[code] ?? 556
+  }
+  return (total / 1000) * size
+}
+
+type Color = [number, number, number]
+
+const BLACK: Color = [0.1, 0.1, 0.1]
+const GRAY: Color = [0.45, 0.45, 0.45]
+const LINK: Color = [0.02, 0.39, 0.76]
+
+interface TextStyle {
+  font: FontKey
+  size: number
+  color: Color
+  underline?: boolean
+  strike?: boolean
+  link?: string
+}
+
+interface Piece extends TextStyle {
+  text: string // WinAnsi-encoded
+  width: number
+}
+
+function styleOf(run: TextRun, base: TextStyle): TextStyle {
+  const bold = run.bold || base.font === "F2" || base.font === "F4"
+  const italic = run.italic || base.font === "F3" || base.font === "F4"
+  const font: FontKey = run.code || base.font === "F5" ? "F5" : bold && italic ? "F4" : bold ? "F2" : italic ? "F3" : "F1"
+  return {
+    font,
+    // Courier looks larger than Helvetica at the same size
+    size: font === "F5" && base.font !== "F5" ? base.size * 0.9 : base.size,
+    color: run.link ? LINK : base.color,
+    underline: run.underline || !!run.link,
+    strike: run.strike,
+    link: run.link,
+  }
+}
+
+/**
+ * Break runs into lines no wider than `maxWidth`. Spaces are collapsed at
+ * line edges unless `preserveSpaces` is set (code blocks).
+ */
+function wrapRuns(runs: TextRun[], base: TextStyle, maxWidth: number, preserveSpaces = false): Piece[][] {
+  const lines: Piece[][] = []
+  let line: Piece[] = []
+  let width = 0
+
+  const endLine = () => {
+    if (!preserveSpaces) {
+      while (line.length > 0 && !line[line.length - 1].text.trim()) {
+        width -= line.pop()!.width
+      }
+    }
+    lines.push(line)
+    line = []
+    width = 0
+  }
+
+  const add = (text: string, style: TextStyle) => {
+    const pieceWidth = textWidth(text, style.font, style.size)
+    line.push({ ...style, text, width: pieceWidth })
+    width += pieceWidth
+  }
+
+  for (const run of runs) {
+    const style = styleOf(run, base)
+    for (const [index, text] of run.text.split("\n").map(toWinAnsi).entries()) {
+      if (index > 0) {
+        endLine()
+      }
+      for (const token of text.split(/( +)/)) {
+        if (!token) {
+          continue
+        }
+        if (!token.trim()) {
+          if (line.length > 0 || preserveSpaces) {
+            add(token, style)
+          }
+          continue
+        }
+
+        let word = token
+        let wordWidth = textWidth(word, style.font, style.size)
+        if (width + wordWidth > maxWidth && line.length > 0) {
+          endLine()
+        }
+        // Words longer than a whole line are split wherever they overflow
+        while (wordWidth > maxWidth) {
+          let fit = word.length - 1
+          while (fit > 1 && textWidth(word.slice(0, fit), style.font, style.size) > maxWidth) {
+            fit--
+          }
+          add(word.slice(0, fit), style)
+          endLine()
+          word = word.slice(fit)
+          wordWidth = textWidth(word, style.font, style.size)
+        }
+        add(word, style)
+      }
+    }
+  }
+  if (line.length > 0) {
+    endLine()
+  }
+
+  return lines
+}
+
+function colorOperator(color: Color, operator: "rg" | "RG"): string {
+  return `${color.map((value) => value.toFixed(2)).join(" ")} ${operator}`
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+interface Annotation {
+  rect: [number, number, number, number]
+  uri: string
+}
+
+class PdfLayout {
+  pages: { operations: string[]; annotations: Annotation[] }[] = []
+  private y = 0
+
+  constructor() {
+    this.newPage()
+  }
+
+  private get page() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  get isPageEmpty(): boolean {
+    return this.page.operations.length === 0
+  }
+
+  newPage() {
+    this.pages.push({ operations: [], annotations: [] })
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  /**
+   * Start a new page unless `height` still fits on this one
+   */
+  ensureSpace(height: number) {
+    if (!this.fits(height) && !this.isPageEmpty) {
+      this.newPage()
+    }
+  }
+
+  fits(height: number): boolean {
+    return this.y - height >= MARGIN
+  }
+
+  space(height: number) {
+    if (!this.isPageEmpty) {
+      this.y -= height
+    }
+  }
+
+  text(x: number, baseline: number, piece: Omit<Piece, "width">) {
+    this.page.operations.push(
+      `BT /${piece.font} ${formatNumber(piece.size)} Tf ${colorOperator(piece.color, "rg")} ` +
+        `${formatNumber(x)} ${formatNumber(baseline)} Td (${escapePdfString(piece.text)}) Tj ET`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: Color, mode: "f" | "S") {
+    this.page.operations.push(
+      `${colorOperator(color, mode === "f" ? "rg" : "RG")} 0.5 w ` +
+        `${[x, y, width, height].map(formatNumber).join(" ")} re ${mode}`
+    )
+  }
+
+  /**
+   * Draw wrapped lines starting at the current position, moving to a new
+   * page whenever the next line would not fit
+   */
+  lines(lines: Piece[][], x: number, lineHeight: number, decorate?: (top: number) => void) {
+    for (const line of lines) {
+      this.ensureSpace(lineHeight)
+      const top = this.y
+      decorate?.(top)
+      const size = Math.max(...line.map((piece) => piece.size), 0)
+      const baseline = top - lineHeight + (lineHeight - size) / 2 + size * 0.22
+      let cursor = x
+      for (const piece of line) {
+        if (piece.text.trim()) {
+          this.text(cursor, baseline, piece)
+        }
+        if (piece.underline || piece.strike) {
+          const offset = piece.underline ? -piece.size * 0.12 : piece.size * 0.3
+          this.rect(cursor, baseline + offset, piece.width, piece.size * 0.05, piece.color, "f")
+        }
+        if (piece.link) {
+          this.page.annotations.push({
+            rect: [cursor, baseline - piece.size * 0.2, cursor + piece.width, baseline + piece.size * 0.8],
+            uri: piece.link,
+          })
+        }
+        cursor += piece.width
+      }
+      this.y -= lineHeight
+    }
+  }
+
+  moveTo(y: number) {
+    this.y = y
+  }
+
+  get cursor(): number {
+    return this.y
+  }
+}
+
+const HEADING_STYLES = {
+  1: { size: 20, before: 0, after: 10 },
+  2: { size: 15, before: 18, after: 6 },
+  3: { size: 12.5, before: 12, after: 4 },
+  4: { size: 11, before: 8, after: 3 },
+}
+const BODY_SIZE = 10.5
+const TABLE_SIZE = 8.5
+const CELL_PADDING = 4
+const HEADER_FILL: Color = [0.95, 0.95, 0.95]
+
+function renderTable(layout: PdfLayout, header: string[], rows: string[][]) {
+  const headerStyle: TextStyle = { font: "F2", size: TABLE_SIZE, color: BLACK }
+  const cellStyle: TextStyle = { font: "F1", size: TABLE_SIZE, color: BLACK }
+  const lineHeight = TABLE_SIZE * 1.3
+
+  // Columns share the width in proportion to their content, within limits
+  const natural = header.map((title, column) =>
+    Math.min(
+      180,
+      Math.max(
+        textWidth(toWinAnsi(title), "F2", TABLE_SIZE),
+        ...rows.map((row) => textWidth(toWinAnsi(row[column] ?? ""), "F1", TABLE_SIZE))
+      ) +
+        CELL_PADDING * 2
+    )
+  )
+  const total = natural.reduce((sum, width) => sum + width, 0)
+  const widths = natural.map((width) => (width / total) * CONTENT_WIDTH)
+
+  const drawRow = (cells: string[], style: TextStyle, fill?: Color) => {
+    const wrapped = cells.map((cell, column) => wrapRuns([{ text: cell }], style, widths[column] - CELL_PADDING * 2))
+    const height = Math.max(1, ...wrapped.map((lines) => lines.length)) * lineHeight + CELL_PADDING * 2
+    const top = layout.cursor
+    let x = MARGIN
+    wrapped.forEach((lines, column) => {
+      if (fill) {
+        layout.rect(x, top - height, widths[column], height, fill, "f")
+      }
+      layout.rect(x, top - height, widths[column], height, [0.75, 0.75, 0.75], "S")
+      layout.moveTo(top - CELL_PADDING)
+      layout.lines(lines, x + CELL_PADDING, lineHeight)
+      x += widths[column]
+    })
+    layout.moveTo(top - height)
+  }
+  const rowHeight = (cells: string[], style: TextStyle) =>
+    Math.max(1, ...cells.map((cell, column) => wrapRuns([{ text: cell }], style, widths[column] - CELL_PADDING * 2).length)) *
+      lineHeight +
+    CELL_PADDING * 2
+
+  const headerHeight = rowHeight(header, headerStyle)
+  layout.ensureSpace(headerHeight + lineHeight * 3)
+  drawRow(header, headerStyle, HEADER_FILL)
+  for (const row of rows) {
+    // Rows are never split; the header is repeated at the top of each new page
+    if (!layout.fits(rowHeight(row, cellStyle))) {
+      layout.newPage()
+      drawRow(header, headerStyle, HEADER_FILL)
+    }
+    drawRow(row, cellStyle)
+  }
+}
+
+function renderBlock(layout: PdfLayout, block: DocumentBlock) {
+  switch (block.type) {
+    case "heading": {
+      const style = HEADING_STYLES[block.level]
+      const lineHeight = style.size * 1.3
+      layout.space(style.before)
+      // Keep a heading with at least the first lines that follow it
+      layout.ensureSpace(lineHeight + BODY_SIZE * 1.45 * 2)
+      layout.lines(wrapRuns([{ text: block.text }], { font: "F2", size: style.size, color: BLACK }, CONTENT_WIDTH), MARGIN, lineHeight)
+      layout.space(style.after)
+      break
+    }
+    case "paragraph": {
+      const lineHeight = BODY_SIZE * 1.45
+      if (block.style === "code") {
+        const codeStyle: TextStyle = { font: "F5", size: BODY_SIZE * 0.85, color: BLACK }
+        const codeHeight = codeStyle.size * 1.35
+        layout.lines(wrapRuns(block.runs, codeStyle, CONTENT_WIDTH - 12, true), MARGIN + 6, codeHeight, (top) =>
+          layout.rect(MARGIN, top - codeHeight, CONTENT_WIDTH, codeHeight, [0.95, 0.95, 0.95], "f")
+        )
+      } else if (block.style === "quote") {
+        const quoteStyle: TextStyle = { font: "F3", size: BODY_SIZE, color: GRAY }
+        layout.lines(wrapRuns(block.runs, quoteStyle, CONTENT_WIDTH - 18), MARGIN + 18, lineHeight, (top) =>
+          layout.rect(MARGIN + 4, top - lineHeight, 2, lineHeight, [0.8, 0.8, 0.8], "f")
+        )
+      } else {
+        const color = block.style === "muted" ? GRAY : BLACK
+        layout.lines(wrapRuns(block.runs, { font: "F1", size: BODY_SIZE, color }, CONTENT_WIDTH), MARGIN, lineHeight)
+      }
+      layout.space(6)
+      break
+    }
+    case "list_item": {
+      const lineHeight = BODY_SIZE * 1.45
+      const indent = MARGIN + 16 * (block.depth + 1)
+      const marker = block.ordered ? `${block.index}.` : "•"
+      const lines = wrapRuns(block.runs, { font: "F1", size: BODY_SIZE, color: BLACK }, PAGE_WIDTH - MARGIN - indent)
+      let first = true
+      layout.lines(lines, indent, lineHeight, (top) => {
+        if (first) {
+          const text = toWinAnsi(marker)
+          const x = indent - 5 - textWidth(text, "F1", BODY_SIZE)
+          layout.text(x, top - lineHeight + (lineHeight - BODY_SIZE) / 2 + BODY_SIZE * 0.22, {
+            text,
+            font: "F1",
+            size: BODY_SIZE,
+            color: BLACK,
+          })
+          first = false
+        }
+      })
+      layout.space(3)
+      break
+    }
+    case "table":
+      renderTable(layout, block.header, block.rows)
+      layout.space(8)
+      break
+    case "page_break":
+      if (!layout.isPageEmpty) {
+        layout.newPage()
+      }
+      break
+  }
+}
+
+/**
+ * A text string for the document information dictionary
+ */
+function pdfTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${escapePdfString(text)})`
+  }
+  const utf16 = Buffer.from(text, "utf16le").swap16().toString("hex")
+  return `<FEFF${utf16.toUpperCase()}>`
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`
+}
+
+/**
+ * Render document blocks as a PDF file
+ */
+export function renderPdf(title: string, blocks: DocumentBlock[], createdAt = new Date()): Buffer {
+  const layout = new PdfLayout()
+  for (const block of blocks) {
+    renderBlock(layout, block)
+  }
+
+  const pageCount = layout.pages.length
+  const fontKeys = Object.keys(FONTS) as FontKey[]
+  const firstPageObject = 4 + fontKeys.length
+  const objects: (string | Buffer)[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${layout.pages.map((_, index) => `${firstPageObject + index * 2} 0 R`).join(" ")}] /Count ${pageCount} >>`,
+    `<< /Title ${pdfTextString(title)} /Producer (Workspace App) /CreationDate (${pdfDate(createdAt)}) >>`,
+    ...fontKeys.map(
+      (key) => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[key]} /Encoding /WinAnsiEncoding >>`
+    ),
+  ]
+  const fontResources = fontKeys.map((key, index) => `/${key} ${4 + index} 0 R`).join(" ")
+
+  layout.pages.forEach((page, index) => {
+    const footer = toWinAnsi(`${index + 1} / ${pageCount}`)
+    const footerX = (PAGE_WIDTH - textWidth(footer, "F1", 8)) / 2
+    const operations = [
+      ...page.operations,
+      `BT /F1 8 Tf ${colorOperator(GRAY, "rg")} ${formatNumber(footerX)} ${FOOTER_Y} Td (${escapePdfString(footer)}) Tj ET`,
+    ]
+    const annotations = page.annotations
+      .map(
+        ({ rect, uri }) =>
+          `<< /Type /Annot /Subtype /Link /Rect [${rect.map(formatNumber).join(" ")}] /Border [0 0 0] ` +
+          `/A << /S /URI /URI (${escapePdfString(uri.replace(/[^\x20-\x7e]+/gu, encodeURIComponent))}) >> >>`
+      )
+      .join(" ")
+    const contentObject = firstPageObject + index * 2 + 1
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentObject} 0 R` +
+        `${annotations ? ` /Annots [${annotations}]` : ""} >>`
+    )
+
+    const stream = deflateSync(Buffer.from(operations.join("\n"), "latin1"))
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+        stream,
+        Buffer.from("\nendstream", "latin1"),
+      ])
+    )
+  })
+
+  // The binary comment marks the file as binary for transfer tools
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")]
+  let length = chunks[0].length
+  const offsets: number[] = []
+
+  objects.forEach((object, index) => {
+    offsets.push(length)
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      typeof object === "string" ? Buffer.from(object, "latin1") : object,
+      Buffer.from("\nendobj\n", "latin1"),
+    ])
+    chunks.push(chunk)
+    length += chunk.length
+  })
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ]
+  chunks.push(Buffer.from(`${xref.join("\n")}\n`, "latin1"))
+
+  return Buffer.concat(chunks)
+}
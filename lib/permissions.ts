@@ -0,0 +1,134 @@
+/**
+ * Role-Based Permissions
+ *
+ * Central permission matrix for organization roles. API routes should
+ * check actions through `requirePermission` in `lib/auth-utils.ts`
+ * instead of comparing roles directly.
+ *
+ * This module has no server-only imports so client components can use
+ * it to decide which controls to render.
+ */
+
+export const organizationRoles = ["owner", "admin", "editor", "reviewer", "viewer"] as const
+
+export type OrganizationRole = (typeof organizationRoles)[number]
+
+/**
+ * Roles that can be granted through invitations or role changes.
+ * Ownership is never assigned directly.
+ */
+export const assignableRoles = ["admin", "editor", "reviewer", "viewer"] as const
+
+export type AssignableRole = (typeof assignableRoles)[number]
+
+export const DEFAULT_MEMBER_ROLE: AssignableRole = "viewer"
+
+export const permissionActions = [
+  "document:create",
+  "document:update",
+  "document:delete",
+  "outline:read",
+  "outline:create",
+  "outline:update",
+  "outline:review",
+  "outline:delete",
+  "template:create",
+  "template:delete",
+  "member:read",
+  "member:invite",
+  "member:remove",
+  "member:update-role",
+  "org:update",
+  "org:delete",
+  "org:transfer",
+  "audit:read",
+] as const
+
+export type PermissionAction = (typeof permissionActions)[number]
+
+const rolePermissions: Record<OrganizationRole, readonly PermissionAction[]> = {
+  owner: permissionActions,
+  admin: [
+    "document:create",
+    "document:update",
+    "document:delete",
+    "outline:read",
+    "outline:create",
+    "outline:update",
+    "outline:review",
+    "outline:delete",
+    "template:create",
+    "template:delete",
+    "member:read",
+    "member:invite",
+    "member:remove",
+    "member:update-role",
+    "org:update",
+  ],
+  editor: [
+    "document:create",
+    "document:update",
+    "document:delete",
+    "outline:read",
+    "outline:create",
+    "outline:update",
+    "outline:review",
+    "outline:delete",
+    "template:create",
+    "template:delete",
+    "member:read",
+  ],
+  reviewer: ["outline:read", "outline:review", "member:read"],
+  viewer: ["outline:read", "member:read"],
+}
+
+export const roleLabels: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  editor: "Editor",
+  reviewer: "Reviewer",
+  viewer: "Viewer",
+}
+
+/**
+ * Normalize a stored role string to a known role.
+ * Legacy "member" rows and unknown values fall back to the default role.
+ */
+export function normalizeRole(role: string | null | undefined): OrganizationRole {
+  if (role && (organizationRoles as readonly string[]).includes(role)) {
+    return role as OrganizationRole
+  }
+  return DEFAULT_MEMBER_ROLE
+}
+
+/**
+ * Check whether a role is allowed to perform an action
+ */
+export function hasPermission(role: string | null | undefined, action: PermissionAction): boolean {
+  return rolePermissions[normalizeRole(role)].includes(action)
+}
+
+/**
+ * List every action a role is allowed to perform
+ */
+export function getRolePermissions(role: string | null | undefined): PermissionAction[] {
+  return [...rolePermissions[normalizeRole(role)]]
+}
+
+/**
+ * Get a display label for a stored role string
+ */
+export function getRoleLabel(role: string | null | undefined): string {
+  return roleLabels[normalizeRole(role)]
+}
+
+/**
+ * Error thrown when a user lacks permission for an action.
+ * `handleApiError` maps it to a 403 response.
+ */
+export class PermissionError extends Error {
+  constructor(message: string = "You do not have permission to perform this action") {
+    super(message)
+    this.name = "PermissionError"
+  }
+}
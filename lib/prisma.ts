@@ -23,3 +23,6 @@ if (process.env.NODE_ENV !== "production") {
   globalForPrisma.prisma = prisma
 }
 
+
+// Type helper for Prisma interactive transaction clients
+export type PrismaTransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
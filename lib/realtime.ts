@@ -0,0 +1,144 @@
+import { EventEmitter } from "events"
+import type { OutlinePresence } from "./outline-presence"
+
+/**
+ * Real-time Events
+ *
+ * Routes publish a small event after a change has been committed, and
+ * `GET /api/events` streams the events for the signed-in user and the
+ * organization they have open to the browser over Server-Sent Events.
+ * Events only say what changed; clients refetch through the regular APIs,
+ * so every read still goes through the usual permission checks. Presence
+ * events are the exception and carry their (small) state with them.
+ *
+ * Events pass through an `EventBroker`. The default broker lives in this
+ * process, which is all a single Node instance needs. Deployments with
+ * several instances can register a shared broker (e.g. Redis pub/sub) with
+ * `setEventBroker` at startup without touching the publishers.
+ */
+
+export type RealtimeEvent =
+  | {
+      type: "outline.created" | "outline.updated" | "outline.deleted"
+      organizationId: string
+      outlineIds: string[]
+      actorId: string
+    }
+  | {
+      type: "document.changed"
+      organizationId: string
+      documentId: string
+      change: "created" | "updated" | "deleted"
+      actorId: string
+    }
+  | {
+      type: "member.changed"
+      organizationId: string
+      // The member who joined, left, was removed or had their role changed
+      userId: string
+      change: "joined" | "left" | "removed" | "role_changed"
+      actorId: string
+    }
+  | {
+      type: "comment.changed"
+      organizationId: string
+      outlineId: string
+      actorId: string
+    }
+  | {
+      type: "presence.changed"
+      organizationId: string
+      outlineId: string
+      // Everyone who now has the outline open
+      presence: OutlinePresence[]
+    }
+  | { type: "notification.created" }
+
+export type RealtimeEventType = RealtimeEvent["type"]
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+export interface EventBroker {
+  publish(channel: string, event: RealtimeEvent): void | Promise<void>
+  /**
+   * Returns a function that removes the listener
+   */
+  subscribe(channel: string, listener: RealtimeListener): () => void
+}
+
+/**
+ * Delivers events to subscribers in the same Node process
+ */
+export class InProcessEventBroker implements EventBroker {
+  private emitter = new EventEmitter()
+
+  constructor() {
+    // One listener per open browser tab and channel
+    this.emitter.setMaxListeners(0)
+  }
+
+  publish(channel: string, event: RealtimeEvent) {
+    this.emitter.emit(channel, event)
+  }
+
+  subscribe(channel: string, listener: RealtimeListener) {
+    this.emitter.on(channel, listener)
+    return () => {
+      this.emitter.off(channel, listener)
+    }
+  }
+}
+
+// Kept on globalThis so route modules reloaded in development share one broker
+const globalForEvents = globalThis as unknown as {
+  eventBroker: EventBroker | undefined
+}
+
+export function getEventBroker(): EventBroker {
+  if (!globalForEvents.eventBroker) {
+    globalForEvents.eventBroker = new InProcessEventBroker()
+  }
+  return globalForEvents.eventBroker
+}
+
+/**
+ * Replace the broker, e.g. with one backed by a shared message bus
+ */
+export function setEventBroker(broker: EventBroker) {
+  globalForEvents.eventBroker = broker
+}
+
+export function orgChannel(orgId: string) {
+  return `org:${orgId}`
+}
+
+export function userChannel(userId: string) {
+  return `user:${userId}`
+}
+
+async function publish(channel: string, event: RealtimeEvent) {
+  try {
+    await getEventBroker().publish(channel, event)
+  } catch (error) {
+    // Clients catch up on their next refetch; a lost event must not fail the request
+    console.error("Failed to publish real-time event:", error)
+  }
+}
+
+/**
+ * Tell everyone watching an organization that its outlines or members changed.
+ * Call after the transaction has committed so listeners refetch the new data.
+ */
+export async function publishOrgEvent(event: Extract<RealtimeEvent, { organizationId: string }>) {
+  await publish(orgChannel(event.organizationId), event)
+}
+
+/**
+ * Tell users that they have new notifications
+ */
+export async function publishNotificationEvent(...userIds: (string | null | undefined)[]) {
+  const recipients = new Set(userIds.filter((id): id is string => !!id))
+  for (const userId of recipients) {
+    await publish(userChannel(userId), { type: "notification.created" })
+  }
+}
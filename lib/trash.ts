@@ -0,0 +1,31 @@
+/**
+ * Trash Configuration
+ *
+ * Deleted outlines and organizations are soft-deleted (`deletedAt` is set)
+ * and can be restored until the retention window passes. After that,
+ * `scripts/purge-trash.js` removes them permanently.
+ *
+ * Environment Variable: TRASH_RETENTION_DAYS
+ * - Default: 30
+ * - Must be a positive whole number; invalid values fall back to the default
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Number of days deleted items stay in the trash
+ */
+export function getTrashRetentionDays(): number {
+  const envValue = process.env.TRASH_RETENTION_DAYS
+  const days = envValue ? Number.parseInt(envValue, 10) : Number.NaN
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * Date after which a deleted item is purged
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  const purgeAt = new Date(deletedAt)
+  purgeAt.setDate(purgeAt.getDate() + getTrashRetentionDays())
+  return purgeAt
+}
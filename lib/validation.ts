@@ -1,4 +1,9 @@
 import { z } from "zod"
+import { assignableRoles, organizationRoles, DEFAULT_MEMBER_ROLE } from "./permissions"
+import type { OutlineStatusTransition } from "./outline-workflow"
+import { MAX_OUTLINE_CONTENT_LENGTH } from "./outline-content"
+import { MAX_IMPORT_FILE_LENGTH, outlineImportFields, outlineImportFormats } from "./outline-import"
+import { MAX_COMMENT_LENGTH } from "./comment-mentions"
 
 /**
  * Validation Schemas
@@ -23,15 +28,48 @@ export const joinOrgSchema = z.object({
     .trim(),
 })
 
+export const leaveOrgSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+})
+
+export const restoreOrgSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+})
+
 // Member invitation schema
 export const inviteMemberSchema = z.object({
   orgId: z.string().min(1, "Organization ID is required"),
-  email: z.string().email("Invalid email address"),
-  role: z.enum(["owner", "member"]).default("member"),
+  // Lowercased like account emails, so the invitation matches whoever signs up with it
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  role: z.enum(organizationRoles).default(DEFAULT_MEMBER_ROLE),
+})
+
+// Member role change schema
+export const updateMemberRoleSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  userId: z.string().min(1, "User ID is required"),
+  role: z.enum(assignableRoles),
+})
+
+// Ownership transfer schemas
+export const transferOwnershipSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  userId: z.string().min(1, "User ID is required"),
+  password: z.string().min(1, "Password is required"),
+})
+
+export const ownershipTransferActionSchema = z.object({
+  transferId: z.string().min(1, "Transfer ID is required"),
 })
 
 // Outline schemas
-export const outlineSectionTypes = [
+
+/**
+ * Vocabularies new organizations start with. Each organization manages its
+ * own lists afterwards (see `lib/outline-config.ts`). The default workflow
+ * between these statuses lives in `lib/outline-workflow.ts`.
+ */
+export const DEFAULT_OUTLINE_SECTION_TYPES = [
   "Table of Contents",
   "Executive Summary",
   "Technical Approach",
@@ -39,39 +77,357 @@ export const outlineSectionTypes = [
   "Capabilities",
   "Focus Document",
   "Narrative",
-] as const
+]
 
-export const outlineStatuses = ["Pending", "In-Progress", "Completed"] as const
+export const DEFAULT_OUTLINE_STATUSES = ["Draft", "In-Progress", "In Review", "Changes Requested", "Approved"]
+
+export interface OutlineConfig {
+  sectionTypes: string[]
+  statuses: string[]
+  transitions: OutlineStatusTransition[]
+}
+
+/**
+ * Restrict a field to one of the organization's configured values
+ */
+function configuredValue(values: string[], label: string) {
+  return z.string().refine((value) => values.includes(value), {
+    message: values.length > 0 ? `${label} must be one of: ${values.join(", ")}` : `No ${label.toLowerCase()} values are configured`,
+  })
+}
 
-export const outlineReviewers = ["Assim", "Bini", "Mami"] as const
+// Reviewer is a member's user ID, or null when unassigned. Membership is checked by the route.
+const outlineReviewerIdSchema = z.string().min(1, "Reviewer ID cannot be empty").nullable()
 
-export const createOutlineSchema = z.object({
+// Parent outline ID, or null for a top-level section. The tree is checked by the route.
+const outlineParentIdSchema = z.string().min(1, "Parent ID cannot be empty").nullable()
+
+const toUtcMidnight = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00.000Z`)
+
+// A calendar day ("YYYY-MM-DD"; a time part is ignored), stored as midnight UTC, or null for none
+const dueDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T.*)?$/, "Due date must be a date (YYYY-MM-DD)")
+  .refine(
+    (value) => {
+      // Rejects days that do not exist, such as February 30, instead of rolling them over
+      const date = toUtcMidnight(value)
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value.slice(0, 10))
+    },
+    { message: "Due date is not a valid date" }
+  )
+  .transform(toUtcMidnight)
+  .nullable()
+
+const outlineStatusCommentSchema = z
+  .string()
+  .trim()
+  .max(1000, "Comment must be less than 1000 characters")
+  .optional()
+  .transform((value) => value || null)
+
+const outlineHeaderSchema = z
+  .string()
+  .min(1, "Header is required")
+  .max(500, "Header must be less than 500 characters")
+  .trim()
+
+export const orgIdSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+})
+
+// Outline lists, trees, exports and imports cover one document
+export const documentScopeSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  documentId: z.string().min(1, "Document ID is required"),
+})
+
+export function createOutlineSchema(config: OutlineConfig) {
+  return z.object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    documentId: z.string().min(1, "Document ID is required"),
+    header: outlineHeaderSchema,
+    sectionType: configuredValue(config.sectionTypes, "Section type"),
+    // Outlines always enter the workflow at the first status
+    status: z
+      .string()
+      .refine((value) => value === config.statuses[0], {
+        message: config.statuses[0] ? `New outlines start as ${config.statuses[0]}` : "No status values are configured",
+      })
+      .default(config.statuses[0] ?? ""),
+    target: z.number().int().min(0).default(0),
+    limit: z.number().int().min(0).default(0),
+    reviewerId: outlineReviewerIdSchema.default(null),
+    dueDate: dueDateSchema.default(null),
+    // New outlines go at the end of their parent's sections
+    parentId: outlineParentIdSchema.default(null),
+  })
+}
+
+export function updateOutlineSchema(config: OutlineConfig) {
+  return z.object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    header: outlineHeaderSchema.optional(),
+    sectionType: configuredValue(config.sectionTypes, "Section type").optional(),
+    status: configuredValue(config.statuses, "Status").optional(),
+    // Stored with the status change; ignored when the status stays the same
+    statusComment: outlineStatusCommentSchema,
+    target: z.number().int().min(0).optional(),
+    limit: z.number().int().min(0).optional(),
+    reviewerId: outlineReviewerIdSchema.optional(),
+    dueDate: dueDateSchema.optional(),
+    // The version the edit was based on; a different current version is a conflict
+    version: z.number().int().min(1).optional(),
+  })
+}
+
+export const MAX_BULK_OUTLINES = 200
+
+export const bulkOutlineActions = ["update", "delete"] as const
+
+export function bulkOutlineSchema(config: OutlineConfig) {
+  return z.object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    ids: z
+      .array(z.string().min(1, "Outline ID cannot be empty"))
+      .min(1, "Select at least one outline")
+      .max(MAX_BULK_OUTLINES, `No more than ${MAX_BULK_OUTLINES} outlines can be changed at once`)
+      .transform((ids) => [...new Set(ids)]),
+    action: z.enum(bulkOutlineActions),
+    // Fields applied to every outline when action is "update"
+    status: configuredValue(config.statuses, "Status").optional(),
+    statusComment: outlineStatusCommentSchema,
+    sectionType: configuredValue(config.sectionTypes, "Section type").optional(),
+    reviewerId: outlineReviewerIdSchema.optional(),
+  })
+}
+
+export const updateOutlineContentSchema = z.object({
   orgId: z.string().min(1, "Organization ID is required"),
-  header: z
+  // Rich-text HTML; sanitized by the route before it is stored
+  body: z
     .string()
-    .min(1, "Header is required")
-    .max(500, "Header must be less than 500 characters")
-    .trim(),
-  sectionType: z.enum(outlineSectionTypes),
-  status: z.enum(outlineStatuses).default("Pending"),
-  target: z.number().int().min(0).default(0),
-  limit: z.number().int().min(0).default(0),
-  reviewer: z.enum(outlineReviewers).default("Assim"),
+    .max(MAX_OUTLINE_CONTENT_LENGTH, `Content must be less than ${MAX_OUTLINE_CONTENT_LENGTH.toLocaleString("en-US")} characters`),
 })
 
-export const updateOutlineSchema = z.object({
+export const importOutlinesSchema = z.object({
   orgId: z.string().min(1, "Organization ID is required"),
-  header: z
+  documentId: z.string().min(1, "Document ID is required"),
+  format: z.enum(outlineImportFormats),
+  // Raw file contents; parsed and validated row by row by the route
+  content: z
     .string()
-    .min(1, "Header is required")
-    .max(500, "Header must be less than 500 characters")
+    .min(1, "File is empty")
+    .max(MAX_IMPORT_FILE_LENGTH, `File must be less than ${MAX_IMPORT_FILE_LENGTH.toLocaleString("en-US")} characters`),
+  // Field -> column name; columns are matched by name when omitted
+  mapping: z.record(z.enum(outlineImportFields), z.string().min(1)).optional(),
+  // Validate and report without creating anything
+  dryRun: z.boolean().default(false),
+})
+
+export const outlinePresenceModes = ["viewing", "editing"] as const
+
+export type OutlinePresenceMode = (typeof outlinePresenceModes)[number]
+
+export const outlinePresenceSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  mode: z.enum(outlinePresenceModes),
+})
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(MAX_COMMENT_LENGTH, `Comment must be less than ${MAX_COMMENT_LENGTH.toLocaleString("en-US")} characters`)
+
+export const createCommentSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  body: commentBodySchema,
+  // Reply to this thread; replies to a reply join the same thread
+  parentId: z.string().min(1, "Parent ID cannot be empty").nullable().optional(),
+})
+
+export const updateCommentSchema = z
+  .object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    body: commentBodySchema.optional(),
+    resolved: z.boolean().optional(),
+  })
+  .refine((data) => data.body !== undefined || data.resolved !== undefined, {
+    message: "Nothing to update",
+  })
+
+export const moveOutlineSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  parentId: outlineParentIdSchema,
+  // Index among the new siblings, not counting the outline being moved
+  index: z.number().int().min(0),
+})
+
+const outlineOptionList = (label: string) =>
+  z
+    .array(z.string().trim().min(1, `${label} cannot be empty`).max(100, `${label} must be less than 100 characters`))
+    .min(1, `At least one ${label.toLowerCase()} is required`)
+    .max(50, `No more than 50 ${label.toLowerCase()} values are allowed`)
+    .refine((values) => new Set(values.map((value) => value.toLowerCase())).size === values.length, {
+      message: `${label} values must be unique`,
+    })
+
+const outlineTransitionSchema = z.object({
+  from: z.string().trim().min(1, "Transition source status is required"),
+  to: z.string().trim().min(1, "Transition target status is required"),
+  requiresReviewer: z.boolean().default(false),
+})
+
+export const updateOutlineSettingsSchema = z
+  .object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    sectionTypes: outlineOptionList("Section type"),
+    statuses: outlineOptionList("Status"),
+    transitions: z.array(outlineTransitionSchema).max(500, "No more than 500 transitions are allowed"),
+  })
+  .superRefine((data, ctx) => {
+    const seen = new Set<string>()
+    data.transitions.forEach((transition, index) => {
+      const key = `${transition.from}\n${transition.to}`
+      let message: string | null = null
+      if (!data.statuses.includes(transition.from) || !data.statuses.includes(transition.to)) {
+        message = `Transition ${transition.from} → ${transition.to} uses an unknown status`
+      } else if (transition.from === transition.to) {
+        message = `Transition ${transition.from} → ${transition.to} must change the status`
+      } else if (seen.has(key)) {
+        message = `Transition ${transition.from} → ${transition.to} is listed more than once`
+      }
+      seen.add(key)
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["transitions", index] })
+      }
+    })
+  })
+
+export const outlineSortFields = [
+  "header",
+  "sectionType",
+  "status",
+  "target",
+  "limit",
+  "wordCount",
+  "reviewer",
+  "dueDate",
+  "createdAt",
+  "updatedAt",
+] as const
+
+export type OutlineSortField = (typeof outlineSortFields)[number]
+
+// Ways a document's outlines can be shown; each user's last choice is remembered
+export const outlineViews = ["list", "tree", "calendar", "board"] as const
+
+export type OutlineView = (typeof outlineViews)[number]
+
+export const updateUserPreferencesSchema = z.object({
+  outlineView: z.enum(outlineViews),
+})
+
+export const listOutlinesQuerySchema = z.object({
+  orgId: z.string().min(1, "orgId is required"),
+  documentId: z.string().min(1, "documentId is required"),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  sortBy: z.enum(outlineSortFields).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  status: z.string().min(1).optional(),
+  sectionType: z.string().min(1).optional(),
+  // A member's user ID, or "unassigned" for outlines without a reviewer
+  reviewerId: z.string().min(1).optional(),
+  q: z.string().trim().max(200).optional(),
+})
+
+export const assignedOutlinesQuerySchema = z.object({
+  // Include outlines already in their organization's last (done) status
+  includeDone: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+})
+
+export const outlineStatsQuerySchema = z.object({
+  orgId: z.string().min(1, "orgId is required"),
+  // Figures for one document; the whole organization when omitted
+  documentId: z.string().min(1).optional(),
+  // How many days back the completion trend goes, today included
+  days: z.coerce.number().int().min(7).max(365).default(30),
+})
+
+export const outlineExportFormats = ["md", "docx", "pdf", "csv"] as const
+
+export type OutlineExportFormat = (typeof outlineExportFormats)[number]
+
+export const exportOutlinesQuerySchema = z.object({
+  orgId: z.string().min(1, "orgId is required"),
+  documentId: z.string().min(1, "documentId is required"),
+  format: z.enum(outlineExportFormats).default("md"),
+  // Append a table of each section's status, reviewer and word counts
+  appendix: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+})
+
+// Document schemas
+export const documentStatuses = ["Active", "Submitted", "Won", "Lost", "Archived"] as const
+
+export type DocumentStatus = (typeof documentStatuses)[number]
+
+const documentTitleSchema = z
+  .string()
+  .min(1, "Title is required")
+  .max(200, "Title must be less than 200 characters")
+  .trim()
+
+// Owner is a member's user ID, or null for none. Membership is checked by the route.
+const documentOwnerIdSchema = z.string().min(1, "Owner ID cannot be empty").nullable()
+
+export const createDocumentSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  title: documentTitleSchema,
+  status: z.enum(documentStatuses).default("Active"),
+  dueDate: dueDateSchema.default(null),
+  // Defaults to the member creating the document
+  ownerId: documentOwnerIdSchema.optional(),
+  // Sections of this template are created in the new document
+  templateId: z.string().min(1, "Template ID cannot be empty").optional(),
+})
+
+export const updateDocumentSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  title: documentTitleSchema.optional(),
+  status: z.enum(documentStatuses).optional(),
+  dueDate: dueDateSchema.optional(),
+  ownerId: documentOwnerIdSchema.optional(),
+})
+
+// Outline template schemas
+export const MAX_TEMPLATE_SECTIONS = 500
+
+const templateNameSchema = z
+  .string()
+  .min(1, "Name is required")
+  .max(100, "Name must be less than 100 characters")
+  .trim()
+
+export const createOutlineTemplateSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  // The document whose live outlines become the template's sections
+  documentId: z.string().min(1, "Document ID is required"),
+  name: templateNameSchema,
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
     .trim()
-    .optional(),
-  sectionType: z.enum(outlineSectionTypes).optional(),
-  status: z.enum(outlineStatuses).optional(),
-  target: z.number().int().min(0).optional(),
-  limit: z.number().int().min(0).optional(),
-  reviewer: z.enum(outlineReviewers).optional(),
+    .nullable()
+    .default(null)
+    .transform((value) => value || null),
 })
 
 // Auth schemas
@@ -111,6 +467,64 @@ export const joinRequestSchema = z.object({
   action: z.enum(["accept", "reject"]),
 })
 
+// Audit log schemas
+export const auditActions = [
+  "organization.created",
+  "organization.deleted",
+  "organization.restored",
+  "organization.purged",
+  "organization.settings_updated",
+  "outline.created",
+  "outline.updated",
+  "outline.deleted",
+  "outline.restored",
+  "outline.purged",
+  "outline.revision_restored",
+  "outline.moved",
+  "outline.content_updated",
+  "document.created",
+  "document.updated",
+  "document.deleted",
+  "template.created",
+  "template.deleted",
+  "member.invited",
+  "member.joined",
+  "member.removed",
+  "member.left",
+  "member.role_changed",
+  "invitation.accepted",
+  "invitation.rejected",
+  "ownership.transfer_requested",
+  "ownership.transferred",
+  "ownership.transfer_rejected",
+] as const
+
+export type AuditAction = (typeof auditActions)[number]
+
+export const auditTargetTypes = [
+  "organization",
+  "document",
+  "outline",
+  "template",
+  "member",
+  "invitation",
+  "ownership_transfer",
+] as const
+
+export type AuditTargetType = (typeof auditTargetTypes)[number]
+
+export const auditQuerySchema = z.object({
+  orgId: z.string().min(1, "orgId is required"),
+  action: z.enum(auditActions).optional(),
+  targetType: z.enum(auditTargetTypes).optional(),
+  targetId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+})
+
 /**
  * Generate a URL-safe slug from a string
  */
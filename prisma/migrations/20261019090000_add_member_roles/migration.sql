@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "OrganizationMember" ALTER COLUMN "role" SET DEFAULT 'viewer';
+
+-- Migrate legacy "member" roles to the read-only "viewer" role
+UPDATE "OrganizationMember" SET "role" = 'viewer' WHERE "role" = 'member';
+UPDATE "invitation" SET "role" = 'viewer' WHERE "role" = 'member';
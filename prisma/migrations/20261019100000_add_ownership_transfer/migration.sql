@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ownership_transfer" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+
+    CONSTRAINT "ownership_transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ownership_transfer_organizationId_idx" ON "ownership_transfer"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "ownership_transfer_toUserId_idx" ON "ownership_transfer"("toUserId");
+
+-- CreateIndex
+CREATE INDEX "ownership_transfer_status_idx" ON "ownership_transfer"("status");
+
+-- AddForeignKey
+ALTER TABLE "ownership_transfer" ADD CONSTRAINT "ownership_transfer_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ownership_transfer" ADD CONSTRAINT "ownership_transfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ownership_transfer" ADD CONSTRAINT "ownership_transfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
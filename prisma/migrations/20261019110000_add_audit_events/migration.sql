@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "audit_event" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT,
+    "changes" TEXT,
+    "metadata" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "organizationId" TEXT NOT NULL,
+    "actorId" TEXT,
+
+    CONSTRAINT "audit_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_event_organizationId_createdAt_idx" ON "audit_event"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_event_actorId_idx" ON "audit_event"("actorId");
+
+-- CreateIndex
+CREATE INDEX "audit_event_action_idx" ON "audit_event"("action");
+
+-- AddForeignKey
+ALTER TABLE "audit_event" ADD CONSTRAINT "audit_event_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
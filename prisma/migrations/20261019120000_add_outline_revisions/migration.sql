@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "outline_revision" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "header" TEXT NOT NULL,
+    "sectionType" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "target" INTEGER NOT NULL,
+    "limit" INTEGER NOT NULL,
+    "reviewer" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "outlineId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "restoredFromId" TEXT,
+
+    CONSTRAINT "outline_revision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outline_revision_outlineId_version_key" ON "outline_revision"("outlineId", "version");
+
+-- CreateIndex
+CREATE INDEX "outline_revision_authorId_idx" ON "outline_revision"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "outline_revision" ADD CONSTRAINT "outline_revision_outlineId_fkey" FOREIGN KEY ("outlineId") REFERENCES "Outline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_revision" ADD CONSTRAINT "outline_revision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing outlines start with their current state as version 1
+INSERT INTO "outline_revision" ("id", "version", "header", "sectionType", "status", "target", "limit", "reviewer", "createdAt", "outlineId")
+SELECT gen_random_uuid()::text, 1, "header", "sectionType", "status", "target", "limit", "reviewer", "updatedAt", "id"
+FROM "Outline";
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "organization" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "organization_deletedAt_idx" ON "organization"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Outline_deletedAt_idx" ON "Outline"("deletedAt");
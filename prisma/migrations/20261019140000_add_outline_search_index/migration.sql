@@ -0,0 +1,8 @@
+-- Trigram index so case-insensitive header search (ILIKE) stays fast on large organizations
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "Outline_header_trgm_idx" ON "Outline" USING GIN ("header" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Outline_organizationId_deletedAt_createdAt_idx" ON "Outline"("organizationId", "deletedAt", "createdAt");
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "outline_option" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "outline_option_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outline_option_organizationId_kind_value_key" ON "outline_option"("organizationId", "kind", "value");
+
+-- CreateIndex
+CREATE INDEX "outline_option_organizationId_kind_position_idx" ON "outline_option"("organizationId", "kind", "position");
+
+-- AddForeignKey
+ALTER TABLE "outline_option" ADD CONSTRAINT "outline_option_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: new outlines start unassigned
+ALTER TABLE "Outline" ALTER COLUMN "reviewer" SET DEFAULT '';
+
+-- Backfill: every existing organization keeps the previously hard-coded lists,
+-- followed by any other values its outlines already use
+WITH "defaults" ("kind", "value", "position") AS (
+    VALUES
+        ('section_type', 'Table of Contents', 0),
+        ('section_type', 'Executive Summary', 1),
+        ('section_type', 'Technical Approach', 2),
+        ('section_type', 'Design', 3),
+        ('section_type', 'Capabilities', 4),
+        ('section_type', 'Focus Document', 5),
+        ('section_type', 'Narrative', 6),
+        ('status', 'Pending', 0),
+        ('status', 'In-Progress', 1),
+        ('status', 'Completed', 2),
+        ('reviewer', 'Assim', 0),
+        ('reviewer', 'Bini', 1),
+        ('reviewer', 'Mami', 2)
+),
+"used" ("organizationId", "kind", "value") AS (
+    SELECT DISTINCT "organizationId", 'section_type', "sectionType" FROM "Outline"
+    UNION
+    SELECT DISTINCT "organizationId", 'status', "status" FROM "Outline"
+    UNION
+    SELECT DISTINCT "organizationId", 'reviewer', "reviewer" FROM "Outline" WHERE "reviewer" <> ''
+),
+"options" ("organizationId", "kind", "value", "position") AS (
+    SELECT o."id", d."kind", d."value", d."position"
+    FROM "organization" o
+    CROSS JOIN "defaults" d
+    UNION ALL
+    SELECT u."organizationId", u."kind", u."value",
+        (100 + ROW_NUMBER() OVER (PARTITION BY u."organizationId", u."kind" ORDER BY u."value"))::int
+    FROM "used" u
+    WHERE NOT EXISTS (
+        SELECT 1 FROM "defaults" d WHERE d."kind" = u."kind" AND d."value" = u."value"
+    )
+)
+INSERT INTO "outline_option" ("id", "kind", "value", "position", "organizationId")
+SELECT gen_random_uuid()::text, "kind", "value", "position", "organizationId"
+FROM "options";
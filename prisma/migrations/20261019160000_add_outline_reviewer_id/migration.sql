@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "reviewerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "outline_revision" ADD COLUMN "reviewerId" TEXT;
+
+-- Map legacy reviewer names to members of the outline's organization, matching
+-- the full name, the first name or the email (case-insensitive). Values that
+-- match nobody are left unassigned.
+CREATE TEMP TABLE "reviewer_map" AS
+SELECT DISTINCT ON (r."organizationId", r."reviewer")
+    r."organizationId", r."reviewer", m."userId"
+FROM (SELECT DISTINCT "organizationId", "reviewer" FROM "Outline" WHERE "reviewer" <> '') AS r
+JOIN "OrganizationMember" m ON m."organizationId" = r."organizationId"
+JOIN "user" u ON u."id" = m."userId"
+WHERE lower(u."name") = lower(r."reviewer")
+    OR lower(split_part(u."name", ' ', 1)) = lower(r."reviewer")
+    OR lower(u."email") = lower(r."reviewer")
+ORDER BY r."organizationId", r."reviewer",
+    (lower(u."name") = lower(r."reviewer")) DESC,
+    (lower(u."email") = lower(r."reviewer")) DESC,
+    m."createdAt" ASC;
+
+UPDATE "Outline" o
+SET "reviewerId" = rm."userId"
+FROM "reviewer_map" rm
+WHERE rm."organizationId" = o."organizationId" AND rm."reviewer" = o."reviewer";
+
+UPDATE "outline_revision" rev
+SET "reviewerId" = rm."userId"
+FROM "Outline" o, "reviewer_map" rm
+WHERE o."id" = rev."outlineId" AND rm."organizationId" = o."organizationId" AND rm."reviewer" = rev."reviewer";
+
+DROP TABLE "reviewer_map";
+
+-- AlterTable
+ALTER TABLE "Outline" DROP COLUMN "reviewer";
+
+-- AlterTable
+ALTER TABLE "outline_revision" DROP COLUMN "reviewer";
+
+-- Reviewers are organization members now, not a configurable list
+DELETE FROM "outline_option" WHERE "kind" = 'reviewer';
+
+-- CreateIndex
+CREATE INDEX "Outline_reviewerId_idx" ON "Outline"("reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "Outline" ADD CONSTRAINT "Outline_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
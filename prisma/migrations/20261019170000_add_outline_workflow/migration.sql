@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "outline_workflow_rule" (
+    "id" TEXT NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "requiresReviewer" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "outline_workflow_rule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outline_status_change" (
+    "id" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "outlineId" TEXT NOT NULL,
+    "actorId" TEXT,
+
+    CONSTRAINT "outline_status_change_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outline_workflow_rule_organizationId_fromStatus_toStatus_key" ON "outline_workflow_rule"("organizationId", "fromStatus", "toStatus");
+
+-- CreateIndex
+CREATE INDEX "outline_status_change_outlineId_createdAt_idx" ON "outline_status_change"("outlineId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "outline_status_change_actorId_idx" ON "outline_status_change"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "outline_workflow_rule" ADD CONSTRAINT "outline_workflow_rule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_status_change" ADD CONSTRAINT "outline_status_change_outlineId_fkey" FOREIGN KEY ("outlineId") REFERENCES "Outline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_status_change" ADD CONSTRAINT "outline_status_change_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing organizations get a linear workflow over their current
+-- statuses. Outlines move one step forward or back, and only the assigned
+-- reviewer can move an outline into the last (done) status.
+WITH "ordered" AS (
+    SELECT "organizationId", "value",
+        LEAD("value") OVER (PARTITION BY "organizationId" ORDER BY "position", "createdAt") AS "next",
+        ROW_NUMBER() OVER (PARTITION BY "organizationId" ORDER BY "position" DESC, "createdAt" DESC) = 2 AS "nextIsLast"
+    FROM "outline_option"
+    WHERE "kind" = 'status'
+)
+INSERT INTO "outline_workflow_rule" ("id", "fromStatus", "toStatus", "requiresReviewer", "organizationId")
+SELECT gen_random_uuid()::text, "value", "next", "nextIsLast", "organizationId"
+FROM "ordered" WHERE "next" IS NOT NULL
+UNION ALL
+SELECT gen_random_uuid()::text, "next", "value", false, "organizationId"
+FROM "ordered" WHERE "next" IS NOT NULL;
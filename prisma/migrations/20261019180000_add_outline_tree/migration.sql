@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "parentId" TEXT,
+ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Outline_organizationId_parentId_position_idx" ON "Outline"("organizationId", "parentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Outline" ADD CONSTRAINT "Outline_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Outline"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing outlines become top-level sections in creation order
+UPDATE "Outline" o
+SET "position" = ordered."position"
+FROM (
+    SELECT "id", (ROW_NUMBER() OVER (PARTITION BY "organizationId" ORDER BY "createdAt", "id") - 1)::integer AS "position"
+    FROM "Outline"
+    WHERE "deletedAt" IS NULL
+) ordered
+WHERE o."id" = ordered."id";
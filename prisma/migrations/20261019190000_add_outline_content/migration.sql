@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "wordCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "outline_content" (
+    "body" TEXT NOT NULL DEFAULT '',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "outlineId" TEXT NOT NULL,
+    "updatedById" TEXT,
+
+    CONSTRAINT "outline_content_pkey" PRIMARY KEY ("outlineId")
+);
+
+-- CreateIndex
+CREATE INDEX "outline_content_updatedById_idx" ON "outline_content"("updatedById");
+
+-- AddForeignKey
+ALTER TABLE "outline_content" ADD CONSTRAINT "outline_content_outlineId_fkey" FOREIGN KEY ("outlineId") REFERENCES "Outline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_content" ADD CONSTRAINT "outline_content_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
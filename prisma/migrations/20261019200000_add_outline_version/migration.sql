@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "comment" (
+    "id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "outlineId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "authorId" TEXT,
+    "resolvedById" TEXT,
+
+    CONSTRAINT "comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "comment_outlineId_createdAt_idx" ON "comment"("outlineId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "comment_parentId_idx" ON "comment"("parentId");
+
+-- CreateIndex
+CREATE INDEX "comment_authorId_idx" ON "comment"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "comment" ADD CONSTRAINT "comment_outlineId_fkey" FOREIGN KEY ("outlineId") REFERENCES "Outline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment" ADD CONSTRAINT "comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment" ADD CONSTRAINT "comment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comment" ADD CONSTRAINT "comment_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "dueDate" TIMESTAMP(3),
+ADD COLUMN "dueReminderSentAt" TIMESTAMP(3),
+ADD COLUMN "overdueReminderSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Outline_dueDate_idx" ON "Outline"("dueDate");
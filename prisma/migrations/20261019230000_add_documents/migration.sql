@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "document" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Active',
+    "dueDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "ownerId" TEXT,
+
+    CONSTRAINT "document_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "document_organizationId_createdAt_idx" ON "document"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "document_ownerId_idx" ON "document"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "document" ADD CONSTRAINT "document_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document" ADD CONSTRAINT "document_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Outline" ADD COLUMN "documentId" TEXT;
+
+-- Backfill: every organization with outlines (including trashed ones) gets a
+-- default document named after it and owned by its owner, holding them all
+INSERT INTO "document" ("id", "title", "status", "createdAt", "updatedAt", "organizationId", "ownerId")
+SELECT gen_random_uuid()::text, o."name", 'Active', o."createdAt", CURRENT_TIMESTAMP, o."id", o."ownerId"
+FROM "organization" o
+WHERE EXISTS (SELECT 1 FROM "Outline" ol WHERE ol."organizationId" = o."id");
+
+UPDATE "Outline" ol
+SET "documentId" = d."id"
+FROM "document" d
+WHERE d."organizationId" = ol."organizationId";
+
+-- AlterTable: every outline now belongs to a document
+ALTER TABLE "Outline" ALTER COLUMN "documentId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Outline_documentId_parentId_position_idx" ON "Outline"("documentId", "parentId", "position");
+
+-- CreateIndex
+CREATE INDEX "Outline_documentId_deletedAt_createdAt_idx" ON "Outline"("documentId", "deletedAt", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Outline" ADD CONSTRAINT "Outline_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
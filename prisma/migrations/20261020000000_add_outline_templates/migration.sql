@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "outline_template" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "outline_template_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outline_template_section" (
+    "id" TEXT NOT NULL,
+    "header" TEXT NOT NULL,
+    "sectionType" TEXT NOT NULL,
+    "target" INTEGER NOT NULL DEFAULT 0,
+    "limit" INTEGER NOT NULL DEFAULT 0,
+    "templateId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "outline_template_section_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outline_template_organizationId_createdAt_idx" ON "outline_template"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "outline_template_createdById_idx" ON "outline_template"("createdById");
+
+-- CreateIndex
+CREATE INDEX "outline_template_section_templateId_idx" ON "outline_template_section"("templateId");
+
+-- CreateIndex
+CREATE INDEX "outline_template_section_parentId_idx" ON "outline_template_section"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "outline_template" ADD CONSTRAINT "outline_template_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_template" ADD CONSTRAINT "outline_template_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_template_section" ADD CONSTRAINT "outline_template_section_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "outline_template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outline_template_section" ADD CONSTRAINT "outline_template_section_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "outline_template_section"("id") ON DELETE CASCADE ON UPDATE CASCADE;
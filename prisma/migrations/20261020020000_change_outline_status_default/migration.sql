@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Outline" ALTER COLUMN "status" SET DEFAULT 'Draft';
@@ -0,0 +1,94 @@
+const { PrismaClient } = require("@prisma/client")
+
+const prisma = new PrismaClient()
+
+// Keep in sync with lib/trash.ts
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+function getTrashRetentionDays() {
+  const envValue = process.env.TRASH_RETENTION_DAYS
+  const days = envValue ? Number.parseInt(envValue, 10) : Number.NaN
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * Permanently delete organizations and outlines that have been in the trash
+ * longer than TRASH_RETENTION_DAYS. Pass --dry-run to only list them.
+ *
+ * Run on a schedule, e.g. daily: `npm run db:purge-trash`
+ */
+async function purgeTrash() {
+  const dryRun = process.argv.includes("--dry-run")
+  const retentionDays = getTrashRetentionDays()
+  const cutoff = new Date()
+  cutoff.setDate(cutoff.getDate() - retentionDays)
+
+  console.log(`Purging trash older than ${retentionDays} days (deleted before ${cutoff.toISOString()})${dryRun ? " [dry run]" : ""}`)
+
+  const organizations = await prisma.organization.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    select: { id: true, name: true, slug: true, deletedAt: true },
+  })
+
+  // Outlines of purged organizations go with them through the cascade
+  const outlines = await prisma.outline.findMany({
+    where: {
+      deletedAt: { lt: cutoff },
+      organization: { deletedAt: null },
+    },
+    select: { id: true, header: true, organizationId: true, deletedAt: true },
+  })
+
+  console.log(`Found ${organizations.length} organization(s) and ${outlines.length} outline(s) to purge`)
+
+  if (dryRun) {
+    organizations.forEach((org) => console.log(`  organization ${org.id} "${org.name}"`))
+    outlines.forEach((outline) => console.log(`  outline ${outline.id} "${outline.header}"`))
+    return
+  }
+
+  for (const org of organizations) {
+    await prisma.$transaction([
+      prisma.organization.delete({ where: { id: org.id } }),
+      prisma.auditEvent.create({
+        data: {
+          organizationId: org.id,
+          action: "organization.purged",
+          targetType: "organization",
+          targetId: org.id,
+          metadata: JSON.stringify({ name: org.name, slug: org.slug, deletedAt: org.deletedAt }),
+        },
+      }),
+    ])
+    console.log(`Purged organization ${org.id} "${org.name}"`)
+  }
+
+  if (outlines.length > 0) {
+    await prisma.$transaction([
+      prisma.outline.deleteMany({
+        where: { id: { in: outlines.map((outline) => outline.id) } },
+      }),
+      prisma.auditEvent.createMany({
+        data: outlines.map((outline) => ({
+          organizationId: outline.organizationId,
+          action: "outline.purged",
+          targetType: "outline",
+          targetId: outline.id,
+          metadata: JSON.stringify({ header: outline.header, deletedAt: outline.deletedAt }),
+        })),
+      }),
+    ])
+    console.log(`Purged ${outlines.length} outline(s)`)
+  }
+
+  console.log("\nPurge completed successfully!")
+}
+
+purgeTrash()
+  .catch((e) => {
+    console.error("Purge error:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
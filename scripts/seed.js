@@ -36,44 +36,84 @@ async function seed() {
           },
         ],
       },
+      outlineOptions: {
+        create: [
+          ...["Table of Contents", "Executive Summary", "Technical Approach", "Design", "Capabilities", "Focus Document", "Narrative"].map(
+            (value, position) => ({ kind: "section_type", value, position })
+          ),
+          ...["Draft", "In-Progress", "In Review", "Changes Requested", "Approved"].map((value, position) => ({
+            kind: "status",
+            value,
+            position,
+          })),
+        ],
+      },
+      outlineWorkflow: {
+        create: [
+          { fromStatus: "Draft", toStatus: "In-Progress", requiresReviewer: false },
+          { fromStatus: "In-Progress", toStatus: "Draft", requiresReviewer: false },
+          { fromStatus: "In-Progress", toStatus: "In Review", requiresReviewer: false },
+          { fromStatus: "In Review", toStatus: "In-Progress", requiresReviewer: false },
+          { fromStatus: "In Review", toStatus: "Changes Requested", requiresReviewer: true },
+          { fromStatus: "In Review", toStatus: "Approved", requiresReviewer: true },
+          { fromStatus: "Changes Requested", toStatus: "In-Progress", requiresReviewer: false },
+          { fromStatus: "Approved", toStatus: "In-Progress", requiresReviewer: false },
+        ],
+      },
     },
   })
 
   console.log("Created organization:", org.name)
 
+  const document = await prisma.document.create({
+    data: {
+      organizationId: org.id,
+      title: "Sample Proposal",
+      ownerId: user.id,
+    },
+  })
+
+  console.log("Created document:", document.title)
+
   // Create sample outlines
   const outlines = await Promise.all([
     prisma.outline.create({
       data: {
         organizationId: org.id,
+        documentId: document.id,
         header: "Project Overview",
+        position: 0,
         sectionType: "Table of Contents",
-        status: "Completed",
+        status: "Approved",
         target: 100,
         limit: 100,
-        reviewer: "Assim",
+        reviewerId: user.id,
       },
     }),
     prisma.outline.create({
       data: {
         organizationId: org.id,
+        documentId: document.id,
         header: "Technical Architecture",
+        position: 1,
         sectionType: "Technical Approach",
         status: "In-Progress",
         target: 80,
         limit: 100,
-        reviewer: "Bini",
+        reviewerId: user.id,
       },
     }),
     prisma.outline.create({
       data: {
         organizationId: org.id,
+        documentId: document.id,
         header: "Design System",
+        position: 2,
         sectionType: "Design",
-        status: "Pending",
+        status: "Draft",
         target: 0,
         limit: 50,
-        reviewer: "Mami",
+        reviewerId: null,
       },
     }),
   ])
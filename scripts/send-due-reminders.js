@@ -0,0 +1,46 @@
+/**
+ * Send outline due-soon and overdue reminders by calling the app's cron
+ * route, which shares the notification and email code with the app.
+ * Pass --dry-run to only list what would be sent.
+ *
+ * Needs the app to be running at BETTER_AUTH_URL and CRON_SECRET to match
+ * the app's. Run on a schedule, e.g. daily: `npm run reminders:send`
+ */
+async function sendDueReminders() {
+  const dryRun = process.argv.includes("--dry-run")
+  const baseUrl = process.env.BETTER_AUTH_URL || "http://localhost:3000"
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    throw new Error("CRON_SECRET is not set")
+  }
+
+  console.log(`Sending outline reminders through ${baseUrl}${dryRun ? " [dry run]" : ""}`)
+
+  const response = await fetch(`${baseUrl}/api/cron/outline-reminders${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${body.message || body.error || response.statusText}`)
+  }
+
+  const result = body.data
+  console.log(body.message)
+  if (dryRun) {
+    result.reminders.forEach((reminder) =>
+      console.log(`  ${reminder.kind} outline ${reminder.outlineId} -> user ${reminder.recipientId}`)
+    )
+  } else {
+    console.log(`Emails sent: ${result.emails}`)
+  }
+
+  console.log("\nReminders completed successfully!")
+}
+
+sendDueReminders().catch((e) => {
+  console.error("Reminder error:", e)
+  process.exit(1)
+})